@@ -0,0 +1,407 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import {
+  Interceptor,
+  InterceptingCall,
+  Metadata,
+  ServerInterceptingCall,
+  ServerInterceptor,
+  StatusObject,
+  experimental,
+  status as Status,
+} from '@grpc/grpc-js';
+import {
+  Attributes,
+  Context,
+  Counter,
+  Histogram,
+  MeterProvider,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  TextMapGetter,
+  TextMapPropagator,
+  TextMapSetter,
+  TracerProvider,
+  Tracer,
+  context,
+  metrics,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+
+const INSTRUMENTATION_SCOPE = '@grpc/grpc-js-opentelemetry';
+
+/* Metric and attribute names from gRFC A66: OpenTelemetry Metrics
+ * https://github.com/grpc/proposal/blob/master/A66-otel-stats.md */
+const METHOD_ATTRIBUTE = 'grpc.method';
+const TARGET_ATTRIBUTE = 'grpc.target';
+const STATUS_ATTRIBUTE = 'grpc.status';
+
+const metadataSetter: TextMapSetter<Metadata> = {
+  set(carrier, key, value) {
+    carrier.set(key, value);
+  },
+};
+
+const metadataGetter: TextMapGetter<Metadata> = {
+  keys(carrier) {
+    return Object.keys(carrier.getMap());
+  },
+  get(carrier, key) {
+    const values = carrier
+      .get(key)
+      .filter((value): value is string => typeof value === 'string');
+    if (values.length === 0) {
+      return undefined;
+    }
+    return values.length === 1 ? values[0] : values;
+  },
+};
+
+export interface GrpcOpenTelemetryOptions {
+  /**
+   * The tracer provider to create spans with. The default is the global
+   * tracer provider.
+   */
+  tracerProvider?: TracerProvider;
+  /**
+   * The meter provider to record metrics with. The default is the global
+   * meter provider.
+   */
+  meterProvider?: MeterProvider;
+  /**
+   * The propagator that writes the trace context to outgoing metadata and
+   * reads it from incoming metadata. The default is the global propagator,
+   * which should be configured to use the W3C trace context format.
+   */
+  propagator?: TextMapPropagator;
+}
+
+/**
+ * Get the method name in the format used in span names and metric
+ * attributes, which is the method path without the leading slash.
+ * @param path
+ */
+function getMethodName(path: string) {
+  return path.startsWith('/') ? path.substring(1) : path;
+}
+
+function getElapsedSeconds(startTime: [number, number]) {
+  const [seconds, nanos] = process.hrtime(startTime);
+  return seconds + nanos / 1e9;
+}
+
+function endSpan(span: Span, code: Status, details: string) {
+  span.setAttribute('rpc.grpc.status_code', code);
+  if (code !== Status.OK) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: `${Status[code]}: ${details}`,
+    });
+  }
+  span.end();
+}
+
+/**
+ * Records traces and metrics of gRPC calls with OpenTelemetry. The
+ * interceptors returned by getClientInterceptor and getServerInterceptor
+ * should be passed to the clients and servers to instrument.
+ */
+export class GrpcOpenTelemetry {
+  private readonly tracer: Tracer;
+  private readonly propagator: TextMapPropagator;
+  private readonly clientAttemptStarted: Counter;
+  private readonly clientAttemptDuration: Histogram;
+  private readonly clientAttemptSentMessageSize: Histogram;
+  private readonly clientAttemptReceivedMessageSize: Histogram;
+  private readonly clientCallDuration: Histogram;
+  private readonly serverCallStarted: Counter;
+  private readonly serverCallDuration: Histogram;
+
+  constructor(options: GrpcOpenTelemetryOptions = {}) {
+    this.tracer = (
+      options.tracerProvider ?? trace.getTracerProvider()
+    ).getTracer(INSTRUMENTATION_SCOPE);
+    this.propagator = options.propagator ?? propagation;
+    const meter = (
+      options.meterProvider ?? metrics.getMeterProvider()
+    ).getMeter(INSTRUMENTATION_SCOPE);
+    this.clientAttemptStarted = meter.createCounter(
+      'grpc.client.attempt.started',
+      {
+        description: 'Number of client call attempts started',
+        unit: '{attempt}',
+      }
+    );
+    this.clientAttemptDuration = meter.createHistogram(
+      'grpc.client.attempt.duration',
+      {
+        description: 'Time taken to complete a client call attempt',
+        unit: 's',
+      }
+    );
+    this.clientAttemptSentMessageSize = meter.createHistogram(
+      'grpc.client.attempt.sent_total_compressed_message_size',
+      {
+        description: 'Compressed message bytes sent per client call attempt',
+        unit: 'By',
+      }
+    );
+    this.clientAttemptReceivedMessageSize = meter.createHistogram(
+      'grpc.client.attempt.rcvd_total_compressed_message_size',
+      {
+        description:
+          'Compressed message bytes received per client call attempt',
+        unit: 'By',
+      }
+    );
+    this.clientCallDuration = meter.createHistogram(
+      'grpc.client.call.duration',
+      {
+        description:
+          'Time taken by gRPC to complete a call from the application perspective',
+        unit: 's',
+      }
+    );
+    this.serverCallStarted = meter.createCounter('grpc.server.call.started', {
+      description: 'Number of server calls started',
+      unit: '{call}',
+    });
+    this.serverCallDuration = meter.createHistogram(
+      'grpc.server.call.duration',
+      {
+        description:
+          'Time taken to complete a call from the server perspective',
+        unit: 's',
+      }
+    );
+  }
+
+  private startClientAttempt(
+    info: experimental.CallAttemptInfo,
+    callContext: Context
+  ): experimental.CallAttemptTracer {
+    const method = getMethodName(info.method);
+    const startTime = process.hrtime();
+    const attributes: Attributes = {
+      [METHOD_ATTRIBUTE]: method,
+      [TARGET_ATTRIBUTE]: info.target,
+    };
+    this.clientAttemptStarted.add(1, attributes);
+    const span = this.tracer.startSpan(
+      `Attempt.${method}`,
+      {
+        kind: SpanKind.INTERNAL,
+        attributes: {
+          'previous-rpc-attempts': info.previousRpcAttempts,
+          'transparent-retry': info.transparentRetry,
+        },
+      },
+      callContext
+    );
+    let sentBytes = 0;
+    let sentMessages = 0;
+    let receivedBytes = 0;
+    let receivedMessages = 0;
+    return {
+      onStart: metadata => {
+        this.propagator.inject(
+          trace.setSpan(callContext, span),
+          metadata,
+          metadataSetter
+        );
+      },
+      onSendMessage: size => {
+        span.addEvent('Outbound message', {
+          'sequence-number': sentMessages,
+          'message-size-compressed': size,
+        });
+        sentMessages += 1;
+        sentBytes += size;
+      },
+      onReceiveMessage: size => {
+        span.addEvent('Inbound message', {
+          'sequence-number': receivedMessages,
+          'message-size-compressed': size,
+        });
+        receivedMessages += 1;
+        receivedBytes += size;
+      },
+      onEnd: status => {
+        const endAttributes: Attributes = {
+          ...attributes,
+          [STATUS_ATTRIBUTE]: Status[status.code],
+        };
+        this.clientAttemptDuration.record(
+          getElapsedSeconds(startTime),
+          endAttributes
+        );
+        this.clientAttemptSentMessageSize.record(sentBytes, endAttributes);
+        this.clientAttemptReceivedMessageSize.record(
+          receivedBytes,
+          endAttributes
+        );
+        endSpan(span, status.code, status.details);
+      },
+    };
+  }
+
+  /**
+   * Get an interceptor that records a span and metrics for each call made by
+   * a client, and for each attempt of those calls.
+   */
+  getClientInterceptor(): Interceptor {
+    return (options, nextCall) => {
+      const method = getMethodName(options.method_definition.path);
+      const startTime = process.hrtime();
+      const callSpan = this.tracer.startSpan(`Sent.${method}`, {
+        kind: SpanKind.CLIENT,
+      });
+      const callContext = trace.setSpan(context.active(), callSpan);
+      let target: string | null = null;
+      const existingTracer = options.call_tracer;
+      const callTracer: experimental.CallTracer = {
+        startAttempt: info => {
+          target = info.target;
+          const attemptTracer = this.startClientAttempt(info, callContext);
+          if (!existingTracer) {
+            return attemptTracer;
+          }
+          /* Another interceptor also traces this call, so report each
+           * event to both tracers. */
+          const existingAttemptTracer = existingTracer.startAttempt(info);
+          return {
+            onStart: metadata => {
+              attemptTracer.onStart?.(metadata);
+              existingAttemptTracer.onStart?.(metadata);
+            },
+            onSendMessage: size => {
+              attemptTracer.onSendMessage?.(size);
+              existingAttemptTracer.onSendMessage?.(size);
+            },
+            onReceiveMessage: size => {
+              attemptTracer.onReceiveMessage?.(size);
+              existingAttemptTracer.onReceiveMessage?.(size);
+            },
+            onCommit: reason => {
+              attemptTracer.onCommit?.(reason);
+              existingAttemptTracer.onCommit?.(reason);
+            },
+            onEnd: status => {
+              attemptTracer.onEnd?.(status);
+              existingAttemptTracer.onEnd?.(status);
+            },
+          };
+        },
+        onRetryDelay: info => {
+          existingTracer?.onRetryDelay?.(info);
+        },
+      };
+      return new InterceptingCall(
+        nextCall({ ...options, call_tracer: callTracer }),
+        {
+          start: (metadata, listener, next) => {
+            next(metadata, {
+              onReceiveStatus: (status: StatusObject, statusNext) => {
+                const attributes: Attributes = {
+                  [METHOD_ATTRIBUTE]: method,
+                  [STATUS_ATTRIBUTE]: Status[status.code],
+                };
+                if (target !== null) {
+                  attributes[TARGET_ATTRIBUTE] = target;
+                }
+                this.clientCallDuration.record(
+                  getElapsedSeconds(startTime),
+                  attributes
+                );
+                endSpan(callSpan, status.code, status.details);
+                statusNext(status);
+              },
+            });
+          },
+        }
+      );
+    };
+  }
+
+  /**
+   * Get an interceptor that records a span and metrics for each call handled
+   * by a server. The span continues the trace that the client propagated in
+   * the request metadata, if any.
+   */
+  getServerInterceptor(): ServerInterceptor {
+    return (methodDescriptor, call) => {
+      const method = getMethodName(methodDescriptor.path);
+      const startTime = process.hrtime();
+      this.serverCallStarted.add(1, { [METHOD_ATTRIBUTE]: method });
+      let span: Span | null = null;
+      /* The context that the handler runs in, so that spans it starts are
+       * children of the server span. */
+      let spanContext: Context = ROOT_CONTEXT;
+      let ended = false;
+      const end = (code: Status, details: string) => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+        this.serverCallDuration.record(getElapsedSeconds(startTime), {
+          [METHOD_ATTRIBUTE]: method,
+          [STATUS_ATTRIBUTE]: Status[code],
+        });
+        if (span) {
+          endSpan(span, code, details);
+        }
+      };
+      return new ServerInterceptingCall(call, {
+        start: next => {
+          next({
+            onReceiveMetadata: (metadata, metadataNext) => {
+              const parentContext = this.propagator.extract(
+                ROOT_CONTEXT,
+                metadata,
+                metadataGetter
+              );
+              span = this.tracer.startSpan(
+                `Recv.${method}`,
+                { kind: SpanKind.SERVER },
+                parentContext
+              );
+              spanContext = trace.setSpan(parentContext, span);
+              context.with(spanContext, () => metadataNext(metadata));
+            },
+            onReceiveMessage: (message, messageNext) => {
+              context.with(spanContext, () => messageNext(message));
+            },
+            onReceiveHalfClose: halfCloseNext => {
+              context.with(spanContext, halfCloseNext);
+            },
+            onCancel: () => {
+              end(Status.CANCELLED, 'Cancelled by client');
+            },
+          });
+        },
+        sendStatus: (status, next) => {
+          end(status.code, status.details);
+          next(status);
+        },
+      });
+    };
+  }
+}
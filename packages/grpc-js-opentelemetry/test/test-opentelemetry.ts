@@ -0,0 +1,259 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as grpc from '@grpc/grpc-js';
+import { SpanKind, SpanStatusCode, context, trace } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import {
+  AggregationTemporality,
+  DataPoint,
+  Histogram,
+  InMemoryMetricExporter,
+  MeterProvider,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { GrpcOpenTelemetry } from '../src';
+
+const METHOD_NAME = 'test.EchoService/Echo';
+
+const echoServiceDefinition: grpc.ServiceDefinition = {
+  echo: {
+    path: `/${METHOD_NAME}`,
+    requestStream: false,
+    responseStream: false,
+    requestSerialize: (value: Buffer) => value,
+    requestDeserialize: (value: Buffer) => value,
+    responseSerialize: (value: Buffer) => value,
+    responseDeserialize: (value: Buffer) => value,
+  },
+};
+
+const EchoClient = grpc.makeGenericClientConstructor(
+  echoServiceDefinition,
+  'EchoService'
+);
+
+const retryServiceConfig = {
+  loadBalancingConfig: [],
+  methodConfig: [
+    {
+      name: [{ service: 'test.EchoService' }],
+      retryPolicy: {
+        maxAttempts: 3,
+        initialBackoff: '0.01s',
+        maxBackoff: '0.1s',
+        backoffMultiplier: 1.5,
+        retryableStatusCodes: ['UNAVAILABLE'],
+      },
+    },
+  ],
+};
+
+describe('GrpcOpenTelemetry', () => {
+  let spanExporter: InMemorySpanExporter;
+  let metricExporter: InMemoryMetricExporter;
+  let metricReader: PeriodicExportingMetricReader;
+  let openTelemetry: GrpcOpenTelemetry;
+  let server: grpc.Server;
+  let client: grpc.Client;
+  /* The server fails attempts with UNAVAILABLE until this many attempts were
+   * made before the current one. */
+  let failedAttempts = 0;
+  /* The ID of the span that was active when the handler last ran. */
+  let handlerSpanId: string | undefined;
+  before(() => {
+    context.setGlobalContextManager(new AsyncHooksContextManager().enable());
+  });
+  after(() => {
+    context.disable();
+  });
+  beforeEach(done => {
+    failedAttempts = 0;
+    spanExporter = new InMemorySpanExporter();
+    const tracerProvider = new BasicTracerProvider();
+    tracerProvider.addSpanProcessor(new SimpleSpanProcessor(spanExporter));
+    metricExporter = new InMemoryMetricExporter(
+      AggregationTemporality.CUMULATIVE
+    );
+    metricReader = new PeriodicExportingMetricReader({
+      exporter: metricExporter,
+      exportIntervalMillis: 60_000,
+    });
+    const meterProvider = new MeterProvider({ readers: [metricReader] });
+    openTelemetry = new GrpcOpenTelemetry({
+      tracerProvider,
+      meterProvider,
+      propagator: new W3CTraceContextPropagator(),
+    });
+    server = new grpc.Server({
+      interceptors: [openTelemetry.getServerInterceptor()],
+    });
+    server.addService(echoServiceDefinition, {
+      echo: (
+        call: grpc.ServerUnaryCall<Buffer, Buffer>,
+        callback: grpc.sendUnaryData<Buffer>
+      ) => {
+        handlerSpanId = trace.getActiveSpan()?.spanContext().spanId;
+        const previousAttempts = Number(
+          call.metadata.get('grpc-previous-rpc-attempts')[0] ?? 0
+        );
+        if (previousAttempts < failedAttempts) {
+          callback({ code: grpc.status.UNAVAILABLE, details: 'Try again' });
+        } else {
+          callback(null, call.request);
+        }
+      },
+    });
+    server.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        if (error) {
+          done(error);
+          return;
+        }
+        client = new EchoClient(
+          `localhost:${port}`,
+          grpc.credentials.createInsecure(),
+          {
+            interceptors: [openTelemetry.getClientInterceptor()],
+            'grpc.service_config': JSON.stringify(retryServiceConfig),
+          }
+        );
+        done();
+      }
+    );
+  });
+  afterEach(async () => {
+    client.close();
+    server.forceShutdown();
+    await metricReader.shutdown();
+  });
+  function sendRequest(request: Buffer): Promise<grpc.ServiceError | null> {
+    return new Promise(resolve => {
+      client.makeUnaryRequest(
+        `/${METHOD_NAME}`,
+        (value: Buffer) => value,
+        (value: Buffer) => value,
+        request,
+        (error: grpc.ServiceError | null) => {
+          resolve(error);
+        }
+      );
+    });
+  }
+  function getSpans(name: string): ReadableSpan[] {
+    return spanExporter
+      .getFinishedSpans()
+      .filter(span => span.name === `${name}.${METHOD_NAME}`);
+  }
+  async function getDataPoints(metricName: string): Promise<DataPoint<any>[]> {
+    await metricReader.forceFlush();
+    const resourceMetrics = metricExporter.getMetrics();
+    const latest = resourceMetrics[resourceMetrics.length - 1];
+    for (const scopeMetrics of latest.scopeMetrics) {
+      for (const metric of scopeMetrics.metrics) {
+        if (metric.descriptor.name === metricName) {
+          return metric.dataPoints;
+        }
+      }
+    }
+    return [];
+  }
+  it('Should propagate the trace context from client to server', async () => {
+    assert.ifError(await sendRequest(Buffer.from('hello')));
+    const [callSpan] = getSpans('Sent');
+    const [attemptSpan] = getSpans('Attempt');
+    const [serverSpan] = getSpans('Recv');
+    assert.strictEqual(callSpan.kind, SpanKind.CLIENT);
+    assert.strictEqual(serverSpan.kind, SpanKind.SERVER);
+    const traceId = callSpan.spanContext().traceId;
+    assert.strictEqual(attemptSpan.spanContext().traceId, traceId);
+    assert.strictEqual(serverSpan.spanContext().traceId, traceId);
+    assert.strictEqual(attemptSpan.parentSpanId, callSpan.spanContext().spanId);
+    assert.strictEqual(
+      serverSpan.parentSpanId,
+      attemptSpan.spanContext().spanId
+    );
+    assert.deepStrictEqual(
+      attemptSpan.events.map(event => event.name),
+      ['Outbound message', 'Inbound message']
+    );
+  });
+  it('Should run the server handler in the server span context', async () => {
+    assert.ifError(await sendRequest(Buffer.from('hello')));
+    const [serverSpan] = getSpans('Recv');
+    assert.strictEqual(handlerSpanId, serverSpan.spanContext().spanId);
+  });
+  it('Should record a span and metrics for each attempt', async () => {
+    failedAttempts = 1;
+    assert.ifError(await sendRequest(Buffer.from('hello')));
+    assert.strictEqual(getSpans('Sent').length, 1);
+    const attemptSpans = getSpans('Attempt');
+    assert.strictEqual(attemptSpans.length, 2);
+    assert.strictEqual(attemptSpans[0].status.code, SpanStatusCode.ERROR);
+    assert.strictEqual(attemptSpans[1].status.code, SpanStatusCode.UNSET);
+    assert.strictEqual(attemptSpans[1].attributes['previous-rpc-attempts'], 1);
+    assert.strictEqual(attemptSpans[1].attributes['transparent-retry'], false);
+    const startedPoints = await getDataPoints('grpc.client.attempt.started');
+    assert.strictEqual(startedPoints.length, 1);
+    assert.strictEqual(startedPoints[0].value, 2);
+    assert.strictEqual(startedPoints[0].attributes['grpc.method'], METHOD_NAME);
+    const durationPoints = await getDataPoints('grpc.client.attempt.duration');
+    assert.deepStrictEqual(
+      durationPoints.map(point => point.attributes['grpc.status']).sort(),
+      ['OK', 'UNAVAILABLE']
+    );
+    const callPoints = await getDataPoints('grpc.client.call.duration');
+    assert.strictEqual(callPoints.length, 1);
+    assert.strictEqual(callPoints[0].attributes['grpc.status'], 'OK');
+    assert.strictEqual((callPoints[0].value as Histogram).count, 1);
+  });
+  it('Should record message sizes', async () => {
+    assert.ifError(await sendRequest(Buffer.alloc(100)));
+    const sentPoints = await getDataPoints(
+      'grpc.client.attempt.sent_total_compressed_message_size'
+    );
+    assert.strictEqual((sentPoints[0].value as Histogram).sum, 100);
+    const receivedPoints = await getDataPoints(
+      'grpc.client.attempt.rcvd_total_compressed_message_size'
+    );
+    assert.strictEqual((receivedPoints[0].value as Histogram).sum, 100);
+  });
+  it('Should record server call durations with the status', async () => {
+    failedAttempts = 5;
+    const error = await sendRequest(Buffer.from('hello'));
+    assert.strictEqual(error?.code, grpc.status.UNAVAILABLE);
+    const startedPoints = await getDataPoints('grpc.server.call.started');
+    assert.strictEqual(startedPoints[0].value, 3);
+    const durationPoints = await getDataPoints('grpc.server.call.duration');
+    assert.strictEqual(durationPoints.length, 1);
+    assert.strictEqual(
+      durationPoints[0].attributes['grpc.status'],
+      'UNAVAILABLE'
+    );
+    assert.strictEqual((durationPoints[0].value as Histogram).count, 3);
+  });
+});
@@ -64,6 +64,9 @@ const runTests = checkTask(() => {
   process.env.GRPC_EXPERIMENTAL_XDS_FEDERATION = 'true';
   process.env.GRPC_EXPERIMENTAL_XDS_CUSTOM_LB_CONFIG = 'true';
   process.env.GRPC_EXPERIMENTAL_PICKFIRST_LB_CONFIG = 'true';
+  process.env.GRPC_EXPERIMENTAL_XDS_FALLBACK = 'true';
+  process.env.GRPC_EXPERIMENTAL_XDS_RLS_LB = 'true';
+  process.env.GRPC_EXPERIMENTAL_XDS_ENABLE_OVERRIDE_HOST = 'true';
   if (Number(process.versions.node.split('.')[0]) > 14) {
     process.env.GRPC_XDS_EXPERIMENTAL_ENABLE_RING_HASH = 'true';
   }
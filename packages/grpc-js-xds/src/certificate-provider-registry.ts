@@ -0,0 +1,90 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { experimental, logVerbosity } from '@grpc/grpc-js';
+import CertificateProvider = experimental.CertificateProvider;
+import FileWatcherCertificateProvider = experimental.FileWatcherCertificateProvider;
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+const TRACER_NAME = 'certificate_provider_registry';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+/**
+ * Create a certificate provider from the config object in a bootstrap
+ * certificate_providers entry. Throws an error if the config is invalid.
+ */
+export interface CertificateProviderFactory {
+  (config: any): CertificateProvider;
+}
+
+const registry: {[pluginName: string]: CertificateProviderFactory} = {};
+
+export function registerCertificateProviderPlugin(pluginName: string, factory: CertificateProviderFactory) {
+  registry[pluginName] = factory;
+}
+
+export function isCertificateProviderPluginRegistered(pluginName: string): boolean {
+  return pluginName in registry;
+}
+
+export function createCertificateProvider(pluginName: string, config: any): CertificateProvider {
+  if (!(pluginName in registry)) {
+    throw new Error(`Unknown certificate provider plugin ${pluginName}`);
+  }
+  trace('Creating certificate provider with plugin ' + pluginName);
+  return registry[pluginName](config);
+}
+
+const DEFAULT_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Parse a duration in the protobuf JSON format, such as "1.5s"
+ * @param value
+ * @returns The duration in milliseconds
+ */
+function parseJsonDuration(value: string): number {
+  const match = /^(\d+)(?:\.(\d{1,9}))?s$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid duration ${value}`);
+  }
+  return Number.parseInt(match[1]) * 1000 + Number.parseInt((match[2] ?? '0').padEnd(9, '0')) / 1_000_000;
+}
+
+function createFileWatcherCertificateProvider(config: any): CertificateProvider {
+  if (typeof config !== 'object' || config === null) {
+    throw new Error('file_watcher config must be an object');
+  }
+  for (const field of ['certificate_file', 'private_key_file', 'ca_certificate_file', 'refresh_interval']) {
+    if (field in config && typeof config[field] !== 'string') {
+      throw new Error(`file_watcher config field ${field}: expected string, got ${typeof config[field]}`);
+    }
+  }
+  /* The FileWatcherCertificateProvider constructor checks which combinations
+   * of files are allowed. */
+  return new FileWatcherCertificateProvider({
+    certificateFile: config.certificate_file,
+    privateKeyFile: config.private_key_file,
+    caCertificateFile: config.ca_certificate_file,
+    refreshIntervalMs: config.refresh_interval ? parseJsonDuration(config.refresh_interval) : DEFAULT_REFRESH_INTERVAL_MS
+  });
+}
+
+registerCertificateProviderPlugin('file_watcher', createFileWatcherCertificateProvider);
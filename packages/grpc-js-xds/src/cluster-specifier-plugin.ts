@@ -0,0 +1,128 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// This is a non-public, unstable API, but it's very convenient
+import { loadProtosWithOptionsSync } from '@grpc/proto-loader/build/src/util';
+import { experimental, LoadBalancingConfig, logVerbosity } from '@grpc/grpc-js';
+import { ClusterSpecifierPlugin__Output } from './generated/envoy/config/route/v3/ClusterSpecifierPlugin';
+import { Any__Output } from './generated/google/protobuf/Any';
+import { Duration__Output } from './generated/google/protobuf/Duration';
+import { RouteLookupClusterSpecifier__Output } from './generated/grpc/lookup/v1/RouteLookupClusterSpecifier';
+import { RouteLookupConfig__Output } from './generated/grpc/lookup/v1/RouteLookupConfig';
+
+const TRACER_NAME = 'cluster_specifier_plugin';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const RLS_CLUSTER_SPECIFIER_TYPE_URL = 'type.googleapis.com/grpc.lookup.v1.RouteLookupClusterSpecifier';
+
+/**
+ * The prefix of the cluster names that the resolver uses for the child
+ * policies of cluster specifier plugins in the xds_cluster_manager config.
+ */
+export const CLUSTER_SPECIFIER_PLUGIN_CLUSTER_PREFIX = 'cluster_specifier_plugin:';
+
+const resourceRoot = loadProtosWithOptionsSync([
+  'grpc/lookup/v1/rls_config.proto'], {
+    keepCase: true,
+    includeDirs: [
+      // Paths are relative to build/src
+      __dirname + '/../../proto/'
+    ],
+  }
+);
+
+const toObjectOptions = {
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true
+}
+
+function decodeRouteLookupClusterSpecifier(message: Any__Output): RouteLookupClusterSpecifier__Output {
+  const name = message.type_url.substring(message.type_url.lastIndexOf('/') + 1);
+  const type = resourceRoot.lookup(name);
+  if (type) {
+    const decodedMessage = (type as any).decode(message.value);
+    return decodedMessage.$type.toObject(decodedMessage, toObjectOptions) as RouteLookupClusterSpecifier__Output;
+  } else {
+    throw new Error(`Cluster specifier plugin parsing error: unexpected type URL ${message.type_url}`);
+  }
+}
+
+function durationToJson(duration: Duration__Output | null): string | undefined {
+  if (!duration) {
+    return undefined;
+  }
+  return `${Number.parseInt(duration.seconds) + duration.nanos / 1_000_000_000}s`;
+}
+
+/**
+ * Convert a RouteLookupConfig message to the JSON representation used in the
+ * rls_experimental LB policy config.
+ * @param config
+ */
+function routeLookupConfigToJson(config: RouteLookupConfig__Output): object {
+  return {
+    grpcKeybuilders: config.grpc_keybuilders.map(keyBuilder => ({
+      names: keyBuilder.names.map(name => ({service: name.service, method: name.method})),
+      headers: keyBuilder.headers.map(header => ({key: header.key, names: header.names, requiredMatch: header.required_match})),
+      extraKeys: keyBuilder.extra_keys ? {
+        host: keyBuilder.extra_keys.host,
+        service: keyBuilder.extra_keys.service,
+        method: keyBuilder.extra_keys.method
+      } : undefined,
+      constantKeys: keyBuilder.constant_keys
+    })),
+    lookupService: config.lookup_service,
+    lookupServiceTimeout: durationToJson(config.lookup_service_timeout),
+    maxAge: durationToJson(config.max_age),
+    staleAge: durationToJson(config.stale_age),
+    cacheSizeBytes: Number(config.cache_size_bytes),
+    defaultTarget: config.default_target || undefined
+  };
+}
+
+/**
+ * Get the LB policy config for a cluster specifier plugin.
+ * @param plugin
+ * @returns The LB policy config, or null if the plugin type is not supported
+ * @throws Error if the plugin type is supported but its config is invalid
+ */
+export function getClusterSpecifierPluginLbConfig(plugin: ClusterSpecifierPlugin__Output): LoadBalancingConfig | null {
+  const typedConfig = plugin.extension?.typed_config;
+  if (!typedConfig || typedConfig.type_url !== RLS_CLUSTER_SPECIFIER_TYPE_URL) {
+    trace('Unsupported cluster specifier plugin type ' + typedConfig?.type_url);
+    return null;
+  }
+  const specifier = decodeRouteLookupClusterSpecifier(typedConfig);
+  if (!specifier.route_lookup_config) {
+    throw new Error('RouteLookupClusterSpecifier missing route_lookup_config');
+  }
+  const lbConfig: LoadBalancingConfig = {
+    rls_experimental: {
+      routeLookupConfig: routeLookupConfigToJson(specifier.route_lookup_config),
+      childPolicy: [{cds: {}}],
+      childPolicyConfigTargetFieldName: 'cluster'
+    }
+  };
+  // Throws if the config is invalid
+  experimental.parseLoadBalancingConfig(lbConfig);
+  return lbConfig;
+}
@@ -24,6 +24,8 @@ import { xdsResourceNameToString } from "./resources";
 import { sendUnaryData, ServerDuplexStream, ServerUnaryCall, status, experimental, loadPackageDefinition, logVerbosity } from '@grpc/grpc-js';
 import { loadSync } from "@grpc/proto-loader";
 import { ProtoGrpcType as CsdsProtoGrpcType } from "./generated/csds";
+import { Node } from "./generated/envoy/config/core/v3/Node";
+import { Value } from "./generated/google/protobuf/Value";
 
 import registerAdminService = experimental.registerAdminService;
 import { XdsClient } from "./xds-client";
@@ -46,12 +48,56 @@ function dateToProtoTimestamp(date?: Date | null): Timestamp | null {
   }
 }
 
+/**
+ * The key of the node metadata field that reports which xDS server each
+ * authority currently gets resources from.
+ */
+const SERVERS_IN_USE_METADATA_KEY = 'grpc.xds.servers_in_use';
+
 const registeredClients: XdsClient[] = [];
 
 export function registerXdsClientWithCsds(client: XdsClient) {
   registeredClients.push(client);
 }
 
+export function unregisterXdsClientWithCsds(client: XdsClient) {
+  const index = registeredClients.indexOf(client);
+  if (index >= 0) {
+    registeredClients.splice(index, 1);
+  }
+}
+
+/**
+ * Add a field to the node metadata that maps each authority to the URI of
+ * the xDS server that it currently gets resources from, which can be a
+ * fallback server if the higher priority servers are unreachable. The
+ * authority of resource names without one is represented as an empty string.
+ * @param node
+ * @param client
+ */
+function addServersInUseToNode(node: Node, client: XdsClient): Node {
+  const serverFields: {[authority: string]: Value} = {};
+  for (const [authority, authorityState] of client.authorityStateMap) {
+    const currentClient = authorityState.clients[authorityState.clients.length - 1];
+    serverFields[authority === 'old:' ? '' : authority] = {
+      kind: 'stringValue',
+      stringValue: currentClient.xdsServerConfig.server_uri
+    };
+  }
+  return {
+    ...node,
+    metadata: {
+      fields: {
+        ...node.metadata?.fields,
+        [SERVERS_IN_USE_METADATA_KEY]: {
+          kind: 'structValue',
+          structValue: {fields: serverFields}
+        }
+      }
+    }
+  };
+}
+
 function getCurrentConfigList(): ClientConfig[] {
   const result: ClientConfig[] = [];
   for (const client of registeredClients) {
@@ -82,7 +128,7 @@ function getCurrentConfigList(): ClientConfig[] {
       }
     }
     result.push({
-      node: client.adsNode,
+      node: addServersInUseToNode(client.adsNode, client),
       generic_xds_configs: genericConfigList
     });
   }
@@ -23,3 +23,8 @@ export const EXPERIMENTAL_CUSTOM_LB_CONFIG = (process.env.GRPC_EXPERIMENTAL_XDS_
 export const EXPERIMENTAL_RING_HASH = (process.env.GRPC_XDS_EXPERIMENTAL_ENABLE_RING_HASH ?? 'false') === 'true';
 export const EXPERIMENTAL_PICK_FIRST = (process.env.GRPC_EXPERIMENTAL_PICKFIRST_LB_CONFIG ?? 'false') === 'true';
 export const EXPERIMENTAL_DUALSTACK_ENDPOINTS = (process.env.GRPC_EXPERIMENTAL_XDS_DUALSTACK_ENDPOINTS ?? 'false') === 'true';
+export const EXPERIMENTAL_WRR = (process.env.GRPC_EXPERIMENTAL_XDS_WRR_LB ?? 'false') === 'true';
+export const EXPERIMENTAL_LEAST_REQUEST = (process.env.GRPC_EXPERIMENTAL_ENABLE_LEAST_REQUEST ?? 'false') === 'true';
+export const EXPERIMENTAL_XDS_FALLBACK = (process.env.GRPC_EXPERIMENTAL_XDS_FALLBACK ?? 'false') === 'true';
+export const EXPERIMENTAL_RLS_LB = (process.env.GRPC_EXPERIMENTAL_XDS_RLS_LB ?? 'false') === 'true';
+export const EXPERIMENTAL_OVERRIDE_HOST = (process.env.GRPC_EXPERIMENTAL_XDS_ENABLE_OVERRIDE_HOST ?? 'false') === 'true';
@@ -0,0 +1,102 @@
+// Original file: deps/envoy-api/envoy/extensions/load_balancing_policies/least_request/v3/least_request.proto
+
+import type { UInt32Value as _google_protobuf_UInt32Value, UInt32Value__Output as _google_protobuf_UInt32Value__Output } from '../../../../../google/protobuf/UInt32Value';
+import type { RuntimeDouble as _envoy_config_core_v3_RuntimeDouble, RuntimeDouble__Output as _envoy_config_core_v3_RuntimeDouble__Output } from '../../../../../envoy/config/core/v3/RuntimeDouble';
+import type { SlowStartConfig as _envoy_extensions_load_balancing_policies_common_v3_SlowStartConfig, SlowStartConfig__Output as _envoy_extensions_load_balancing_policies_common_v3_SlowStartConfig__Output } from '../../../../../envoy/extensions/load_balancing_policies/common/v3/SlowStartConfig';
+import type { LocalityLbConfig as _envoy_extensions_load_balancing_policies_common_v3_LocalityLbConfig, LocalityLbConfig__Output as _envoy_extensions_load_balancing_policies_common_v3_LocalityLbConfig__Output } from '../../../../../envoy/extensions/load_balancing_policies/common/v3/LocalityLbConfig';
+
+/**
+ * This configuration allows the built-in LEAST_REQUEST LB policy to be configured via the LB policy
+ * extension point. See the :ref:`load balancing architecture overview
+ * <arch_overview_load_balancing_types>` for more information.
+ */
+export interface LeastRequest {
+  /**
+   * The number of random healthy hosts from which the host with the fewest active requests will
+   * be chosen. Defaults to 2 so that we perform two-choice selection if the field is not set.
+   */
+  'choice_count'?: (_google_protobuf_UInt32Value | null);
+  /**
+   * The following formula is used to calculate the dynamic weights when hosts have different load
+   * balancing weights:
+   * 
+   * ``weight = load_balancing_weight / (active_requests + 1)^active_request_bias``
+   * 
+   * The larger the active request bias is, the more aggressively active requests will lower the
+   * effective weight when all host weights are not equal.
+   * 
+   * ``active_request_bias`` must be greater than or equal to 0.0.
+   * 
+   * When ``active_request_bias == 0.0`` the Least Request Load Balancer doesn't consider the number
+   * of active requests at the time it picks a host and behaves like the Round Robin Load
+   * Balancer.
+   * 
+   * When ``active_request_bias > 0.0`` the Least Request Load Balancer scales the load balancing
+   * weight by the number of active requests at the time it does a pick.
+   * 
+   * The value is cached for performance reasons and refreshed whenever one of the Load Balancer's
+   * host sets changes, e.g., whenever there is a host membership update or a host load balancing
+   * weight change.
+   * 
+   * .. note::
+   * This setting only takes effect if all host weights are not equal.
+   */
+  'active_request_bias'?: (_envoy_config_core_v3_RuntimeDouble | null);
+  /**
+   * Configuration for slow start mode.
+   * If this configuration is not set, slow start will not be not enabled.
+   */
+  'slow_start_config'?: (_envoy_extensions_load_balancing_policies_common_v3_SlowStartConfig | null);
+  /**
+   * Configuration for local zone aware load balancing or locality weighted load balancing.
+   */
+  'locality_lb_config'?: (_envoy_extensions_load_balancing_policies_common_v3_LocalityLbConfig | null);
+}
+
+/**
+ * This configuration allows the built-in LEAST_REQUEST LB policy to be configured via the LB policy
+ * extension point. See the :ref:`load balancing architecture overview
+ * <arch_overview_load_balancing_types>` for more information.
+ */
+export interface LeastRequest__Output {
+  /**
+   * The number of random healthy hosts from which the host with the fewest active requests will
+   * be chosen. Defaults to 2 so that we perform two-choice selection if the field is not set.
+   */
+  'choice_count': (_google_protobuf_UInt32Value__Output | null);
+  /**
+   * The following formula is used to calculate the dynamic weights when hosts have different load
+   * balancing weights:
+   * 
+   * ``weight = load_balancing_weight / (active_requests + 1)^active_request_bias``
+   * 
+   * The larger the active request bias is, the more aggressively active requests will lower the
+   * effective weight when all host weights are not equal.
+   * 
+   * ``active_request_bias`` must be greater than or equal to 0.0.
+   * 
+   * When ``active_request_bias == 0.0`` the Least Request Load Balancer doesn't consider the number
+   * of active requests at the time it picks a host and behaves like the Round Robin Load
+   * Balancer.
+   * 
+   * When ``active_request_bias > 0.0`` the Least Request Load Balancer scales the load balancing
+   * weight by the number of active requests at the time it does a pick.
+   * 
+   * The value is cached for performance reasons and refreshed whenever one of the Load Balancer's
+   * host sets changes, e.g., whenever there is a host membership update or a host load balancing
+   * weight change.
+   * 
+   * .. note::
+   * This setting only takes effect if all host weights are not equal.
+   */
+  'active_request_bias': (_envoy_config_core_v3_RuntimeDouble__Output | null);
+  /**
+   * Configuration for slow start mode.
+   * If this configuration is not set, slow start will not be not enabled.
+   */
+  'slow_start_config': (_envoy_extensions_load_balancing_policies_common_v3_SlowStartConfig__Output | null);
+  /**
+   * Configuration for local zone aware load balancing or locality weighted load balancing.
+   */
+  'locality_lb_config': (_envoy_extensions_load_balancing_policies_common_v3_LocalityLbConfig__Output | null);
+}
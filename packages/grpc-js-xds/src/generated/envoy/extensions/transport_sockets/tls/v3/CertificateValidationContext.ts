@@ -6,6 +6,8 @@ import type { StringMatcher as _envoy_type_matcher_v3_StringMatcher, StringMatch
 import type { WatchedDirectory as _envoy_config_core_v3_WatchedDirectory, WatchedDirectory__Output as _envoy_config_core_v3_WatchedDirectory__Output } from '../../../../../envoy/config/core/v3/WatchedDirectory';
 import type { TypedExtensionConfig as _envoy_config_core_v3_TypedExtensionConfig, TypedExtensionConfig__Output as _envoy_config_core_v3_TypedExtensionConfig__Output } from '../../../../../envoy/config/core/v3/TypedExtensionConfig';
 import type { CertificateProviderPluginInstance as _envoy_extensions_transport_sockets_tls_v3_CertificateProviderPluginInstance, CertificateProviderPluginInstance__Output as _envoy_extensions_transport_sockets_tls_v3_CertificateProviderPluginInstance__Output } from '../../../../../envoy/extensions/transport_sockets/tls/v3/CertificateProviderPluginInstance';
+import type { SubjectAltNameMatcher as _envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher, SubjectAltNameMatcher__Output as _envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher__Output } from '../../../../../envoy/extensions/transport_sockets/tls/v3/SubjectAltNameMatcher';
+import type { UInt32Value as _google_protobuf_UInt32Value, UInt32Value__Output as _google_protobuf_UInt32Value__Output } from '../../../../../google/protobuf/UInt32Value';
 
 // Original file: deps/envoy-api/envoy/extensions/transport_sockets/tls/v3/common.proto
 
@@ -26,7 +28,7 @@ export enum _envoy_extensions_transport_sockets_tls_v3_CertificateValidationCont
 }
 
 /**
- * [#next-free-field: 14]
+ * [#next-free-field: 17]
  */
 export interface CertificateValidationContext {
   /**
@@ -40,8 +42,8 @@ export interface CertificateValidationContext {
    * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.verify_certificate_spki>`,
    * :ref:`verify_certificate_hash
    * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.verify_certificate_hash>`, or
-   * :ref:`match_subject_alt_names
-   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_subject_alt_names>`) is also
+   * :ref:`match_typed_subject_alt_names
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_typed_subject_alt_names>`) is also
    * specified.
    * 
    * It can optionally contain certificate revocation lists, in which case Envoy will verify
@@ -49,16 +51,23 @@ export interface CertificateValidationContext {
    * that if a CRL is provided for any certificate authority in a trust chain, a CRL must be
    * provided for all certificate authorities in that chain. Failure to do so will result in
    * verification failure for both revoked and unrevoked certificates from that chain.
+   * The behavior of requiring all certificates to contain CRLs can be altered by
+   * setting :ref:`only_verify_leaf_cert_crl <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.only_verify_leaf_cert_crl>`
+   * true. If set to true, only the final certificate in the chain undergoes CRL verification.
    * 
    * See :ref:`the TLS overview <arch_overview_ssl_enabling_verification>` for a list of common
    * system CA locations.
    * 
-   * If *trusted_ca* is a filesystem path, a watch will be added to the parent
+   * If ``trusted_ca`` is a filesystem path, a watch will be added to the parent
    * directory for any file moves to support rotation. This currently only
-   * applies to dynamic secrets, when the *CertificateValidationContext* is
+   * applies to dynamic secrets, when the ``CertificateValidationContext`` is
    * delivered via SDS.
    * 
-   * Only one of *trusted_ca* and *ca_certificate_provider_instance* may be specified.
+   * X509_V_FLAG_PARTIAL_CHAIN is set by default, so non-root/intermediate ca certificate in ``trusted_ca``
+   * can be treated as trust anchor as well. It allows verification with building valid partial chain instead
+   * of a full chain.
+   * 
+   * Only one of ``trusted_ca`` and ``ca_certificate_provider_instance`` may be specified.
    * 
    * [#next-major-version: This field and watched_directory below should ideally be moved into a
    * separate sub-message, since there's no point in specifying the latter field without this one.]
@@ -139,7 +148,14 @@ export interface CertificateValidationContext {
    * for any certificate authority in a trust chain, a CRL must be provided
    * for all certificate authorities in that chain. Failure to do so will
    * result in verification failure for both revoked and unrevoked certificates
-   * from that chain.
+   * from that chain. This default behavior can be altered by setting
+   * :ref:`only_verify_leaf_cert_crl <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.only_verify_leaf_cert_crl>` to
+   * true.
+   * 
+   * If ``crl`` is a filesystem path, a watch will be added to the parent
+   * directory for any file moves to support rotation. This currently only
+   * applies to dynamic secrets, when the ``CertificateValidationContext`` is
+   * delivered via SDS.
    */
   'crl'?: (_envoy_config_core_v3_DataSource | null);
   /**
@@ -147,24 +163,12 @@ export interface CertificateValidationContext {
    */
   'allow_expired_certificate'?: (boolean);
   /**
-   * An optional list of Subject Alternative name matchers. If specified, Envoy will verify that the
-   * Subject Alternative Name of the presented certificate matches one of the specified matchers.
-   * 
-   * When a certificate has wildcard DNS SAN entries, to match a specific client, it should be
-   * configured with exact match type in the :ref:`string matcher <envoy_v3_api_msg_type.matcher.v3.StringMatcher>`.
-   * For example if the certificate has "\*.example.com" as DNS SAN entry, to allow only "api.example.com",
-   * it should be configured as shown below.
-   * 
-   * .. code-block:: yaml
-   * 
-   * match_subject_alt_names:
-   * exact: "api.example.com"
-   * 
-   * .. attention::
-   * 
-   * Subject Alternative Names are easily spoofable and verifying only them is insecure,
-   * therefore this option must be used together with :ref:`trusted_ca
-   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>`.
+   * This field is deprecated in favor of
+   * :ref:`match_typed_subject_alt_names
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_typed_subject_alt_names>`.
+   * Note that if both this field and :ref:`match_typed_subject_alt_names
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_typed_subject_alt_names>`
+   * are specified, the former (deprecated field) is ignored.
    */
   'match_subject_alt_names'?: (_envoy_type_matcher_v3_StringMatcher)[];
   /**
@@ -172,11 +176,11 @@ export interface CertificateValidationContext {
    */
   'trust_chain_verification'?: (_envoy_extensions_transport_sockets_tls_v3_CertificateValidationContext_TrustChainVerification | keyof typeof _envoy_extensions_transport_sockets_tls_v3_CertificateValidationContext_TrustChainVerification);
   /**
-   * If specified, updates of a file-based *trusted_ca* source will be triggered
+   * If specified, updates of a file-based ``trusted_ca`` source will be triggered
    * by this watch. This allows explicit control over the path watched, by
-   * default the parent directory of the filesystem path in *trusted_ca* is
+   * default the parent directory of the filesystem path in ``trusted_ca`` is
    * watched if this field is not specified. This only applies when a
-   * *CertificateValidationContext* is delivered by SDS with references to
+   * ``CertificateValidationContext`` is delivered by SDS with references to
    * filesystem paths. See the :ref:`SDS key rotation <sds_key_rotation>`
    * documentation for further details.
    */
@@ -192,14 +196,55 @@ export interface CertificateValidationContext {
   /**
    * Certificate provider instance for fetching TLS certificates.
    * 
-   * Only one of *trusted_ca* and *ca_certificate_provider_instance* may be specified.
+   * Only one of ``trusted_ca`` and ``ca_certificate_provider_instance`` may be specified.
    * [#not-implemented-hide:]
    */
   'ca_certificate_provider_instance'?: (_envoy_extensions_transport_sockets_tls_v3_CertificateProviderPluginInstance | null);
+  /**
+   * If this option is set to true, only the certificate at the end of the
+   * certificate chain will be subject to validation by :ref:`CRL <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.crl>`.
+   */
+  'only_verify_leaf_cert_crl'?: (boolean);
+  /**
+   * An optional list of Subject Alternative name matchers. If specified, Envoy will verify that the
+   * Subject Alternative Name of the presented certificate matches one of the specified matchers.
+   * The matching uses "any" semantics, that is to say, the SAN is verified if at least one matcher is
+   * matched.
+   * 
+   * When a certificate has wildcard DNS SAN entries, to match a specific client, it should be
+   * configured with exact match type in the :ref:`string matcher <envoy_v3_api_msg_type.matcher.v3.StringMatcher>`.
+   * For example if the certificate has "\*.example.com" as DNS SAN entry, to allow only "api.example.com",
+   * it should be configured as shown below.
+   * 
+   * .. code-block:: yaml
+   * 
+   * match_typed_subject_alt_names:
+   * - san_type: DNS
+   * matcher:
+   * exact: "api.example.com"
+   * 
+   * .. attention::
+   * 
+   * Subject Alternative Names are easily spoofable and verifying only them is insecure,
+   * therefore this option must be used together with :ref:`trusted_ca
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>`.
+   */
+  'match_typed_subject_alt_names'?: (_envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher)[];
+  /**
+   * Defines maximum depth of a certificate chain accepted in verification, the default limit is 100, though this can be system-dependent.
+   * This number does not include the leaf, so a depth of 1 allows the leaf and one CA certificate. If a trusted issuer appears in the chain,
+   * but in a depth larger than configured, the certificate validation will fail.
+   * See `BoringSSL SSL_CTX_set_verify_depth <https://commondatastorage.googleapis.com/chromium-boringssl-docs/ssl.h.html#SSL_CTX_set_verify_depth>`
+   * If you use OpenSSL, its behavior is different from BoringSSL, this will define a limit on the number of certificates between the end-entity and trust-anchor certificates.
+   * Neither the end-entity nor the trust-anchor certificates count against depth.
+   * See `OpenSSL SSL set_verify_depth <https://www.openssl.org/docs/man1.1.1/man3/SSL_CTX_set_verify_depth.html>`_.
+   * Trusted issues are specified by setting :ref:`trusted_ca <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>`
+   */
+  'max_verify_depth'?: (_google_protobuf_UInt32Value | null);
 }
 
 /**
- * [#next-free-field: 14]
+ * [#next-free-field: 17]
  */
 export interface CertificateValidationContext__Output {
   /**
@@ -213,8 +258,8 @@ export interface CertificateValidationContext__Output {
    * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.verify_certificate_spki>`,
    * :ref:`verify_certificate_hash
    * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.verify_certificate_hash>`, or
-   * :ref:`match_subject_alt_names
-   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_subject_alt_names>`) is also
+   * :ref:`match_typed_subject_alt_names
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_typed_subject_alt_names>`) is also
    * specified.
    * 
    * It can optionally contain certificate revocation lists, in which case Envoy will verify
@@ -222,16 +267,23 @@ export interface CertificateValidationContext__Output {
    * that if a CRL is provided for any certificate authority in a trust chain, a CRL must be
    * provided for all certificate authorities in that chain. Failure to do so will result in
    * verification failure for both revoked and unrevoked certificates from that chain.
+   * The behavior of requiring all certificates to contain CRLs can be altered by
+   * setting :ref:`only_verify_leaf_cert_crl <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.only_verify_leaf_cert_crl>`
+   * true. If set to true, only the final certificate in the chain undergoes CRL verification.
    * 
    * See :ref:`the TLS overview <arch_overview_ssl_enabling_verification>` for a list of common
    * system CA locations.
    * 
-   * If *trusted_ca* is a filesystem path, a watch will be added to the parent
+   * If ``trusted_ca`` is a filesystem path, a watch will be added to the parent
    * directory for any file moves to support rotation. This currently only
-   * applies to dynamic secrets, when the *CertificateValidationContext* is
+   * applies to dynamic secrets, when the ``CertificateValidationContext`` is
    * delivered via SDS.
    * 
-   * Only one of *trusted_ca* and *ca_certificate_provider_instance* may be specified.
+   * X509_V_FLAG_PARTIAL_CHAIN is set by default, so non-root/intermediate ca certificate in ``trusted_ca``
+   * can be treated as trust anchor as well. It allows verification with building valid partial chain instead
+   * of a full chain.
+   * 
+   * Only one of ``trusted_ca`` and ``ca_certificate_provider_instance`` may be specified.
    * 
    * [#next-major-version: This field and watched_directory below should ideally be moved into a
    * separate sub-message, since there's no point in specifying the latter field without this one.]
@@ -312,7 +364,14 @@ export interface CertificateValidationContext__Output {
    * for any certificate authority in a trust chain, a CRL must be provided
    * for all certificate authorities in that chain. Failure to do so will
    * result in verification failure for both revoked and unrevoked certificates
-   * from that chain.
+   * from that chain. This default behavior can be altered by setting
+   * :ref:`only_verify_leaf_cert_crl <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.only_verify_leaf_cert_crl>` to
+   * true.
+   * 
+   * If ``crl`` is a filesystem path, a watch will be added to the parent
+   * directory for any file moves to support rotation. This currently only
+   * applies to dynamic secrets, when the ``CertificateValidationContext`` is
+   * delivered via SDS.
    */
   'crl': (_envoy_config_core_v3_DataSource__Output | null);
   /**
@@ -320,24 +379,12 @@ export interface CertificateValidationContext__Output {
    */
   'allow_expired_certificate': (boolean);
   /**
-   * An optional list of Subject Alternative name matchers. If specified, Envoy will verify that the
-   * Subject Alternative Name of the presented certificate matches one of the specified matchers.
-   * 
-   * When a certificate has wildcard DNS SAN entries, to match a specific client, it should be
-   * configured with exact match type in the :ref:`string matcher <envoy_v3_api_msg_type.matcher.v3.StringMatcher>`.
-   * For example if the certificate has "\*.example.com" as DNS SAN entry, to allow only "api.example.com",
-   * it should be configured as shown below.
-   * 
-   * .. code-block:: yaml
-   * 
-   * match_subject_alt_names:
-   * exact: "api.example.com"
-   * 
-   * .. attention::
-   * 
-   * Subject Alternative Names are easily spoofable and verifying only them is insecure,
-   * therefore this option must be used together with :ref:`trusted_ca
-   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>`.
+   * This field is deprecated in favor of
+   * :ref:`match_typed_subject_alt_names
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_typed_subject_alt_names>`.
+   * Note that if both this field and :ref:`match_typed_subject_alt_names
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.match_typed_subject_alt_names>`
+   * are specified, the former (deprecated field) is ignored.
    */
   'match_subject_alt_names': (_envoy_type_matcher_v3_StringMatcher__Output)[];
   /**
@@ -345,11 +392,11 @@ export interface CertificateValidationContext__Output {
    */
   'trust_chain_verification': (keyof typeof _envoy_extensions_transport_sockets_tls_v3_CertificateValidationContext_TrustChainVerification);
   /**
-   * If specified, updates of a file-based *trusted_ca* source will be triggered
+   * If specified, updates of a file-based ``trusted_ca`` source will be triggered
    * by this watch. This allows explicit control over the path watched, by
-   * default the parent directory of the filesystem path in *trusted_ca* is
+   * default the parent directory of the filesystem path in ``trusted_ca`` is
    * watched if this field is not specified. This only applies when a
-   * *CertificateValidationContext* is delivered by SDS with references to
+   * ``CertificateValidationContext`` is delivered by SDS with references to
    * filesystem paths. See the :ref:`SDS key rotation <sds_key_rotation>`
    * documentation for further details.
    */
@@ -365,8 +412,49 @@ export interface CertificateValidationContext__Output {
   /**
    * Certificate provider instance for fetching TLS certificates.
    * 
-   * Only one of *trusted_ca* and *ca_certificate_provider_instance* may be specified.
+   * Only one of ``trusted_ca`` and ``ca_certificate_provider_instance`` may be specified.
    * [#not-implemented-hide:]
    */
   'ca_certificate_provider_instance': (_envoy_extensions_transport_sockets_tls_v3_CertificateProviderPluginInstance__Output | null);
+  /**
+   * If this option is set to true, only the certificate at the end of the
+   * certificate chain will be subject to validation by :ref:`CRL <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.crl>`.
+   */
+  'only_verify_leaf_cert_crl': (boolean);
+  /**
+   * An optional list of Subject Alternative name matchers. If specified, Envoy will verify that the
+   * Subject Alternative Name of the presented certificate matches one of the specified matchers.
+   * The matching uses "any" semantics, that is to say, the SAN is verified if at least one matcher is
+   * matched.
+   * 
+   * When a certificate has wildcard DNS SAN entries, to match a specific client, it should be
+   * configured with exact match type in the :ref:`string matcher <envoy_v3_api_msg_type.matcher.v3.StringMatcher>`.
+   * For example if the certificate has "\*.example.com" as DNS SAN entry, to allow only "api.example.com",
+   * it should be configured as shown below.
+   * 
+   * .. code-block:: yaml
+   * 
+   * match_typed_subject_alt_names:
+   * - san_type: DNS
+   * matcher:
+   * exact: "api.example.com"
+   * 
+   * .. attention::
+   * 
+   * Subject Alternative Names are easily spoofable and verifying only them is insecure,
+   * therefore this option must be used together with :ref:`trusted_ca
+   * <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>`.
+   */
+  'match_typed_subject_alt_names': (_envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher__Output)[];
+  /**
+   * Defines maximum depth of a certificate chain accepted in verification, the default limit is 100, though this can be system-dependent.
+   * This number does not include the leaf, so a depth of 1 allows the leaf and one CA certificate. If a trusted issuer appears in the chain,
+   * but in a depth larger than configured, the certificate validation will fail.
+   * See `BoringSSL SSL_CTX_set_verify_depth <https://commondatastorage.googleapis.com/chromium-boringssl-docs/ssl.h.html#SSL_CTX_set_verify_depth>`
+   * If you use OpenSSL, its behavior is different from BoringSSL, this will define a limit on the number of certificates between the end-entity and trust-anchor certificates.
+   * Neither the end-entity nor the trust-anchor certificates count against depth.
+   * See `OpenSSL SSL set_verify_depth <https://www.openssl.org/docs/man1.1.1/man3/SSL_CTX_set_verify_depth.html>`_.
+   * Trusted issues are specified by setting :ref:`trusted_ca <envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>`
+   */
+  'max_verify_depth': (_google_protobuf_UInt32Value__Output | null);
 }
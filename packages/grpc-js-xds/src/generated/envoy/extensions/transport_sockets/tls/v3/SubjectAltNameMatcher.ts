@@ -0,0 +1,45 @@
+// Original file: deps/envoy-api/envoy/extensions/transport_sockets/tls/v3/common.proto
+
+import type { StringMatcher as _envoy_type_matcher_v3_StringMatcher, StringMatcher__Output as _envoy_type_matcher_v3_StringMatcher__Output } from '../../../../../envoy/type/matcher/v3/StringMatcher';
+
+// Original file: deps/envoy-api/envoy/extensions/transport_sockets/tls/v3/common.proto
+
+/**
+ * Indicates the choice of GeneralName as defined in section 4.2.1.5 of RFC 5280 to match
+ * against.
+ */
+export enum _envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher_SanType {
+  SAN_TYPE_UNSPECIFIED = 0,
+  EMAIL = 1,
+  DNS = 2,
+  URI = 3,
+  IP_ADDRESS = 4,
+}
+
+/**
+ * Matcher for subject alternative names, to match both type and value of the SAN.
+ */
+export interface SubjectAltNameMatcher {
+  /**
+   * Specification of type of SAN. Note that the default enum value is an invalid choice.
+   */
+  'san_type'?: (_envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher_SanType | keyof typeof _envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher_SanType);
+  /**
+   * Matcher for SAN value.
+   */
+  'matcher'?: (_envoy_type_matcher_v3_StringMatcher | null);
+}
+
+/**
+ * Matcher for subject alternative names, to match both type and value of the SAN.
+ */
+export interface SubjectAltNameMatcher__Output {
+  /**
+   * Specification of type of SAN. Note that the default enum value is an invalid choice.
+   */
+  'san_type': (keyof typeof _envoy_extensions_transport_sockets_tls_v3_SubjectAltNameMatcher_SanType);
+  /**
+   * Matcher for SAN value.
+   */
+  'matcher': (_envoy_type_matcher_v3_StringMatcher__Output | null);
+}
@@ -26,10 +26,19 @@ export enum _envoy_extensions_transport_sockets_tls_v3_TlsParameters_TlsProtocol
   TLSv1_3 = 4,
 }
 
+/**
+ * [#next-free-field: 6]
+ */
 export interface TlsParameters {
   /**
-   * Minimum TLS protocol version. By default, it's ``TLSv1_2`` for clients and ``TLSv1_0`` for
-   * servers.
+   * Minimum TLS protocol version. By default, it's ``TLSv1_2`` for both clients and servers.
+   * 
+   * TLS protocol versions below TLSv1_2 require setting compatible ciphers with the
+   * ``cipher_suites`` setting as the default ciphers no longer include compatible ciphers.
+   * 
+   * .. attention::
+   * 
+   * Using TLS protocol versions below TLSv1_2 has serious security considerations and risks.
    */
   'tls_minimum_protocol_version'?: (_envoy_extensions_transport_sockets_tls_v3_TlsParameters_TlsProtocol | keyof typeof _envoy_extensions_transport_sockets_tls_v3_TlsParameters_TlsProtocol);
   /**
@@ -44,6 +53,8 @@ export interface TlsParameters {
    * 
    * If not specified, a default list will be used. Defaults are different for server (downstream) and
    * client (upstream) TLS configurations.
+   * Defaults will change over time in response to security considerations; If you care, configure
+   * it instead of using the default.
    * 
    * In non-FIPS builds, the default server cipher list is:
    * 
@@ -51,16 +62,8 @@ export interface TlsParameters {
    * 
    * [ECDHE-ECDSA-AES128-GCM-SHA256|ECDHE-ECDSA-CHACHA20-POLY1305]
    * [ECDHE-RSA-AES128-GCM-SHA256|ECDHE-RSA-CHACHA20-POLY1305]
-   * ECDHE-ECDSA-AES128-SHA
-   * ECDHE-RSA-AES128-SHA
-   * AES128-GCM-SHA256
-   * AES128-SHA
    * ECDHE-ECDSA-AES256-GCM-SHA384
    * ECDHE-RSA-AES256-GCM-SHA384
-   * ECDHE-ECDSA-AES256-SHA
-   * ECDHE-RSA-AES256-SHA
-   * AES256-GCM-SHA384
-   * AES256-SHA
    * 
    * In builds using :ref:`BoringSSL FIPS <arch_overview_ssl_fips>`, the default server cipher list is:
    * 
@@ -68,16 +71,8 @@ export interface TlsParameters {
    * 
    * ECDHE-ECDSA-AES128-GCM-SHA256
    * ECDHE-RSA-AES128-GCM-SHA256
-   * ECDHE-ECDSA-AES128-SHA
-   * ECDHE-RSA-AES128-SHA
-   * AES128-GCM-SHA256
-   * AES128-SHA
    * ECDHE-ECDSA-AES256-GCM-SHA384
    * ECDHE-RSA-AES256-GCM-SHA384
-   * ECDHE-ECDSA-AES256-SHA
-   * ECDHE-RSA-AES256-SHA
-   * AES256-GCM-SHA384
-   * AES256-SHA
    * 
    * In non-FIPS builds, the default client cipher list is:
    * 
@@ -116,12 +111,58 @@ export interface TlsParameters {
    * P-256
    */
   'ecdh_curves'?: (string)[];
+  /**
+   * If specified, the TLS connection will only support the specified signature algorithms.
+   * The list is ordered by preference.
+   * If not specified, the default signature algorithms defined by BoringSSL will be used.
+   * 
+   * Default signature algorithms selected by BoringSSL (may be out of date):
+   * 
+   * .. code-block:: none
+   * 
+   * ecdsa_secp256r1_sha256
+   * rsa_pss_rsae_sha256
+   * rsa_pkcs1_sha256
+   * ecdsa_secp384r1_sha384
+   * rsa_pss_rsae_sha384
+   * rsa_pkcs1_sha384
+   * rsa_pss_rsae_sha512
+   * rsa_pkcs1_sha512
+   * rsa_pkcs1_sha1
+   * 
+   * Signature algorithms supported by BoringSSL (may be out of date):
+   * 
+   * .. code-block:: none
+   * 
+   * rsa_pkcs1_sha256
+   * rsa_pkcs1_sha384
+   * rsa_pkcs1_sha512
+   * ecdsa_secp256r1_sha256
+   * ecdsa_secp384r1_sha384
+   * ecdsa_secp521r1_sha512
+   * rsa_pss_rsae_sha256
+   * rsa_pss_rsae_sha384
+   * rsa_pss_rsae_sha512
+   * ed25519
+   * rsa_pkcs1_sha1
+   * ecdsa_sha1
+   */
+  'signature_algorithms'?: (string)[];
 }
 
+/**
+ * [#next-free-field: 6]
+ */
 export interface TlsParameters__Output {
   /**
-   * Minimum TLS protocol version. By default, it's ``TLSv1_2`` for clients and ``TLSv1_0`` for
-   * servers.
+   * Minimum TLS protocol version. By default, it's ``TLSv1_2`` for both clients and servers.
+   * 
+   * TLS protocol versions below TLSv1_2 require setting compatible ciphers with the
+   * ``cipher_suites`` setting as the default ciphers no longer include compatible ciphers.
+   * 
+   * .. attention::
+   * 
+   * Using TLS protocol versions below TLSv1_2 has serious security considerations and risks.
    */
   'tls_minimum_protocol_version': (keyof typeof _envoy_extensions_transport_sockets_tls_v3_TlsParameters_TlsProtocol);
   /**
@@ -136,6 +177,8 @@ export interface TlsParameters__Output {
    * 
    * If not specified, a default list will be used. Defaults are different for server (downstream) and
    * client (upstream) TLS configurations.
+   * Defaults will change over time in response to security considerations; If you care, configure
+   * it instead of using the default.
    * 
    * In non-FIPS builds, the default server cipher list is:
    * 
@@ -143,16 +186,8 @@ export interface TlsParameters__Output {
    * 
    * [ECDHE-ECDSA-AES128-GCM-SHA256|ECDHE-ECDSA-CHACHA20-POLY1305]
    * [ECDHE-RSA-AES128-GCM-SHA256|ECDHE-RSA-CHACHA20-POLY1305]
-   * ECDHE-ECDSA-AES128-SHA
-   * ECDHE-RSA-AES128-SHA
-   * AES128-GCM-SHA256
-   * AES128-SHA
    * ECDHE-ECDSA-AES256-GCM-SHA384
    * ECDHE-RSA-AES256-GCM-SHA384
-   * ECDHE-ECDSA-AES256-SHA
-   * ECDHE-RSA-AES256-SHA
-   * AES256-GCM-SHA384
-   * AES256-SHA
    * 
    * In builds using :ref:`BoringSSL FIPS <arch_overview_ssl_fips>`, the default server cipher list is:
    * 
@@ -160,16 +195,8 @@ export interface TlsParameters__Output {
    * 
    * ECDHE-ECDSA-AES128-GCM-SHA256
    * ECDHE-RSA-AES128-GCM-SHA256
-   * ECDHE-ECDSA-AES128-SHA
-   * ECDHE-RSA-AES128-SHA
-   * AES128-GCM-SHA256
-   * AES128-SHA
    * ECDHE-ECDSA-AES256-GCM-SHA384
    * ECDHE-RSA-AES256-GCM-SHA384
-   * ECDHE-ECDSA-AES256-SHA
-   * ECDHE-RSA-AES256-SHA
-   * AES256-GCM-SHA384
-   * AES256-SHA
    * 
    * In non-FIPS builds, the default client cipher list is:
    * 
@@ -208,4 +235,41 @@ export interface TlsParameters__Output {
    * P-256
    */
   'ecdh_curves': (string)[];
+  /**
+   * If specified, the TLS connection will only support the specified signature algorithms.
+   * The list is ordered by preference.
+   * If not specified, the default signature algorithms defined by BoringSSL will be used.
+   * 
+   * Default signature algorithms selected by BoringSSL (may be out of date):
+   * 
+   * .. code-block:: none
+   * 
+   * ecdsa_secp256r1_sha256
+   * rsa_pss_rsae_sha256
+   * rsa_pkcs1_sha256
+   * ecdsa_secp384r1_sha384
+   * rsa_pss_rsae_sha384
+   * rsa_pkcs1_sha384
+   * rsa_pss_rsae_sha512
+   * rsa_pkcs1_sha512
+   * rsa_pkcs1_sha1
+   * 
+   * Signature algorithms supported by BoringSSL (may be out of date):
+   * 
+   * .. code-block:: none
+   * 
+   * rsa_pkcs1_sha256
+   * rsa_pkcs1_sha384
+   * rsa_pkcs1_sha512
+   * ecdsa_secp256r1_sha256
+   * ecdsa_secp384r1_sha384
+   * ecdsa_secp521r1_sha512
+   * rsa_pss_rsae_sha256
+   * rsa_pss_rsae_sha384
+   * rsa_pss_rsae_sha512
+   * ed25519
+   * rsa_pkcs1_sha1
+   * ecdsa_sha1
+   */
+  'signature_algorithms': (string)[];
 }
@@ -0,0 +1,68 @@
+// Original file: deps/envoy-api/envoy/extensions/transport_sockets/tls/v3/tls.proto
+
+import type { CommonTlsContext as _envoy_extensions_transport_sockets_tls_v3_CommonTlsContext, CommonTlsContext__Output as _envoy_extensions_transport_sockets_tls_v3_CommonTlsContext__Output } from '../../../../../envoy/extensions/transport_sockets/tls/v3/CommonTlsContext';
+import type { UInt32Value as _google_protobuf_UInt32Value, UInt32Value__Output as _google_protobuf_UInt32Value__Output } from '../../../../../google/protobuf/UInt32Value';
+
+export interface UpstreamTlsContext {
+  /**
+   * Common TLS context settings.
+   * 
+   * .. attention::
+   * 
+   * Server certificate verification is not enabled by default. Configure
+   * :ref:`trusted_ca<envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>` to enable
+   * verification.
+   */
+  'common_tls_context'?: (_envoy_extensions_transport_sockets_tls_v3_CommonTlsContext | null);
+  /**
+   * SNI string to use when creating TLS backend connections.
+   */
+  'sni'?: (string);
+  /**
+   * If true, server-initiated TLS renegotiation will be allowed.
+   * 
+   * .. attention::
+   * 
+   * TLS renegotiation is considered insecure and shouldn't be used unless absolutely necessary.
+   */
+  'allow_renegotiation'?: (boolean);
+  /**
+   * Maximum number of session keys (Pre-Shared Keys for TLSv1.3+, Session IDs and Session Tickets
+   * for TLSv1.2 and older) to store for the purpose of session resumption.
+   * 
+   * Defaults to 1, setting this to 0 disables session resumption.
+   */
+  'max_session_keys'?: (_google_protobuf_UInt32Value | null);
+}
+
+export interface UpstreamTlsContext__Output {
+  /**
+   * Common TLS context settings.
+   * 
+   * .. attention::
+   * 
+   * Server certificate verification is not enabled by default. Configure
+   * :ref:`trusted_ca<envoy_v3_api_field_extensions.transport_sockets.tls.v3.CertificateValidationContext.trusted_ca>` to enable
+   * verification.
+   */
+  'common_tls_context': (_envoy_extensions_transport_sockets_tls_v3_CommonTlsContext__Output | null);
+  /**
+   * SNI string to use when creating TLS backend connections.
+   */
+  'sni': (string);
+  /**
+   * If true, server-initiated TLS renegotiation will be allowed.
+   * 
+   * .. attention::
+   * 
+   * TLS renegotiation is considered insecure and shouldn't be used unless absolutely necessary.
+   */
+  'allow_renegotiation': (boolean);
+  /**
+   * Maximum number of session keys (Pre-Shared Keys for TLSv1.3+, Session IDs and Session Tickets
+   * for TLSv1.2 and older) to store for the purpose of session resumption.
+   * 
+   * Defaults to 1, setting this to 0 disables session resumption.
+   */
+  'max_session_keys': (_google_protobuf_UInt32Value__Output | null);
+}
@@ -0,0 +1,95 @@
+// Original file: proto/grpc/lookup/v1/rls_config.proto
+
+import type { NameMatcher as _grpc_lookup_v1_NameMatcher, NameMatcher__Output as _grpc_lookup_v1_NameMatcher__Output } from '../../../grpc/lookup/v1/NameMatcher';
+
+/**
+ * If you wish to include the host, service, or method names as keys in the
+ * generated RouteLookupRequest, specify key names to use in the extra_keys
+ * submessage. If a key name is empty, no key will be set for that value.
+ * If this submessage is specified, the normal host/path fields will be left
+ * unset in the RouteLookupRequest. We are deprecating host/path in the
+ * RouteLookupRequest, so services should migrate to the ExtraKeys approach.
+ */
+export interface _grpc_lookup_v1_GrpcKeyBuilder_ExtraKeys {
+  'host'?: (string);
+  'service'?: (string);
+  'method'?: (string);
+}
+
+/**
+ * If you wish to include the host, service, or method names as keys in the
+ * generated RouteLookupRequest, specify key names to use in the extra_keys
+ * submessage. If a key name is empty, no key will be set for that value.
+ * If this submessage is specified, the normal host/path fields will be left
+ * unset in the RouteLookupRequest. We are deprecating host/path in the
+ * RouteLookupRequest, so services should migrate to the ExtraKeys approach.
+ */
+export interface _grpc_lookup_v1_GrpcKeyBuilder_ExtraKeys__Output {
+  'host': (string);
+  'service': (string);
+  'method': (string);
+}
+
+/**
+ * To match, one of the given Name fields must match; the service and method
+ * fields are specified as fixed strings.  The service name is required and
+ * includes the proto package name.  The method name may be omitted, in
+ * which case any method on the given service is matched.
+ */
+export interface _grpc_lookup_v1_GrpcKeyBuilder_Name {
+  'service'?: (string);
+  'method'?: (string);
+}
+
+/**
+ * To match, one of the given Name fields must match; the service and method
+ * fields are specified as fixed strings.  The service name is required and
+ * includes the proto package name.  The method name may be omitted, in
+ * which case any method on the given service is matched.
+ */
+export interface _grpc_lookup_v1_GrpcKeyBuilder_Name__Output {
+  'service': (string);
+  'method': (string);
+}
+
+/**
+ * A GrpcKeyBuilder applies to a given gRPC service, name, and headers.
+ */
+export interface GrpcKeyBuilder {
+  'names'?: (_grpc_lookup_v1_GrpcKeyBuilder_Name)[];
+  /**
+   * Extract keys from all listed headers.
+   * For gRPC, it is an error to specify "required_match" on the NameMatcher
+   * protos.
+   */
+  'headers'?: (_grpc_lookup_v1_NameMatcher)[];
+  'extra_keys'?: (_grpc_lookup_v1_GrpcKeyBuilder_ExtraKeys | null);
+  /**
+   * You can optionally set one or more specific key/value pairs to be added to
+   * the key_map.  This can be useful to identify which builder built the key,
+   * for example if you are suppressing the actual method, but need to
+   * separately cache and request all the matched methods.
+   */
+  'constant_keys'?: ({[key: string]: string});
+}
+
+/**
+ * A GrpcKeyBuilder applies to a given gRPC service, name, and headers.
+ */
+export interface GrpcKeyBuilder__Output {
+  'names': (_grpc_lookup_v1_GrpcKeyBuilder_Name__Output)[];
+  /**
+   * Extract keys from all listed headers.
+   * For gRPC, it is an error to specify "required_match" on the NameMatcher
+   * protos.
+   */
+  'headers': (_grpc_lookup_v1_NameMatcher__Output)[];
+  'extra_keys': (_grpc_lookup_v1_GrpcKeyBuilder_ExtraKeys__Output | null);
+  /**
+   * You can optionally set one or more specific key/value pairs to be added to
+   * the key_map.  This can be useful to identify which builder built the key,
+   * for example if you are suppressing the actual method, but need to
+   * separately cache and request all the matched methods.
+   */
+  'constant_keys': ({[key: string]: string});
+}
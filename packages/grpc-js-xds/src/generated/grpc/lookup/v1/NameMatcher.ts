@@ -0,0 +1,54 @@
+// Original file: proto/grpc/lookup/v1/rls_config.proto
+
+
+/**
+ * Extract a key based on a given name (e.g. header name or query parameter
+ * name).  The name must match one of the names listed in the "name" field.  If
+ * the "required_match" field is true, one of the specified names must be
+ * present for the keybuilder to match.
+ */
+export interface NameMatcher {
+  /**
+   * The name that will be used in the RLS key_map to refer to this value.
+   * If required_match is true, you may omit this field or set it to an empty
+   * string, in which case the matcher will require a match, but won't update
+   * the key_map.
+   */
+  'key'?: (string);
+  /**
+   * Ordered list of names (headers or query parameter names) that can supply
+   * this value; the first one with a non-empty value is used.
+   */
+  'names'?: (string)[];
+  /**
+   * If true, make this extraction required; the key builder will not match
+   * if no value is found.
+   */
+  'required_match'?: (boolean);
+}
+
+/**
+ * Extract a key based on a given name (e.g. header name or query parameter
+ * name).  The name must match one of the names listed in the "name" field.  If
+ * the "required_match" field is true, one of the specified names must be
+ * present for the keybuilder to match.
+ */
+export interface NameMatcher__Output {
+  /**
+   * The name that will be used in the RLS key_map to refer to this value.
+   * If required_match is true, you may omit this field or set it to an empty
+   * string, in which case the matcher will require a match, but won't update
+   * the key_map.
+   */
+  'key': (string);
+  /**
+   * Ordered list of names (headers or query parameter names) that can supply
+   * this value; the first one with a non-empty value is used.
+   */
+  'names': (string)[];
+  /**
+   * If true, make this extraction required; the key builder will not match
+   * if no value is found.
+   */
+  'required_match': (boolean);
+}
@@ -0,0 +1,25 @@
+// Original file: proto/grpc/lookup/v1/rls_config.proto
+
+import type { RouteLookupConfig as _grpc_lookup_v1_RouteLookupConfig, RouteLookupConfig__Output as _grpc_lookup_v1_RouteLookupConfig__Output } from '../../../grpc/lookup/v1/RouteLookupConfig';
+
+/**
+ * RouteLookupClusterSpecifier is used in xDS to represent a cluster specifier
+ * plugin for RLS.
+ */
+export interface RouteLookupClusterSpecifier {
+  /**
+   * The RLS config for this cluster specifier plugin instance.
+   */
+  'route_lookup_config'?: (_grpc_lookup_v1_RouteLookupConfig | null);
+}
+
+/**
+ * RouteLookupClusterSpecifier is used in xDS to represent a cluster specifier
+ * plugin for RLS.
+ */
+export interface RouteLookupClusterSpecifier__Output {
+  /**
+   * The RLS config for this cluster specifier plugin instance.
+   */
+  'route_lookup_config': (_grpc_lookup_v1_RouteLookupConfig__Output | null);
+}
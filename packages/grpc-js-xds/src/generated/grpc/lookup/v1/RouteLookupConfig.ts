@@ -0,0 +1,117 @@
+// Original file: proto/grpc/lookup/v1/rls_config.proto
+
+import type { GrpcKeyBuilder as _grpc_lookup_v1_GrpcKeyBuilder, GrpcKeyBuilder__Output as _grpc_lookup_v1_GrpcKeyBuilder__Output } from '../../../grpc/lookup/v1/GrpcKeyBuilder';
+import type { Duration as _google_protobuf_Duration, Duration__Output as _google_protobuf_Duration__Output } from '../../../google/protobuf/Duration';
+import type { Long } from '@grpc/proto-loader';
+
+export interface RouteLookupConfig {
+  /**
+   * Ordered specifications for constructing keys for gRPC requests.  All
+   * GrpcKeyBuilders on this list must have unique "name" fields so that the
+   * client is free to prebuild a hash map keyed by name.  If no GrpcKeyBuilder
+   * matches, an empty key_map will be sent to the lookup service; it should
+   * likely reply with a global default route and raise an alert.
+   */
+  'grpc_keybuilders'?: (_grpc_lookup_v1_GrpcKeyBuilder)[];
+  /**
+   * The name of the lookup service as a gRPC URI.  Typically, this will be
+   * a subdomain of the target, such as "lookup.datastore.googleapis.com".
+   */
+  'lookup_service'?: (string);
+  /**
+   * Configure a timeout value for lookup service requests.
+   * Defaults to 10 seconds if not specified.
+   */
+  'lookup_service_timeout'?: (_google_protobuf_Duration | null);
+  /**
+   * How long are responses valid for (like HTTP Cache-Control).
+   * If omitted or zero, the longest valid cache time is used.
+   * This value is clamped to 5 minutes to avoid unflushable bad responses.
+   */
+  'max_age'?: (_google_protobuf_Duration | null);
+  /**
+   * After a response has been in the client cache for this amount of time
+   * and is re-requested, start an asynchronous RPC to re-validate it.
+   * This value should be less than max_age by at least the length of a
+   * typical RTT to the Route Lookup Service to fully mask the RTT latency.
+   * If omitted, keys are only re-requested after they have expired.
+   */
+  'stale_age'?: (_google_protobuf_Duration | null);
+  /**
+   * Rough indicator of amount of memory to use for the client cache.  Some of
+   * the data structure overhead is not accounted for, so actual memory consumed
+   * will be somewhat greater than this value.  If this field is omitted or set
+   * to zero, a client default will be used.  The value may be capped to a lower
+   * amount based on client configuration.
+   */
+  'cache_size_bytes'?: (number | string | Long);
+  /**
+   * This is a list of all the possible targets that can be returned by the
+   * lookup service.  If a target not on this list is returned, it will be
+   * treated the same as an unhealthy target.
+   */
+  'valid_targets'?: (string)[];
+  /**
+   * This value provides a default target to use if needed.  If set, it will be
+   * used if RLS returns an error, times out, or returns an invalid response.
+   * Note that requests can be routed only to a subdomain of the original
+   * target, e.g. "us_east_1.cloudbigtable.googleapis.com".
+   */
+  'default_target'?: (string);
+}
+
+export interface RouteLookupConfig__Output {
+  /**
+   * Ordered specifications for constructing keys for gRPC requests.  All
+   * GrpcKeyBuilders on this list must have unique "name" fields so that the
+   * client is free to prebuild a hash map keyed by name.  If no GrpcKeyBuilder
+   * matches, an empty key_map will be sent to the lookup service; it should
+   * likely reply with a global default route and raise an alert.
+   */
+  'grpc_keybuilders': (_grpc_lookup_v1_GrpcKeyBuilder__Output)[];
+  /**
+   * The name of the lookup service as a gRPC URI.  Typically, this will be
+   * a subdomain of the target, such as "lookup.datastore.googleapis.com".
+   */
+  'lookup_service': (string);
+  /**
+   * Configure a timeout value for lookup service requests.
+   * Defaults to 10 seconds if not specified.
+   */
+  'lookup_service_timeout': (_google_protobuf_Duration__Output | null);
+  /**
+   * How long are responses valid for (like HTTP Cache-Control).
+   * If omitted or zero, the longest valid cache time is used.
+   * This value is clamped to 5 minutes to avoid unflushable bad responses.
+   */
+  'max_age': (_google_protobuf_Duration__Output | null);
+  /**
+   * After a response has been in the client cache for this amount of time
+   * and is re-requested, start an asynchronous RPC to re-validate it.
+   * This value should be less than max_age by at least the length of a
+   * typical RTT to the Route Lookup Service to fully mask the RTT latency.
+   * If omitted, keys are only re-requested after they have expired.
+   */
+  'stale_age': (_google_protobuf_Duration__Output | null);
+  /**
+   * Rough indicator of amount of memory to use for the client cache.  Some of
+   * the data structure overhead is not accounted for, so actual memory consumed
+   * will be somewhat greater than this value.  If this field is omitted or set
+   * to zero, a client default will be used.  The value may be capped to a lower
+   * amount based on client configuration.
+   */
+  'cache_size_bytes': (string);
+  /**
+   * This is a list of all the possible targets that can be returned by the
+   * lookup service.  If a target not on this list is returned, it will be
+   * treated the same as an unhealthy target.
+   */
+  'valid_targets': (string)[];
+  /**
+   * This value provides a default target to use if needed.  If set, it will be
+   * used if RLS returns an error, times out, or returns an invalid response.
+   * Note that requests can be routed only to a subdomain of the original
+   * target, e.g. "us_east_1.cloudbigtable.googleapis.com".
+   */
+  'default_target': (string);
+}
@@ -0,0 +1,26 @@
+import type * as grpc from '@grpc/grpc-js';
+import type { MessageTypeDefinition } from '@grpc/proto-loader';
+
+
+type SubtypeConstructor<Constructor extends new (...args: any) => any, Subtype> = {
+  new(...args: ConstructorParameters<Constructor>): Subtype;
+};
+
+export interface ProtoGrpcType {
+  google: {
+    protobuf: {
+      Duration: MessageTypeDefinition
+    }
+  }
+  grpc: {
+    lookup: {
+      v1: {
+        GrpcKeyBuilder: MessageTypeDefinition
+        NameMatcher: MessageTypeDefinition
+        RouteLookupClusterSpecifier: MessageTypeDefinition
+        RouteLookupConfig: MessageTypeDefinition
+      }
+    }
+  }
+}
+
@@ -16,7 +16,7 @@
 
 // This is a non-public, unstable API, but it's very convenient
 import { loadProtosWithOptionsSync } from '@grpc/proto-loader/build/src/util';
-import { experimental, logVerbosity } from '@grpc/grpc-js';
+import { experimental, logVerbosity, ServerInterceptor } from '@grpc/grpc-js';
 import { Any__Output } from './generated/google/protobuf/Any';
 import Filter = experimental.Filter;
 import FilterFactory = experimental.FilterFactory;
@@ -61,17 +61,48 @@ export interface HttpFilterFactoryConstructor<FilterType extends Filter> {
   new(config: HttpFilterConfig, overrideConfig?: HttpFilterConfig): FilterFactory<FilterType>;
 }
 
+export interface HttpServerFilterFactory {
+  (config: HttpFilterConfig, overrideConfig?: HttpFilterConfig): ServerInterceptor;
+}
+
 export interface HttpFilterRegistryEntry {
   parseTopLevelFilterConfig(encodedConfig: Any__Output): HttpFilterConfig | null;
   parseOverrideFilterConfig(encodedConfig: Any__Output): HttpFilterConfig | null;
-  httpFilterConstructor: HttpFilterFactoryConstructor<Filter>;
+  /**
+   * Create the client-side implementation of the filter. Filters that do not
+   * set this are not supported in client listeners.
+   */
+  httpFilterConstructor?: HttpFilterFactoryConstructor<Filter>;
+  /**
+   * Create the server-side implementation of the filter. Filters that do not
+   * set this are not supported in server listeners.
+   */
+  createServerFilter?: HttpServerFilterFactory;
+  /**
+   * The type URL of the per-route override config, if it is a different
+   * message type than the top-level config.
+   */
+  overrideTypeUrl?: string;
 }
 
 const FILTER_REGISTRY = new Map<string, HttpFilterRegistryEntry>();
+/**
+ * Maps the override config type URLs of filters that use a separate message
+ * type for overrides to their registry entries.
+ */
+const OVERRIDE_FILTER_REGISTRY = new Map<string, HttpFilterRegistryEntry>();
 
 export function registerHttpFilter(typeName: string, entry: HttpFilterRegistryEntry) {
   trace('Registered filter with type URL ' + typeName);
   FILTER_REGISTRY.set(typeName, entry);
+  if (entry.overrideTypeUrl) {
+    trace('Registered override config type URL ' + entry.overrideTypeUrl + ' for filter with type URL ' + typeName);
+    OVERRIDE_FILTER_REGISTRY.set(entry.overrideTypeUrl, entry);
+  }
+}
+
+function getOverrideRegistryEntry(typeUrl: string): HttpFilterRegistryEntry | undefined {
+  return OVERRIDE_FILTER_REGISTRY.get(typeUrl) ?? FILTER_REGISTRY.get(typeUrl);
 }
 
 const toObjectOptions = {
@@ -106,7 +137,13 @@ export function getTopLevelFilterUrl(encodedConfig: Any__Output): string {
   }
 }
 
-export function validateTopLevelFilter(httpFilter: HttpFilter__Output): boolean {
+/**
+ * Validate a filter in the http_filters list of an HttpConnectionManager.
+ * @param httpFilter
+ * @param isServer If true, the filter is being used in a server listener,
+ *     so it must have a server-side implementation if it is not optional.
+ */
+export function validateTopLevelFilter(httpFilter: HttpFilter__Output, isServer = false): boolean {
   if (!httpFilter.typed_config) {
     trace(httpFilter.name + ' validation failed: typed_config unset');
     return false;
@@ -120,6 +157,22 @@ export function validateTopLevelFilter(httpFilter: HttpFilter__Output): boolean
     return false;
   }
   const registryEntry = FILTER_REGISTRY.get(typeUrl);
+  if (registryEntry && isServer && !registryEntry.createServerFilter) {
+    if (httpFilter.is_optional) {
+      return true;
+    } else {
+      trace(httpFilter.name + ' validation failed: filter is not optional and type URL ' + typeUrl + ' is not supported on servers');
+      return false;
+    }
+  }
+  if (registryEntry && !isServer && !registryEntry.httpFilterConstructor) {
+    if (httpFilter.is_optional) {
+      return true;
+    } else {
+      trace(httpFilter.name + ' validation failed: filter is not optional and type URL ' + typeUrl + ' is not supported on clients');
+      return false;
+    }
+  }
   if (registryEntry) {
     const parsedConfig = registryEntry.parseTopLevelFilterConfig(encodedConfig);
     if (parsedConfig === null) {
@@ -168,7 +221,7 @@ export function validateOverrideFilter(encodedConfig: Any__Output): boolean {
   } else {
     typeUrl = realConfig.type_url;
   }
-  const registryEntry = FILTER_REGISTRY.get(typeUrl);
+  const registryEntry = getOverrideRegistryEntry(typeUrl);
   if (registryEntry) {
     const parsedConfig = registryEntry.parseOverrideFilterConfig(encodedConfig);
     if (parsedConfig === null) {
@@ -228,7 +281,7 @@ export function parseOverrideFilterConfig(encodedConfig: Any__Output) {
   } else {
     typeUrl = realConfig.type_url;
   }
-  const registryEntry = FILTER_REGISTRY.get(typeUrl);
+  const registryEntry = getOverrideRegistryEntry(typeUrl);
   if (registryEntry) {
     return registryEntry.parseOverrideFilterConfig(encodedConfig);
   } else {
@@ -238,9 +291,18 @@ export function parseOverrideFilterConfig(encodedConfig: Any__Output) {
 
 export function createHttpFilter(config: HttpFilterConfig, overrideConfig?: HttpFilterConfig): FilterFactory<Filter> | null {
   const registryEntry = FILTER_REGISTRY.get(config.typeUrl);
-  if (registryEntry) {
+  if (registryEntry?.httpFilterConstructor) {
     return new registryEntry.httpFilterConstructor(config, overrideConfig);
   } else {
     return null;
   }
 }
+
+export function createServerHttpFilter(config: HttpFilterConfig, overrideConfig?: HttpFilterConfig): ServerInterceptor | null {
+  const registryEntry = FILTER_REGISTRY.get(config.typeUrl);
+  if (registryEntry?.createServerFilter) {
+    return registryEntry.createServerFilter(config, overrideConfig);
+  } else {
+    return null;
+  }
+}
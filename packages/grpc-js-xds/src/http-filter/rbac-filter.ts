@@ -0,0 +1,174 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// This is a non-public, unstable API, but it's very convenient
+import { loadProtosWithOptionsSync } from '@grpc/proto-loader/build/src/util';
+import { experimental, logVerbosity, ServerInterceptingCall, ServerInterceptor, status } from '@grpc/grpc-js';
+import { Any__Output } from '../generated/google/protobuf/Any';
+import { HttpFilterConfig, registerHttpFilter } from '../http-filter';
+import { RBAC__Output } from '../generated/envoy/extensions/filters/http/rbac/v3/RBAC';
+import { RBACPerRoute__Output } from '../generated/envoy/extensions/filters/http/rbac/v3/RBACPerRoute';
+import { parseRbacRules, RbacConfigError, RbacEngine, RequestInfo } from '../rbac';
+
+const TRACER_NAME = 'rbac_filter';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const resourceRoot = loadProtosWithOptionsSync([
+  'envoy/extensions/filters/http/rbac/v3/rbac.proto'], {
+    keepCase: true,
+    includeDirs: [
+      // Paths are relative to src/build/http-filter
+      __dirname + '/../../../deps/xds/',
+      __dirname + '/../../../deps/envoy-api/',
+      __dirname + '/../../../deps/googleapis/',
+      __dirname + '/../../../deps/protoc-gen-validate/'
+    ],
+  }
+);
+
+const RBAC_FILTER_URL = 'type.googleapis.com/envoy.extensions.filters.http.rbac.v3.RBAC';
+const RBAC_FILTER_OVERRIDE_URL = 'type.googleapis.com/envoy.extensions.filters.http.rbac.v3.RBACPerRoute';
+
+const toObjectOptions = {
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true
+}
+
+function parseAnyMessage<MessageType>(message: Any__Output): MessageType | null {
+  const typeName = message.type_url.substring(message.type_url.lastIndexOf('/') + 1);
+  const messageType = resourceRoot.lookup(typeName);
+  if (messageType) {
+    const decodedMessage = (messageType as any).decode(message.value);
+    return decodedMessage.$type.toObject(decodedMessage, toObjectOptions) as MessageType;
+  } else {
+    return null;
+  }
+}
+
+function parseRbacMessage(message: RBAC__Output): RbacEngine | null {
+  if (message.matcher !== null) {
+    throw new RbacConfigError('matcher field is not supported');
+  }
+  // Shadow rules only affect statistics, which gRPC does not report
+  return parseRbacRules(message.rules);
+}
+
+interface RbacFilterConfig extends HttpFilterConfig {
+  typeUrl: 'type.googleapis.com/envoy.extensions.filters.http.rbac.v3.RBAC';
+  /**
+   * null means that all requests are allowed.
+   */
+  config: RbacEngine | null;
+}
+
+interface RbacOverrideFilterConfig extends HttpFilterConfig {
+  typeUrl: 'type.googleapis.com/envoy.extensions.filters.http.rbac.v3.RBACPerRoute';
+  /**
+   * null means that the filter is disabled for the route.
+   */
+  config: RbacEngine | null;
+}
+
+function parseTopLevelRbacConfig(encodedConfig: Any__Output): RbacFilterConfig | null {
+  if (encodedConfig.type_url !== RBAC_FILTER_URL) {
+    trace('Config parsing failed: unexpected type URL: ' + encodedConfig.type_url);
+    return null;
+  }
+  const parsedMessage = parseAnyMessage<RBAC__Output>(encodedConfig);
+  if (parsedMessage === null) {
+    trace('Config parsing failed: failed to parse RBAC message');
+    return null;
+  }
+  trace('Parsing RBAC message ' + JSON.stringify(parsedMessage, undefined, 2));
+  try {
+    return {
+      typeUrl: RBAC_FILTER_URL,
+      config: parseRbacMessage(parsedMessage)
+    };
+  } catch (e) {
+    trace('Config parsing failed: ' + (e as Error).message);
+    return null;
+  }
+}
+
+function parseOverrideRbacConfig(encodedConfig: Any__Output): RbacOverrideFilterConfig | null {
+  if (encodedConfig.type_url !== RBAC_FILTER_OVERRIDE_URL) {
+    trace('Override config parsing failed: unexpected type URL: ' + encodedConfig.type_url);
+    return null;
+  }
+  const parsedMessage = parseAnyMessage<RBACPerRoute__Output>(encodedConfig);
+  if (parsedMessage === null) {
+    trace('Override config parsing failed: failed to parse RBACPerRoute message');
+    return null;
+  }
+  trace('Parsing RBACPerRoute message ' + JSON.stringify(parsedMessage, undefined, 2));
+  try {
+    return {
+      typeUrl: RBAC_FILTER_OVERRIDE_URL,
+      config: parsedMessage.rbac ? parseRbacMessage(parsedMessage.rbac) : null
+    };
+  } catch (e) {
+    trace('Override config parsing failed: ' + (e as Error).message);
+    return null;
+  }
+}
+
+function createRbacInterceptor(config: HttpFilterConfig, overrideConfig?: HttpFilterConfig): ServerInterceptor {
+  const engine: RbacEngine | null = overrideConfig ? overrideConfig.config : config.config;
+  return (methodDescriptor, call) => {
+    if (engine === null) {
+      return new ServerInterceptingCall(call);
+    }
+    return new ServerInterceptingCall(call, {
+      start: next => {
+        next({
+          onReceiveMetadata: (metadata, mdNext) => {
+            const request: RequestInfo = {
+              path: methodDescriptor.path,
+              host: call.getHost(),
+              metadata: metadata,
+              connection: call.getConnectionInfo(),
+              authContext: call.getAuthContext()
+            };
+            if (engine.isAllowed(request)) {
+              mdNext(metadata);
+            } else {
+              call.sendStatus({
+                code: status.PERMISSION_DENIED,
+                details: 'Unauthorized RPC rejected',
+                metadata: null
+              });
+            }
+          }
+        });
+      }
+    });
+  };
+}
+
+export function setup() {
+  registerHttpFilter(RBAC_FILTER_URL, {
+    parseTopLevelFilterConfig: parseTopLevelRbacConfig,
+    parseOverrideFilterConfig: parseOverrideRbacConfig,
+    createServerFilter: createRbacInterceptor,
+    overrideTypeUrl: RBAC_FILTER_OVERRIDE_URL
+  });
+}
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { experimental } from '@grpc/grpc-js';
+import { experimental, ServerInterceptingCall, ServerInterceptor } from '@grpc/grpc-js';
 import { Any__Output } from '../generated/google/protobuf/Any';
 import { HttpFilterConfig, registerHttpFilter } from '../http-filter';
 import Filter = experimental.Filter;
@@ -31,6 +31,12 @@ class RouterFilterFactory implements FilterFactory<RouterFilter> {
   }
 }
 
+/**
+ * On the server, routing is done by the XdsServer itself, so the router
+ * filter does not need to do anything.
+ */
+const routerServerInterceptor: ServerInterceptor = (methodDescriptor, call) => new ServerInterceptingCall(call);
+
 const ROUTER_FILTER_URL = 'type.googleapis.com/envoy.extensions.filters.http.router.v3.Router';
 
 function parseConfig(encodedConfig: Any__Output): HttpFilterConfig | null {
@@ -44,6 +50,7 @@ export function setup() {
   registerHttpFilter(ROUTER_FILTER_URL, {
     parseTopLevelFilterConfig: parseConfig,
     parseOverrideFilterConfig: parseConfig,
-    httpFilterConstructor: RouterFilterFactory
+    httpFilterConstructor: RouterFilterFactory,
+    createServerFilter: () => routerServerInterceptor
   });
 }
\ No newline at end of file
@@ -0,0 +1,280 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// This is a non-public, unstable API, but it's very convenient
+import { loadProtosWithOptionsSync } from '@grpc/proto-loader/build/src/util';
+import { experimental, logVerbosity, Metadata } from '@grpc/grpc-js';
+import { Any__Output } from '../generated/google/protobuf/Any';
+import { Duration__Output } from '../generated/google/protobuf/Duration';
+import Filter = experimental.Filter;
+import FilterFactory = experimental.FilterFactory;
+import BaseFilter = experimental.BaseFilter;
+import CallConfig = experimental.CallConfig;
+import { HttpFilterConfig, registerHttpFilter } from '../http-filter';
+import { EXPERIMENTAL_OVERRIDE_HOST } from '../environment';
+import { OVERRIDE_HOST_ATTRIBUTE_KEY, SELECTED_ADDRESS_ATTRIBUTE_KEY } from '../load-balancer-xds-cluster-impl';
+
+const TRACER_NAME = 'stateful_session';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const resourceRoot = loadProtosWithOptionsSync([
+  'envoy/extensions/filters/http/stateful_session/v3/stateful_session.proto',
+  'envoy/extensions/http/stateful_session/cookie/v3/cookie.proto'], {
+    keepCase: true,
+    includeDirs: [
+      // Paths are relative to src/build/http-filter
+      __dirname + '/../../../deps/xds/',
+      __dirname + '/../../../deps/envoy-api/',
+      __dirname + '/../../../deps/protoc-gen-validate/'
+    ],
+  }
+);
+
+const STATEFUL_SESSION_FILTER_URL = 'type.googleapis.com/envoy.extensions.filters.http.stateful_session.v3.StatefulSession';
+const STATEFUL_SESSION_FILTER_OVERRIDE_URL = 'type.googleapis.com/envoy.extensions.filters.http.stateful_session.v3.StatefulSessionPerRoute';
+const COOKIE_SESSION_STATE_URL = 'type.googleapis.com/envoy.extensions.http.stateful_session.cookie.v3.CookieBasedSessionState';
+
+/* The generated types do not include these messages, so these interfaces
+ * describe just the fields that this filter uses. */
+interface StatefulSessionMessage {
+  session_state: {
+    name: string;
+    typed_config: Any__Output | null;
+  } | null;
+}
+
+interface StatefulSessionPerRouteMessage {
+  disabled?: boolean;
+  stateful_session?: StatefulSessionMessage | null;
+  override: 'disabled' | 'stateful_session';
+}
+
+interface CookieBasedSessionStateMessage {
+  cookie: {
+    name: string;
+    ttl: Duration__Output | null;
+    path: string;
+  } | null;
+}
+
+interface CookieConfig {
+  name: string;
+  /**
+   * The cookie's Max-Age in seconds. 0 means that it is omitted.
+   */
+  ttlSeconds: number;
+  path: string;
+}
+
+interface StatefulSessionFilterConfig extends HttpFilterConfig {
+  typeUrl: 'type.googleapis.com/envoy.extensions.filters.http.stateful_session.v3.StatefulSession';
+  /**
+   * null means that the filter does nothing.
+   */
+  config: CookieConfig | null;
+}
+
+interface StatefulSessionOverrideFilterConfig extends HttpFilterConfig {
+  typeUrl: 'type.googleapis.com/envoy.extensions.filters.http.stateful_session.v3.StatefulSessionPerRoute';
+  /**
+   * null means that the filter is disabled for the route.
+   */
+  config: CookieConfig | null;
+}
+
+const toObjectOptions = {
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true
+}
+
+function parseAnyMessage<MessageType>(message: Any__Output): MessageType | null {
+  const typeName = message.type_url.substring(message.type_url.lastIndexOf('/') + 1);
+  const messageType = resourceRoot.lookup(typeName);
+  if (messageType) {
+    const decodedMessage = (messageType as any).decode(message.value);
+    return decodedMessage.$type.toObject(decodedMessage, toObjectOptions) as MessageType;
+  } else {
+    return null;
+  }
+}
+
+/**
+ * Parse a StatefulSession message.
+ * @param message
+ * @returns The cookie config, or null if the filter should do nothing
+ * @throws Error if the message is invalid
+ */
+function parseStatefulSessionMessage(message: StatefulSessionMessage): CookieConfig | null {
+  if (!message.session_state?.typed_config) {
+    return null;
+  }
+  if (message.session_state.typed_config.type_url !== COOKIE_SESSION_STATE_URL) {
+    throw new Error(`unsupported session_state type ${message.session_state.typed_config.type_url}`);
+  }
+  const sessionState = parseAnyMessage<CookieBasedSessionStateMessage>(message.session_state.typed_config);
+  if (!sessionState) {
+    throw new Error('failed to parse CookieBasedSessionState message');
+  }
+  if (!sessionState.cookie?.name) {
+    throw new Error('cookie name is empty');
+  }
+  return {
+    name: sessionState.cookie.name,
+    ttlSeconds: sessionState.cookie.ttl ? Number.parseInt(sessionState.cookie.ttl.seconds) : 0,
+    path: sessionState.cookie.path
+  };
+}
+
+function parseTopLevelStatefulSessionConfig(encodedConfig: Any__Output): StatefulSessionFilterConfig | null {
+  if (encodedConfig.type_url !== STATEFUL_SESSION_FILTER_URL) {
+    trace('Config parsing failed: unexpected type URL: ' + encodedConfig.type_url);
+    return null;
+  }
+  const parsedMessage = parseAnyMessage<StatefulSessionMessage>(encodedConfig);
+  if (parsedMessage === null) {
+    trace('Config parsing failed: failed to parse StatefulSession message');
+    return null;
+  }
+  try {
+    return {
+      typeUrl: STATEFUL_SESSION_FILTER_URL,
+      config: parseStatefulSessionMessage(parsedMessage)
+    };
+  } catch (e) {
+    trace('Config parsing failed: ' + (e as Error).message);
+    return null;
+  }
+}
+
+function parseOverrideStatefulSessionConfig(encodedConfig: Any__Output): StatefulSessionOverrideFilterConfig | null {
+  if (encodedConfig.type_url !== STATEFUL_SESSION_FILTER_OVERRIDE_URL) {
+    trace('Override config parsing failed: unexpected type URL: ' + encodedConfig.type_url);
+    return null;
+  }
+  const parsedMessage = parseAnyMessage<StatefulSessionPerRouteMessage>(encodedConfig);
+  if (parsedMessage === null) {
+    trace('Override config parsing failed: failed to parse StatefulSessionPerRoute message');
+    return null;
+  }
+  try {
+    return {
+      typeUrl: STATEFUL_SESSION_FILTER_OVERRIDE_URL,
+      config: parsedMessage.override === 'stateful_session' && parsedMessage.stateful_session ? parseStatefulSessionMessage(parsedMessage.stateful_session) : null
+    };
+  } catch (e) {
+    trace('Override config parsing failed: ' + (e as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Get the value of the cookie with the given name from the cookie headers in
+ * the metadata.
+ * @param metadata
+ * @param name
+ */
+function getCookieValue(metadata: Metadata, name: string): string | null {
+  for (const header of metadata.get('cookie')) {
+    for (const cookie of header.toString().split(';')) {
+      const separatorIndex = cookie.indexOf('=');
+      if (separatorIndex < 0) {
+        continue;
+      }
+      if (cookie.substring(0, separatorIndex).trim() === name) {
+        return cookie.substring(separatorIndex + 1).trim();
+      }
+    }
+  }
+  return null;
+}
+
+class StatefulSessionFilter extends BaseFilter implements Filter {
+  private cookieAddress: string | null = null;
+  /**
+   * @param config null means that the filter does nothing
+   * @param callAttributes The call's attributes, shared with the picker
+   */
+  constructor(private config: CookieConfig | null, private callAttributes: Map<string, unknown> | undefined) {
+    super();
+  }
+
+  async sendMetadata(metadataPromise: Promise<Metadata>): Promise<Metadata> {
+    const metadata = await metadataPromise;
+    if (!this.config || !this.callAttributes) {
+      return metadata;
+    }
+    const cookieValue = getCookieValue(metadata, this.config.name);
+    if (cookieValue) {
+      const address = Buffer.from(cookieValue, 'base64').toString('utf8');
+      if (address) {
+        trace('Requesting host override ' + address);
+        this.cookieAddress = address;
+        this.callAttributes.set(OVERRIDE_HOST_ATTRIBUTE_KEY, address);
+      }
+    }
+    return metadata;
+  }
+
+  receiveMetadata(metadata: Metadata): Metadata {
+    if (!this.config || !this.callAttributes) {
+      return metadata;
+    }
+    const selectedAddress = this.callAttributes.get(SELECTED_ADDRESS_ATTRIBUTE_KEY);
+    if (typeof selectedAddress === 'string' && selectedAddress !== this.cookieAddress) {
+      let cookie = `${this.config.name}=${Buffer.from(selectedAddress, 'utf8').toString('base64')}`;
+      if (this.config.ttlSeconds > 0) {
+        cookie += `; Max-Age=${this.config.ttlSeconds}`;
+      }
+      if (this.config.path) {
+        cookie += `; Path=${this.config.path}`;
+      }
+      cookie += '; HttpOnly';
+      metadata.add('set-cookie', cookie);
+    }
+    return metadata;
+  }
+}
+
+class StatefulSessionFilterFactory implements FilterFactory<StatefulSessionFilter> {
+  private config: CookieConfig | null;
+  constructor(config: HttpFilterConfig, overrideConfig?: HttpFilterConfig) {
+    if (overrideConfig?.typeUrl === STATEFUL_SESSION_FILTER_OVERRIDE_URL) {
+      this.config = overrideConfig.config;
+    } else {
+      this.config = config.config;
+    }
+  }
+
+  createFilter(callConfig?: CallConfig): StatefulSessionFilter {
+    return new StatefulSessionFilter(this.config, callConfig?.callAttributes);
+  }
+}
+
+export function setup() {
+  if (EXPERIMENTAL_OVERRIDE_HOST) {
+    registerHttpFilter(STATEFUL_SESSION_FILTER_URL, {
+      parseTopLevelFilterConfig: parseTopLevelStatefulSessionConfig,
+      parseOverrideFilterConfig: parseOverrideStatefulSessionConfig,
+      httpFilterConstructor: StatefulSessionFilterFactory,
+      overrideTypeUrl: STATEFUL_SESSION_FILTER_OVERRIDE_URL
+    });
+  }
+}
@@ -26,10 +26,19 @@ import * as xds_wrr_locality from './load-balancer-xds-wrr-locality';
 import * as ring_hash from './load-balancer-ring-hash';
 import * as router_filter from './http-filter/router-filter';
 import * as fault_injection_filter from './http-filter/fault-injection-filter';
+import * as rbac_filter from './http-filter/rbac-filter';
+import * as stateful_session_filter from './http-filter/stateful-session-filter';
 import * as csds from './csds';
 import * as round_robin_lb from './lb-policy-registry/round-robin';
 import * as typed_struct_lb from './lb-policy-registry/typed-struct';
 import * as pick_first_lb from './lb-policy-registry/pick-first';
+import * as weighted_round_robin_lb from './lb-policy-registry/weighted-round-robin';
+import * as least_request_lb from './lb-policy-registry/least-request';
+
+export { XdsServer, XdsServerOptions, ServingStatusListener } from './server';
+export { XdsChannelCredentials, XdsServerCredentials } from './xds-credentials';
+export { XdsClient, createXdsClient, XDS_CLIENT_OPTION_KEY } from './xds-client';
+export { XdsManagementServer, XdsManagementServerOptions, XdsResourceSnapshot, ResponseState, ResponseListener, LoadReportListener } from './xds-management-server';
 
 /**
  * Register the "xds:" name scheme with the @grpc/grpc-js library.
@@ -46,8 +55,12 @@ export function register() {
   ring_hash.setup();
   router_filter.setup();
   fault_injection_filter.setup();
+  rbac_filter.setup();
+  stateful_session_filter.setup();
   csds.setup();
   round_robin_lb.setup();
   typed_struct_lb.setup();
   pick_first_lb.setup();
+  weighted_round_robin_lb.setup();
+  least_request_lb.setup();
 }
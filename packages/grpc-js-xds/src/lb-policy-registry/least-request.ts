@@ -0,0 +1,78 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// https://github.com/grpc/proposal/blob/master/A48-xds-least-request-lb-policy.md#xds-integration
+
+import { LoadBalancingConfig } from "@grpc/grpc-js";
+import { LoadBalancingPolicy__Output } from "../generated/envoy/config/cluster/v3/LoadBalancingPolicy";
+import { TypedExtensionConfig__Output } from "../generated/envoy/config/core/v3/TypedExtensionConfig";
+import { loadProtosWithOptionsSync } from "@grpc/proto-loader/build/src/util";
+import { Any__Output } from "../generated/google/protobuf/Any";
+import { LeastRequest__Output } from "../generated/envoy/extensions/load_balancing_policies/least_request/v3/LeastRequest";
+import { EXPERIMENTAL_LEAST_REQUEST } from "../environment";
+import { registerLbPolicy } from "../lb-policy-registry";
+
+const LEAST_REQUEST_TYPE_URL = 'type.googleapis.com/envoy.extensions.load_balancing_policies.least_request.v3.LeastRequest';
+
+const resourceRoot = loadProtosWithOptionsSync([
+  'envoy/extensions/load_balancing_policies/least_request/v3/least_request.proto'], {
+    keepCase: true,
+    includeDirs: [
+      // Paths are relative to src/build/lb-policy-registry
+      __dirname + '/../../../deps/envoy-api/',
+      __dirname + '/../../../deps/xds/',
+      __dirname + '/../../../deps/protoc-gen-validate'
+    ],
+  }
+);
+
+const toObjectOptions = {
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true
+}
+
+function decodeLeastRequestConfig(message: Any__Output): LeastRequest__Output {
+  const name = message.type_url.substring(message.type_url.lastIndexOf('/') + 1);
+  const type = resourceRoot.lookup(name);
+  if (type) {
+    const decodedMessage = (type as any).decode(message.value);
+    return decodedMessage.$type.toObject(decodedMessage, toObjectOptions) as LeastRequest__Output;
+  } else {
+    throw new Error(`TypedStruct parsing error: unexpected type URL ${message.type_url}`);
+  }
+}
+
+function convertToLoadBalancingPolicy(protoPolicy: TypedExtensionConfig__Output, selectChildPolicy: (childPolicy: LoadBalancingPolicy__Output) => LoadBalancingConfig): LoadBalancingConfig | null {
+  if (protoPolicy.typed_config?.type_url !== LEAST_REQUEST_TYPE_URL) {
+    throw new Error(`Least request LB policy parsing error: unexpected type URL ${protoPolicy.typed_config?.type_url}`);
+  }
+  const leastRequestMessage = decodeLeastRequestConfig(protoPolicy.typed_config);
+  // The other fields are not supported, so they are ignored
+  return {
+    least_request: {
+      choiceCount: leastRequestMessage.choice_count?.value ?? 2
+    }
+  };
+}
+
+export function setup() {
+  if (EXPERIMENTAL_LEAST_REQUEST) {
+    registerLbPolicy(LEAST_REQUEST_TYPE_URL, convertToLoadBalancingPolicy);
+  }
+}
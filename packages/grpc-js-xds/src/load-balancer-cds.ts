@@ -103,7 +103,9 @@ function generateDiscoverymechanismForCdsUpdate(config: CdsUpdate): DiscoveryMec
     type: config.type,
     eds_service_name: config.edsServiceName,
     dns_hostname: config.dnsHostname,
-    outlier_detection: config.outlierDetectionUpdate
+    outlier_detection: config.outlierDetectionUpdate,
+    security_config: config.securityConfig,
+    override_host_statuses: config.overrideHostStatuses
   };
 }
 
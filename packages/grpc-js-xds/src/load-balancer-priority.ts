@@ -61,6 +61,11 @@ export interface LocalityEndpoint extends Endpoint {
    * and the load balancing weight of the locality. Used in ring_hash.
    */
   endpointWeight: number;
+  /**
+   * The EDS health status of this endpoint. Used in xds_cluster_impl to keep
+   * DRAINING endpoints available only for host overrides.
+   */
+  healthStatus?: string;
 };
 
 export function isLocalityEndpoint(
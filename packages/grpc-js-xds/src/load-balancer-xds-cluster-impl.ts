@@ -15,7 +15,7 @@
  *
  */
 
-import { experimental, logVerbosity, status as Status, Metadata, connectivityState, ChannelOptions } from "@grpc/grpc-js";
+import { experimental, logVerbosity, status as Status, Metadata, connectivityState, ChannelCredentials, ChannelOptions } from "@grpc/grpc-js";
 import { validateXdsServerConfig, XdsServerConfig } from "./xds-bootstrap";
 import { getSingletonXdsClient, XdsClient, XdsClusterDropStats, XdsClusterLocalityStats } from "./xds-client";
 import { LocalityEndpoint } from "./load-balancer-priority";
@@ -36,7 +36,9 @@ import TypedLoadBalancingConfig = experimental.TypedLoadBalancingConfig;
 import selectLbConfigFromList = experimental.selectLbConfigFromList;
 import SubchannelInterface = experimental.SubchannelInterface;
 import BaseSubchannelWrapper = experimental.BaseSubchannelWrapper;
+import createCertificateProviderChannelCredentials = experimental.createCertificateProviderChannelCredentials;
 import { Locality__Output } from "./generated/envoy/config/core/v3/Locality";
+import { createSubjectAltNameChecker, UpstreamSecurityConfig } from "./tls-context";
 
 const TRACER_NAME = 'xds_cluster_impl';
 
@@ -48,6 +50,18 @@ const TYPE_NAME = 'xds_cluster_impl';
 
 const DEFAULT_MAX_CONCURRENT_REQUESTS = 1024;
 
+/**
+ * Call attribute key for the address, formatted as host:port, that the
+ * stateful session filter requests that the call be sent to.
+ */
+export const OVERRIDE_HOST_ATTRIBUTE_KEY = 'grpc.internal.xds.override_host';
+
+/**
+ * Call attribute key that the picker sets to the address of the subchannel
+ * that the call was actually sent to, formatted as host:port.
+ */
+export const SELECTED_ADDRESS_ATTRIBUTE_KEY = 'grpc.internal.xds.selected_address';
+
 export interface DropCategory {
   category: string;
   requests_per_million: number;
@@ -63,6 +77,19 @@ function validateDropCategory(obj: any): DropCategory {
   return obj;
 }
 
+function validateSecurityConfig(obj: any): UpstreamSecurityConfig {
+  if (!('ca_certificate_provider_instance' in obj && typeof obj.ca_certificate_provider_instance === 'string')) {
+    throw new Error('xds_cluster_impl config security_config must have a string field ca_certificate_provider_instance');
+  }
+  if ('identity_certificate_provider_instance' in obj && !(obj.identity_certificate_provider_instance === undefined || typeof obj.identity_certificate_provider_instance === 'string')) {
+    throw new Error('xds_cluster_impl config security_config identity_certificate_provider_instance must be a string if provided');
+  }
+  if (!('subject_alt_name_matchers' in obj && Array.isArray(obj.subject_alt_name_matchers))) {
+    throw new Error('xds_cluster_impl config security_config must have an array field subject_alt_name_matchers');
+  }
+  return obj;
+}
+
 class XdsClusterImplLoadBalancingConfig implements TypedLoadBalancingConfig {
   private maxConcurrentRequests: number;
   getLoadBalancerName(): string {
@@ -75,14 +102,20 @@ class XdsClusterImplLoadBalancingConfig implements TypedLoadBalancingConfig {
       child_policy: [this.childPolicy.toJsonObject()],
       max_concurrent_requests: this.maxConcurrentRequests,
       eds_service_name: this.edsServiceName,
-      lrs_load_reporting_server: this.lrsLoadReportingServer,
+      lrs_load_reporting_server: this.lrsLoadReportingServer
     };
+    if (this.securityConfig) {
+      jsonObj.security_config = this.securityConfig;
+    }
+    if (this.overrideHostStatuses) {
+      jsonObj.override_host_statuses = this.overrideHostStatuses;
+    }
     return {
       [TYPE_NAME]: jsonObj
     };
   }
 
-  constructor(private cluster: string, private dropCategories: DropCategory[], private childPolicy: TypedLoadBalancingConfig, private edsServiceName: string, private lrsLoadReportingServer?: XdsServerConfig, maxConcurrentRequests?: number) {
+  constructor(private cluster: string, private dropCategories: DropCategory[], private childPolicy: TypedLoadBalancingConfig, private edsServiceName: string, private lrsLoadReportingServer?: XdsServerConfig, maxConcurrentRequests?: number, private securityConfig?: UpstreamSecurityConfig, private overrideHostStatuses?: string[]) {
     this.maxConcurrentRequests = maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS;
   }
 
@@ -102,10 +135,22 @@ class XdsClusterImplLoadBalancingConfig implements TypedLoadBalancingConfig {
     return this.maxConcurrentRequests;
   }
 
+  getSecurityConfig() {
+    return this.securityConfig;
+  }
+
   getDropCategories() {
     return this.dropCategories;
   }
 
+  /**
+   * The health statuses of endpoints that can be selected by a host override.
+   * undefined means that host overrides are not supported.
+   */
+  getOverrideHostStatuses() {
+    return this.overrideHostStatuses;
+  }
+
   getChildPolicy() {
     return this.childPolicy;
   }
@@ -134,7 +179,11 @@ class XdsClusterImplLoadBalancingConfig implements TypedLoadBalancingConfig {
     if (obj.lrs_load_reporting_server) {
       lrsServer = validateXdsServerConfig(obj.lrs_load_reporting_server)
     }
-    return new XdsClusterImplLoadBalancingConfig(obj.cluster, obj.drop_categories.map(validateDropCategory), childConfig, obj.eds_service_name, lrsServer, obj.max_concurrent_requests);
+    if ('override_host_statuses' in obj && !(obj.override_host_statuses === undefined || (Array.isArray(obj.override_host_statuses) && obj.override_host_statuses.every((status: any) => typeof status === 'string')))) {
+      throw new Error('xds_cluster_impl config override_host_statuses must be an array of strings if provided');
+    }
+    const securityConfig = obj.security_config ? validateSecurityConfig(obj.security_config) : undefined;
+    return new XdsClusterImplLoadBalancingConfig(obj.cluster, obj.drop_categories.map(validateDropCategory), childConfig, obj.eds_service_name, lrsServer, obj.max_concurrent_requests, securityConfig, obj.override_host_statuses);
   }
 }
 
@@ -177,11 +226,20 @@ class LocalitySubchannelWrapper extends BaseSubchannelWrapper implements Subchan
 }
 
 /**
- * This picker is responsible for implementing the drop configuration, and for
- * recording drop stats and per-locality stats.
+ * Get the subchannel to use for a call's host override, if there is one.
+ * Returns null if the call should be picked by the child policy.
+ */
+interface OverrideHostSubchannelGetter {
+  (address: string): SubchannelInterface | null;
+}
+
+/**
+ * This picker is responsible for implementing the drop configuration, for
+ * recording drop stats and per-locality stats, and for honoring host
+ * overrides from the stateful session filter.
  */
 class XdsClusterImplPicker implements Picker {
-  constructor(private originalPicker: Picker, private callCounterMapKey: string, private maxConcurrentRequests: number, private dropCategories: DropCategory[], private clusterDropStats: XdsClusterDropStats | null) {}
+  constructor(private originalPicker: Picker, private callCounterMapKey: string, private maxConcurrentRequests: number, private dropCategories: DropCategory[], private clusterDropStats: XdsClusterDropStats | null, private getOverrideHostSubchannel: OverrideHostSubchannelGetter | null) {}
 
   private checkForMaxConcurrentRequestsDrop(): boolean {
     return callCounterMap.getConcurrentRequests(this.callCounterMapKey) >= this.maxConcurrentRequests;
@@ -209,8 +267,24 @@ class XdsClusterImplPicker implements Picker {
       }
     }
     if (details === null) {
-      const originalPick = this.originalPicker.pick(pickArgs);
+      const overrideHost = pickArgs.callAttributes?.get(OVERRIDE_HOST_ATTRIBUTE_KEY);
+      const overrideSubchannel = typeof overrideHost === 'string' ? this.getOverrideHostSubchannel?.(overrideHost) ?? null : null;
+      let originalPick: PickResult;
+      if (overrideSubchannel) {
+        originalPick = {
+          pickResultType: PickResultType.COMPLETE,
+          status: null,
+          subchannel: overrideSubchannel,
+          onCallStarted: null,
+          onCallEnded: null
+        };
+      } else {
+        originalPick = this.originalPicker.pick(pickArgs);
+      }
       const pickSubchannel = originalPick.subchannel ? (originalPick.subchannel as LocalitySubchannelWrapper) : null;
+      if (pickSubchannel && originalPick.pickResultType === PickResultType.COMPLETE) {
+        pickArgs.callAttributes?.set(SELECTED_ADDRESS_ATTRIBUTE_KEY, pickSubchannel.getAddress());
+      }
       return {
         pickResultType: originalPick.pickResultType,
         status: originalPick.status,
@@ -220,8 +294,8 @@ class XdsClusterImplPicker implements Picker {
           pickSubchannel?.getStatsObject()?.addCallStarted();
           callCounterMap.startCall(this.callCounterMapKey);
         },
-        onCallEnded: status => {
-          originalPick.onCallEnded?.(status);
+        onCallEnded: (status, details, metadata) => {
+          originalPick.onCallEnded?.(status, details, metadata);
           pickSubchannel?.getStatsObject()?.addCallFinished(status !== Status.OK)
           callCounterMap.endCall(this.callCounterMapKey);
         }
@@ -252,6 +326,23 @@ class XdsClusterImplBalancer implements LoadBalancer {
   private latestConfig: XdsClusterImplLoadBalancingConfig | null = null;
   private clusterDropStats: XdsClusterDropStats | null = null;
   private xdsClient: XdsClient | null = null;
+  /**
+   * The credentials that subchannels should use, as determined by the
+   * security config. null means that the channel's own credentials are used.
+   */
+  private credentialsOverride: ChannelCredentials | null = null;
+  /**
+   * The health status of each address in the latest endpoint list, including
+   * DRAINING addresses, which are not passed to the child policy.
+   */
+  private addressHealthStatuses = new Map<string, string>();
+  /**
+   * Subchannels that can be used for host overrides, by address. Each one is
+   * reffed here as long as its address is in the endpoint list, so that
+   * connections to DRAINING endpoints are kept after the child policy drops
+   * them.
+   */
+  private overrideHostSubchannels = new Map<string, SubchannelInterface>();
 
   constructor(private readonly channelControlHelper: ChannelControlHelper, options: ChannelOptions) {
       this.childBalancer = new ChildLoadBalancerHandler(createChildChannelControlHelper(channelControlHelper, {
@@ -259,7 +350,7 @@ class XdsClusterImplBalancer implements LoadBalancer {
           if (!this.xdsClient || !this.latestConfig || !this.lastestEndpointList) {
             throw new Error('xds_cluster_impl: invalid state: createSubchannel called with xdsClient or latestConfig not populated');
           }
-          const wrapperChild = channelControlHelper.createSubchannel(subchannelAddress, subchannelArgs);
+          const wrapperChild = channelControlHelper.createSubchannel(subchannelAddress, subchannelArgs, this.credentialsOverride);
           let locality: Locality__Output | null = null;
           for (const endpoint of this.lastestEndpointList) {
             if (endpointHasAddress(endpoint, subchannelAddress)) {
@@ -268,6 +359,7 @@ class XdsClusterImplBalancer implements LoadBalancer {
           }
           if (locality === null) {
             trace('Not reporting load for address ' + subchannelAddressToString(subchannelAddress) + ' because it has unknown locality.');
+            this.trackOverrideHostSubchannel(subchannelAddressToString(subchannelAddress), wrapperChild);
             return wrapperChild;
           }
           const lrsServer = this.latestConfig.getLrsLoadReportingServer();
@@ -280,27 +372,76 @@ class XdsClusterImplBalancer implements LoadBalancer {
               locality
             );
           }
-          return new LocalitySubchannelWrapper(wrapperChild, statsObj);
+          const wrapper = new LocalitySubchannelWrapper(wrapperChild, statsObj);
+          this.trackOverrideHostSubchannel(subchannelAddressToString(subchannelAddress), wrapper);
+          return wrapper;
         },
         updateState: (connectivityState, originalPicker) => {
           if (this.latestConfig === null) {
             channelControlHelper.updateState(connectivityState, originalPicker);
           } else {
-            const picker = new XdsClusterImplPicker(originalPicker, getCallCounterMapKey(this.latestConfig.getCluster(), this.latestConfig.getEdsServiceName()), this.latestConfig.getMaxConcurrentRequests(), this.latestConfig.getDropCategories(), this.clusterDropStats);
+            const overrideHostSubchannelGetter = this.latestConfig.getOverrideHostStatuses() ? (address: string) => this.getOverrideHostSubchannel(address) : null;
+            const picker = new XdsClusterImplPicker(originalPicker, getCallCounterMapKey(this.latestConfig.getCluster(), this.latestConfig.getEdsServiceName()), this.latestConfig.getMaxConcurrentRequests(), this.latestConfig.getDropCategories(), this.clusterDropStats, overrideHostSubchannelGetter);
             channelControlHelper.updateState(connectivityState, picker);
           }
         }
       }), options);
     }
+  private trackOverrideHostSubchannel(address: string, subchannel: SubchannelInterface) {
+    if (!this.latestConfig?.getOverrideHostStatuses()) {
+      return;
+    }
+    const oldSubchannel = this.overrideHostSubchannels.get(address);
+    subchannel.ref();
+    this.overrideHostSubchannels.set(address, subchannel);
+    oldSubchannel?.unref();
+  }
+  private getOverrideHostSubchannel(address: string): SubchannelInterface | null {
+    const healthStatus = this.addressHealthStatuses.get(address);
+    if (!healthStatus || !this.latestConfig?.getOverrideHostStatuses()?.includes(healthStatus)) {
+      return null;
+    }
+    const subchannel = this.overrideHostSubchannels.get(address);
+    if (!subchannel) {
+      return null;
+    }
+    switch (subchannel.getConnectivityState()) {
+      case connectivityState.READY:
+        return subchannel;
+      case connectivityState.IDLE:
+        /* The call is picked by the child policy this time, but the override
+         * can be honored once the connection is established. */
+        subchannel.startConnecting();
+        return null;
+      default:
+        return null;
+    }
+  }
   updateAddressList(endpointList: Endpoint[], lbConfig: TypedLoadBalancingConfig, attributes: { [key: string]: unknown; }): void {
     if (!(lbConfig instanceof XdsClusterImplLoadBalancingConfig)) {
       trace('Discarding address list update with unrecognized config ' + JSON.stringify(lbConfig.toJsonObject(), undefined, 2));
       return;
     }
     trace('Received update with config: ' + JSON.stringify(lbConfig, undefined, 2));
+    const oldSecurityConfig = this.latestConfig?.getSecurityConfig();
     this.lastestEndpointList = endpointList;
     this.latestConfig = lbConfig;
+    this.addressHealthStatuses.clear();
+    for (const endpoint of endpointList) {
+      for (const address of endpoint.addresses) {
+        this.addressHealthStatuses.set(subchannelAddressToString(address), (endpoint as LocalityEndpoint).healthStatus ?? 'UNKNOWN');
+      }
+    }
+    for (const [address, subchannel] of this.overrideHostSubchannels) {
+      if (!lbConfig.getOverrideHostStatuses() || !this.addressHealthStatuses.has(address)) {
+        subchannel.unref();
+        this.overrideHostSubchannels.delete(address);
+      }
+    }
     this.xdsClient = attributes.xdsClient as XdsClient;
+    if (JSON.stringify(oldSecurityConfig) !== JSON.stringify(lbConfig.getSecurityConfig())) {
+      this.credentialsOverride = this.createCredentials(lbConfig.getSecurityConfig());
+    }
     if (lbConfig.getLrsLoadReportingServer()) {
       this.clusterDropStats = this.xdsClient.addClusterDropStats(
         lbConfig.getLrsLoadReportingServer()!,
@@ -309,7 +450,22 @@ class XdsClusterImplBalancer implements LoadBalancer {
       );
     }
 
-    this.childBalancer.updateAddressList(endpointList, lbConfig.getChildPolicy(), attributes);
+    /* DRAINING endpoints are only kept for host overrides, so they are not
+     * used for new picks. */
+    const childEndpointList = endpointList.filter(endpoint => (endpoint as LocalityEndpoint).healthStatus !== 'DRAINING');
+    this.childBalancer.updateAddressList(childEndpointList, lbConfig.getChildPolicy(), attributes);
+  }
+  private createCredentials(securityConfig: UpstreamSecurityConfig | undefined): ChannelCredentials | null {
+    if (!securityConfig) {
+      return null;
+    }
+    /* The cluster resource validation guarantees that these instances exist
+     * in the bootstrap config. */
+    const caCertificateProvider = this.xdsClient!.getCertificateProvider(securityConfig.ca_certificate_provider_instance)!;
+    const identityCertificateProvider = securityConfig.identity_certificate_provider_instance ? this.xdsClient!.getCertificateProvider(securityConfig.identity_certificate_provider_instance) : null;
+    return createCertificateProviderChannelCredentials(caCertificateProvider, identityCertificateProvider, {
+      checkServerIdentity: createSubjectAltNameChecker(securityConfig.subject_alt_name_matchers)
+    });
   }
   exitIdle(): void {
     this.childBalancer.exitIdle();
@@ -319,6 +475,10 @@ class XdsClusterImplBalancer implements LoadBalancer {
   }
   destroy(): void {
     this.childBalancer.destroy();
+    for (const subchannel of this.overrideHostSubchannels.values()) {
+      subchannel.unref();
+    }
+    this.overrideHostSubchannels.clear();
   }
   getTypeName(): string {
     return TYPE_NAME;
@@ -17,7 +17,7 @@
 
 import { ChannelOptions, LoadBalancingConfig, Metadata, connectivityState, experimental, logVerbosity, status } from "@grpc/grpc-js";
 import { registerLoadBalancerType } from "@grpc/grpc-js/build/src/load-balancer";
-import { EXPERIMENTAL_DUALSTACK_ENDPOINTS, EXPERIMENTAL_OUTLIER_DETECTION } from "./environment";
+import { EXPERIMENTAL_DUALSTACK_ENDPOINTS, EXPERIMENTAL_OUTLIER_DETECTION, EXPERIMENTAL_OVERRIDE_HOST } from "./environment";
 import { Locality__Output } from "./generated/envoy/config/core/v3/Locality";
 import { ClusterLoadAssignment__Output } from "./generated/envoy/config/endpoint/v3/ClusterLoadAssignment";
 import { LocalityEndpoint, PriorityChildRaw } from "./load-balancer-priority";
@@ -41,6 +41,7 @@ import UnavailablePicker = experimental.UnavailablePicker;
 import { serverConfigEqual, validateXdsServerConfig, XdsServerConfig } from "./xds-bootstrap";
 import { EndpointResourceType } from "./xds-resource-type/endpoint-resource-type";
 import { SocketAddress__Output } from "./generated/envoy/config/core/v3/SocketAddress";
+import { UpstreamSecurityConfig } from "./tls-context";
 
 const TRACER_NAME = 'xds_cluster_resolver';
 
@@ -56,6 +57,8 @@ export interface DiscoveryMechanism {
   eds_service_name?: string;
   dns_hostname?: string;
   outlier_detection?: OutlierDetectionRawConfig;
+  security_config?: UpstreamSecurityConfig;
+  override_host_statuses?: string[];
 }
 
 function validateDiscoveryMechanism(obj: any): DiscoveryMechanism {
@@ -119,6 +122,7 @@ class XdsClusterResolverLoadBalancingConfig implements TypedLoadBalancingConfig
 interface WeightedEndpoint {
   endpoint: Endpoint;
   weight: number;
+  healthStatus?: string;
 }
 
 interface LocalityEntry {
@@ -142,6 +146,12 @@ interface DiscoveryMechanismEntry {
   latestUpdate?: PriorityEntry[];
 }
 
+function isUsableHealthStatus(healthStatus: string) {
+  /* DRAINING endpoints are only passed along so that they can still be used
+   * for host overrides from stateful session affinity. */
+  return healthStatus === 'UNKNOWN' || healthStatus === 'HEALTHY' || (EXPERIMENTAL_OVERRIDE_HOST && healthStatus === 'DRAINING');
+}
+
 function getEdsPriorities(edsUpdate: ClusterLoadAssignment__Output): PriorityEntry[] {
   const result: PriorityEntry[] = [];
   const dropCategories: DropCategory[] = [];
@@ -172,7 +182,7 @@ function getEdsPriorities(edsUpdate: ClusterLoadAssignment__Output): PriorityEnt
     if (!endpoint.load_balancing_weight) {
       continue;
     }
-    const endpoints: WeightedEndpoint[] = endpoint.lb_endpoints.filter(lbEndpoint => lbEndpoint.health_status === 'UNKNOWN' || lbEndpoint.health_status === 'HEALTHY').map(
+    const endpoints: WeightedEndpoint[] = endpoint.lb_endpoints.filter(lbEndpoint => isUsableHealthStatus(lbEndpoint.health_status)).map(
       (lbEndpoint) => {
         /* The validator in the XdsClient class ensures that each endpoint has
          * a socket_address with an IP address and a port_value. */
@@ -192,11 +202,12 @@ function getEdsPriorities(edsUpdate: ClusterLoadAssignment__Output): PriorityEnt
               port: socketAddress.port_value!
             }))
           },
-          weight: lbEndpoint.load_balancing_weight?.value ?? 1
+          weight: lbEndpoint.load_balancing_weight?.value ?? 1,
+          healthStatus: lbEndpoint.health_status
         };
       }
     );
-    if (endpoints.length === 0) {
+    if (!endpoints.some(endpoint => endpoint.healthStatus !== 'DRAINING')) {
       continue;
     }
     let priorityEntry: PriorityEntry;
@@ -321,6 +332,7 @@ export class XdsClusterResolver implements LoadBalancer {
               locality: localityObj.locality,
               localityWeight: localityObj.weight,
               endpointWeight: localityObj.weight * weightedEndpoint.weight,
+              healthStatus: weightedEndpoint.healthStatus,
               ...weightedEndpoint.endpoint
             });
           }
@@ -333,6 +345,8 @@ export class XdsClusterResolver implements LoadBalancer {
             max_concurrent_requests: entry.discoveryMechanism.max_concurrent_requests,
             eds_service_name: entry.discoveryMechanism.eds_service_name ?? '',
             lrs_load_reporting_server: entry.discoveryMechanism.lrs_load_reporting_server,
+            security_config: entry.discoveryMechanism.security_config,
+            override_host_statuses: entry.discoveryMechanism.override_host_statuses,
             child_policy: xdsClusterImplChildPolicy
           }
         }
@@ -17,6 +17,8 @@
 import { Metadata } from "@grpc/grpc-js";
 import { RE2 } from "re2-wasm";
 import { Fraction, fractionToString } from "./fraction";
+import { HeaderMatcher__Output } from "./generated/envoy/config/route/v3/HeaderMatcher";
+import { StringMatcher__Output } from "./generated/envoy/type/matcher/v3/StringMatcher";
 
 /**
  * An object representing a predicate that determines whether a given
@@ -265,3 +267,43 @@ export class FullMatcher implements Matcher {
     fraction: ${this.fraction ? fractionToString(this.fraction): 'none'}`;
   }
 }
+
+export function getValueMatcherForStringMatcher(stringMatch: StringMatcher__Output): ValueMatcher {
+  switch (stringMatch.match_pattern) {
+    case 'exact':
+      return new ExactValueMatcher(stringMatch.exact!, stringMatch.ignore_case);
+    case 'safe_regex':
+      return new SafeRegexValueMatcher(stringMatch.safe_regex!.regex);
+    case 'prefix':
+      return new PrefixValueMatcher(stringMatch.prefix!, stringMatch.ignore_case);
+    case 'suffix':
+      return new SuffixValueMatcher(stringMatch.suffix!, stringMatch.ignore_case);
+    case 'contains':
+      return new ContainsValueMatcher(stringMatch.contains!, stringMatch.ignore_case);
+    default:
+      return new RejectValueMatcher();
+  }
+}
+
+export function getValueMatcherForHeaderMatcher(headerMatch: HeaderMatcher__Output): ValueMatcher {
+  switch (headerMatch.header_match_specifier) {
+    case 'exact_match':
+      return new ExactValueMatcher(headerMatch.exact_match!, false);
+    case 'safe_regex_match':
+      return new SafeRegexValueMatcher(headerMatch.safe_regex_match!.regex);
+    case 'range_match':
+      const start = BigInt(headerMatch.range_match!.start);
+      const end = BigInt(headerMatch.range_match!.end);
+      return new RangeValueMatcher(start, end);
+    case 'present_match':
+      return new PresentValueMatcher();
+    case 'prefix_match':
+      return new PrefixValueMatcher(headerMatch.prefix_match!, false);
+    case 'suffix_match':
+      return new SuffixValueMatcher(headerMatch.suffix_match!, false);
+    case 'string_match':
+      return getValueMatcherForStringMatcher(headerMatch.string_match!);
+    default:
+      return new RejectValueMatcher();
+  }
+}
@@ -0,0 +1,424 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Certificate } from 'tls';
+import { AuthContext, ConnectionInfo, experimental, logVerbosity, Metadata } from '@grpc/grpc-js';
+import { RBAC__Output } from './generated/envoy/config/rbac/v3/RBAC';
+import { Permission__Output } from './generated/envoy/config/rbac/v3/Permission';
+import { Principal__Output } from './generated/envoy/config/rbac/v3/Principal';
+import { HeaderMatcher__Output } from './generated/envoy/config/route/v3/HeaderMatcher';
+import { CidrRange__Output } from './generated/envoy/config/core/v3/CidrRange';
+import { getValueMatcherForHeaderMatcher, getValueMatcherForStringMatcher, ValueMatcher } from './matcher';
+import { cidrRangeMatches, ParsedCidrRange, parseCidrRange, parseIpAddress } from './server-listener';
+
+/* Role-based access control, as specified in
+ * https://github.com/grpc/proposal/blob/master/A41-xds-rbac.md */
+
+const TRACER_NAME = 'rbac';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+/**
+ * The information about a request that RBAC policies can match against.
+ */
+export interface RequestInfo {
+  path: string;
+  host: string;
+  metadata: Metadata;
+  connection: ConnectionInfo;
+  authContext: AuthContext;
+}
+
+interface RbacMatcher {
+  toString(): string;
+  apply(request: RequestInfo): boolean;
+}
+
+class AnyMatcher implements RbacMatcher {
+  apply(request: RequestInfo) {
+    return true;
+  }
+
+  toString() {
+    return 'Any()';
+  }
+}
+
+class NoneMatcher implements RbacMatcher {
+  constructor(private reason: string) {}
+
+  apply(request: RequestInfo) {
+    return false;
+  }
+
+  toString() {
+    return 'None(' + this.reason + ')';
+  }
+}
+
+class AndMatcher implements RbacMatcher {
+  constructor(private children: RbacMatcher[]) {}
+
+  apply(request: RequestInfo) {
+    return this.children.every(child => child.apply(request));
+  }
+
+  toString() {
+    return 'And(' + this.children.map(child => child.toString()).join(', ') + ')';
+  }
+}
+
+class OrMatcher implements RbacMatcher {
+  constructor(private children: RbacMatcher[]) {}
+
+  apply(request: RequestInfo) {
+    return this.children.some(child => child.apply(request));
+  }
+
+  toString() {
+    return 'Or(' + this.children.map(child => child.toString()).join(', ') + ')';
+  }
+}
+
+class NotMatcher implements RbacMatcher {
+  constructor(private child: RbacMatcher) {}
+
+  apply(request: RequestInfo) {
+    return !this.child.apply(request);
+  }
+
+  toString() {
+    return 'Not(' + this.child.toString() + ')';
+  }
+}
+
+/**
+ * Get the value of a header as Envoy would see it. gRPC does not expose
+ * pseudo-headers in the metadata, so they are reconstructed from the other
+ * request information.
+ * @param request
+ * @param headerName
+ * @returns The value, or null if the header is not present
+ */
+function getHeaderValue(request: RequestInfo, headerName: string): string | null {
+  switch (headerName) {
+    case ':method':
+      return 'POST';
+    case ':path':
+      return request.path;
+    case ':authority':
+    case 'host':
+      return request.host;
+    case 'content-type':
+      return 'application/grpc';
+  }
+  /* Binary headers cannot be matched, and headers with the "grpc-" prefix
+   * are considered implementation details of the transport. */
+  if (headerName.endsWith('-bin') || headerName.startsWith('grpc-')) {
+    return null;
+  }
+  const values = request.metadata.get(headerName);
+  if (values.length === 0) {
+    return null;
+  }
+  return values.join(',');
+}
+
+class HeaderRbacMatcher implements RbacMatcher {
+  constructor(private headerName: string, private valueMatcher: ValueMatcher, private invertMatch: boolean) {}
+
+  apply(request: RequestInfo) {
+    const value = getHeaderValue(request, this.headerName);
+    const result = value !== null && this.valueMatcher.apply(value);
+    return this.invertMatch ? !result : result;
+  }
+
+  toString() {
+    return 'Header(' + this.headerName + ', ' + this.valueMatcher.toString() + ', invert=' + this.invertMatch + ')';
+  }
+}
+
+class PathRbacMatcher implements RbacMatcher {
+  constructor(private valueMatcher: ValueMatcher) {}
+
+  apply(request: RequestInfo) {
+    return this.valueMatcher.apply(request.path);
+  }
+
+  toString() {
+    return 'Path(' + this.valueMatcher.toString() + ')';
+  }
+}
+
+class IpRbacMatcher implements RbacMatcher {
+  constructor(private side: 'local' | 'remote', private range: ParsedCidrRange) {}
+
+  apply(request: RequestInfo) {
+    const addressString = this.side === 'local' ? request.connection.localAddress : request.connection.remoteAddress;
+    if (!addressString) {
+      return false;
+    }
+    const address = parseIpAddress(addressString);
+    if (!address) {
+      return false;
+    }
+    return cidrRangeMatches(this.range, address);
+  }
+
+  toString() {
+    return 'Ip(' + this.side + ', ' + this.range.address.toString('hex') + '/' + this.range.prefixLength + ')';
+  }
+}
+
+class DestinationPortRbacMatcher implements RbacMatcher {
+  /**
+   * @param start The first port in the range, inclusive
+   * @param end The last port in the range, exclusive
+   */
+  constructor(private start: number, private end: number) {}
+
+  apply(request: RequestInfo) {
+    const port = request.connection.localPort;
+    return port !== undefined && this.start <= port && port < this.end;
+  }
+
+  toString() {
+    return 'DestinationPort(' + this.start + ', ' + this.end + ')';
+  }
+}
+
+class RequestedServerNameRbacMatcher implements RbacMatcher {
+  constructor(private valueMatcher: ValueMatcher) {}
+
+  apply(request: RequestInfo) {
+    // gRPC does not track the SNI value, so it is treated as empty
+    return this.valueMatcher.apply('');
+  }
+
+  toString() {
+    return 'RequestedServerName(' + this.valueMatcher.toString() + ')';
+  }
+}
+
+/**
+ * Get the subject of a certificate in the format of RFC 2253
+ * @param subject
+ */
+function formatCertificateSubject(subject: Certificate): string {
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(subject).reverse()) {
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      parts.push(`${key}=${item}`);
+    }
+  }
+  return parts.join(',');
+}
+
+class AuthenticatedRbacMatcher implements RbacMatcher {
+  constructor(private principalNameMatcher: ValueMatcher | null) {}
+
+  apply(request: RequestInfo) {
+    if (request.authContext.transportSecurityType !== 'ssl') {
+      return false;
+    }
+    if (this.principalNameMatcher === null) {
+      return true;
+    }
+    const certificate = request.authContext.sslPeerCertificate;
+    if (!certificate) {
+      return this.principalNameMatcher.apply('');
+    }
+    const subjectAltNames = certificate.subjectaltname?.split(', ') ?? [];
+    const uriNames: string[] = [];
+    const dnsNames: string[] = [];
+    for (const name of subjectAltNames) {
+      if (name.startsWith('URI:')) {
+        uriNames.push(name.substring(4));
+      } else if (name.startsWith('DNS:')) {
+        dnsNames.push(name.substring(4));
+      }
+    }
+    // URI SANs are checked first, then DNS SANs, and then the subject
+    if (uriNames.length > 0) {
+      return uriNames.some(name => this.principalNameMatcher!.apply(name));
+    }
+    if (dnsNames.length > 0) {
+      return dnsNames.some(name => this.principalNameMatcher!.apply(name));
+    }
+    return this.principalNameMatcher.apply(formatCertificateSubject(certificate.subject));
+  }
+
+  toString() {
+    return 'Authenticated(' + (this.principalNameMatcher?.toString() ?? 'any') + ')';
+  }
+}
+
+/**
+ * Thrown by the matcher construction functions to indicate that the config
+ * is invalid.
+ */
+export class RbacConfigError extends Error {}
+
+function getHeaderMatcher(headerMatch: HeaderMatcher__Output): RbacMatcher {
+  return new HeaderRbacMatcher(headerMatch.name, getValueMatcherForHeaderMatcher(headerMatch), headerMatch.invert_match);
+}
+
+function getIpMatcher(side: 'local' | 'remote', range: CidrRange__Output): RbacMatcher {
+  const parsedRange = parseCidrRange(range);
+  if (!parsedRange) {
+    throw new RbacConfigError('Invalid CIDR range ' + range.address_prefix);
+  }
+  return new IpRbacMatcher(side, parsedRange);
+}
+
+function getPermissionMatcher(permission: Permission__Output): RbacMatcher {
+  switch (permission.rule) {
+    case 'and_rules':
+      return new AndMatcher(permission.and_rules!.rules.map(getPermissionMatcher));
+    case 'or_rules':
+      return new OrMatcher(permission.or_rules!.rules.map(getPermissionMatcher));
+    case 'any':
+      return new AnyMatcher();
+    case 'header':
+      return getHeaderMatcher(permission.header!);
+    case 'url_path':
+      return new PathRbacMatcher(getValueMatcherForStringMatcher(permission.url_path!.path!));
+    case 'destination_ip':
+      return getIpMatcher('local', permission.destination_ip!);
+    case 'destination_port':
+      return new DestinationPortRbacMatcher(permission.destination_port!, permission.destination_port! + 1);
+    case 'destination_port_range':
+      return new DestinationPortRbacMatcher(permission.destination_port_range!.start, permission.destination_port_range!.end);
+    case 'metadata':
+      // gRPC has no dynamic metadata, so metadata matchers never match
+      return permission.metadata!.invert ? new AnyMatcher() : new NoneMatcher('metadata');
+    case 'not_rule':
+      return new NotMatcher(getPermissionMatcher(permission.not_rule!));
+    case 'requested_server_name':
+      return new RequestedServerNameRbacMatcher(getValueMatcherForStringMatcher(permission.requested_server_name!));
+    default:
+      throw new RbacConfigError('Unsupported permission rule ' + permission.rule);
+  }
+}
+
+function getPrincipalMatcher(principal: Principal__Output): RbacMatcher {
+  switch (principal.identifier) {
+    case 'and_ids':
+      return new AndMatcher(principal.and_ids!.ids.map(getPrincipalMatcher));
+    case 'or_ids':
+      return new OrMatcher(principal.or_ids!.ids.map(getPrincipalMatcher));
+    case 'any':
+      return new AnyMatcher();
+    case 'authenticated': {
+      const principalName = principal.authenticated!.principal_name;
+      return new AuthenticatedRbacMatcher(principalName ? getValueMatcherForStringMatcher(principalName) : null);
+    }
+    case 'source_ip':
+      return getIpMatcher('remote', principal.source_ip!);
+    case 'direct_remote_ip':
+      return getIpMatcher('remote', principal.direct_remote_ip!);
+    case 'remote_ip':
+      // gRPC does not handle proxy protocols, so this is the same as direct_remote_ip
+      return getIpMatcher('remote', principal.remote_ip!);
+    case 'header':
+      return getHeaderMatcher(principal.header!);
+    case 'url_path':
+      return new PathRbacMatcher(getValueMatcherForStringMatcher(principal.url_path!.path!));
+    case 'metadata':
+      return principal.metadata!.invert ? new AnyMatcher() : new NoneMatcher('metadata');
+    case 'not_id':
+      return new NotMatcher(getPrincipalMatcher(principal.not_id!));
+    default:
+      throw new RbacConfigError('Unsupported principal identifier ' + principal.identifier);
+  }
+}
+
+interface RbacPolicy {
+  name: string;
+  permissions: RbacMatcher;
+  principals: RbacMatcher;
+}
+
+/**
+ * A parsed set of RBAC rules, which determines whether each request is
+ * allowed.
+ */
+export class RbacEngine {
+  constructor(private action: 'ALLOW' | 'DENY', private policies: RbacPolicy[]) {}
+
+  /**
+   * Get the name of the first policy that matches the request, or null if
+   * none match.
+   * @param request
+   */
+  private getMatchingPolicyName(request: RequestInfo): string | null {
+    for (const policy of this.policies) {
+      if (policy.permissions.apply(request) && policy.principals.apply(request)) {
+        return policy.name;
+      }
+    }
+    return null;
+  }
+
+  isAllowed(request: RequestInfo): boolean {
+    const matchingPolicyName = this.getMatchingPolicyName(request);
+    trace('Request to ' + request.path + ' matched policy ' + matchingPolicyName + ' with action ' + this.action);
+    if (this.action === 'ALLOW') {
+      return matchingPolicyName !== null;
+    } else {
+      return matchingPolicyName === null;
+    }
+  }
+
+  toString() {
+    return this.action + ' ' + this.policies.map(policy => `${policy.name}: permissions=${policy.permissions} principals=${policy.principals}`).join('; ');
+  }
+}
+
+/**
+ * Parse the rules from an RBAC message.
+ * @param rules
+ * @returns The parsed engine, or null if no rules apply and all requests
+ *     should be allowed
+ * @throws RbacConfigError if the rules are invalid
+ */
+export function parseRbacRules(rules: RBAC__Output | null): RbacEngine | null {
+  if (rules === null) {
+    return null;
+  }
+  if (rules.action === 'LOG') {
+    // LOG does not allow or deny any requests, and gRPC does not log
+    return null;
+  }
+  const policies: RbacPolicy[] = [];
+  /* Envoy evaluates policies in lexical order of their names, which only
+   * matters for determining which policy is reported as matching. */
+  for (const name of Object.keys(rules.policies).sort()) {
+    const policy = rules.policies[name];
+    if (policy.condition !== null || policy.checked_condition !== null) {
+      throw new RbacConfigError('Policy ' + name + ' has an unsupported condition');
+    }
+    policies.push({
+      name: name,
+      permissions: new OrMatcher(policy.permissions.map(getPermissionMatcher)),
+      principals: new OrMatcher(policy.principals.map(getPrincipalMatcher))
+    });
+  }
+  return new RbacEngine(rules.action, policies);
+}
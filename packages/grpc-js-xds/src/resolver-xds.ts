@@ -18,7 +18,7 @@ import * as protoLoader from '@grpc/proto-loader';
 
 import { RE2 } from 're2-wasm';
 
-import { getSingletonXdsClient, Watcher, XdsClient } from './xds-client';
+import { getSingletonXdsClient, Watcher, XDS_CLIENT_OPTION_KEY, XdsClient } from './xds-client';
 import { StatusObject, status, logVerbosity, Metadata, experimental, ChannelOptions, ServiceConfig, LoadBalancingConfig, RetryPolicy } from '@grpc/grpc-js';
 import Resolver = experimental.Resolver;
 import GrpcUri = experimental.GrpcUri;
@@ -32,14 +32,14 @@ import { VirtualHost__Output } from './generated/envoy/config/route/v3/VirtualHo
 import { RouteMatch__Output } from './generated/envoy/config/route/v3/RouteMatch';
 import { HeaderMatcher__Output } from './generated/envoy/config/route/v3/HeaderMatcher';
 import ConfigSelector = experimental.ConfigSelector;
-import { ContainsValueMatcher, ExactValueMatcher, FullMatcher, HeaderMatcher, Matcher, PathExactValueMatcher, PathPrefixValueMatcher, PathSafeRegexValueMatcher, PrefixValueMatcher, PresentValueMatcher, RangeValueMatcher, RejectValueMatcher, SafeRegexValueMatcher, SuffixValueMatcher, ValueMatcher } from './matcher';
+import { FullMatcher, getValueMatcherForHeaderMatcher, HeaderMatcher, Matcher, PathExactValueMatcher, PathPrefixValueMatcher, PathSafeRegexValueMatcher, RejectValueMatcher, ValueMatcher } from './matcher';
 import { envoyFractionToFraction, Fraction } from "./fraction";
 import { HashPolicy, RouteAction, SingleClusterRouteAction, WeightedCluster, WeightedClusterRouteAction } from './route-action';
 import { decodeSingleResource, HTTP_CONNECTION_MANGER_TYPE_URL } from './resources';
 import Duration = experimental.Duration;
 import { Duration__Output } from './generated/google/protobuf/Duration';
 import { createHttpFilter, HttpFilterConfig, parseOverrideFilterConfig, parseTopLevelFilterConfig } from './http-filter';
-import { EXPERIMENTAL_FAULT_INJECTION, EXPERIMENTAL_FEDERATION, EXPERIMENTAL_RETRY, EXPERIMENTAL_RING_HASH } from './environment';
+import { EXPERIMENTAL_FAULT_INJECTION, EXPERIMENTAL_FEDERATION, EXPERIMENTAL_RETRY, EXPERIMENTAL_RING_HASH, EXPERIMENTAL_RLS_LB } from './environment';
 import Filter = experimental.Filter;
 import FilterFactory = experimental.FilterFactory;
 import { BootstrapInfo, loadBootstrapInfo, validateBootstrapConfig } from './xds-bootstrap';
@@ -47,6 +47,7 @@ import { ListenerResourceType } from './xds-resource-type/listener-resource-type
 import { RouteConfigurationResourceType } from './xds-resource-type/route-config-resource-type';
 import { protoDurationToDuration } from './duration';
 import { loadXxhashApi } from './xxhash';
+import { CLUSTER_SPECIFIER_PLUGIN_CLUSTER_PREFIX, getClusterSpecifierPluginLbConfig } from './cluster-specifier-plugin';
 
 const TRACER_NAME = 'xds_resolver';
 
@@ -97,7 +98,7 @@ function domainMatch(matchType: MatchType, domainPattern: string, expectedHostNa
   }
 }
 
-function findVirtualHostForDomain(virutalHostList: VirtualHost__Output[], domain: string): VirtualHost__Output | null {
+export function findVirtualHostForDomain(virutalHostList: VirtualHost__Output[], domain: string): VirtualHost__Output | null {
   let targetVhost: VirtualHost__Output | null = null;
   let bestMatchType: MatchType = MatchType.INVALID_MATCH;
   let longestMatch = 0;
@@ -131,55 +132,10 @@ function findVirtualHostForDomain(virutalHostList: VirtualHost__Output[], domain
 const numberRegex = new RE2(/^-?\d+$/u);
 
 function getPredicateForHeaderMatcher(headerMatch: HeaderMatcher__Output): Matcher {
-  let valueChecker: ValueMatcher;
-  switch (headerMatch.header_match_specifier) {
-    case 'exact_match':
-      valueChecker = new ExactValueMatcher(headerMatch.exact_match!, false);
-      break;
-    case 'safe_regex_match':
-      valueChecker = new SafeRegexValueMatcher(headerMatch.safe_regex_match!.regex);
-      break;
-    case 'range_match':
-      const start = BigInt(headerMatch.range_match!.start);
-      const end = BigInt(headerMatch.range_match!.end);
-      valueChecker = new RangeValueMatcher(start, end);
-      break;
-    case 'present_match':
-      valueChecker = new PresentValueMatcher();
-      break;
-    case 'prefix_match':
-      valueChecker = new PrefixValueMatcher(headerMatch.prefix_match!, false);
-      break;
-    case 'suffix_match':
-      valueChecker = new SuffixValueMatcher(headerMatch.suffix_match!, false);
-      break;
-    case 'string_match':
-      const stringMatch = headerMatch.string_match!
-      switch (stringMatch.match_pattern) {
-        case 'exact':
-          valueChecker = new ExactValueMatcher(stringMatch.exact!, stringMatch.ignore_case);
-          break;
-        case 'safe_regex':
-          valueChecker = new SafeRegexValueMatcher(stringMatch.safe_regex!.regex);
-          break;
-        case 'prefix':
-          valueChecker = new PrefixValueMatcher(stringMatch.prefix!, stringMatch.ignore_case);
-          break;
-        case 'suffix':
-          valueChecker = new SuffixValueMatcher(stringMatch.suffix!, stringMatch.ignore_case);
-          break;
-        case 'contains':
-          valueChecker = new ContainsValueMatcher(stringMatch.contains!, stringMatch.ignore_case);
-          break;
-      }
-      break;
-    default:
-      valueChecker = new RejectValueMatcher();
-  }
-  return new HeaderMatcher(headerMatch.name, valueChecker, headerMatch.invert_match);
+  return new HeaderMatcher(headerMatch.name, getValueMatcherForHeaderMatcher(headerMatch), headerMatch.invert_match);
 }
 
-function getPredicateForMatcher(routeMatch: RouteMatch__Output): Matcher {
+export function getPredicateForMatcher(routeMatch: RouteMatch__Output): Matcher {
   let pathMatcher: ValueMatcher;
   const caseInsensitive = routeMatch.case_sensitive?.value === false;
   switch (routeMatch.path_specifier) {
@@ -224,7 +180,7 @@ function encodeURIPath(uriPath: string): string {
   return uriPath.replace(/[^A-Za-z0-9._~!$&^()*+,;=/-]/g, substring => encodeURIComponent(substring));
 }
 
-function formatTemplateString(templateString: string, value: string): string {
+export function formatTemplateString(templateString: string, value: string): string {
   if (templateString.startsWith('xdstp:')) {
     return templateString.replace(/%s/g, encodeURIPath(value));
   } else {
@@ -271,6 +227,12 @@ class XdsResolver implements Resolver {
 
   private clusterRefcounts = new Map<string, {inLastConfig: boolean, refCount: number}>();
 
+  /**
+   * The LB policy configs of the clusters that correspond to cluster
+   * specifier plugins, by cluster name.
+   */
+  private clusterSpecifierPluginLbConfigs = new Map<string, LoadBalancingConfig>();
+
   private latestDefaultTimeout: Duration | undefined = undefined;
 
   private ldsHttpFilterConfigs: {name: string, config: HttpFilterConfig}[] = [];
@@ -278,21 +240,41 @@ class XdsResolver implements Resolver {
   private bootstrapInfo: BootstrapInfo | null = null;
 
   private xdsClient: XdsClient;
+  /**
+   * True if the resolver created the client from the bootstrap config in the
+   * channel options, so it must close it when it is destroyed.
+   */
+  private ownsXdsClient = false;
+  /**
+   * True if the owned client was closed by destroy(). The resolver can be
+   * used again after that, so a new client is created on the next
+   * updateResolution call.
+   */
+  private ownedXdsClientClosed = false;
 
   constructor(
     private target: GrpcUri,
     private listener: ResolverListener,
     private channelOptions: ChannelOptions
   ) {
-    if (channelOptions[BOOTSTRAP_CONFIG_KEY]) {
+    if (channelOptions[XDS_CLIENT_OPTION_KEY]) {
+      this.xdsClient = channelOptions[XDS_CLIENT_OPTION_KEY];
+      this.bootstrapInfo = this.xdsClient.getBootstrapInfo();
+    } else if (channelOptions[BOOTSTRAP_CONFIG_KEY]) {
       const parsedConfig = JSON.parse(channelOptions[BOOTSTRAP_CONFIG_KEY]);
       this.bootstrapInfo = validateBootstrapConfig(parsedConfig);
       this.xdsClient = new XdsClient(this.bootstrapInfo);
+      this.ownsXdsClient = true;
     } else {
       this.xdsClient = getSingletonXdsClient();
     }
     this.ldsWatcher = new Watcher<Listener__Output>({
       onResourceChanged: (update: Listener__Output) => {
+        if (!update.api_listener) {
+          trace('Resolution error for target ' + uriToString(this.target) + ': LDS resource is not an API listener');
+          this.reportResolutionError(`Listener ${this.target} is not an API listener`);
+          return;
+        }
         const httpConnectionManager = decodeSingleResource(HTTP_CONNECTION_MANGER_TYPE_URL, update.api_listener!.api_listener!.value);
         const defaultTimeout = httpConnectionManager.common_http_protocol_options?.idle_timeout;
         if (defaultTimeout === null || defaultTimeout === undefined) {
@@ -407,8 +389,23 @@ class XdsResolver implements Resolver {
     }
     trace('Received virtual host config ' + JSON.stringify(virtualHost, undefined, 2));
     const allConfigClusters = new Set<string>();
-    const matchList: {matcher: Matcher, action: RouteAction}[] = [];
+    const clusterSpecifierPlugins = new Map<string, LoadBalancingConfig>();
+    if (EXPERIMENTAL_RLS_LB) {
+      for (const plugin of routeConfig.cluster_specifier_plugins) {
+        // Validation ensures that this does not throw
+        const lbConfig = getClusterSpecifierPluginLbConfig(plugin);
+        if (lbConfig) {
+          clusterSpecifierPlugins.set(plugin.extension!.name, lbConfig);
+        }
+      }
+    }
+    const matchList: {matcher: Matcher, action: RouteAction | null}[] = [];
     for (const route of virtualHost.routes) {
+      if (route.action === 'non_forwarding_action') {
+        // A null action fails matching RPCs
+        matchList.push({matcher: getPredicateForMatcher(route.match!), action: null});
+        continue;
+      }
       let routeAction: RouteAction;
       let timeout: Duration | undefined;
       /* For field prioritization see
@@ -484,8 +481,21 @@ class XdsResolver implements Resolver {
       switch (route.route!.cluster_specifier) {
         case 'cluster_header':
           continue;
-        case 'cluster':{
-          const cluster = route.route!.cluster!;
+        case 'cluster':
+        case 'cluster_specifier_plugin': {
+          let cluster: string;
+          if (route.route!.cluster_specifier === 'cluster') {
+            cluster = route.route!.cluster!;
+          } else {
+            const pluginName = route.route!.cluster_specifier_plugin!;
+            const lbConfig = clusterSpecifierPlugins.get(pluginName);
+            if (!lbConfig) {
+              // The route refers to an unsupported optional plugin
+              continue;
+            }
+            cluster = CLUSTER_SPECIFIER_PLUGIN_CLUSTER_PREFIX + pluginName;
+            this.clusterSpecifierPluginLbConfigs.set(cluster, lbConfig);
+          }
           allConfigClusters.add(cluster);
           const extraFilterFactories: FilterFactory<Filter>[] = [];
           if (EXPERIMENTAL_FAULT_INJECTION) {
@@ -582,6 +592,9 @@ class XdsResolver implements Resolver {
     const configSelector: ConfigSelector = (methodName, metadata, channelId) => {
       for (const {matcher, action} of matchList) {
         if (matcher.apply(methodName, metadata)) {
+          if (action === null) {
+            break;
+          }
           const clusterResult = action.getCluster();
           this.refCluster(clusterResult.name);
           const onCommitted = () => {
@@ -598,7 +611,8 @@ class XdsResolver implements Resolver {
             onCommitted: onCommitted,
             pickInformation: {cluster: clusterResult.name, hash: hash},
             status: status.OK,
-            dynamicFilterFactories: clusterResult.dynamicFilterFactories
+            dynamicFilterFactories: clusterResult.dynamicFilterFactories,
+            callAttributes: new Map()
           };
         }
       }
@@ -613,11 +627,17 @@ class XdsResolver implements Resolver {
     trace('Created ConfigSelector with configuration:');
     for (const {matcher, action} of matchList) {
       trace(matcher.toString());
-      trace('=> ' + action.toString());
+      trace('=> ' + (action?.toString() ?? 'non-forwarding action'));
+    }
+    for (const clusterName of Array.from(this.clusterSpecifierPluginLbConfigs.keys())) {
+      if (!this.clusterRefcounts.has(clusterName)) {
+        this.clusterSpecifierPluginLbConfigs.delete(clusterName);
+      }
     }
     const clusterConfigMap: {[key: string]: {child_policy: LoadBalancingConfig[]}} = {};
     for (const clusterName of this.clusterRefcounts.keys()) {
-      clusterConfigMap[clusterName] = {child_policy: [{cds: {cluster: clusterName}}]};
+      const pluginLbConfig = this.clusterSpecifierPluginLbConfigs.get(clusterName);
+      clusterConfigMap[clusterName] = {child_policy: [pluginLbConfig ?? {cds: {cluster: clusterName}}]};
     }
     const lbPolicyConfig = {xds_cluster_manager: {children: clusterConfigMap}};
     const serviceConfig: ServiceConfig = {
@@ -653,6 +673,10 @@ class XdsResolver implements Resolver {
   }
 
   updateResolution(): void {
+    if (this.ownedXdsClientClosed) {
+      this.xdsClient = new XdsClient(this.bootstrapInfo!);
+      this.ownedXdsClientClosed = false;
+    }
     if (EXPERIMENTAL_FEDERATION) {
       if (this.bootstrapInfo) {
         this.startResolution();
@@ -683,6 +707,10 @@ class XdsResolver implements Resolver {
       RouteConfigurationResourceType.cancelWatch(this.xdsClient, this.latestRouteConfigName, this.rdsWatcher);
       this.latestRouteConfigName = null;
     }
+    if (this.ownsXdsClient && !this.ownedXdsClientClosed) {
+      this.xdsClient.close();
+      this.ownedXdsClientClosed = true;
+    }
   }
 
   static getDefaultAuthority(target: GrpcUri) {
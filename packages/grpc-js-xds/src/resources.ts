@@ -27,6 +27,8 @@ import { Listener__Output } from './generated/envoy/config/listener/v3/Listener'
 import { RouteConfiguration__Output } from './generated/envoy/config/route/v3/RouteConfiguration';
 import { ClusterConfig__Output } from './generated/envoy/extensions/clusters/aggregate/v3/ClusterConfig';
 import { HttpConnectionManager__Output } from './generated/envoy/extensions/filters/network/http_connection_manager/v3/HttpConnectionManager';
+import { UpstreamTlsContext__Output } from './generated/envoy/extensions/transport_sockets/tls/v3/UpstreamTlsContext';
+import { DownstreamTlsContext__Output } from './generated/envoy/extensions/transport_sockets/tls/v3/DownstreamTlsContext';
 import { EXPERIMENTAL_FEDERATION } from './environment';
 
 export const EDS_TYPE_URL = 'type.googleapis.com/envoy.config.endpoint.v3.ClusterLoadAssignment';
@@ -50,10 +52,20 @@ export const CLUSTER_CONFIG_TYPE_URL = 'type.googleapis.com/envoy.extensions.clu
 
 export type ClusterConfigTypeUrl = 'type.googleapis.com/envoy.extensions.clusters.aggregate.v3.ClusterConfig';
 
+export const UPSTREAM_TLS_CONTEXT_TYPE_URL = 'type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.UpstreamTlsContext';
+
+export type UpstreamTlsContextTypeUrl = 'type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.UpstreamTlsContext';
+
+export const DOWNSTREAM_TLS_CONTEXT_TYPE_URL = 'type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.DownstreamTlsContext';
+
+export type DownstreamTlsContextTypeUrl = 'type.googleapis.com/envoy.extensions.transport_sockets.tls.v3.DownstreamTlsContext';
+
+type DecodableTypeUrl = AdsTypeUrl | HttpConnectionManagerTypeUrl | ClusterConfigTypeUrl | UpstreamTlsContextTypeUrl | DownstreamTlsContextTypeUrl;
+
 /**
  * Map type URLs to their corresponding message types
  */
-export type AdsOutputType<T extends AdsTypeUrl | HttpConnectionManagerTypeUrl | ClusterConfigTypeUrl> = T extends EdsTypeUrl
+export type AdsOutputType<T extends DecodableTypeUrl> = T extends EdsTypeUrl
   ? ClusterLoadAssignment__Output
   : T extends CdsTypeUrl
   ? Cluster__Output
@@ -63,6 +75,10 @@ export type AdsOutputType<T extends AdsTypeUrl | HttpConnectionManagerTypeUrl |
   ? Listener__Output
   : T extends HttpConnectionManagerTypeUrl
   ? HttpConnectionManager__Output
+  : T extends UpstreamTlsContextTypeUrl
+  ? UpstreamTlsContext__Output
+  : T extends DownstreamTlsContextTypeUrl
+  ? DownstreamTlsContext__Output
   : ClusterConfig__Output;
 
 
@@ -73,7 +89,8 @@ const resourceRoot = loadProtosWithOptionsSync([
   'envoy/config/cluster/v3/cluster.proto',
   'envoy/config/endpoint/v3/endpoint.proto',
   'envoy/extensions/filters/network/http_connection_manager/v3/http_connection_manager.proto',
-  'envoy/extensions/clusters/aggregate/v3/cluster.proto'], {
+  'envoy/extensions/clusters/aggregate/v3/cluster.proto',
+  'envoy/extensions/transport_sockets/tls/v3/tls.proto'], {
     keepCase: true,
     includeDirs: [
       // Paths are relative to src/build
@@ -92,7 +109,7 @@ const toObjectOptions = {
   oneofs: true
 }
 
-export function decodeSingleResource<T extends AdsTypeUrl | HttpConnectionManagerTypeUrl | ClusterConfigTypeUrl>(targetTypeUrl: T, message: Buffer): AdsOutputType<T> {
+export function decodeSingleResource<T extends DecodableTypeUrl>(targetTypeUrl: T, message: Buffer): AdsOutputType<T> {
   const name = targetTypeUrl.substring(targetTypeUrl.lastIndexOf('/') + 1);
   const type = resourceRoot.lookup(name);
   if (type) {
@@ -0,0 +1,289 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isIPv4, isIPv6 } from 'net';
+import { CidrRange__Output } from './generated/envoy/config/core/v3/CidrRange';
+import { FilterChainMatch__Output } from './generated/envoy/config/listener/v3/FilterChainMatch';
+
+/* Filter chain matching as specified in
+ * https://github.com/grpc/proposal/blob/master/A36-xds-for-servers.md#filterchainmatch */
+
+/**
+ * Parse an IPv4 or IPv6 address string into its bytes. IPv4-mapped IPv6
+ * addresses are converted to the corresponding IPv4 address.
+ * @param address
+ * @returns The 4 or 16 byte address, or null if the address is not valid
+ */
+export function parseIpAddress(address: string): Buffer | null {
+  if (isIPv4(address)) {
+    return Buffer.from(address.split('.').map(part => Number.parseInt(part)));
+  }
+  if (!isIPv6(address)) {
+    return null;
+  }
+  const zoneIndex = address.indexOf('%');
+  if (zoneIndex >= 0) {
+    address = address.substring(0, zoneIndex);
+  }
+  const groups: number[] = [];
+  let embeddedIpv4: Buffer | null = null;
+  const lastColon = address.lastIndexOf(':');
+  if (isIPv4(address.substring(lastColon + 1))) {
+    embeddedIpv4 = parseIpAddress(address.substring(lastColon + 1));
+    address = address.substring(0, lastColon + 1) + '0:0';
+  }
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missingGroups = 8 - headGroups.length - tailGroups.length;
+  for (const group of headGroups) {
+    groups.push(Number.parseInt(group, 16));
+  }
+  for (let i = 0; i < missingGroups; i++) {
+    groups.push(0);
+  }
+  for (const group of tailGroups) {
+    groups.push(Number.parseInt(group, 16));
+  }
+  const result = Buffer.alloc(16);
+  groups.forEach((group, index) => {
+    result.writeUInt16BE(group, index * 2);
+  });
+  if (embeddedIpv4) {
+    embeddedIpv4.copy(result, 12);
+  }
+  // ::ffff:0:0/96 is the IPv4-mapped address range
+  if (result.subarray(0, 10).every(byte => byte === 0) && result.readUInt16BE(10) === 0xffff) {
+    return result.subarray(12);
+  }
+  return result;
+}
+
+export interface ParsedCidrRange {
+  address: Buffer;
+  prefixLength: number;
+}
+
+export function parseCidrRange(range: CidrRange__Output): ParsedCidrRange | null {
+  const address = parseIpAddress(range.address_prefix);
+  if (!address) {
+    return null;
+  }
+  const prefixLength = Math.min(range.prefix_len?.value ?? 0, address.length * 8);
+  return { address, prefixLength };
+}
+
+export function cidrRangeMatches(range: ParsedCidrRange, address: Buffer): boolean {
+  if (range.address.length !== address.length) {
+    return false;
+  }
+  const fullBytes = Math.floor(range.prefixLength / 8);
+  if (!range.address.subarray(0, fullBytes).equals(address.subarray(0, fullBytes))) {
+    return false;
+  }
+  const remainingBits = range.prefixLength % 8;
+  if (remainingBits === 0) {
+    return true;
+  }
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (range.address[fullBytes] & mask) === (address[fullBytes] & mask);
+}
+
+function cidrRangeToString(range: ParsedCidrRange): string {
+  const maskedAddress = Buffer.alloc(range.address.length);
+  for (let i = 0; i < range.address.length; i++) {
+    const bitsInByte = Math.min(Math.max(range.prefixLength - i * 8, 0), 8);
+    maskedAddress[i] = range.address[i] & ((0xff << (8 - bitsInByte)) & 0xff);
+  }
+  return `${maskedAddress.toString('hex')}/${range.prefixLength}`;
+}
+
+function isLoopbackAddress(address: Buffer): boolean {
+  if (address.length === 4) {
+    return address[0] === 127;
+  } else {
+    return address.subarray(0, 15).every(byte => byte === 0) && address[15] === 1;
+  }
+}
+
+type SourceType = 'ANY' | 'SAME_IP_OR_LOOPBACK' | 'EXTERNAL';
+
+export interface ParsedFilterChainMatch {
+  prefixRanges: ParsedCidrRange[];
+  sourceType: SourceType;
+  sourcePrefixRanges: ParsedCidrRange[];
+  sourcePorts: number[];
+  /**
+   * False if the match contains fields that gRPC does not support, which
+   * means that no connection can match it.
+   */
+  usable: boolean;
+}
+
+/**
+ * Parse a FilterChainMatch message.
+ * @param match
+ * @returns The parsed match, or null if it contains an invalid CIDR range
+ */
+export function parseFilterChainMatch(match: FilterChainMatch__Output | null): ParsedFilterChainMatch | null {
+  if (!match) {
+    return {
+      prefixRanges: [],
+      sourceType: 'ANY',
+      sourcePrefixRanges: [],
+      sourcePorts: [],
+      usable: true
+    };
+  }
+  const prefixRanges: ParsedCidrRange[] = [];
+  for (const range of match.prefix_ranges) {
+    const parsedRange = parseCidrRange(range);
+    if (!parsedRange) {
+      return null;
+    }
+    prefixRanges.push(parsedRange);
+  }
+  const sourcePrefixRanges: ParsedCidrRange[] = [];
+  for (const range of match.source_prefix_ranges) {
+    const parsedRange = parseCidrRange(range);
+    if (!parsedRange) {
+      return null;
+    }
+    sourcePrefixRanges.push(parsedRange);
+  }
+  const usable =
+    match.destination_port === null &&
+    match.server_names.length === 0 &&
+    (match.transport_protocol === '' || match.transport_protocol === 'raw_buffer') &&
+    match.application_protocols.length === 0;
+  return {
+    prefixRanges,
+    sourceType: match.source_type,
+    sourcePrefixRanges,
+    sourcePorts: match.source_ports,
+    usable
+  };
+}
+
+/**
+ * Get a set of strings that identify each distinct combination of values that
+ * the match selects on. Two usable filter chains in the same listener that
+ * share a key would match the same connections, which is not allowed.
+ * @param match
+ */
+export function getFilterChainMatchKeys(match: ParsedFilterChainMatch): string[] {
+  if (!match.usable) {
+    return [];
+  }
+  const prefixRanges = match.prefixRanges.length > 0 ? match.prefixRanges.map(cidrRangeToString) : [''];
+  const sourcePrefixRanges = match.sourcePrefixRanges.length > 0 ? match.sourcePrefixRanges.map(cidrRangeToString) : [''];
+  const sourcePorts = match.sourcePorts.length > 0 ? match.sourcePorts.map(port => `${port}`) : [''];
+  const result: string[] = [];
+  for (const prefixRange of prefixRanges) {
+    for (const sourcePrefixRange of sourcePrefixRanges) {
+      for (const sourcePort of sourcePorts) {
+        result.push(`${prefixRange},${match.sourceType},${sourcePrefixRange},${sourcePort}`);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the length of the longest range in the list that matches the address,
+ * -1 if none match, or 0 if the list is empty.
+ * @param ranges
+ * @param address
+ */
+function getLongestMatchingPrefixLength(ranges: ParsedCidrRange[], address: Buffer): number {
+  if (ranges.length === 0) {
+    return 0;
+  }
+  let longest = -1;
+  for (const range of ranges) {
+    if (cidrRangeMatches(range, address)) {
+      longest = Math.max(longest, range.prefixLength);
+    }
+  }
+  return longest;
+}
+
+function keepMostSpecificPrefixMatches<EntryType extends { match: ParsedFilterChainMatch }>(
+  entries: EntryType[],
+  getRanges: (match: ParsedFilterChainMatch) => ParsedCidrRange[],
+  address: Buffer
+): EntryType[] {
+  let bestLength = -1;
+  let result: EntryType[] = [];
+  for (const entry of entries) {
+    const length = getLongestMatchingPrefixLength(getRanges(entry.match), address);
+    if (length < 0 || length < bestLength) {
+      continue;
+    }
+    if (length > bestLength) {
+      bestLength = length;
+      result = [];
+    }
+    result.push(entry);
+  }
+  return result;
+}
+
+export interface ConnectionInfo {
+  localAddress: string;
+  remoteAddress: string;
+  remotePort: number;
+}
+
+/**
+ * Select the filter chain that matches the connection, by successively
+ * narrowing the list of candidates on each field, in the order specified by
+ * Envoy.
+ * @param entries
+ * @param connection
+ * @returns The matching entry, or null if none match. The caller should then
+ *     fall back to the default filter chain, if there is one.
+ */
+export function selectFilterChain<EntryType extends { match: ParsedFilterChainMatch }>(
+  entries: EntryType[],
+  connection: ConnectionInfo
+): EntryType | null {
+  const localAddress = parseIpAddress(connection.localAddress);
+  const remoteAddress = parseIpAddress(connection.remoteAddress);
+  if (!localAddress || !remoteAddress) {
+    return null;
+  }
+  let candidates = entries.filter(entry => entry.match.usable);
+  candidates = keepMostSpecificPrefixMatches(candidates, match => match.prefixRanges, localAddress);
+  const connectionSourceType: SourceType =
+    isLoopbackAddress(remoteAddress) || remoteAddress.equals(localAddress) ? 'SAME_IP_OR_LOOPBACK' : 'EXTERNAL';
+  const sourceTypeMatches = candidates.filter(entry => entry.match.sourceType === connectionSourceType);
+  if (sourceTypeMatches.length > 0) {
+    candidates = sourceTypeMatches;
+  } else {
+    candidates = candidates.filter(entry => entry.match.sourceType === 'ANY');
+  }
+  candidates = keepMostSpecificPrefixMatches(candidates, match => match.sourcePrefixRanges, remoteAddress);
+  const sourcePortMatches = candidates.filter(entry => entry.match.sourcePorts.includes(connection.remotePort));
+  if (sourcePortMatches.length > 0) {
+    candidates = sourcePortMatches;
+  } else {
+    candidates = candidates.filter(entry => entry.match.sourcePorts.length === 0);
+  }
+  /* Validation rejects listeners in which multiple filter chains can match
+   * the same connection, so there should be at most one candidate left. */
+  return candidates[0] ?? null;
+}
@@ -0,0 +1,749 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as net from 'net';
+import { experimental, InterceptingServerListener, logVerbosity, Metadata, PartialStatusObject, Server, ServerCredentials, ServerInterceptingCallInterface, ServerInterceptor, ServerOptions, StatusObject, status } from '@grpc/grpc-js';
+import ConnectionInjector = experimental.ConnectionInjector;
+import createServerCredentialsWithInterceptors = experimental.createServerCredentialsWithInterceptors;
+import createCertificateProviderServerCredentials = experimental.createCertificateProviderServerCredentials;
+import { getSingletonXdsClient, Watcher, XDS_CLIENT_OPTION_KEY, XdsClient } from './xds-client';
+import { BootstrapInfo, loadBootstrapInfo, validateBootstrapConfig } from './xds-bootstrap';
+import { Listener__Output } from './generated/envoy/config/listener/v3/Listener';
+import { FilterChain__Output } from './generated/envoy/config/listener/v3/FilterChain';
+import { RouteConfiguration__Output } from './generated/envoy/config/route/v3/RouteConfiguration';
+import { VirtualHost__Output } from './generated/envoy/config/route/v3/VirtualHost';
+import { ListenerResourceType } from './xds-resource-type/listener-resource-type';
+import { RouteConfigurationResourceType } from './xds-resource-type/route-config-resource-type';
+import { decodeSingleResource, DOWNSTREAM_TLS_CONTEXT_TYPE_URL, HTTP_CONNECTION_MANGER_TYPE_URL } from './resources';
+import { createServerHttpFilter, HttpFilterConfig, parseOverrideFilterConfig, parseTopLevelFilterConfig } from './http-filter';
+import { findVirtualHostForDomain, formatTemplateString, getPredicateForMatcher } from './resolver-xds';
+import { Matcher } from './matcher';
+import { ParsedFilterChainMatch, parseFilterChainMatch, selectFilterChain } from './server-listener';
+import { XdsServerCredentials } from './xds-credentials';
+import { parseDownstreamTlsContext } from './tls-context';
+
+const TRACER_NAME = 'xds_server';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const BOOTSTRAP_CONFIG_KEY = 'grpc.TEST_ONLY_DO_NOT_USE_IN_PROD.xds_bootstrap_config';
+
+/**
+ * The default time that connections have to finish their calls after a
+ * listener update replaces their configuration, as recommended in
+ * https://github.com/grpc/proposal/blob/master/A36-xds-for-servers.md
+ */
+const DEFAULT_DRAIN_GRACE_TIME_MS = 10 * 60 * 1000;
+
+export interface ServingStatusListener {
+  /**
+   * @param address The address that was passed to bindAsync
+   * @param serving True if the address is now accepting connections
+   * @param error The reason the address is not serving, if known
+   */
+  (address: string, serving: boolean, error: StatusObject | null): void;
+}
+
+export interface XdsServerOptions extends ServerOptions {
+  /**
+   * The time that existing connections have to finish their calls when a
+   * listener update changes their configuration or the server stops
+   * serving.
+   */
+  drainGraceTimeMs?: number;
+  onServingStatusChange?: ServingStatusListener;
+  /**
+   * The xDS client to get the listener configuration from, created with
+   * createXdsClient. If unset, the server uses the process-wide client
+   * configured by the bootstrap environment variables.
+   */
+  'grpc-node.xds_client'?: XdsClient;
+}
+
+interface RouteEntry {
+  matcher: Matcher;
+  isNonForwarding: boolean;
+  interceptors: ServerInterceptor[];
+}
+
+interface NamedHttpFilterConfig {
+  name: string;
+  config: HttpFilterConfig;
+}
+
+function getOverrideFilterConfigs(typedPerFilterConfig: VirtualHost__Output['typed_per_filter_config']): Map<string, HttpFilterConfig> {
+  const result = new Map<string, HttpFilterConfig>();
+  for (const [name, filter] of Object.entries(typedPerFilterConfig ?? {})) {
+    const parsedConfig = parseOverrideFilterConfig(filter);
+    if (parsedConfig) {
+      result.set(name, parsedConfig);
+    }
+  }
+  return result;
+}
+
+/**
+ * The routes from a RouteConfiguration, with the HTTP filters that apply to
+ * each one.
+ */
+class RouteTable {
+  private virtualHostRoutes = new Map<VirtualHost__Output, RouteEntry[]>();
+  constructor(private routeConfig: RouteConfiguration__Output, httpFilters: NamedHttpFilterConfig[]) {
+    for (const virtualHost of routeConfig.virtual_hosts) {
+      const virtualHostOverrides = getOverrideFilterConfigs(virtualHost.typed_per_filter_config);
+      const routes: RouteEntry[] = [];
+      for (const route of virtualHost.routes) {
+        const routeOverrides = getOverrideFilterConfigs(route.typed_per_filter_config);
+        const interceptors: ServerInterceptor[] = [];
+        for (const filter of httpFilters) {
+          const overrideConfig = routeOverrides.get(filter.name) ?? virtualHostOverrides.get(filter.name);
+          const interceptor = createServerHttpFilter(filter.config, overrideConfig);
+          if (interceptor) {
+            interceptors.push(interceptor);
+          }
+        }
+        routes.push({
+          matcher: getPredicateForMatcher(route.match!),
+          isNonForwarding: route.action === 'non_forwarding_action',
+          interceptors: interceptors
+        });
+      }
+      this.virtualHostRoutes.set(virtualHost, routes);
+    }
+  }
+
+  selectRoute(host: string, methodName: string, metadata: Metadata): RouteEntry | null {
+    const virtualHost = findVirtualHostForDomain(this.routeConfig.virtual_hosts, host);
+    if (!virtualHost) {
+      return null;
+    }
+    for (const route of this.virtualHostRoutes.get(virtualHost)!) {
+      if (route.matcher.apply(methodName, metadata)) {
+        return route;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * A call that selects a route when the request metadata arrives, and then
+ * passes the call through the interceptors for that route's HTTP filters.
+ */
+class RoutingServerInterceptingCall implements ServerInterceptingCallInterface {
+  private routedCall: ServerInterceptingCallInterface | null = null;
+  private routedListener: InterceptingServerListener | null = null;
+  constructor(
+    private readonly methodDescriptor: Parameters<ServerInterceptor>[0],
+    private readonly nextCall: ServerInterceptingCallInterface,
+    private readonly routeTable: RouteTable | null
+  ) {}
+
+  start(listener: InterceptingServerListener): void {
+    this.nextCall.start({
+      onReceiveMetadata: metadata => {
+        const route = this.routeTable?.selectRoute(this.nextCall.getHost(), this.methodDescriptor.path, metadata) ?? null;
+        if (!route?.isNonForwarding) {
+          trace('No non-forwarding route found for host ' + this.nextCall.getHost() + ' method ' + this.methodDescriptor.path);
+          this.nextCall.sendStatus({
+            code: status.UNAVAILABLE,
+            details: 'No matching route found',
+            metadata: null
+          });
+          return;
+        }
+        const baseCall: ServerInterceptingCallInterface = {
+          start: routedListener => {
+            this.routedListener = routedListener;
+            routedListener.onReceiveMetadata(metadata);
+          },
+          sendMetadata: responseMetadata => this.nextCall.sendMetadata(responseMetadata),
+          sendMessage: (message, callback) => this.nextCall.sendMessage(message, callback),
+          sendStatus: responseStatus => this.nextCall.sendStatus(responseStatus),
+          startRead: () => this.nextCall.startRead(),
+          getPeer: () => this.nextCall.getPeer(),
+          getDeadline: () => this.nextCall.getDeadline(),
+          getHost: () => this.nextCall.getHost(),
+          getConnectionInfo: () => this.nextCall.getConnectionInfo(),
+          getAuthContext: () => this.nextCall.getAuthContext(),
+          getMetricsRecorder: () => this.nextCall.getMetricsRecorder()
+        };
+        this.routedCall = route.interceptors.reduce(
+          (call: ServerInterceptingCallInterface, interceptor: ServerInterceptor) => interceptor(this.methodDescriptor, call),
+          baseCall
+        );
+        this.routedCall.start(listener);
+      },
+      onReceiveMessage: message => {
+        this.routedListener?.onReceiveMessage(message);
+      },
+      onReceiveHalfClose: () => {
+        this.routedListener?.onReceiveHalfClose();
+      },
+      onCancel: () => {
+        if (this.routedListener) {
+          this.routedListener.onCancel();
+        } else {
+          listener.onCancel();
+        }
+      }
+    });
+  }
+  sendMetadata(metadata: Metadata): void {
+    (this.routedCall ?? this.nextCall).sendMetadata(metadata);
+  }
+  sendMessage(message: any, callback: () => void): void {
+    (this.routedCall ?? this.nextCall).sendMessage(message, callback);
+  }
+  sendStatus(status: PartialStatusObject): void {
+    (this.routedCall ?? this.nextCall).sendStatus(status);
+  }
+  startRead(): void {
+    (this.routedCall ?? this.nextCall).startRead();
+  }
+  getPeer(): string {
+    return this.nextCall.getPeer();
+  }
+  getDeadline() {
+    return this.nextCall.getDeadline();
+  }
+  getHost(): string {
+    return this.nextCall.getHost();
+  }
+  getConnectionInfo() {
+    return this.nextCall.getConnectionInfo();
+  }
+  getAuthContext() {
+    return this.nextCall.getAuthContext();
+  }
+  getMetricsRecorder() {
+    return this.nextCall.getMetricsRecorder();
+  }
+}
+
+interface FilterChainEntry {
+  match: ParsedFilterChainMatch;
+  injector: ConnectionInjector;
+  routeConfigName: string | null;
+  httpFilters: NamedHttpFilterConfig[];
+  routeTable: RouteTable | null;
+}
+
+interface ListenerConfig {
+  filterChains: FilterChainEntry[];
+  defaultFilterChain: FilterChainEntry | null;
+}
+
+function getAllFilterChains(config: ListenerConfig): FilterChainEntry[] {
+  return config.defaultFilterChain ? [...config.filterChains, config.defaultFilterChain] : config.filterChains;
+}
+
+interface RouteConfigWatcherEntry {
+  watcher: Watcher<RouteConfiguration__Output>;
+  /**
+   * The latest route configuration, or null if it has not been received or
+   * it does not exist.
+   */
+  routeConfig: RouteConfiguration__Output | null;
+  /**
+   * True if the resource has been received or is known to not exist.
+   */
+  resolved: boolean;
+}
+
+/**
+ * The state of a single address bound by an XdsServer. Connections are
+ * accepted on a TCP server, matched to a filter chain from the latest
+ * Listener resource for the address, and then handed to the Server through
+ * a connection injector for that filter chain.
+ */
+class XdsBoundPort {
+  private netServer: net.Server;
+  private listenerWatcher: Watcher<Listener__Output>;
+  private routeConfigWatchers = new Map<string, RouteConfigWatcherEntry>();
+  /**
+   * The configuration used for new connections, or null if the address is
+   * not serving.
+   */
+  private currentConfig: ListenerConfig | null = null;
+  /**
+   * A configuration that will replace the current configuration when all of
+   * its route configurations are resolved.
+   */
+  private pendingConfig: ListenerConfig | null = null;
+  private resourceName: string | null = null;
+  private serving = false;
+
+  constructor(
+    private server: XdsServer,
+    private xdsClient: XdsClient,
+    private address: string,
+    private host: string,
+    private credentials: ServerCredentials,
+    private drainGraceTimeMs: number,
+    private statusListener: ServingStatusListener
+  ) {
+    this.netServer = net.createServer(socket => {
+      this.handleConnection(socket);
+    });
+    this.listenerWatcher = new Watcher<Listener__Output>({
+      onResourceChanged: (update: Listener__Output) => {
+        this.handleListenerUpdate(update);
+      },
+      onError: (error: StatusObject) => {
+        trace(this.address + ' received LDS error: ' + error.details);
+        /* Errors only matter if there is no configuration in use, because a
+         * valid configuration continues to be used after a later update is
+         * rejected. */
+        if (!this.currentConfig) {
+          this.statusListener(this.address, false, error);
+        }
+      },
+      onResourceDoesNotExist: () => {
+        trace(this.address + ' LDS resource ' + this.resourceName + ' does not exist');
+        this.stopServing({
+          code: status.NOT_FOUND,
+          details: `Listener ${this.resourceName} does not exist`,
+          metadata: new Metadata()
+        });
+      }
+    });
+  }
+
+  /**
+   * Start listening on the given port, and then start watching the Listener
+   * resource for the resulting address.
+   * @param port
+   * @param resourceNameTemplate
+   * @returns The port number that was bound
+   */
+  listen(port: number, resourceNameTemplate: string): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      const onError = (error: Error) => {
+        reject(error);
+      };
+      this.netServer.once('error', onError);
+      this.netServer.listen(port, this.host, () => {
+        this.netServer.removeListener('error', onError);
+        const boundPort = (this.netServer.address() as net.AddressInfo).port;
+        const listeningAddress = net.isIPv6(this.host) ? `[${this.host}]:${boundPort}` : `${this.host}:${boundPort}`;
+        this.resourceName = formatTemplateString(resourceNameTemplate, listeningAddress);
+        trace(this.address + ' listening on port ' + boundPort + ', watching resource ' + this.resourceName);
+        ListenerResourceType.startWatch(this.xdsClient, this.resourceName, this.listenerWatcher);
+        resolve(boundPort);
+      });
+    });
+  }
+
+  private handleConnection(socket: net.Socket) {
+    if (!this.currentConfig) {
+      trace(this.address + ' closing connection from ' + socket.remoteAddress + ' because the address is not serving');
+      socket.destroy();
+      return;
+    }
+    const filterChain = selectFilterChain(this.currentConfig.filterChains, {
+      localAddress: socket.localAddress ?? '',
+      remoteAddress: socket.remoteAddress ?? '',
+      remotePort: socket.remotePort ?? 0
+    }) ?? this.currentConfig.defaultFilterChain;
+    if (!filterChain) {
+      trace(this.address + ' closing connection from ' + socket.remoteAddress + ' because no filter chain matched');
+      socket.destroy();
+      return;
+    }
+    filterChain.injector.injectConnection(socket);
+  }
+
+  /**
+   * Determine the credentials for connections that use a filter chain. The
+   * security configuration in the filter chain is only used if the port was
+   * bound with XdsServerCredentials.
+   * @param filterChain
+   */
+  private getFilterChainCredentials(filterChain: FilterChain__Output): ServerCredentials {
+    if (!(this.credentials instanceof XdsServerCredentials)) {
+      return this.credentials;
+    }
+    if (!filterChain.transport_socket) {
+      return this.credentials.getFallbackCredentials();
+    }
+    // Validation guarantees that this is a valid DownstreamTlsContext
+    const downstreamTlsContext = decodeSingleResource(DOWNSTREAM_TLS_CONTEXT_TYPE_URL, filterChain.transport_socket.typed_config!.value);
+    const securityConfig = parseDownstreamTlsContext(downstreamTlsContext, this.xdsClient.getBootstrapInfo());
+    const caCertificateProvider = securityConfig.caCertificateProviderInstance ? this.xdsClient.getCertificateProvider(securityConfig.caCertificateProviderInstance) : null;
+    const identityCertificateProvider = this.xdsClient.getCertificateProvider(securityConfig.identityCertificateProviderInstance)!;
+    return createCertificateProviderServerCredentials(caCertificateProvider, identityCertificateProvider, securityConfig.requireClientCertificate);
+  }
+
+  private createFilterChainEntry(filterChain: FilterChain__Output): FilterChainEntry {
+    // Validation guarantees that there is exactly one HttpConnectionManager
+    const httpConnectionManager = decodeSingleResource(HTTP_CONNECTION_MANGER_TYPE_URL, filterChain.filters[0].typed_config!.value);
+    const httpFilters: NamedHttpFilterConfig[] = [];
+    for (const filter of httpConnectionManager.http_filters) {
+      const filterConfig = parseTopLevelFilterConfig(filter.typed_config!);
+      if (filterConfig) {
+        httpFilters.push({ name: filter.name, config: filterConfig });
+      }
+    }
+    /* The interceptor reads the route table when each call starts, so that
+     * calls use the latest route configuration from RDS. */
+    const routingInterceptor: ServerInterceptor = (methodDescriptor, call) =>
+      new RoutingServerInterceptingCall(methodDescriptor, call, entry.routeTable);
+    const injector = this.server.createConnectionInjector(
+      createServerCredentialsWithInterceptors(this.getFilterChainCredentials(filterChain), [routingInterceptor])
+    );
+    const isRds = httpConnectionManager.route_specifier === 'rds';
+    const entry: FilterChainEntry = {
+      match: parseFilterChainMatch(filterChain.filter_chain_match)!,
+      injector: injector,
+      routeConfigName: isRds ? httpConnectionManager.rds!.route_config_name : null,
+      httpFilters: httpFilters,
+      routeTable: isRds ? null : new RouteTable(httpConnectionManager.route_config!, httpFilters)
+    };
+    return entry;
+  }
+
+  private handleListenerUpdate(listener: Listener__Output) {
+    const socketAddress = listener.address!.socket_address!;
+    const boundPort = (this.netServer.address() as net.AddressInfo | null)?.port;
+    if (socketAddress.address !== this.host || socketAddress.port_value !== boundPort) {
+      trace(this.address + ' received Listener with mismatched address ' + socketAddress.address + ':' + socketAddress.port_value);
+      this.stopServing({
+        code: status.INVALID_ARGUMENT,
+        details: `Listener ${this.resourceName} address ${socketAddress.address}:${socketAddress.port_value} does not match`,
+        metadata: new Metadata()
+      });
+      return;
+    }
+    if (this.pendingConfig) {
+      this.destroyConfig(this.pendingConfig);
+    }
+    this.pendingConfig = {
+      filterChains: listener.filter_chains.map(filterChain => this.createFilterChainEntry(filterChain)),
+      defaultFilterChain: listener.default_filter_chain ? this.createFilterChainEntry(listener.default_filter_chain) : null
+    };
+    for (const filterChain of getAllFilterChains(this.pendingConfig)) {
+      if (filterChain.routeConfigName !== null) {
+        this.watchRouteConfig(filterChain.routeConfigName);
+      }
+    }
+    this.updateRouteTables(this.pendingConfig);
+    this.maybeCommitPendingConfig();
+  }
+
+  private watchRouteConfig(name: string) {
+    if (this.routeConfigWatchers.has(name)) {
+      return;
+    }
+    const entry: RouteConfigWatcherEntry = {
+      watcher: new Watcher<RouteConfiguration__Output>({
+        onResourceChanged: (update: RouteConfiguration__Output) => {
+          entry.routeConfig = update;
+          entry.resolved = true;
+          this.handleRouteConfigUpdate();
+        },
+        onError: (error: StatusObject) => {
+          trace(this.address + ' received RDS error for ' + name + ': ' + error.details);
+        },
+        onResourceDoesNotExist: () => {
+          trace(this.address + ' RDS resource ' + name + ' does not exist');
+          entry.routeConfig = null;
+          entry.resolved = true;
+          this.handleRouteConfigUpdate();
+        }
+      }),
+      routeConfig: null,
+      resolved: false
+    };
+    this.routeConfigWatchers.set(name, entry);
+    RouteConfigurationResourceType.startWatch(this.xdsClient, name, entry.watcher);
+  }
+
+  private handleRouteConfigUpdate() {
+    if (this.currentConfig) {
+      this.updateRouteTables(this.currentConfig);
+    }
+    if (this.pendingConfig) {
+      this.updateRouteTables(this.pendingConfig);
+      this.maybeCommitPendingConfig();
+    }
+  }
+
+  private updateRouteTables(config: ListenerConfig) {
+    for (const filterChain of getAllFilterChains(config)) {
+      if (filterChain.routeConfigName !== null) {
+        const routeConfig = this.routeConfigWatchers.get(filterChain.routeConfigName)?.routeConfig ?? null;
+        filterChain.routeTable = routeConfig ? new RouteTable(routeConfig, filterChain.httpFilters) : null;
+      }
+    }
+  }
+
+  private maybeCommitPendingConfig() {
+    if (!this.pendingConfig) {
+      return;
+    }
+    for (const filterChain of getAllFilterChains(this.pendingConfig)) {
+      if (filterChain.routeConfigName !== null && !this.routeConfigWatchers.get(filterChain.routeConfigName)?.resolved) {
+        return;
+      }
+    }
+    trace(this.address + ' applying new Listener configuration');
+    if (this.currentConfig) {
+      this.drainConfig(this.currentConfig);
+    }
+    this.currentConfig = this.pendingConfig;
+    this.pendingConfig = null;
+    this.removeUnusedRouteConfigWatchers();
+    if (!this.serving) {
+      this.serving = true;
+      this.statusListener(this.address, true, null);
+    }
+  }
+
+  private removeUnusedRouteConfigWatchers() {
+    const usedNames = new Set<string>();
+    for (const config of [this.currentConfig, this.pendingConfig]) {
+      if (config) {
+        for (const filterChain of getAllFilterChains(config)) {
+          if (filterChain.routeConfigName !== null) {
+            usedNames.add(filterChain.routeConfigName);
+          }
+        }
+      }
+    }
+    for (const [name, entry] of this.routeConfigWatchers) {
+      if (!usedNames.has(name)) {
+        RouteConfigurationResourceType.cancelWatch(this.xdsClient, name, entry.watcher);
+        this.routeConfigWatchers.delete(name);
+      }
+    }
+  }
+
+  private drainConfig(config: ListenerConfig) {
+    for (const filterChain of getAllFilterChains(config)) {
+      filterChain.injector.drain(this.drainGraceTimeMs);
+      filterChain.injector.destroy();
+    }
+  }
+
+  private destroyConfig(config: ListenerConfig) {
+    for (const filterChain of getAllFilterChains(config)) {
+      filterChain.injector.destroy();
+    }
+  }
+
+  private stopServing(error: StatusObject) {
+    if (this.pendingConfig) {
+      this.destroyConfig(this.pendingConfig);
+      this.pendingConfig = null;
+    }
+    if (this.currentConfig) {
+      this.drainConfig(this.currentConfig);
+      this.currentConfig = null;
+    }
+    this.removeUnusedRouteConfigWatchers();
+    this.serving = false;
+    this.statusListener(this.address, false, error);
+  }
+
+  /**
+   * Drain the connections using the current configuration, without changing
+   * the serving state.
+   * @param graceTimeMs
+   */
+  drain(graceTimeMs: number) {
+    if (this.currentConfig) {
+      for (const filterChain of getAllFilterChains(this.currentConfig)) {
+        filterChain.injector.drain(graceTimeMs);
+      }
+    }
+  }
+
+  /**
+   * Stop accepting connections and stop watching resources. Existing
+   * connections are left to the Server's shutdown handling.
+   */
+  close() {
+    if (this.resourceName !== null) {
+      ListenerResourceType.cancelWatch(this.xdsClient, this.resourceName, this.listenerWatcher);
+    }
+    for (const [name, entry] of this.routeConfigWatchers) {
+      RouteConfigurationResourceType.cancelWatch(this.xdsClient, name, entry.watcher);
+    }
+    this.routeConfigWatchers.clear();
+    if (this.pendingConfig) {
+      this.destroyConfig(this.pendingConfig);
+      this.pendingConfig = null;
+    }
+    if (this.currentConfig) {
+      this.destroyConfig(this.currentConfig);
+      this.currentConfig = null;
+    }
+    this.netServer.close();
+  }
+}
+
+/**
+ * Split an address of the form "ip:port" or "[ipv6]:port".
+ * @param address
+ * @returns The host and port, or null if the address does not have that form
+ */
+function parseListeningAddress(address: string): { host: string; port: number } | null {
+  const match = /^(?:\[([^\]]+)\]|([^:]+)):(\d+)$/.exec(address);
+  if (!match) {
+    return null;
+  }
+  const host = match[1] ?? match[2];
+  if (!net.isIP(host)) {
+    return null;
+  }
+  return { host: host, port: Number.parseInt(match[3]) };
+}
+
+/**
+ * A Server that gets its listener configuration from the xDS control plane.
+ * Each address bound with bindAsync only serves after a Listener resource
+ * for that address is received, and calls are routed according to the
+ * filter chains, route configurations, and HTTP filters in that resource.
+ */
+export class XdsServer extends Server {
+  private xdsClient: XdsClient;
+  /**
+   * True if the server created the client, so it must close it on shutdown.
+   */
+  private ownsXdsClient = false;
+  private bootstrapInfo: BootstrapInfo | null = null;
+  private boundXdsPorts = new Map<string, XdsBoundPort>();
+  private drainGraceTimeMs: number;
+  private statusListener: ServingStatusListener;
+  private isShutdown = false;
+
+  constructor(options?: XdsServerOptions) {
+    super(options);
+    if (options?.[XDS_CLIENT_OPTION_KEY]) {
+      this.xdsClient = options[XDS_CLIENT_OPTION_KEY];
+      this.bootstrapInfo = this.xdsClient.getBootstrapInfo();
+    } else if (options?.[BOOTSTRAP_CONFIG_KEY]) {
+      const parsedConfig = JSON.parse(options[BOOTSTRAP_CONFIG_KEY]);
+      this.bootstrapInfo = validateBootstrapConfig(parsedConfig);
+      this.xdsClient = new XdsClient(this.bootstrapInfo);
+      this.ownsXdsClient = true;
+    } else {
+      this.xdsClient = getSingletonXdsClient();
+    }
+    this.drainGraceTimeMs = options?.drainGraceTimeMs ?? DEFAULT_DRAIN_GRACE_TIME_MS;
+    this.statusListener = options?.onServingStatusChange ?? ((address, serving, error) => {
+      if (serving) {
+        trace(address + ' is serving');
+      } else {
+        trace(address + ' is not serving: ' + error?.details);
+      }
+    });
+  }
+
+  /**
+   * Bind an address of the form "ip:port" or "[ipv6]:port". The callback is
+   * called when the address is bound, but connections are only accepted
+   * after the Listener resource for the address is received from the xDS
+   * control plane.
+   * @param port
+   * @param creds
+   * @param callback
+   */
+  override bindAsync(port: string, creds: ServerCredentials, callback: (error: Error | null, port: number) => void): void {
+    const reportError = (error: Error) => {
+      process.nextTick(() => callback(error, 0));
+    };
+    if (this.isShutdown) {
+      reportError(new Error('bindAsync called after shutdown'));
+      return;
+    }
+    if (this.boundXdsPorts.has(port)) {
+      reportError(new Error(`Address ${port} is already bound`));
+      return;
+    }
+    const listeningAddress = parseListeningAddress(port);
+    if (!listeningAddress) {
+      reportError(new Error(`XdsServer can only bind addresses of the form "ip:port", got ${port}`));
+      return;
+    }
+    let resourceNameTemplate: string | null;
+    try {
+      resourceNameTemplate = (this.bootstrapInfo ?? loadBootstrapInfo()).serverListenerResourceNameTemplate;
+    } catch (e) {
+      reportError(e as Error);
+      return;
+    }
+    if (resourceNameTemplate === null) {
+      reportError(new Error('xDS bootstrap server_listener_resource_name_template is not set'));
+      return;
+    }
+    const boundPort = new XdsBoundPort(
+      this,
+      this.xdsClient,
+      port,
+      listeningAddress.host,
+      creds,
+      this.drainGraceTimeMs,
+      this.statusListener
+    );
+    this.boundXdsPorts.set(port, boundPort);
+    boundPort.listen(listeningAddress.port, resourceNameTemplate).then(
+      actualPort => {
+        callback(null, actualPort);
+      },
+      (error: Error) => {
+        this.boundXdsPorts.delete(port);
+        callback(error, 0);
+      }
+    );
+  }
+
+  override unbind(port: string): void {
+    const boundPort = this.boundXdsPorts.get(port);
+    if (boundPort) {
+      boundPort.close();
+      this.boundXdsPorts.delete(port);
+    }
+  }
+
+  override drain(port: string, graceTimeMs: number): void {
+    this.boundXdsPorts.get(port)?.drain(graceTimeMs);
+  }
+
+  private closeAllPorts() {
+    this.isShutdown = true;
+    for (const boundPort of this.boundXdsPorts.values()) {
+      boundPort.close();
+    }
+    this.boundXdsPorts.clear();
+    if (this.ownsXdsClient) {
+      this.xdsClient.close();
+    }
+  }
+
+  override tryShutdown(callback: (error?: Error) => void): void {
+    this.closeAllPorts();
+    super.tryShutdown(callback);
+  }
+
+  override forceShutdown(): void {
+    this.closeAllPorts();
+    super.forceShutdown();
+  }
+}
@@ -0,0 +1,211 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { PeerCertificate } from 'tls';
+import { BootstrapInfo } from './xds-bootstrap';
+import { CommonTlsContext__Output } from './generated/envoy/extensions/transport_sockets/tls/v3/CommonTlsContext';
+import { CertificateValidationContext__Output } from './generated/envoy/extensions/transport_sockets/tls/v3/CertificateValidationContext';
+import { UpstreamTlsContext__Output } from './generated/envoy/extensions/transport_sockets/tls/v3/UpstreamTlsContext';
+import { DownstreamTlsContext__Output } from './generated/envoy/extensions/transport_sockets/tls/v3/DownstreamTlsContext';
+import { StringMatcher__Output } from './generated/envoy/type/matcher/v3/StringMatcher';
+import { getValueMatcherForStringMatcher, ValueMatcher } from './matcher';
+
+/**
+ * The security configuration of a cluster, as specified in
+ * https://github.com/grpc/proposal/blob/master/A29-xds-tls-security.md. The
+ * field names match the xds_cluster_impl LB policy config.
+ */
+export interface UpstreamSecurityConfig {
+  ca_certificate_provider_instance: string;
+  identity_certificate_provider_instance?: string;
+  subject_alt_name_matchers: StringMatcher__Output[];
+}
+
+/**
+ * The security configuration of a server filter chain.
+ */
+export interface DownstreamSecurityConfig {
+  caCertificateProviderInstance: string | null;
+  identityCertificateProviderInstance: string;
+  requireClientCertificate: boolean;
+}
+
+interface ParsedCommonTlsContext {
+  caCertificateProviderInstance: string | null;
+  identityCertificateProviderInstance: string | null;
+  validationContext: CertificateValidationContext__Output | null;
+}
+
+function validateCertificateValidationContext(validationContext: CertificateValidationContext__Output) {
+  if (validationContext.verify_certificate_spki.length > 0) {
+    throw new Error('verify_certificate_spki is not supported');
+  }
+  if (validationContext.verify_certificate_hash.length > 0) {
+    throw new Error('verify_certificate_hash is not supported');
+  }
+  if (validationContext.require_signed_certificate_timestamp?.value) {
+    throw new Error('require_signed_certificate_timestamp is not supported');
+  }
+  if (validationContext.crl) {
+    throw new Error('crl is not supported');
+  }
+  if (validationContext.custom_validator_config) {
+    throw new Error('custom_validator_config is not supported');
+  }
+}
+
+function parseCommonTlsContext(context: CommonTlsContext__Output, bootstrap: BootstrapInfo): ParsedCommonTlsContext {
+  if (context.tls_certificates.length > 0 || context.tls_certificate_sds_secret_configs.length > 0) {
+    throw new Error('Certificates must come from a certificate provider instance');
+  }
+  if (context.tls_params) {
+    throw new Error('tls_params is not supported');
+  }
+  if (context.custom_handshaker) {
+    throw new Error('custom_handshaker is not supported');
+  }
+  let caCertificateProviderInstance: string | null = null;
+  let validationContext: CertificateValidationContext__Output | null = null;
+  switch (context.validation_context_type) {
+    case 'validation_context':
+      validationContext = context.validation_context!;
+      break;
+    case 'combined_validation_context':
+      validationContext = context.combined_validation_context!.default_validation_context;
+      caCertificateProviderInstance = context.combined_validation_context!.validation_context_certificate_provider_instance?.instance_name ?? null;
+      break;
+    case 'validation_context_certificate_provider_instance':
+      caCertificateProviderInstance = context.validation_context_certificate_provider_instance!.instance_name;
+      break;
+    case undefined:
+      break;
+    default:
+      throw new Error(`${context.validation_context_type} is not supported`);
+  }
+  if (validationContext) {
+    validateCertificateValidationContext(validationContext);
+    if (validationContext.ca_certificate_provider_instance) {
+      caCertificateProviderInstance = validationContext.ca_certificate_provider_instance.instance_name;
+    }
+  }
+  const identityCertificateProviderInstance = context.tls_certificate_provider_instance?.instance_name ?? context.tls_certificate_certificate_provider_instance?.instance_name ?? null;
+  for (const instanceName of [caCertificateProviderInstance, identityCertificateProviderInstance]) {
+    if (instanceName !== null && !(instanceName in bootstrap.certificateProviders)) {
+      throw new Error(`Certificate provider instance ${instanceName} not found in bootstrap`);
+    }
+  }
+  return {
+    caCertificateProviderInstance,
+    identityCertificateProviderInstance,
+    validationContext
+  };
+}
+
+/**
+ * Validate an UpstreamTlsContext from a Cluster's transport_socket. Throws an
+ * error if the context is invalid or uses unsupported features.
+ * @param context
+ * @param bootstrap
+ */
+export function parseUpstreamTlsContext(context: UpstreamTlsContext__Output, bootstrap: BootstrapInfo): UpstreamSecurityConfig {
+  if (!context.common_tls_context) {
+    throw new Error('common_tls_context is required');
+  }
+  const parsedContext = parseCommonTlsContext(context.common_tls_context, bootstrap);
+  if (parsedContext.caCertificateProviderInstance === null) {
+    throw new Error('A CA certificate provider instance is required');
+  }
+  const subjectAltNameMatchers = parsedContext.validationContext?.match_subject_alt_names ?? [];
+  // Check that all matchers, including regular expressions, are valid
+  subjectAltNameMatchers.forEach(getValueMatcherForStringMatcher);
+  const result: UpstreamSecurityConfig = {
+    ca_certificate_provider_instance: parsedContext.caCertificateProviderInstance,
+    subject_alt_name_matchers: subjectAltNameMatchers
+  };
+  if (parsedContext.identityCertificateProviderInstance !== null) {
+    result.identity_certificate_provider_instance = parsedContext.identityCertificateProviderInstance;
+  }
+  return result;
+}
+
+/**
+ * Validate a DownstreamTlsContext from a server Listener filter chain's
+ * transport_socket. Throws an error if the context is invalid or uses
+ * unsupported features.
+ * @param context
+ * @param bootstrap
+ */
+export function parseDownstreamTlsContext(context: DownstreamTlsContext__Output, bootstrap: BootstrapInfo): DownstreamSecurityConfig {
+  if (!context.common_tls_context) {
+    throw new Error('common_tls_context is required');
+  }
+  const parsedContext = parseCommonTlsContext(context.common_tls_context, bootstrap);
+  if (parsedContext.identityCertificateProviderInstance === null) {
+    throw new Error('An identity certificate provider instance is required');
+  }
+  if ((parsedContext.validationContext?.match_subject_alt_names.length ?? 0) > 0) {
+    throw new Error('match_subject_alt_names is not supported on servers');
+  }
+  if (context.require_sni?.value) {
+    throw new Error('require_sni is not supported');
+  }
+  if (context.ocsp_staple_policy !== 'LENIENT_STAPLING') {
+    throw new Error(`ocsp_staple_policy ${context.ocsp_staple_policy} is not supported`);
+  }
+  const requireClientCertificate = context.require_client_certificate?.value ?? false;
+  if (requireClientCertificate && parsedContext.caCertificateProviderInstance === null) {
+    throw new Error('require_client_certificate requires a CA certificate provider instance');
+  }
+  return {
+    caCertificateProviderInstance: parsedContext.caCertificateProviderInstance,
+    identityCertificateProviderInstance: parsedContext.identityCertificateProviderInstance,
+    requireClientCertificate
+  };
+}
+
+/**
+ * Get the values of the subject alternative names in a certificate, without
+ * their type prefixes.
+ * @param certificate
+ */
+function getSubjectAltNameValues(certificate: PeerCertificate): string[] {
+  if (!certificate.subjectaltname) {
+    return [];
+  }
+  return certificate.subjectaltname.split(', ').map(entry => entry.substring(entry.indexOf(':') + 1));
+}
+
+/**
+ * Create a checkServerIdentity callback that accepts a server certificate if
+ * any of its subject alternative names matches any of the matchers. If there
+ * are no matchers, every certificate is accepted.
+ * @param matchers
+ */
+export function createSubjectAltNameChecker(matchers: StringMatcher__Output[]): (hostname: string, certificate: PeerCertificate) => Error | undefined {
+  const valueMatchers: ValueMatcher[] = matchers.map(getValueMatcherForStringMatcher);
+  return (hostname, certificate) => {
+    if (valueMatchers.length === 0) {
+      return undefined;
+    }
+    for (const value of getSubjectAltNameValues(certificate)) {
+      if (valueMatchers.some(matcher => matcher.apply(value))) {
+        return undefined;
+      }
+    }
+    return new Error('No subject alternative name in the server certificate matched the configured matchers');
+  };
+}
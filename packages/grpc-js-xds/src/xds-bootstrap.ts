@@ -19,6 +19,7 @@ import * as fs from 'fs';
 import { EXPERIMENTAL_FEDERATION } from './environment';
 import { Struct } from './generated/google/protobuf/Struct';
 import { Value } from './generated/google/protobuf/Value';
+import { createCertificateProvider, isCertificateProviderPluginRegistered } from './certificate-provider-registry';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -51,11 +52,22 @@ export interface Authority {
   xdsServers?: XdsServerConfig[];
 }
 
+export interface PluginConfig {
+  plugin_name: string;
+  config: object;
+}
+
 export interface BootstrapInfo {
   xdsServers: XdsServerConfig[];
   node: Node;
   authorities: {[authorityName: string]: Authority};
   clientDefaultListenerResourceNameTemplate: string;
+  serverListenerResourceNameTemplate: string | null;
+  /**
+   * Certificate provider plugin instances, by instance name. Instances with
+   * unrecognized plugin names are omitted.
+   */
+  certificateProviders: {[instanceName: string]: PluginConfig};
 }
 
 const KNOWN_SERVER_FEATURES = ['ignore_resource_deletion'];
@@ -305,9 +317,46 @@ function validateAuthoritiesMap(obj: any): {[authorityName: string]: Authority}
   return result;
 }
 
+function validateCertificateProvidersMap(obj: any): {[instanceName: string]: PluginConfig} {
+  if (!obj) {
+    return {};
+  }
+  if (typeof obj !== 'object') {
+    throw new Error(`certificate_providers: expected object, got ${typeof obj}`);
+  }
+  const result: {[instanceName: string]: PluginConfig} = {};
+  for (const [instanceName, instance] of Object.entries(obj as {[instanceName: string]: any})) {
+    if (typeof instance?.plugin_name !== 'string') {
+      throw new Error(`certificate_providers[${instanceName}].plugin_name: expected string, got ${typeof instance?.plugin_name}`);
+    }
+    if (!isCertificateProviderPluginRegistered(instance.plugin_name)) {
+      continue;
+    }
+    const config = instance.config ?? {};
+    try {
+      // Construct an instance to validate the config
+      createCertificateProvider(instance.plugin_name, config);
+    } catch (e) {
+      throw new Error(`certificate_providers[${instanceName}].config: ${(e as Error).message}`);
+    }
+    result[instanceName] = {
+      plugin_name: instance.plugin_name,
+      config: config
+    };
+  }
+  return result;
+}
+
 export function validateBootstrapConfig(obj: any): BootstrapInfo {
   const xdsServers = obj.xds_servers.map(validateXdsServerConfig);
   const node = validateNode(obj.node);
+  if ('server_listener_resource_name_template' in obj) {
+    if (typeof obj.server_listener_resource_name_template !== 'string') {
+      throw new Error(`server_listener_resource_name_template: expected string, got ${typeof obj.server_listener_resource_name_template}`);
+    }
+  }
+  const serverListenerResourceNameTemplate = obj.server_listener_resource_name_template ?? null;
+  const certificateProviders = validateCertificateProvidersMap(obj.certificate_providers);
   if (EXPERIMENTAL_FEDERATION) {
     if ('client_default_listener_resource_name_template' in obj) {
       if (typeof obj.client_default_listener_resource_name_template !== 'string') {
@@ -318,14 +367,18 @@ export function validateBootstrapConfig(obj: any): BootstrapInfo {
       xdsServers: xdsServers,
       node: node,
       authorities: validateAuthoritiesMap(obj.authorities),
-      clientDefaultListenerResourceNameTemplate: obj.client_default_listener_resource_name_template ?? '%s'
+      clientDefaultListenerResourceNameTemplate: obj.client_default_listener_resource_name_template ?? '%s',
+      serverListenerResourceNameTemplate: serverListenerResourceNameTemplate,
+      certificateProviders: certificateProviders
     };
   } else {
     return {
       xdsServers: xdsServers,
       node: node,
       authorities: {},
-      clientDefaultListenerResourceNameTemplate: '%s'
+      clientDefaultListenerResourceNameTemplate: '%s',
+      serverListenerResourceNameTemplate: serverListenerResourceNameTemplate,
+      certificateProviders: certificateProviders
     };
   }
 }
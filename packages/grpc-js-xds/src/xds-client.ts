@@ -19,7 +19,7 @@ import { Channel, ChannelCredentials, ClientDuplexStream, Metadata, StatusObject
 import { XdsDecodeContext, XdsDecodeResult, XdsResourceType } from "./xds-resource-type/xds-resource-type";
 import { XdsResourceName, parseXdsResourceName, xdsResourceNameToString } from "./resources";
 import { Node } from "./generated/envoy/config/core/v3/Node";
-import { BootstrapInfo, XdsServerConfig, loadBootstrapInfo, serverConfigEqual } from "./xds-bootstrap";
+import { BootstrapInfo, XdsServerConfig, loadBootstrapInfo, serverConfigEqual, validateBootstrapConfig } from "./xds-bootstrap";
 import BackoffTimeout = experimental.BackoffTimeout;
 import { DiscoveryRequest } from "./generated/envoy/service/discovery/v3/DiscoveryRequest";
 import { DiscoveryResponse__Output } from "./generated/envoy/service/discovery/v3/DiscoveryResponse";
@@ -34,7 +34,10 @@ import { LoadStatsRequest } from "./generated/envoy/service/load_stats/v3/LoadSt
 import { LoadStatsResponse__Output } from "./generated/envoy/service/load_stats/v3/LoadStatsResponse";
 import { Locality, Locality__Output } from "./generated/envoy/config/core/v3/Locality";
 import { Duration } from "./generated/google/protobuf/Duration";
-import { registerXdsClientWithCsds } from "./csds";
+import { registerXdsClientWithCsds, unregisterXdsClientWithCsds } from "./csds";
+import { createCertificateProvider } from "./certificate-provider-registry";
+import CertificateProvider = experimental.CertificateProvider;
+import { EXPERIMENTAL_XDS_FALLBACK } from "./environment";
 
 const TRACER_NAME = 'xds_client';
 
@@ -202,7 +205,8 @@ class AdsResponseParser {
       return;
     }
     const decodeContext: XdsDecodeContext = {
-      server: this.adsCallState.client.xdsServerConfig
+      server: this.adsCallState.client.xdsServerConfig,
+      bootstrap: this.adsCallState.client.xdsClient.getBootstrapInfo()
     };
     let decodeResult: XdsDecodeResult;
     try {
@@ -292,7 +296,7 @@ class AdsCallState {
   constructor(public client: XdsSingleServerClient, private call: AdsCall, private node: Node) {
     // Populate subscription map with existing subscriptions
     for (const [authority, authorityState] of client.xdsClient.authorityStateMap) {
-      if (authorityState.client !== client) {
+      if (!authorityState.clients.includes(client)) {
         continue;
       }
       for (const [type, typeMap] of authorityState.resourceMap) {
@@ -318,6 +322,8 @@ class AdsCallState {
   }
 
   private handleResponseMessage(message: DiscoveryResponse__Output) {
+    this.receivedAnyResponse = true;
+    this.client.onAdsStreamReceivedMessage();
     const parser = new AdsResponseParser(this);
     let handledAdsResponseFields: boolean;
     try {
@@ -346,7 +352,7 @@ class AdsCallState {
       // Delete resources not seen in update if needed
       if (result.type!.allResourcesRequiredInSotW()) {
         for (const [authority, authorityState] of this.client.xdsClient.authorityStateMap) {
-          if (authorityState.client !== this.client) {
+          if (!authorityState.clients.includes(this.client)) {
             continue;
           }
           const typeMap = authorityState.resourceMap.get(result.type!);
@@ -382,24 +388,12 @@ class AdsCallState {
     }
   }
 
-  private* allWatchers() {
-    for (const [type, typeState] of this.typeStates) {
-      for (const [authority, authorityMap] of typeState.subscribedResources) {
-        for (const key of authorityMap.keys()) {
-          yield* this.client.xdsClient.authorityStateMap.get(authority)?.resourceMap.get(type)?.get(key)?.watchers ?? [];
-        }
-      }
-    }
-  }
-
   private handleStreamStatus(streamStatus: StatusObject) {
     this.trace(
       'ADS stream ended. code=' + streamStatus.code + ' details= ' + streamStatus.details
     );
     if (streamStatus.code !== status.OK && !this.receivedAnyResponse) {
-      for (const watcher of this.allWatchers()) {
-        watcher.onError(streamStatus);
-      }
+      this.client.xdsClient.handleServerFailure(this.client, streamStatus);
     }
     this.client.handleAdsStreamEnd();
   }
@@ -493,6 +487,21 @@ class AdsCallState {
     this.call.end();
   }
 
+  /**
+   * Cancel the stream and all of the resource timers, without reporting
+   * anything to the watchers.
+   */
+  cancel() {
+    for (const typeState of this.typeStates.values()) {
+      for (const authorityMap of typeState.subscribedResources.values()) {
+        for (const resourceTimer of authorityMap.values()) {
+          resourceTimer.maybeCancelTimer();
+        }
+      }
+    }
+    this.call.cancel();
+  }
+
   /**
    * Should be called when the channel state is READY after starting the
    * stream.
@@ -798,6 +807,14 @@ class LrsCallState {
     this.sendLrsMessage(clusterStats);
 
   }
+
+  cancel() {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    this.call.cancel();
+  }
 }
 
 class XdsSingleServerClient {
@@ -820,6 +837,9 @@ class XdsSingleServerClient {
    */
   private refcount = 0;
 
+  private channel: Channel;
+  private closed = false;
+
   /**
    * Map of type to latest accepted version string for that type
    */
@@ -854,6 +874,7 @@ class XdsSingleServerClient {
     /* Bootstrap validation rules guarantee that a matching channel credentials
      * config exists in the list. */
     const channel = new Channel(serverUri, channelCreds!, channelArgs);
+    this.channel = channel;
     const protoDefinitions = loadAdsProtos();
     this.adsClient = new protoDefinitions.envoy.service.discovery.v3.AggregatedDiscoveryService(
       serverUri,
@@ -872,26 +893,18 @@ class XdsSingleServerClient {
 
   private handleAdsConnectivityStateUpdate() {
     const state = this.adsClient.getChannel().getConnectivityState(false);
+    if (state === connectivityState.SHUTDOWN) {
+      return;
+    }
     if (state === connectivityState.READY) {
       this.adsCallState?.markStreamStarted();
     }
     if (state === connectivityState.TRANSIENT_FAILURE) {
-      for (const authorityState of this.xdsClient.authorityStateMap.values()) {
-        if (authorityState.client !== this) {
-          continue;
-        }
-        for (const typeMap of authorityState.resourceMap.values()) {
-          for (const resourceState of typeMap.values()) {
-            for (const watcher of resourceState.watchers) {
-              watcher.onError({
-                code: status.UNAVAILABLE,
-                details: 'No connection established to xDS server',
-                metadata: new Metadata()
-              });
-            }
-          }
-        }
-      }
+      this.xdsClient.handleServerFailure(this, {
+        code: status.UNAVAILABLE,
+        details: 'No connection established to xDS server',
+        metadata: new Metadata()
+      });
     }
     this.adsClient.getChannel().watchConnectivityState(state, Infinity, () => {
       this.handleAdsConnectivityStateUpdate();
@@ -901,6 +914,7 @@ class XdsSingleServerClient {
   onAdsStreamReceivedMessage() {
     this.adsBackoff.stop();
     this.adsBackoff.reset();
+    this.xdsClient.handleServerResponse(this);
   }
 
   handleAdsStreamEnd() {
@@ -913,7 +927,7 @@ class XdsSingleServerClient {
   }
 
   private maybeStartAdsStream() {
-    if (this.adsCallState || this.refcount < 1) {
+    if (this.closed || this.adsCallState || this.refcount < 1) {
       return;
     }
     this.trace('Starting ADS stream');
@@ -938,7 +952,7 @@ class XdsSingleServerClient {
   }
 
   private maybeStartLrsStream() {
-    if (this.lrsCallState || this.refcount < 1 || this.clusterStatsMap.size < 1) {
+    if (this.closed || this.lrsCallState || this.refcount < 1 || this.clusterStatsMap.size < 1) {
       return;
     }
     this.trace('Starting LRS stream');
@@ -976,6 +990,22 @@ class XdsSingleServerClient {
     this.refcount -= 1;
   }
 
+  /**
+   * Stop both streams and close the channel to the server. The client cannot
+   * be used after this is called.
+   */
+  close() {
+    this.trace('Closing');
+    this.closed = true;
+    this.adsBackoff.stop();
+    this.lrsBackoff.stop();
+    this.adsCallState?.cancel();
+    this.adsCallState = null;
+    this.lrsCallState?.cancel();
+    this.lrsCallState = null;
+    this.channel.close();
+  }
+
   addClusterDropStats(
     clusterName: string,
     edsServiceName: string
@@ -1098,13 +1128,31 @@ interface ResourceState {
 }
 
 interface AuthorityState {
-  client: XdsSingleServerClient;
+  /**
+   * The xDS servers for this authority, in order of priority
+   */
+  serverConfigs: XdsServerConfig[];
+  /**
+   * The clients for the first clients.length servers in serverConfigs. The
+   * last one is the client in use. The others are higher priority servers
+   * that could not be reached, which keep retrying until one of them
+   * receives a response.
+   */
+  clients: XdsSingleServerClient[];
   /**
    * type -> key -> state
    */
   resourceMap: Map<XdsResourceType, Map<string, ResourceState>>;
 }
 
+/**
+ * Get the client that the authority currently gets resources from.
+ * @param authorityState
+ */
+function getCurrentClient(authorityState: AuthorityState): XdsSingleServerClient {
+  return authorityState.clients[authorityState.clients.length - 1];
+}
+
 const userAgentName = 'gRPC Node Pure JS';
 
 export class XdsClient {
@@ -1115,6 +1163,8 @@ export class XdsClient {
   private clients: ClientMapEntry[] = [];
   private typeRegistry: Map<string, XdsResourceType> = new Map();
   private bootstrapInfo: BootstrapInfo | null = null;
+  private certificateProviders: Map<string, CertificateProvider> = new Map();
+  private closed = false;
 
   constructor(bootstrapInfoOverride?: BootstrapInfo) {
     if (bootstrapInfoOverride) {
@@ -1123,13 +1173,33 @@ export class XdsClient {
     registerXdsClientWithCsds(this);
   }
 
-  private getBootstrapInfo() {
+  getBootstrapInfo() {
     if (!this.bootstrapInfo) {
       this.bootstrapInfo = loadBootstrapInfo();
     }
     return this.bootstrapInfo;
   }
 
+  /**
+   * Get the certificate provider for the named instance in the bootstrap
+   * certificate_providers map. Instances are shared between all users of
+   * this client.
+   * @param instanceName
+   * @returns The provider, or null if there is no such instance
+   */
+  getCertificateProvider(instanceName: string): CertificateProvider | null {
+    let provider = this.certificateProviders.get(instanceName);
+    if (!provider) {
+      const pluginConfig = this.getBootstrapInfo().certificateProviders[instanceName];
+      if (!pluginConfig) {
+        return null;
+      }
+      provider = createCertificateProvider(pluginConfig.plugin_name, pluginConfig.config);
+      this.certificateProviders.set(instanceName, provider);
+    }
+    return provider;
+  }
+
   get adsNode(): Node | undefined {
     if (!this.bootstrapInfo) {
       return undefined;
@@ -1154,18 +1224,24 @@ export class XdsClient {
     };
   }
 
-  private getOrCreateClient(authority: string): XdsSingleServerClient {
+  private getServerConfigs(authority: string): XdsServerConfig[] {
     const bootstrapInfo = this.getBootstrapInfo();
-    let serverConfig: XdsServerConfig;
+    let serverConfigs: XdsServerConfig[];
     if (authority === 'old:') {
-      serverConfig = bootstrapInfo.xdsServers[0];
+      serverConfigs = bootstrapInfo.xdsServers;
     } else {
       if (authority in bootstrapInfo.authorities) {
-        serverConfig = bootstrapInfo.authorities[authority].xdsServers?.[0] ?? bootstrapInfo.xdsServers[0];
+        const authorityServerConfigs = bootstrapInfo.authorities[authority].xdsServers;
+        serverConfigs = authorityServerConfigs && authorityServerConfigs.length > 0 ? authorityServerConfigs : bootstrapInfo.xdsServers;
       } else {
         throw new Error(`Authority ${authority} not found in bootstrap authorities list`);
       }
     }
+    return EXPERIMENTAL_XDS_FALLBACK ? serverConfigs : serverConfigs.slice(0, 1);
+  }
+
+  private getOrCreateClient(serverConfig: XdsServerConfig): XdsSingleServerClient {
+    const bootstrapInfo = this.getBootstrapInfo();
     for (const entry of this.clients) {
       if (serverConfigEqual(serverConfig, entry.serverConfig)) {
         return entry.client;
@@ -1189,8 +1265,90 @@ export class XdsClient {
     return this.typeRegistry.get(typeUrl);
   }
 
+  /**
+   * Handle a failure to get resources from the client's server, either
+   * because the channel is in TRANSIENT_FAILURE, or because the ADS stream
+   * ended without receiving a response. For each authority that uses that
+   * server, if it has resources that are not cached and there are lower
+   * priority servers, fall back to the next server. Otherwise, report the
+   * error to the watchers.
+   * @param client
+   * @param error
+   */
+  handleServerFailure(client: XdsSingleServerClient, error: StatusObject) {
+    for (const [authority, authorityState] of this.authorityStateMap) {
+      if (getCurrentClient(authorityState) !== client) {
+        /* Failures of higher priority servers do not affect the resources
+         * while a lower priority server is in use. */
+        continue;
+      }
+      let hasUncachedResources = false;
+      for (const typeMap of authorityState.resourceMap.values()) {
+        for (const resourceState of typeMap.values()) {
+          if (!resourceState.cachedResource) {
+            hasUncachedResources = true;
+          }
+        }
+      }
+      if (hasUncachedResources && authorityState.clients.length < authorityState.serverConfigs.length) {
+        const fallbackClient = this.getOrCreateClient(authorityState.serverConfigs[authorityState.clients.length]);
+        trace('Falling back from xDS server ' + client.xdsServerConfig.server_uri + ' to ' + fallbackClient.xdsServerConfig.server_uri + ' for authority ' + authority);
+        authorityState.clients.push(fallbackClient);
+        fallbackClient.ref();
+        for (const [type, typeMap] of authorityState.resourceMap) {
+          for (const key of typeMap.keys()) {
+            fallbackClient.subscribe(type, {authority, key});
+          }
+        }
+        continue;
+      }
+      for (const typeMap of authorityState.resourceMap.values()) {
+        for (const resourceState of typeMap.values()) {
+          for (const watcher of resourceState.watchers) {
+            watcher.onError(error);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Handle a response from the client's server. For each authority that
+   * fell back from that server to lower priority servers, switch back to it
+   * and stop using the lower priority servers. The cached resources are kept
+   * until that server updates them.
+   * @param client
+   */
+  handleServerResponse(client: XdsSingleServerClient) {
+    for (const [authority, authorityState] of this.authorityStateMap) {
+      const index = authorityState.clients.indexOf(client);
+      if (index < 0 || index === authorityState.clients.length - 1) {
+        continue;
+      }
+      trace('Switching back to xDS server ' + client.xdsServerConfig.server_uri + ' for authority ' + authority);
+      for (const fallbackClient of authorityState.clients.splice(index + 1)) {
+        for (const [type, typeMap] of authorityState.resourceMap) {
+          for (const key of typeMap.keys()) {
+            fallbackClient.unsubscribe(type, {authority, key});
+          }
+        }
+        fallbackClient.unref();
+      }
+    }
+  }
+
   watchResource(type: XdsResourceType, name: string, watcher: ResourceWatcherInterface) {
     trace('watchResource(type=' + type.getTypeUrl() + ', name=' + name + ')');
+    if (this.closed) {
+      process.nextTick(() => {
+        watcher.onError({
+          code: status.UNAVAILABLE,
+          details: 'xDS client closed',
+          metadata: new Metadata()
+        });
+      });
+      return;
+    }
     if (this.typeRegistry.has(type.getTypeUrl())) {
       if (this.typeRegistry.get(type.getTypeUrl()) !== type) {
         throw new Error(`Resource type does not match previously used type with the same type URL: ${type.getTypeUrl()}`);
@@ -1202,11 +1360,13 @@ export class XdsClient {
     const resourceName = parseXdsResourceName(name, type.getTypeUrl());
     let authorityState = this.authorityStateMap.get(resourceName.authority);
     if (!authorityState) {
+      const serverConfigs = this.getServerConfigs(resourceName.authority);
       authorityState = {
-        client: this.getOrCreateClient(resourceName.authority),
+        serverConfigs: serverConfigs,
+        clients: [this.getOrCreateClient(serverConfigs[0])],
         resourceMap: new Map()
       };
-      authorityState.client.ref();
+      authorityState.clients[0].ref();
       this.authorityStateMap.set(resourceName.authority, authorityState);
     }
     let keyMap = authorityState.resourceMap.get(type);
@@ -1237,7 +1397,9 @@ export class XdsClient {
       });
     }
     if (isNewSubscription) {
-      authorityState.client.subscribe(type, resourceName);
+      for (const client of authorityState.clients) {
+        client.subscribe(type, resourceName);
+      }
     }
   }
 
@@ -1253,11 +1415,15 @@ export class XdsClient {
       entry.watchers.delete(watcher);
       if (entry.watchers.size === 0) {
         authorityState.resourceMap.get(type)!.delete(resourceName.key);
-        authorityState.client.unsubscribe(type, resourceName);
+        for (const client of authorityState.clients) {
+          client.unsubscribe(type, resourceName);
+        }
         if (authorityState.resourceMap.get(type)!.size === 0) {
           authorityState.resourceMap.delete(type);
           if (authorityState.resourceMap.size === 0) {
-            authorityState.client.unref();
+            for (const client of authorityState.clients) {
+              client.unref();
+            }
             this.authorityStateMap.delete(resourceName.authority);
           }
         }
@@ -1294,8 +1460,63 @@ export class XdsClient {
   removeClusterLocalityStats(lrsServer: XdsServerConfig, clusterName: string, edsServiceName: string, locality: Locality__Output) {
     this.getClient(lrsServer)?.removeClusterLocalityStats(clusterName, edsServiceName, locality);
   }
+
+  /**
+   * Close the connections to all xDS servers and stop reporting this client's
+   * status through CSDS. Watchers that are still registered get an
+   * UNAVAILABLE error, and new watches fail with the same error. Channels and
+   * servers that use this client should be shut down first.
+   */
+  close() {
+    if (this.closed) {
+      return;
+    }
+    trace('Closing xDS client');
+    this.closed = true;
+    unregisterXdsClientWithCsds(this);
+    const watchers: ResourceWatcherInterface[] = [];
+    for (const authorityState of this.authorityStateMap.values()) {
+      for (const typeMap of authorityState.resourceMap.values()) {
+        for (const resourceState of typeMap.values()) {
+          watchers.push(...resourceState.watchers);
+        }
+      }
+    }
+    this.authorityStateMap.clear();
+    for (const entry of this.clients) {
+      entry.client.close();
+    }
+    this.clients = [];
+    this.certificateProviders.clear();
+    for (const watcher of watchers) {
+      watcher.onError({
+        code: status.UNAVAILABLE,
+        details: 'xDS client closed',
+        metadata: new Metadata()
+      });
+    }
+  }
 }
 
+/**
+ * Create an XdsClient that uses the provided bootstrap config instead of the
+ * one referenced by the GRPC_XDS_BOOTSTRAP or GRPC_XDS_BOOTSTRAP_CONFIG
+ * environment variables. Pass it to channels and servers using the
+ * XDS_CLIENT_OPTION_KEY option, and call close() on it when they are done
+ * with it.
+ * @param bootstrapConfig An object in the bootstrap file format
+ * @throws Error if the bootstrap config is invalid
+ */
+export function createXdsClient(bootstrapConfig: object): XdsClient {
+  return new XdsClient(validateBootstrapConfig(bootstrapConfig));
+}
+
+/**
+ * The channel and server option that selects the XdsClient to use instead
+ * of the process-wide one.
+ */
+export const XDS_CLIENT_OPTION_KEY = 'grpc-node.xds_client';
+
 let singletonXdsClient: XdsClient | null = null;
 
 export function getSingletonXdsClient(): XdsClient {
@@ -0,0 +1,102 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { ConnectionOptions } from 'tls';
+import { SecureServerOptions } from 'http2';
+import { CallCredentials, ChannelCredentials, experimental, ServerCredentials, ServerInterceptor } from '@grpc/grpc-js';
+import SecureContextWatcher = experimental.SecureContextWatcher;
+
+/**
+ * Channel credentials that use the security configuration provided by the
+ * xDS management server for each cluster, as specified in
+ * https://github.com/grpc/proposal/blob/master/A29-xds-tls-security.md.
+ * The fallback credentials are used for clusters that have no security
+ * configuration.
+ */
+export class XdsChannelCredentials extends ChannelCredentials {
+  constructor(private fallbackCredentials: ChannelCredentials, callCredentials?: CallCredentials) {
+    super(callCredentials ?? fallbackCredentials._getCallCredentials());
+  }
+
+  compose(callCredentials: CallCredentials): ChannelCredentials {
+    return new XdsChannelCredentials(this.fallbackCredentials, this.callCredentials.compose(callCredentials));
+  }
+  _getConnectionOptions(): ConnectionOptions | null {
+    return this.fallbackCredentials._getConnectionOptions();
+  }
+  _isSecure(): boolean {
+    return this.fallbackCredentials._isSecure();
+  }
+  _equals(other: ChannelCredentials): boolean {
+    if (this === other) {
+      return true;
+    }
+    return other instanceof XdsChannelCredentials &&
+      this.fallbackCredentials._equals(other.fallbackCredentials) &&
+      this.callCredentials._equals(other.callCredentials);
+  }
+  _ref(): void {
+    this.fallbackCredentials._ref();
+  }
+  _unref(): void {
+    this.fallbackCredentials._unref();
+  }
+  _waitForReady(): Promise<void> {
+    return this.fallbackCredentials._waitForReady();
+  }
+  _getSubchannelCredentials(override: ChannelCredentials): ChannelCredentials {
+    return override;
+  }
+}
+
+/**
+ * Server credentials that use the security configuration provided by the
+ * xDS management server for each filter chain. They only have an effect when
+ * used with an XdsServer. The fallback credentials are used for filter chains
+ * that have no security configuration.
+ */
+export class XdsServerCredentials extends ServerCredentials {
+  constructor(private fallbackCredentials: ServerCredentials) {
+    super();
+  }
+
+  getFallbackCredentials() {
+    return this.fallbackCredentials;
+  }
+
+  _isSecure(): boolean {
+    return this.fallbackCredentials._isSecure();
+  }
+  _equals(other: ServerCredentials): boolean {
+    return other instanceof XdsServerCredentials && this.fallbackCredentials._equals(other.fallbackCredentials);
+  }
+  _getSettings(): SecureServerOptions | null {
+    return this.fallbackCredentials._getSettings();
+  }
+  _getConstructorOptions(): SecureServerOptions | null {
+    return this.fallbackCredentials._getConstructorOptions();
+  }
+  _addWatcher(watcher: SecureContextWatcher): void {
+    this.fallbackCredentials._addWatcher(watcher);
+  }
+  _removeWatcher(watcher: SecureContextWatcher): void {
+    this.fallbackCredentials._removeWatcher(watcher);
+  }
+  _getInterceptors(): ServerInterceptor[] {
+    return this.fallbackCredentials._getInterceptors();
+  }
+}
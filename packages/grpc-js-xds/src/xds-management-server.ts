@@ -15,54 +15,87 @@
  *
  */
 
-import { ServerDuplexStream, Server, UntypedServiceImplementation, ServerCredentials, loadPackageDefinition } from "@grpc/grpc-js";
-import { AnyExtension, loadSync } from "@grpc/proto-loader";
-import { EventEmitter } from "stream";
-import { Cluster } from "../src/generated/envoy/config/cluster/v3/Cluster";
-import { ClusterLoadAssignment } from "../src/generated/envoy/config/endpoint/v3/ClusterLoadAssignment";
-import { Listener } from "../src/generated/envoy/config/listener/v3/Listener";
-import { RouteConfiguration } from "../src/generated/envoy/config/route/v3/RouteConfiguration";
-import { AggregatedDiscoveryServiceHandlers } from "../src/generated/envoy/service/discovery/v3/AggregatedDiscoveryService";
-import { DiscoveryRequest__Output } from "../src/generated/envoy/service/discovery/v3/DiscoveryRequest";
-import { DiscoveryResponse } from "../src/generated/envoy/service/discovery/v3/DiscoveryResponse";
-import { Any } from "../src/generated/google/protobuf/Any";
-import { LDS_TYPE_URL, RDS_TYPE_URL, CDS_TYPE_URL, EDS_TYPE_URL, LdsTypeUrl, RdsTypeUrl, CdsTypeUrl, EdsTypeUrl, AdsTypeUrl } from "../src/resources"
-import * as adsTypes from '../src/generated/ads';
-import * as lrsTypes from '../src/generated/lrs';
-import { LoadStatsRequest__Output } from "../src/generated/envoy/service/load_stats/v3/LoadStatsRequest";
-import { LoadStatsResponse } from "../src/generated/envoy/service/load_stats/v3/LoadStatsResponse";
-
-const loadedProtos = loadPackageDefinition(loadSync(
-  [
-    'envoy/service/discovery/v3/ads.proto',
-    'envoy/service/load_stats/v3/lrs.proto',
-    'envoy/config/listener/v3/listener.proto',
-    'envoy/config/route/v3/route.proto',
-    'envoy/config/cluster/v3/cluster.proto',
-    'envoy/config/endpoint/v3/endpoint.proto',
-    'envoy/extensions/filters/network/http_connection_manager/v3/http_connection_manager.proto',
-    'envoy/extensions/clusters/aggregate/v3/cluster.proto',
-    'envoy/extensions/load_balancing_policies/round_robin/v3/round_robin.proto',
-    'envoy/extensions/load_balancing_policies/wrr_locality/v3/wrr_locality.proto',
-    'envoy/extensions/load_balancing_policies/ring_hash/v3/ring_hash.proto',
-    'envoy/extensions/load_balancing_policies/pick_first/v3/pick_first.proto',
-    'xds/type/v3/typed_struct.proto'
-  ],
-  {
-    keepCase: true,
-    longs: String,
-    enums: String,
-    defaults: true,
-    oneofs: true,
-    json: true,
-    includeDirs: [
-      // Paths are relative to src/build
-      __dirname + '/../../deps/envoy-api/',
-      __dirname + '/../../deps/xds/',
-      __dirname + '/../../deps/googleapis/',
-      __dirname + '/../../deps/protoc-gen-validate/',
+import { ServerDuplexStream, Server, UntypedServiceImplementation, ServerCredentials, loadPackageDefinition, experimental, logVerbosity } from "@grpc/grpc-js";
+import { loadSync } from "@grpc/proto-loader";
+import { Cluster } from "./generated/envoy/config/cluster/v3/Cluster";
+import { ClusterLoadAssignment } from "./generated/envoy/config/endpoint/v3/ClusterLoadAssignment";
+import { ClusterStats__Output } from "./generated/envoy/config/endpoint/v3/ClusterStats";
+import { Listener } from "./generated/envoy/config/listener/v3/Listener";
+import { RouteConfiguration } from "./generated/envoy/config/route/v3/RouteConfiguration";
+import { DiscoveryRequest__Output } from "./generated/envoy/service/discovery/v3/DiscoveryRequest";
+import { DiscoveryResponse } from "./generated/envoy/service/discovery/v3/DiscoveryResponse";
+import { Any } from "./generated/google/protobuf/Any";
+import { LDS_TYPE_URL, RDS_TYPE_URL, CDS_TYPE_URL, EDS_TYPE_URL, LdsTypeUrl, RdsTypeUrl, CdsTypeUrl, EdsTypeUrl, AdsTypeUrl } from "./resources"
+import * as adsTypes from './generated/ads';
+import * as lrsTypes from './generated/lrs';
+import { LoadStatsRequest__Output } from "./generated/envoy/service/load_stats/v3/LoadStatsRequest";
+import { LoadStatsResponse } from "./generated/envoy/service/load_stats/v3/LoadStatsResponse";
+
+const TRACER_NAME = 'xds_management_server';
+
+function trace(text: string): void {
+  experimental.trace(logVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+type LoadedProtos = adsTypes.ProtoGrpcType & lrsTypes.ProtoGrpcType;
+
+let loadedProtos: LoadedProtos | null = null;
+
+/**
+ * Load the protos lazily, so that importing this package does not pay for
+ * them unless a management server is actually used.
+ */
+function getLoadedProtos(): LoadedProtos {
+  if (loadedProtos) {
+    return loadedProtos;
+  }
+  /* Resources are set as JSON-style objects, so the message types of all
+   * extensions that can be embedded in them with an '@type' field need to be
+   * loaded here. */
+  loadedProtos = loadPackageDefinition(loadSync(
+    [
+      'envoy/service/discovery/v3/ads.proto',
+      'envoy/service/load_stats/v3/lrs.proto',
+      'envoy/config/listener/v3/listener.proto',
+      'envoy/config/route/v3/route.proto',
+      'envoy/config/cluster/v3/cluster.proto',
+      'envoy/config/endpoint/v3/endpoint.proto',
+      'envoy/extensions/filters/network/http_connection_manager/v3/http_connection_manager.proto',
+      'envoy/extensions/clusters/aggregate/v3/cluster.proto',
+      'envoy/extensions/filters/http/router/v3/router.proto',
+      'envoy/extensions/filters/http/fault/v3/fault.proto',
+      'envoy/extensions/filters/http/rbac/v3/rbac.proto',
+      'envoy/extensions/filters/http/stateful_session/v3/stateful_session.proto',
+      'envoy/extensions/http/stateful_session/cookie/v3/cookie.proto',
+      'envoy/extensions/transport_sockets/tls/v3/tls.proto',
+      'envoy/extensions/load_balancing_policies/round_robin/v3/round_robin.proto',
+      'envoy/extensions/load_balancing_policies/wrr_locality/v3/wrr_locality.proto',
+      'envoy/extensions/load_balancing_policies/ring_hash/v3/ring_hash.proto',
+      'envoy/extensions/load_balancing_policies/pick_first/v3/pick_first.proto',
+      'envoy/extensions/load_balancing_policies/client_side_weighted_round_robin/v3/client_side_weighted_round_robin.proto',
+      'envoy/extensions/load_balancing_policies/least_request/v3/least_request.proto',
+      'udpa/type/v1/typed_struct.proto',
+      'xds/type/v3/typed_struct.proto',
+      'grpc/lookup/v1/rls_config.proto'
     ],
-  })) as unknown as adsTypes.ProtoGrpcType & lrsTypes.ProtoGrpcType;
+    {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+      json: true,
+      includeDirs: [
+        // Paths are relative to build/src
+        __dirname + '/../../deps/envoy-api/',
+        __dirname + '/../../deps/xds/',
+        __dirname + '/../../deps/googleapis/',
+        __dirname + '/../../deps/protoc-gen-validate/',
+        __dirname + '/../../proto/'
+      ],
+    })) as unknown as LoadedProtos;
+  return loadedProtos;
+}
 
 type AdsInputType<T extends AdsTypeUrl> = T extends EdsTypeUrl
   ? ClusterLoadAssignment
@@ -74,15 +107,50 @@ type AdsInputType<T extends AdsTypeUrl> = T extends EdsTypeUrl
 
 const ADS_TYPE_URLS = new Set([LDS_TYPE_URL, RDS_TYPE_URL, CDS_TYPE_URL, EDS_TYPE_URL]);
 
-interface ResponseState {
+const DEFAULT_LOAD_REPORTING_INTERVAL_MS = 30_000;
+
+export interface ResponseState {
   state: 'ACKED' | 'NACKED';
   errorMessage?: string;
+  /**
+   * The version_info of the client's request. For an ACK, this is the version
+   * of the resource type that the client accepted. For a NACK, this is the
+   * last version that the client accepted.
+   */
+  versionInfo: string;
+  /**
+   * The nonce of the response that the client is responding to.
+   */
+  nonce: string;
 }
 
-interface ResponseListener {
+export interface ResponseListener {
   (typeUrl: AdsTypeUrl, responseState: ResponseState): void;
 }
 
+export interface LoadReportListener {
+  (clusterStats: ClusterStats__Output[]): void;
+}
+
+/**
+ * A set of resources to serve. Each list that is set replaces all of the
+ * resources of that type that the server currently has.
+ */
+export interface XdsResourceSnapshot {
+  listeners?: Listener[];
+  routeConfigurations?: RouteConfiguration[];
+  clusters?: Cluster[];
+  clusterLoadAssignments?: ClusterLoadAssignment[];
+}
+
+export interface XdsManagementServerOptions {
+  /**
+   * The load_reporting_interval that the server sends to LRS clients.
+   * Defaults to 30 seconds.
+   */
+  loadReportingIntervalMs?: number;
+}
+
 type ResourceAny<T extends AdsTypeUrl> = AdsInputType<T> & {'@type': T};
 
 interface ResourceState<T extends AdsTypeUrl> {
@@ -110,7 +178,12 @@ function isAdsTypeUrl(value: string): value is AdsTypeUrl {
   return ADS_TYPE_URLS.has(value);
 }
 
-export class XdsServer {
+/**
+ * An in-process xDS management server that serves ADS and LRS, for testing
+ * xDS configurations without a real control plane. Resources are set
+ * directly, and every subscribed client is sent updates as they change.
+ */
+export class XdsManagementServer {
   private resourceMap: ResourceMap = {
     [EDS_TYPE_URL]: {
       resourceTypeVersion: 0,
@@ -130,11 +203,22 @@ export class XdsServer {
     },
   };
   private responseListeners = new Set<ResponseListener>();
-  private resourceTypesToIgnore = new Set<AdsTypeUrl>();
+  private loadReportListeners = new Set<LoadReportListener>();
+  private loadReports: ClusterStats__Output[] = [];
   private clients = new Map<string, ServerDuplexStream<DiscoveryRequest__Output, DiscoveryResponse>>();
+  private lrsCalls = new Set<ServerDuplexStream<LoadStatsRequest__Output, LoadStatsResponse>>();
   private server: Server | null = null;
   private port: number | null = null;
+  private loadReportingIntervalMs: number;
+
+  constructor(options?: XdsManagementServerOptions) {
+    this.loadReportingIntervalMs = options?.loadReportingIntervalMs ?? DEFAULT_LOAD_REPORTING_INTERVAL_MS;
+  }
 
+  /**
+   * Add a listener that is called with each ACK or NACK from each client.
+   * @param listener
+   */
   addResponseListener(listener: ResponseListener) {
     this.responseListeners.add(listener);
   }
@@ -143,6 +227,38 @@ export class XdsServer {
     this.responseListeners.delete(listener);
   }
 
+  /**
+   * Add a listener that is called with the cluster stats in each load report
+   * that any client sends.
+   * @param listener
+   */
+  addLoadReportListener(listener: LoadReportListener) {
+    this.loadReportListeners.add(listener);
+  }
+
+  removeLoadReportListener(listener: LoadReportListener) {
+    this.loadReportListeners.delete(listener);
+  }
+
+  /**
+   * Get the number of ADS and LRS streams that clients have open.
+   */
+  getOpenStreamCounts(): {ads: number, lrs: number} {
+    return {ads: this.clients.size, lrs: this.lrsCalls.size};
+  }
+
+  /**
+   * Get the cluster stats from all load reports received since the server
+   * started or since the last call to clearLoadReports.
+   */
+  getLoadReports(): ClusterStats__Output[] {
+    return [...this.loadReports];
+  }
+
+  clearLoadReports() {
+    this.loadReports = [];
+  }
+
   setResource<T extends AdsTypeUrl>(resource: ResourceAny<T>, name: string) {
     const resourceTypeState = this.resourceMap[resource["@type"]] as ResourceTypeState<T>;
     resourceTypeState.resourceTypeVersion += 1;
@@ -186,8 +302,35 @@ export class XdsServer {
     }
   }
 
-  ignoreResourceType(typeUrl: AdsTypeUrl) {
-    this.resourceTypesToIgnore.add(typeUrl);
+  private unsetOtherResources(typeUrl: AdsTypeUrl, names: Set<string>) {
+    for (const [resourceName, resourceState] of this.resourceMap[typeUrl].resourceNameMap) {
+      if (resourceState.resource && !names.has(resourceName)) {
+        this.unsetResource(typeUrl, resourceName);
+      }
+    }
+  }
+
+  /**
+   * Replace the resources of each type that is set in the snapshot.
+   * @param snapshot
+   */
+  setSnapshot(snapshot: XdsResourceSnapshot) {
+    if (snapshot.listeners) {
+      this.unsetOtherResources(LDS_TYPE_URL, new Set(snapshot.listeners.map(resource => resource.name!)));
+      snapshot.listeners.forEach(resource => this.setLdsResource(resource));
+    }
+    if (snapshot.routeConfigurations) {
+      this.unsetOtherResources(RDS_TYPE_URL, new Set(snapshot.routeConfigurations.map(resource => resource.name!)));
+      snapshot.routeConfigurations.forEach(resource => this.setRdsResource(resource));
+    }
+    if (snapshot.clusters) {
+      this.unsetOtherResources(CDS_TYPE_URL, new Set(snapshot.clusters.map(resource => resource.name!)));
+      snapshot.clusters.forEach(resource => this.setCdsResource(resource));
+    }
+    if (snapshot.clusterLoadAssignments) {
+      this.unsetOtherResources(EDS_TYPE_URL, new Set(snapshot.clusterLoadAssignments.map(resource => resource.cluster_name!)));
+      snapshot.clusterLoadAssignments.forEach(resource => this.setEdsResource(resource));
+    }
   }
 
   private sendResourceUpdates<T extends AdsTypeUrl>(typeUrl: T, clients: Set<string>, includeResources: Set<string>) {
@@ -259,14 +402,14 @@ export class XdsServer {
 
   private handleRequest(clientName: string, request: DiscoveryRequest__Output) {
     if (!isAdsTypeUrl(request.type_url)) {
-      console.error(`Received ADS request with unsupported type_url ${request.type_url}`);
+      trace(`Received ADS request with unsupported type_url ${request.type_url}`);
       return;
     }
     const clientResourceVersion = request.version_info === '' ? 0 : Number.parseInt(request.version_info);
     if (request.error_detail) {
-      this.updateResponseListeners(request.type_url, {state: 'NACKED', errorMessage: request.error_detail.message});
+      this.updateResponseListeners(request.type_url, {state: 'NACKED', errorMessage: request.error_detail.message, versionInfo: request.version_info, nonce: request.response_nonce});
     } else {
-      this.updateResponseListeners(request.type_url, {state: 'ACKED'});
+      this.updateResponseListeners(request.type_url, {state: 'ACKED', versionInfo: request.version_info, nonce: request.response_nonce});
     }
     const requestedResourceNames = new Set(request.resource_names);
     const resourceTypeState = this.resourceMap[request.type_url];
@@ -288,38 +431,64 @@ export class XdsServer {
     call.on('data', (request: DiscoveryRequest__Output) => {
       this.handleRequest(clientName, request);
     });
-    call.on('end', () => {
+    const handleStreamEnd = () => {
+      if (this.clients.get(clientName) !== call) {
+        return;
+      }
       this.clients.delete(clientName);
       for (const typeUrl of ADS_TYPE_URLS) {
         this.handleUnsubscriptions(typeUrl as AdsTypeUrl, clientName);
       }
+    };
+    call.on('end', () => {
+      handleStreamEnd();
       call.end();
     });
+    // Clients cancel the stream instead of ending it when they shut down
+    call.on('cancelled', handleStreamEnd);
   }
 
   StreamLoadStats(call: ServerDuplexStream<LoadStatsRequest__Output, LoadStatsResponse>) {
-    const statsResponse = {load_reporting_interval: {seconds: 30}};
+    const statsResponse: LoadStatsResponse = {
+      send_all_clusters: true,
+      load_reporting_interval: {
+        seconds: Math.floor(this.loadReportingIntervalMs / 1000),
+        nanos: (this.loadReportingIntervalMs % 1000) * 1_000_000
+      }
+    };
+    this.lrsCalls.add(call);
     call.write(statsResponse);
     call.on('data', (request: LoadStatsRequest__Output) => {
+      if (request.cluster_stats.length > 0) {
+        this.loadReports.push(...request.cluster_stats);
+        for (const listener of this.loadReportListeners) {
+          listener(request.cluster_stats);
+        }
+      }
       call.write(statsResponse);
     });
     call.on('end', () => {
+      this.lrsCalls.delete(call);
       call.end();
     });
+    call.on('cancelled', () => {
+      this.lrsCalls.delete(call);
+    });
   }
 
-  startServer(callback: (error: Error | null, port: number) => void) {
+  startServer(callback: (error: Error | null, port: number) => void, port = 0) {
     if (this.server) {
+      process.nextTick(callback, null, this.port);
       return;
     }
+    const loadedProtos = getLoadedProtos();
     const server = new Server();
     server.addService(loadedProtos.envoy.service.discovery.v3.AggregatedDiscoveryService.service, this as unknown as UntypedServiceImplementation);
     server.addService(loadedProtos.envoy.service.load_stats.v3.LoadReportingService.service, this as unknown as UntypedServiceImplementation);
-    server.bindAsync('localhost:0', ServerCredentials.createInsecure(), (error, port) => {
+    server.bindAsync(`localhost:${port}`, ServerCredentials.createInsecure(), (error, port) => {
       if (!error) {
         this.server = server;
         this.port = port;
-        server.start();
       }
       callback(error, port);
     });
@@ -327,8 +496,14 @@ export class XdsServer {
 
   shutdownServer() {
     this.server?.forceShutdown();
+    this.server = null;
+    this.port = null;
   }
 
+  /**
+   * Get an entry for the xds_servers list in a bootstrap config that refers
+   * to this server.
+   */
   getBootstrapServerConfig() {
     if (this.port === null) {
       throw new Error('Bootstrap info unavailable; server not started');
@@ -339,6 +514,10 @@ export class XdsServer {
     };
   }
 
+  /**
+   * Get a serialized bootstrap config that uses only this server, for use
+   * as the GRPC_XDS_BOOTSTRAP_CONFIG environment variable.
+   */
   getBootstrapInfoString(): string {
     if (this.port === null) {
       throw new Error('Bootstrap info unavailable; server not started');
@@ -15,19 +15,21 @@
  *
  */
 
-import { CDS_TYPE_URL, CLUSTER_CONFIG_TYPE_URL, decodeSingleResource } from "../resources";
+import { CDS_TYPE_URL, CLUSTER_CONFIG_TYPE_URL, UPSTREAM_TLS_CONTEXT_TYPE_URL, decodeSingleResource } from "../resources";
 import { XdsDecodeContext, XdsDecodeResult, XdsResourceType } from "./xds-resource-type";
 import { LoadBalancingConfig, experimental, logVerbosity } from "@grpc/grpc-js";
 import { XdsServerConfig } from "../xds-bootstrap";
 import { Duration__Output } from "../generated/google/protobuf/Duration";
 import { OutlierDetection__Output } from "../generated/envoy/config/cluster/v3/OutlierDetection";
-import { EXPERIMENTAL_CUSTOM_LB_CONFIG, EXPERIMENTAL_OUTLIER_DETECTION, EXPERIMENTAL_RING_HASH } from "../environment";
+import { HealthStatusSet__Output } from "../generated/envoy/config/core/v3/HealthStatusSet";
+import { EXPERIMENTAL_CUSTOM_LB_CONFIG, EXPERIMENTAL_OUTLIER_DETECTION, EXPERIMENTAL_OVERRIDE_HOST, EXPERIMENTAL_RING_HASH } from "../environment";
 import { Cluster__Output } from "../generated/envoy/config/cluster/v3/Cluster";
 import { UInt32Value__Output } from "../generated/google/protobuf/UInt32Value";
 import { Any__Output } from "../generated/google/protobuf/Any";
 import { Watcher, XdsClient } from "../xds-client";
 import { protoDurationToDuration } from "../duration";
 import { convertToLoadBalancingConfig } from "../lb-policy-registry";
+import { parseUpstreamTlsContext, UpstreamSecurityConfig } from "../tls-context";
 import SuccessRateEjectionConfig = experimental.SuccessRateEjectionConfig;
 import FailurePercentageEjectionConfig = experimental.FailurePercentageEjectionConfig;
 import parseLoadBalancingConfig = experimental.parseLoadBalancingConfig;
@@ -49,6 +51,24 @@ export interface CdsUpdate {
   dnsHostname?: string;
   lbPolicyConfig: LoadBalancingConfig[];
   outlierDetectionUpdate?: experimental.OutlierDetectionRawConfig;
+  securityConfig?: UpstreamSecurityConfig;
+  /**
+   * The endpoint health statuses for which a host override from the stateful
+   * session filter is honored. Only set if override host support is enabled.
+   */
+  overrideHostStatuses?: string[];
+}
+
+const SUPPORTED_OVERRIDE_HOST_STATUSES = ['UNKNOWN', 'HEALTHY', 'DRAINING'];
+
+function convertOverrideHostStatus(overrideHostStatus: HealthStatusSet__Output | null | undefined): string[] | undefined {
+  if (!EXPERIMENTAL_OVERRIDE_HOST) {
+    return undefined;
+  }
+  if (!overrideHostStatus) {
+    return ['UNKNOWN', 'HEALTHY'];
+  }
+  return overrideHostStatus.statuses.filter(status => SUPPORTED_OVERRIDE_HOST_STATUSES.includes(status));
 }
 
 function convertOutlierDetectionUpdate(outlierDetection: OutlierDetection__Output | null): experimental.OutlierDetectionRawConfig | undefined {
@@ -201,6 +221,20 @@ export class ClusterResourceType extends XdsResourceType {
         }
       }
     }
+    let securityConfig: UpstreamSecurityConfig | undefined = undefined;
+    if (message.transport_socket) {
+      if (message.transport_socket.typed_config?.type_url !== UPSTREAM_TLS_CONTEXT_TYPE_URL) {
+        trace('Unsupported transport_socket type ' + message.transport_socket.typed_config?.type_url);
+        return null;
+      }
+      const upstreamTlsContext = decodeSingleResource(UPSTREAM_TLS_CONTEXT_TYPE_URL, message.transport_socket.typed_config.value);
+      try {
+        securityConfig = parseUpstreamTlsContext(upstreamTlsContext, context.bootstrap);
+      } catch (e) {
+        trace('UpstreamTlsContext validation failed with error ' + (e as Error).message);
+        return null;
+      }
+    }
     if (message.cluster_discovery_type === 'cluster_type') {
       if (!(message.cluster_type?.typed_config && message.cluster_type.typed_config.type_url === CLUSTER_CONFIG_TYPE_URL)) {
         return null;
@@ -238,7 +272,9 @@ export class ClusterResourceType extends XdsResourceType {
           edsServiceName: message.eds_cluster_config.service_name === '' ? undefined : message.eds_cluster_config.service_name,
           lrsLoadReportingServer: message.lrs_server ? context.server : undefined,
           outlierDetectionUpdate: convertOutlierDetectionUpdate(message.outlier_detection),
-          lbPolicyConfig: [lbPolicyConfig]
+          lbPolicyConfig: [lbPolicyConfig],
+          securityConfig: securityConfig,
+          overrideHostStatuses: convertOverrideHostStatus(message.common_lb_config?.override_host_status)
         }
       } else if (message.type === 'LOGICAL_DNS') {
         if (!message.load_assignment) {
@@ -268,7 +304,9 @@ export class ClusterResourceType extends XdsResourceType {
           dnsHostname: `${socketAddress.address}:${socketAddress.port_value}`,
           lrsLoadReportingServer: message.lrs_server ? context.server : undefined,
           outlierDetectionUpdate: convertOutlierDetectionUpdate(message.outlier_detection),
-          lbPolicyConfig: [lbPolicyConfig]
+          lbPolicyConfig: [lbPolicyConfig],
+          securityConfig: securityConfig,
+          overrideHostStatuses: convertOverrideHostStatus(message.common_lb_config?.override_host_status)
         };
       }
     }
@@ -19,11 +19,16 @@ import { logVerbosity, experimental } from "@grpc/grpc-js";
 import { EXPERIMENTAL_FAULT_INJECTION } from "../environment";
 import { Listener__Output } from "../generated/envoy/config/listener/v3/Listener";
 import { Any__Output } from "../generated/google/protobuf/Any";
-import { HTTP_CONNECTION_MANGER_TYPE_URL, LDS_TYPE_URL, decodeSingleResource } from "../resources";
+import { DOWNSTREAM_TLS_CONTEXT_TYPE_URL, HTTP_CONNECTION_MANGER_TYPE_URL, LDS_TYPE_URL, decodeSingleResource } from "../resources";
 import { XdsDecodeContext, XdsDecodeResult, XdsResourceType } from "./xds-resource-type";
 import { getTopLevelFilterUrl, validateTopLevelFilter } from "../http-filter";
 import { RouteConfigurationResourceType } from "./route-config-resource-type";
 import { Watcher, XdsClient } from "../xds-client";
+import { HttpConnectionManager__Output } from "../generated/envoy/extensions/filters/network/http_connection_manager/v3/HttpConnectionManager";
+import { FilterChain__Output } from "../generated/envoy/config/listener/v3/FilterChain";
+import { ParsedFilterChainMatch, getFilterChainMatchKeys, parseFilterChainMatch } from "../server-listener";
+import { BootstrapInfo } from "../xds-bootstrap";
+import { parseDownstreamTlsContext } from "../tls-context";
 
 const TRACER_NAME = 'xds_client';
 
@@ -46,27 +51,18 @@ export class ListenerResourceType extends XdsResourceType {
     return 'envoy.config.listener.v3.Listener';
   }
 
-  private validateResource(message: Listener__Output): Listener__Output | null {
-    if (
-      !(
-        message.api_listener?.api_listener &&
-        message.api_listener.api_listener.type_url === HTTP_CONNECTION_MANGER_TYPE_URL
-      )
-    ) {
-      return null;
-    }
-    const httpConnectionManager = decodeSingleResource(HTTP_CONNECTION_MANGER_TYPE_URL, message.api_listener!.api_listener.value);
-    if (EXPERIMENTAL_FAULT_INJECTION) {
+  private validateHttpConnectionManager(httpConnectionManager: HttpConnectionManager__Output, isServer: boolean): boolean {
+    if (EXPERIMENTAL_FAULT_INJECTION || isServer) {
       const filterNames = new Set<string>();
       for (const [index, httpFilter] of httpConnectionManager.http_filters.entries()) {
         if (filterNames.has(httpFilter.name)) {
           trace('LDS response validation failed: duplicate HTTP filter name ' + httpFilter.name);
-          return null;
+          return false;
         }
         filterNames.add(httpFilter.name);
-        if (!validateTopLevelFilter(httpFilter)) {
+        if (!validateTopLevelFilter(httpFilter, isServer)) {
           trace('LDS response validation failed: ' + httpFilter.name + ' filter validation failed');
-          return null;
+          return false;
         }
         /* Validate that the last filter, and only the last filter, is the
          * router filter. */
@@ -74,29 +70,111 @@ export class ListenerResourceType extends XdsResourceType {
         if (index < httpConnectionManager.http_filters.length - 1) {
           if (filterUrl === ROUTER_FILTER_URL) {
             trace('LDS response validation failed: router filter is before end of list');
-            return null;
+            return false;
           }
         } else {
           if (filterUrl !== ROUTER_FILTER_URL) {
             trace('LDS response validation failed: final filter is ' + filterUrl);
-            return null;
+            return false;
           }
         }
       }
     }
     switch (httpConnectionManager.route_specifier) {
       case 'rds':
-        if (!httpConnectionManager.rds?.config_source?.ads && !httpConnectionManager.rds?.config_source?.self) {
-          return null;
-        }
-        return message;
+        return !!(httpConnectionManager.rds?.config_source?.ads || httpConnectionManager.rds?.config_source?.self);
       case 'route_config':
-        if (!RouteConfigurationResourceType.get().validateResource(httpConnectionManager.route_config!)) {
+        return !!RouteConfigurationResourceType.get().validateResource(httpConnectionManager.route_config!);
+    }
+    return false;
+  }
+
+  private validateFilterChain(filterChain: FilterChain__Output, bootstrap: BootstrapInfo): ParsedFilterChainMatch | null {
+    const filterChainMatch = parseFilterChainMatch(filterChain.filter_chain_match);
+    if (!filterChainMatch) {
+      trace('LDS response validation failed: filter chain ' + filterChain.name + ' has an invalid CIDR range');
+      return null;
+    }
+    if (filterChain.transport_socket) {
+      if (filterChain.transport_socket.typed_config?.type_url !== DOWNSTREAM_TLS_CONTEXT_TYPE_URL) {
+        trace('LDS response validation failed: filter chain ' + filterChain.name + ' has unsupported transport_socket type ' + filterChain.transport_socket.typed_config?.type_url);
+        return null;
+      }
+      const downstreamTlsContext = decodeSingleResource(DOWNSTREAM_TLS_CONTEXT_TYPE_URL, filterChain.transport_socket.typed_config.value);
+      try {
+        parseDownstreamTlsContext(downstreamTlsContext, bootstrap);
+      } catch (e) {
+        trace('LDS response validation failed: filter chain ' + filterChain.name + ' DownstreamTlsContext validation failed with error ' + (e as Error).message);
+        return null;
+      }
+    }
+    if (filterChain.filters.length !== 1) {
+      trace('LDS response validation failed: filter chain ' + filterChain.name + ' must have exactly one filter');
+      return null;
+    }
+    const filter = filterChain.filters[0];
+    if (filter.typed_config?.type_url !== HTTP_CONNECTION_MANGER_TYPE_URL) {
+      trace('LDS response validation failed: filter chain ' + filterChain.name + ' filter is not an HttpConnectionManager');
+      return null;
+    }
+    const httpConnectionManager = decodeSingleResource(HTTP_CONNECTION_MANGER_TYPE_URL, filter.typed_config.value);
+    if (!this.validateHttpConnectionManager(httpConnectionManager, true)) {
+      return null;
+    }
+    return filterChainMatch;
+  }
+
+  /**
+   * Validate a Listener resource used by an xDS-enabled server, as specified
+   * in https://github.com/grpc/proposal/blob/master/A36-xds-for-servers.md
+   * @param message
+   */
+  private validateServerListener(message: Listener__Output, bootstrap: BootstrapInfo): Listener__Output | null {
+    if (message.address?.address !== 'socket_address' || !message.address.socket_address) {
+      trace('LDS response validation failed: server listener address is not a socket address');
+      return null;
+    }
+    if (message.use_original_dst?.value) {
+      trace('LDS response validation failed: use_original_dst is set');
+      return null;
+    }
+    const seenMatchKeys = new Set<string>();
+    for (const filterChain of message.filter_chains) {
+      const filterChainMatch = this.validateFilterChain(filterChain, bootstrap);
+      if (!filterChainMatch) {
+        return null;
+      }
+      for (const key of getFilterChainMatchKeys(filterChainMatch)) {
+        if (seenMatchKeys.has(key)) {
+          trace('LDS response validation failed: multiple filter chains have the same match ' + key);
           return null;
         }
-        return message;
+        seenMatchKeys.add(key);
+      }
+    }
+    if (message.default_filter_chain && !this.validateFilterChain(message.default_filter_chain, bootstrap)) {
+      return null;
+    }
+    return message;
+  }
+
+  private validateResource(context: XdsDecodeContext, message: Listener__Output): Listener__Output | null {
+    if (!message.api_listener) {
+      return this.validateServerListener(message, context.bootstrap);
+    }
+    if (
+      !(
+        message.api_listener.api_listener &&
+        message.api_listener.api_listener.type_url === HTTP_CONNECTION_MANGER_TYPE_URL
+      )
+    ) {
+      return null;
+    }
+    const httpConnectionManager = decodeSingleResource(HTTP_CONNECTION_MANGER_TYPE_URL, message.api_listener!.api_listener.value);
+    if (!this.validateHttpConnectionManager(httpConnectionManager, false)) {
+      return null;
     }
-    return null;
+    return message;
   }
 
   decode(context: XdsDecodeContext, resource: Any__Output): XdsDecodeResult {
@@ -107,7 +185,7 @@ export class ListenerResourceType extends XdsResourceType {
     }
     const message = decodeSingleResource(LDS_TYPE_URL, resource.value);
     trace('Decoded raw resource of type ' + LDS_TYPE_URL + ': ' + JSON.stringify(message, (key, value) => (value && value.type === 'Buffer' && Array.isArray(value.data)) ? (value.data as Number[]).map(n => n.toString(16)).join('') : value, 2));
-    const validatedMessage = this.validateResource(message);
+    const validatedMessage = this.validateResource(context, message);
     if (validatedMessage) {
       return {
         name: validatedMessage.name,
@@ -16,12 +16,13 @@
  */
 
 import { experimental, logVerbosity } from "@grpc/grpc-js";
-import { EXPERIMENTAL_FAULT_INJECTION, EXPERIMENTAL_RETRY } from "../environment";
+import { EXPERIMENTAL_FAULT_INJECTION, EXPERIMENTAL_RETRY, EXPERIMENTAL_RLS_LB } from "../environment";
 import { RetryPolicy__Output } from "../generated/envoy/config/route/v3/RetryPolicy";
 import { RouteConfiguration__Output } from "../generated/envoy/config/route/v3/RouteConfiguration";
 import { Any__Output } from "../generated/google/protobuf/Any";
 import { Duration__Output } from "../generated/google/protobuf/Duration";
 import { validateOverrideFilter } from "../http-filter";
+import { getClusterSpecifierPluginLbConfig } from "../cluster-specifier-plugin";
 import { RDS_TYPE_URL, decodeSingleResource } from "../resources";
 import { Watcher, XdsClient } from "../xds-client";
 import { XdsDecodeContext, XdsDecodeResult, XdsResourceType } from "./xds-resource-type";
@@ -41,6 +42,9 @@ const SUPPPORTED_HEADER_MATCH_SPECIFIERS = [
   'suffix_match',
   'string_match'];
 const SUPPORTED_CLUSTER_SPECIFIERS = ['cluster', 'weighted_clusters', 'cluster_header'];
+if (EXPERIMENTAL_RLS_LB) {
+  SUPPORTED_CLUSTER_SPECIFIERS.push('cluster_specifier_plugin');
+}
 
 const UINT32_MAX = 0xFFFFFFFF;
 
@@ -89,6 +93,27 @@ export class RouteConfigurationResourceType extends XdsResourceType {
 
   public validateResource(message: RouteConfiguration__Output): RouteConfiguration__Output | null {
     // https://github.com/grpc/proposal/blob/master/A28-xds-traffic-splitting-and-routing.md#response-validation
+    const clusterSpecifierPluginNames = new Set<string>();
+    if (EXPERIMENTAL_RLS_LB) {
+      for (const plugin of message.cluster_specifier_plugins) {
+        const name = plugin.extension?.name ?? '';
+        if (clusterSpecifierPluginNames.has(name)) {
+          return null;
+        }
+        clusterSpecifierPluginNames.add(name);
+        let lbConfig;
+        try {
+          lbConfig = getClusterSpecifierPluginLbConfig(plugin);
+        } catch (e) {
+          trace('Cluster specifier plugin ' + name + ' validation failed: ' + (e as Error).message);
+          return null;
+        }
+        // Routes that refer to unsupported optional plugins are ignored
+        if (!lbConfig && !plugin.is_optional) {
+          return null;
+        }
+      }
+    }
     for (const virtualHost of message.virtual_hosts) {
       for (const domainPattern of virtualHost.domains) {
         const starIndex = domainPattern.indexOf('*');
@@ -127,12 +152,6 @@ export class RouteConfigurationResourceType extends XdsResourceType {
             return null;
           }
         }
-        if (route.action !== 'route') {
-          return null;
-        }
-        if ((route.route === undefined) || (route.route === null) || SUPPORTED_CLUSTER_SPECIFIERS.indexOf(route.route.cluster_specifier) < 0) {
-          return null;
-        }
         if (EXPERIMENTAL_FAULT_INJECTION) {
           for (const [name, filterConfig] of Object.entries(route.typed_per_filter_config ?? {})) {
             if (!validateOverrideFilter(filterConfig)) {
@@ -140,6 +159,20 @@ export class RouteConfigurationResourceType extends XdsResourceType {
             }
           }
         }
+        /* Routes with non_forwarding_action are used by xDS-enabled servers.
+         * Clients fail RPCs that match them. */
+        if (route.action === 'non_forwarding_action') {
+          continue;
+        }
+        if (route.action !== 'route') {
+          return null;
+        }
+        if ((route.route === undefined) || (route.route === null) || SUPPORTED_CLUSTER_SPECIFIERS.indexOf(route.route.cluster_specifier) < 0) {
+          return null;
+        }
+        if (route.route.cluster_specifier === 'cluster_specifier_plugin' && !clusterSpecifierPluginNames.has(route.route.cluster_specifier_plugin!)) {
+          return null;
+        }
         if (EXPERIMENTAL_RETRY) {
           if (!this.validateRetryPolicy(route.route.retry_policy)) {
             return null;
@@ -58,6 +58,13 @@ export class Backend {
           callback({code: errorCode, details: 'rpc-behavior error code'});
           return;
         }
+        if (behavior.startsWith('sleep-')) {
+          const sleepMs = Number(behavior.substring('sleep-'.length));
+          setTimeout(() => {
+            callback(null, {message: call.request.message});
+          }, sleepMs);
+          return;
+        }
       }
     }
     callback(null, {message: call.request.message});
@@ -72,6 +79,15 @@ export class Backend {
     this.callListeners.push(listener);
   }
 
+  /**
+   * Serve the echo service with this backend on a server that the test
+   * manages, instead of starting the backend's own server.
+   * @param server
+   */
+  addToServer(server: Server) {
+    server.addService(loadedProtos.grpc.testing.EchoTestService.service, this as unknown as UntypedServiceImplementation);
+  }
+
   start(callback: (error: Error | null, port: number) => void) {
     if (this.server) {
       throw new Error("Backend already running");
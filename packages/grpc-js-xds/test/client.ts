@@ -15,11 +15,11 @@
  *
  */
 
-import { ChannelOptions, credentials, loadPackageDefinition, ServiceError } from "@grpc/grpc-js";
+import { ChannelOptions, credentials, loadPackageDefinition, Metadata, ServiceError } from "@grpc/grpc-js";
 import { loadSync } from "@grpc/proto-loader";
 import { ProtoGrpcType } from "./generated/echo";
 import { EchoTestServiceClient } from "./generated/grpc/testing/EchoTestService";
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 
 const loadedProtos = loadPackageDefinition(loadSync(
   [
@@ -50,7 +50,7 @@ export class XdsTestClient {
     clearInterval(this.callInterval);
   }
 
-  static createFromServer(targetName: string, xdsServer: XdsServer, options?: ChannelOptions) {
+  static createFromServer(targetName: string, xdsServer: XdsManagementServer, options?: ChannelOptions) {
     return new XdsTestClient(`xds:///${targetName}`, xdsServer.getBootstrapInfoString(), options);
   }
 
@@ -82,6 +82,22 @@ export class XdsTestClient {
     });
   }
 
+  /**
+   * Send one call with the given request metadata, and report the response
+   * metadata, if any was received.
+   */
+  sendOneCallWithMetadata(metadata: Metadata, callback: (error: ServiceError | null, responseMetadata: Metadata | null) => void, deadlineMs = 500) {
+    const deadline = new Date();
+    deadline.setMilliseconds(deadline.getMilliseconds() + deadlineMs);
+    let responseMetadata: Metadata | null = null;
+    const call = this.client.echo({message: 'test'}, metadata, {deadline}, (error, value) => {
+      callback(error, responseMetadata);
+    });
+    call.on('metadata', metadata => {
+      responseMetadata = metadata;
+    });
+  }
+
   sendNCalls(count: number, callback: (error: ServiceError| null) => void) {
     const sendInner = (count: number, callback: (error: ServiceError| null) => void) => {
       if (count === 0) {
@@ -16,7 +16,7 @@
  */
 
 import * as assert from 'assert';
-import { validateXdsServerConfig } from "../src/xds-bootstrap";
+import { validateBootstrapConfig, validateXdsServerConfig } from "../src/xds-bootstrap";
 
 describe('bootstrap', () => {
   /* validateXdsServerConfig is used when creating the cds config, and then
@@ -30,4 +30,42 @@ describe('bootstrap', () => {
     };
     assert.deepStrictEqual(validateXdsServerConfig(validateXdsServerConfig(config)), validateXdsServerConfig(config));
   });
+  describe('certificate_providers', () => {
+    const baseConfig = {
+      xds_servers: [{server_uri: 'localhost:1234', channel_creds: [{type: 'insecure'}]}],
+      node: {id: 'test', locality: {}}
+    };
+    it('Should parse file_watcher instances', () => {
+      const bootstrap = validateBootstrapConfig({
+        ...baseConfig,
+        certificate_providers: {
+          instance: {plugin_name: 'file_watcher', config: {ca_certificate_file: '/ca.pem', refresh_interval: '1.5s'}}
+        }
+      });
+      assert.deepStrictEqual(Object.keys(bootstrap.certificateProviders), ['instance']);
+    });
+    it('Should ignore instances with unknown plugins', () => {
+      const bootstrap = validateBootstrapConfig({
+        ...baseConfig,
+        certificate_providers: {
+          instance: {plugin_name: 'unknown', config: {}}
+        }
+      });
+      assert.deepStrictEqual(bootstrap.certificateProviders, {});
+    });
+    it('Should reject invalid file_watcher configs', () => {
+      assert.throws(() => validateBootstrapConfig({
+        ...baseConfig,
+        certificate_providers: {
+          instance: {plugin_name: 'file_watcher', config: {certificate_file: '/cert.pem'}}
+        }
+      }));
+      assert.throws(() => validateBootstrapConfig({
+        ...baseConfig,
+        certificate_providers: {
+          instance: {plugin_name: 'file_watcher', config: {ca_certificate_file: '/ca.pem', refresh_interval: '10'}}
+        }
+      }));
+    });
+  });
 });
@@ -17,7 +17,7 @@
 
 import { register } from "../src";
 import assert = require("assert");
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 import { XdsTestClient } from "./client";
 import { FakeAggregateCluster, FakeDnsCluster, FakeEdsCluster, FakeRouteGroup } from "./framework";
 import { Backend } from "./backend";
@@ -25,10 +25,10 @@ import { Backend } from "./backend";
 register();
 
 describe('Cluster types', () => {
-  let xdsServer: XdsServer;
+  let xdsServer: XdsManagementServer;
   let client: XdsTestClient;
   beforeEach(done => {
-    xdsServer = new XdsServer();
+    xdsServer = new XdsManagementServer();
     xdsServer.startServer(error => {
       done(error);
     });
@@ -246,6 +246,36 @@ const allTestCases: {[lbPolicyName: string]: TestCase[]} = {
         child_policy: [{round_robin: {}}],
         max_concurrent_requests: 123
       },
+    },
+    {
+      name: 'override host statuses',
+      input: {
+        cluster: 'abc',
+        eds_service_name: 'def',
+        drop_categories: [],
+        lrs_load_reporting_server: {
+          server_uri: 'localhost:12345',
+          channel_creds: [{
+            type: 'google_default',
+            config: {}
+          }],
+          server_features: ['test']
+        },
+        child_policy: [{round_robin: {}}],
+        max_concurrent_requests: 123,
+        override_host_statuses: ['UNKNOWN', 'HEALTHY', 'DRAINING']
+      }
+    },
+    {
+      name: 'invalid override host statuses',
+      input: {
+        cluster: 'abc',
+        eds_service_name: 'def',
+        drop_categories: [],
+        child_policy: [{round_robin: {}}],
+        override_host_statuses: 'HEALTHY'
+      },
+      error: /override_host_statuses/
     }
   ],
   priority: [
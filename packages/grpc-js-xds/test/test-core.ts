@@ -18,7 +18,7 @@
 import { Backend } from "./backend";
 import { XdsTestClient } from "./client";
 import { FakeEdsCluster, FakeRouteGroup } from "./framework";
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 
 import { register } from "../src";
 import assert = require("assert");
@@ -27,10 +27,10 @@ import { connectivityState } from "@grpc/grpc-js";
 register();
 
 describe('core xDS functionality', () => {
-  let xdsServer: XdsServer;
+  let xdsServer: XdsManagementServer;
   let client: XdsTestClient;
   beforeEach(done => {
-    xdsServer = new XdsServer();
+    xdsServer = new XdsManagementServer();
     xdsServer.startServer(error => {
       done(error);
     });
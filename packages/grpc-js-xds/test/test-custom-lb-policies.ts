@@ -20,7 +20,7 @@ import { Any } from "../src/generated/google/protobuf/Any";
 import { Backend } from "./backend";
 import { XdsTestClient } from "./client";
 import { FakeEdsCluster, FakeRouteGroup } from "./framework";
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 import * as assert from 'assert';
 import { WrrLocality } from "../src/generated/envoy/extensions/load_balancing_policies/wrr_locality/v3/WrrLocality";
 import { TypedStruct } from "../src/generated/xds/type/v3/TypedStruct";
@@ -119,10 +119,10 @@ class RpcBehaviorLoadBalancer implements LoadBalancer {
 registerLoadBalancerType(LB_POLICY_NAME, RpcBehaviorLoadBalancer, RpcBehaviorLoadBalancingConfig);
 
 describe('Custom LB policies', () => {
-  let xdsServer: XdsServer;
+  let xdsServer: XdsManagementServer;
   let client: XdsTestClient;
   beforeEach(done => {
-    xdsServer = new XdsServer();
+    xdsServer = new XdsManagementServer();
     xdsServer.startServer(error => {
       done(error);
     });
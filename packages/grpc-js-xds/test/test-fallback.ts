@@ -0,0 +1,125 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { Backend } from "./backend";
+import { XdsTestClient } from "./client";
+import { FakeEdsCluster, FakeRouteGroup } from "./framework";
+import { XdsManagementServer } from "../src/xds-management-server";
+import { EXPERIMENTAL_XDS_FALLBACK } from "../src/environment";
+import assert = require("assert");
+
+/* Test cases in this file are derived from the behavior described in the xDS
+ * fallback proposal
+ * https://github.com/grpc/proposal/blob/master/A71-xds-fallback.md */
+describe('Fallback', () => {
+  let xdsServers: XdsManagementServer[] = [];
+  let xdsClient: XdsTestClient;
+  beforeEach(function() {
+    if (!EXPERIMENTAL_XDS_FALLBACK) {
+      this.skip();
+    }
+  });
+  afterEach(() => {
+    xdsClient?.close();
+    for (const server of xdsServers) {
+      server.shutdownServer();
+    }
+    xdsServers = [];
+  });
+  function startXdsServer(port?: number): Promise<XdsManagementServer> {
+    return new Promise((resolve, reject) => {
+      const xdsServer = new XdsManagementServer();
+      xdsServers.push(xdsServer);
+      xdsServer.startServer(error => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(xdsServer);
+        }
+      }, port);
+    });
+  }
+  async function setUpResources(xdsServer: XdsManagementServer, backend: Backend) {
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [backend], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    xdsServer.setEdsResource(cluster.getEndpointConfig());
+    xdsServer.setCdsResource(cluster.getClusterConfig());
+    xdsServer.setRdsResource(routeGroup.getRouteConfiguration());
+    xdsServer.setLdsResource(routeGroup.getListener());
+  }
+  function getBootstrap(servers: XdsManagementServer[]) {
+    return JSON.stringify({
+      xds_servers: servers.map(server => server.getBootstrapServerConfig()),
+      node: {
+        id: 'test',
+        locality: {}
+      }
+    });
+  }
+  it('Should use the fallback server when the primary server is unreachable', async () => {
+    const primaryServer = await startXdsServer();
+    const fallbackServer = await startXdsServer();
+    const backend = new Backend();
+    await setUpResources(fallbackServer, backend);
+    const bootstrap = getBootstrap([primaryServer, fallbackServer]);
+    primaryServer.shutdownServer();
+    xdsClient = new XdsTestClient('xds:///listener1', bootstrap);
+    await new Promise<void>((resolve, reject) => {
+      xdsClient.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    assert.strictEqual(backend.getCallCount(), 1);
+  });
+  it('Should keep using cached resources when the primary server becomes unreachable', async () => {
+    const primaryServer = await startXdsServer();
+    const fallbackServer = await startXdsServer();
+    const backend = new Backend();
+    await setUpResources(primaryServer, backend);
+    xdsClient = new XdsTestClient('xds:///listener1', getBootstrap([primaryServer, fallbackServer]));
+    await new Promise<void>((resolve, reject) => {
+      xdsClient.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    primaryServer.shutdownServer();
+    await new Promise<void>((resolve, reject) => {
+      xdsClient.sendNCalls(5, error => error ? reject(error) : resolve());
+    });
+    assert.strictEqual(backend.getCallCount(), 6);
+  });
+  it('Should switch back to the primary server when it becomes reachable', async function() {
+    // Reconnecting to the primary server is subject to connection backoff
+    this.timeout(10_000);
+    const unreachableServer = await startXdsServer();
+    const fallbackServer = await startXdsServer();
+    const fallbackBackend = new Backend();
+    await setUpResources(fallbackServer, fallbackBackend);
+    const primaryPort = unreachableServer.getBootstrapServerConfig().server_uri.split(':')[1];
+    const bootstrap = getBootstrap([unreachableServer, fallbackServer]);
+    unreachableServer.shutdownServer();
+    xdsClient = new XdsTestClient('xds:///listener1', bootstrap);
+    await new Promise<void>((resolve, reject) => {
+      xdsClient.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    assert.strictEqual(fallbackBackend.getCallCount(), 1);
+    const primaryServer = await startXdsServer(Number(primaryPort));
+    const primaryBackend = new Backend();
+    await setUpResources(primaryServer, primaryBackend);
+    await new Promise<void>(resolve => {
+      primaryBackend.onCall(() => resolve());
+      xdsClient.startCalls(100);
+    });
+  });
+});
@@ -18,13 +18,13 @@
 import { Backend } from "./backend";
 import { XdsTestClient } from "./client";
 import { FakeEdsCluster, FakeRouteGroup } from "./framework";
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 import assert = require("assert");
 
 /* Test cases in this file are derived from examples in the xDS federation proposal
  * https://github.com/grpc/proposal/blob/master/A47-xds-federation.md */
 describe('Federation', () => {
-  let xdsServers: XdsServer[] = [];
+  let xdsServers: XdsManagementServer[] = [];
   let xdsClient: XdsTestClient;
   afterEach(() => {
     xdsClient?.close();
@@ -36,7 +36,7 @@ describe('Federation', () => {
   describe('Bootstrap Config Contains No New Fields', () => {
     let bootstrap: string;
     beforeEach((done) => {
-      const xdsServer = new XdsServer();
+      const xdsServer = new XdsManagementServer();
       xdsServers.push(xdsServer);
       xdsServer.startServer(error => {
         if (error) {
@@ -78,7 +78,7 @@ describe('Federation', () => {
   describe('New-Style Names on gRPC Client', () => {
     let bootstrap: string;
     beforeEach((done) => {
-      const xdsServer = new XdsServer();
+      const xdsServer = new XdsManagementServer();
       xdsServers.push(xdsServer);
       xdsServer.startServer(error => {
         if (error) {
@@ -125,9 +125,9 @@ describe('Federation', () => {
     let defaultRouteGroup: FakeRouteGroup;
     let otherRouteGroup: FakeRouteGroup;
     beforeEach((done) => {
-      const defaultServer = new XdsServer();
+      const defaultServer = new XdsManagementServer();
       xdsServers.push(defaultServer);
-      const otherServer = new XdsServer();
+      const otherServer = new XdsManagementServer();
       xdsServers.push(otherServer);
       defaultServer.startServer(error => {
         if (error) {
@@ -0,0 +1,130 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { Backend } from "./backend";
+import { XdsTestClient } from "./client";
+import { FakeEdsCluster, FakeRouteGroup } from "./framework";
+import { XdsManagementServer } from "../src/xds-management-server";
+import { CDS_TYPE_URL } from "../src/resources";
+import assert = require("assert");
+
+describe('XdsManagementServer', () => {
+  let xdsServer: XdsManagementServer;
+  let client: XdsTestClient;
+  beforeEach(done => {
+    xdsServer = new XdsManagementServer({loadReportingIntervalMs: 100});
+    xdsServer.startServer(done);
+  });
+  afterEach(() => {
+    client?.close();
+    xdsServer?.shutdownServer();
+  });
+  it('Should replace resources with a new snapshot', async () => {
+    const cluster1 = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const cluster2 = new FakeEdsCluster('cluster2', 'endpoint2', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const routeGroup1 = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster1}]);
+    const routeGroup2 = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster2}]);
+    await routeGroup1.startAllBackends();
+    await routeGroup2.startAllBackends();
+    xdsServer.setSnapshot({
+      listeners: [routeGroup1.getListener()],
+      routeConfigurations: [routeGroup1.getRouteConfiguration()],
+      clusters: [cluster1.getClusterConfig()],
+      clusterLoadAssignments: [cluster1.getEndpointConfig()]
+    });
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        client.stopCalls();
+        assert.fail(`Client NACKED ${typeUrl} resource with message ${responseState.errorMessage}`);
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    await new Promise<void>((resolve, reject) => {
+      client.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    xdsServer.setSnapshot({
+      routeConfigurations: [routeGroup2.getRouteConfiguration()],
+      clusters: [cluster2.getClusterConfig()],
+      clusterLoadAssignments: [cluster2.getEndpointConfig()]
+    });
+    client.startCalls(100);
+    await cluster2.waitForAllBackendsToReceiveTraffic();
+    client.stopCalls();
+  });
+  it('Should report the versions that the client ACKs', async () => {
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    xdsServer.setEdsResource(cluster.getEndpointConfig());
+    xdsServer.setCdsResource(cluster.getClusterConfig());
+    xdsServer.setRdsResource(routeGroup.getRouteConfiguration());
+    xdsServer.setLdsResource(routeGroup.getListener());
+    const ackedClusterVersions: string[] = [];
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (typeUrl === CDS_TYPE_URL && responseState.state === 'ACKED') {
+        ackedClusterVersions.push(responseState.versionInfo);
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    await new Promise<void>((resolve, reject) => {
+      client.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    assert.strictEqual(ackedClusterVersions[ackedClusterVersions.length - 1], '1');
+    await new Promise<void>(resolve => {
+      xdsServer.addResponseListener((typeUrl, responseState) => {
+        if (typeUrl === CDS_TYPE_URL && responseState.state === 'ACKED' && responseState.versionInfo === '2') {
+          resolve();
+        }
+      });
+      xdsServer.setCdsResource(cluster.getClusterConfig());
+    });
+  });
+  it('Should collect load reports', async () => {
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    xdsServer.setSnapshot({
+      listeners: [routeGroup.getListener()],
+      routeConfigurations: [routeGroup.getRouteConfiguration()],
+      clusters: [cluster.getClusterConfig()],
+      clusterLoadAssignments: [cluster.getEndpointConfig()]
+    });
+    let successfulRequests = 0;
+    const allCallsReported = new Promise<void>(resolve => {
+      xdsServer.addLoadReportListener(clusterStatsList => {
+        for (const clusterStats of clusterStatsList) {
+          if (clusterStats.cluster_name !== 'cluster1') {
+            continue;
+          }
+          for (const localityStats of clusterStats.upstream_locality_stats) {
+            successfulRequests += Number(localityStats.total_successful_requests);
+          }
+        }
+        if (successfulRequests >= 5) {
+          resolve();
+        }
+      });
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    await new Promise<void>((resolve, reject) => {
+      client.sendNCalls(5, error => error ? reject(error) : resolve());
+    });
+    await allCallsReported;
+    assert(xdsServer.getLoadReports().some(clusterStats => clusterStats.cluster_name === 'cluster1'));
+    assert.strictEqual(successfulRequests, 5);
+  });
+});
@@ -21,15 +21,15 @@ import { Cluster } from '../src/generated/envoy/config/cluster/v3/Cluster';
 import { Backend } from "./backend";
 import { XdsTestClient } from "./client";
 import { FakeEdsCluster, FakeRouteGroup } from "./framework";
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 
 register();
 
 describe('Validation errors', () => {
-  let xdsServer: XdsServer;
+  let xdsServer: XdsManagementServer;
   let client: XdsTestClient;
   beforeEach(done => {
-    xdsServer = new XdsServer();
+    xdsServer = new XdsManagementServer();
     xdsServer.startServer(error => {
       done(error);
     });
@@ -0,0 +1,193 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import { PeerCertificate } from 'tls';
+import { Metadata } from '@grpc/grpc-js';
+import { RBAC__Output } from '../src/generated/envoy/config/rbac/v3/RBAC';
+import { Permission__Output } from '../src/generated/envoy/config/rbac/v3/Permission';
+import { Principal__Output } from '../src/generated/envoy/config/rbac/v3/Principal';
+import { parseRbacRules, RequestInfo } from '../src/rbac';
+import { validateOverrideFilter, validateTopLevelFilter } from '../src/http-filter';
+import { setup as setupRbacFilter } from '../src/http-filter/rbac-filter';
+
+const RBAC_PER_ROUTE_URL = 'type.googleapis.com/envoy.extensions.filters.http.rbac.v3.RBACPerRoute';
+
+function makeRules(action: RBAC__Output['action'], permissions: Permission__Output[], principals: Principal__Output[]): RBAC__Output {
+  return {
+    action,
+    policies: {
+      policy: {
+        permissions,
+        principals,
+        condition: null,
+        checked_condition: null
+      }
+    },
+    audit_logging_options: null
+  };
+}
+
+function makeRequest(fields: Partial<RequestInfo> = {}): RequestInfo {
+  return {
+    path: '/EchoService/Echo',
+    host: 'localhost',
+    metadata: new Metadata(),
+    connection: {
+      localAddress: '10.0.0.1',
+      localPort: 443,
+      remoteAddress: '192.168.1.2',
+      remotePort: 12345
+    },
+    authContext: {},
+    ...fields
+  };
+}
+
+const anyPermission: Permission__Output = {any: true, rule: 'any'};
+const anyPrincipal: Principal__Output = {any: true, identifier: 'any'};
+
+function pathPermission(path: string): Permission__Output {
+  return {
+    url_path: {
+      path: {exact: path, ignore_case: false, match_pattern: 'exact'},
+      rule: 'path'
+    },
+    rule: 'url_path'
+  };
+}
+
+describe('RBAC engine', () => {
+  it('Should allow everything if there are no rules', () => {
+    assert.strictEqual(parseRbacRules(null), null);
+  });
+  it('Should allow everything with the LOG action', () => {
+    assert.strictEqual(parseRbacRules(makeRules('LOG', [anyPermission], [anyPrincipal])), null);
+  });
+  it('Should allow only matching requests with the ALLOW action', () => {
+    const engine = parseRbacRules(makeRules('ALLOW', [pathPermission('/EchoService/Echo')], [anyPrincipal]))!;
+    assert(engine.isAllowed(makeRequest()));
+    assert(!engine.isAllowed(makeRequest({path: '/EchoService/Other'})));
+  });
+  it('Should deny only matching requests with the DENY action', () => {
+    const engine = parseRbacRules(makeRules('DENY', [pathPermission('/EchoService/Echo')], [anyPrincipal]))!;
+    assert(!engine.isAllowed(makeRequest()));
+    assert(engine.isAllowed(makeRequest({path: '/EchoService/Other'})));
+  });
+  it('Should match headers, including pseudo-headers', () => {
+    const headerPrincipal = (name: string, value: string): Principal__Output => ({
+      header: {name, exact_match: value, invert_match: false, treat_missing_header_as_empty: false, header_match_specifier: 'exact_match'},
+      identifier: 'header'
+    });
+    const metadata = new Metadata();
+    metadata.set('user', 'alice');
+    const userEngine = parseRbacRules(makeRules('ALLOW', [anyPermission], [headerPrincipal('user', 'alice')]))!;
+    assert(userEngine.isAllowed(makeRequest({metadata})));
+    assert(!userEngine.isAllowed(makeRequest()));
+    const methodEngine = parseRbacRules(makeRules('ALLOW', [anyPermission], [headerPrincipal(':method', 'POST')]))!;
+    assert(methodEngine.isAllowed(makeRequest()));
+    const hostEngine = parseRbacRules(makeRules('ALLOW', [anyPermission], [headerPrincipal('host', 'localhost')]))!;
+    assert(hostEngine.isAllowed(makeRequest()));
+  });
+  it('Should match source and destination addresses', () => {
+    const engine = parseRbacRules(makeRules(
+      'ALLOW',
+      [{destination_ip: {address_prefix: '10.0.0.0', prefix_len: {value: 8}}, rule: 'destination_ip'}],
+      [{direct_remote_ip: {address_prefix: '192.168.0.0', prefix_len: {value: 16}}, identifier: 'direct_remote_ip'}]
+    ))!;
+    assert(engine.isAllowed(makeRequest()));
+    assert(!engine.isAllowed(makeRequest({connection: {localAddress: '10.0.0.1', localPort: 443, remoteAddress: '172.16.0.1', remotePort: 1}})));
+  });
+  it('Should match destination ports', () => {
+    const engine = parseRbacRules(makeRules('ALLOW', [{destination_port: 443, rule: 'destination_port'}], [anyPrincipal]))!;
+    assert(engine.isAllowed(makeRequest()));
+    assert(!engine.isAllowed(makeRequest({connection: {localAddress: '10.0.0.1', localPort: 80}})));
+  });
+  it('Should combine rules with and, or, and not', () => {
+    const engine = parseRbacRules(makeRules(
+      'ALLOW',
+      [{
+        and_rules: {rules: [
+          {or_rules: {rules: [pathPermission('/EchoService/Echo'), pathPermission('/EchoService/Other')]}, rule: 'or_rules'},
+          {not_rule: pathPermission('/EchoService/Other'), rule: 'not_rule'}
+        ]},
+        rule: 'and_rules'
+      }],
+      [anyPrincipal]
+    ))!;
+    assert(engine.isAllowed(makeRequest()));
+    assert(!engine.isAllowed(makeRequest({path: '/EchoService/Other'})));
+  });
+  describe('Authenticated principals', () => {
+    const certificate = {
+      subject: {CN: 'client'},
+      subjectaltname: 'DNS:client.example.com, URI:spiffe://example.com/client',
+      raw: Buffer.from('cert')
+    } as any as PeerCertificate;
+    function authenticatedPrincipal(name: string | null): Principal__Output {
+      return {
+        authenticated: {
+          principal_name: name === null ? null : {exact: name, ignore_case: false, match_pattern: 'exact'}
+        },
+        identifier: 'authenticated'
+      };
+    }
+    it('Should not match plaintext connections', () => {
+      const engine = parseRbacRules(makeRules('ALLOW', [anyPermission], [authenticatedPrincipal(null)]))!;
+      assert(!engine.isAllowed(makeRequest()));
+      assert(engine.isAllowed(makeRequest({authContext: {transportSecurityType: 'ssl'}})));
+    });
+    it('Should match URI SANs before DNS SANs', () => {
+      const authContext = {transportSecurityType: 'ssl', sslPeerCertificate: certificate};
+      const uriEngine = parseRbacRules(makeRules('ALLOW', [anyPermission], [authenticatedPrincipal('spiffe://example.com/client')]))!;
+      assert(uriEngine.isAllowed(makeRequest({authContext})));
+      const dnsEngine = parseRbacRules(makeRules('ALLOW', [anyPermission], [authenticatedPrincipal('client.example.com')]))!;
+      assert(!dnsEngine.isAllowed(makeRequest({authContext})));
+    });
+    it('Should match the subject if there are no SANs', () => {
+      const authContext = {transportSecurityType: 'ssl', sslPeerCertificate: {...certificate, subjectaltname: undefined} as any as PeerCertificate};
+      const engine = parseRbacRules(makeRules('ALLOW', [anyPermission], [authenticatedPrincipal('CN=client')]))!;
+      assert(engine.isAllowed(makeRequest({authContext})));
+    });
+  });
+  it('Should reject policies with conditions', () => {
+    const rules = makeRules('ALLOW', [anyPermission], [anyPrincipal]);
+    rules.policies.policy.condition = {id: '1', expr_kind: 'const_expr'} as any;
+    assert.throws(() => parseRbacRules(rules));
+  });
+  it('Should reject invalid CIDR ranges', () => {
+    assert.throws(() => parseRbacRules(makeRules(
+      'ALLOW',
+      [anyPermission],
+      [{source_ip: {address_prefix: 'invalid', prefix_len: null}, identifier: 'source_ip'}]
+    )));
+  });
+});
+
+describe('RBAC filter registration', () => {
+  before(() => {
+    setupRbacFilter();
+  });
+  it('Should accept an RBACPerRoute override config', () => {
+    assert(validateOverrideFilter({type_url: RBAC_PER_ROUTE_URL, value: Buffer.alloc(0)}));
+  });
+  it('Should treat an RBACPerRoute message in http_filters as an unknown filter', () => {
+    const typedConfig = {type_url: RBAC_PER_ROUTE_URL, value: Buffer.alloc(0)};
+    assert(validateTopLevelFilter({name: 'rbac', typed_config: typedConfig, is_optional: true, disabled: false, config_type: 'typed_config'}, true));
+    assert(!validateTopLevelFilter({name: 'rbac', typed_config: typedConfig, is_optional: false, disabled: false, config_type: 'typed_config'}, true));
+  });
+});
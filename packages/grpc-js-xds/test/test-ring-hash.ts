@@ -18,7 +18,7 @@
 import { Backend } from "./backend";
 import { XdsTestClient } from "./client";
 import { FakeEdsCluster, FakeRouteGroup } from "./framework";
-import { XdsServer } from "./xds-server";
+import { XdsManagementServer } from "../src/xds-management-server";
 
 import { register } from "../src";
 import assert = require("assert");
@@ -30,10 +30,10 @@ import { EXPERIMENTAL_RING_HASH } from "../src/environment";
 register();
 
 describe('Ring hash LB policy', () => {
-  let xdsServer: XdsServer;
+  let xdsServer: XdsManagementServer;
   let client: XdsTestClient;
   beforeEach(done => {
-    xdsServer = new XdsServer();
+    xdsServer = new XdsManagementServer();
     xdsServer.startServer(error => {
       done(error);
     });
@@ -0,0 +1,159 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { loadPackageDefinition, sendUnaryData, Server, ServerCredentials, ServerUnaryCall, ServiceClientConstructor } from "@grpc/grpc-js";
+import { AnyExtension, loadSync } from "@grpc/proto-loader";
+import * as path from 'path';
+import { Backend } from "./backend";
+import { XdsTestClient } from "./client";
+import { FakeEdsCluster, FakeRouteGroup } from "./framework";
+import { XdsManagementServer } from "../src/xds-management-server";
+import { EXPERIMENTAL_RLS_LB } from "../src/environment";
+import { RouteConfiguration } from "../src/generated/envoy/config/route/v3/RouteConfiguration";
+import { RouteLookupClusterSpecifier } from "../src/generated/grpc/lookup/v1/RouteLookupClusterSpecifier";
+import assert = require("assert");
+
+const RouteLookupService = (loadPackageDefinition(loadSync('grpc/lookup/v1/rls.proto', {
+  keepCase: true,
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true,
+  includeDirs: [
+    path.dirname(require.resolve('@grpc/grpc-js/package.json')) + '/proto/'
+  ]
+})) as any).grpc.lookup.v1.RouteLookupService as ServiceClientConstructor;
+
+describe('RLS cluster specifier plugin', () => {
+  let xdsServer: XdsManagementServer;
+  let rlsServer: Server;
+  let rlsPort: number;
+  let rlsRequests: any[] = [];
+  let client: XdsTestClient;
+  beforeEach(function(done) {
+    if (!EXPERIMENTAL_RLS_LB) {
+      this.skip();
+    }
+    rlsRequests = [];
+    xdsServer = new XdsManagementServer();
+    xdsServer.startServer(error => {
+      if (error) {
+        done(error);
+        return;
+      }
+      rlsServer = new Server();
+      rlsServer.addService(RouteLookupService.service, {
+        RouteLookup: (call: ServerUnaryCall<any, any>, callback: sendUnaryData<any>) => {
+          rlsRequests.push(call.request);
+          callback(null, {targets: [call.request.key_map.target_cluster]});
+        }
+      });
+      rlsServer.bindAsync('localhost:0', ServerCredentials.createInsecure(), (error, port) => {
+        rlsPort = port;
+        done(error);
+      });
+    });
+  });
+  afterEach(() => {
+    client?.close();
+    xdsServer?.shutdownServer();
+    rlsServer?.forceShutdown();
+  });
+  function getRouteConfiguration(isOptional = false, typeUrl = 'type.googleapis.com/grpc.lookup.v1.RouteLookupClusterSpecifier'): RouteConfiguration {
+    const specifier: RouteLookupClusterSpecifier & AnyExtension = {
+      '@type': typeUrl,
+      route_lookup_config: {
+        grpc_keybuilders: [{
+          names: [{service: 'grpc.testing.EchoTestService'}],
+          headers: [{key: 'target_cluster', names: ['x-target-cluster']}],
+          constant_keys: {target_cluster: 'cluster1'}
+        }],
+        lookup_service: `localhost:${rlsPort}`,
+        cache_size_bytes: 1000
+      }
+    };
+    return {
+      name: 'route1',
+      virtual_hosts: [{
+        domains: ['*'],
+        routes: [{
+          match: {prefix: ''},
+          route: {cluster_specifier_plugin: 'rls'}
+        }]
+      }],
+      cluster_specifier_plugins: [{
+        extension: {
+          name: 'rls',
+          typed_config: specifier
+        },
+        is_optional: isOptional
+      }]
+    };
+  }
+  it('Should route calls to the cluster returned by the RLS server', async () => {
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    xdsServer.setEdsResource(cluster.getEndpointConfig());
+    xdsServer.setCdsResource(cluster.getClusterConfig());
+    xdsServer.setRdsResource(getRouteConfiguration());
+    xdsServer.setLdsResource(routeGroup.getListener());
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        client.stopCalls();
+        assert.fail(`Client NACKED ${typeUrl} resource with message ${responseState.errorMessage}`);
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    await new Promise<void>((resolve, reject) => {
+      client.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    assert.strictEqual(rlsRequests.length, 1);
+    assert.deepStrictEqual(rlsRequests[0].key_map, {target_cluster: 'cluster1'});
+  });
+  it('Should NACK a route config with an unsupported required plugin', done => {
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    xdsServer.setRdsResource(getRouteConfiguration(false, 'type.googleapis.com/google.protobuf.Empty'));
+    xdsServer.setLdsResource(routeGroup.getListener());
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        client.stopCalls();
+        done();
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    client.startCalls(100);
+  });
+  it('Should fail calls that match routes with unsupported optional plugins', done => {
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [new Backend()], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    xdsServer.setRdsResource(getRouteConfiguration(true, 'type.googleapis.com/google.protobuf.Empty'));
+    xdsServer.setLdsResource(routeGroup.getListener());
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        client.stopCalls();
+        assert.fail(`Client NACKED ${typeUrl} resource with message ${responseState.errorMessage}`);
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    client.sendOneCall(error => {
+      assert(error);
+      done();
+    });
+  });
+});
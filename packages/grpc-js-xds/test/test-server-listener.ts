@@ -0,0 +1,122 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import { FilterChainMatch__Output } from '../src/generated/envoy/config/listener/v3/FilterChainMatch';
+import { getFilterChainMatchKeys, parseFilterChainMatch, parseIpAddress, selectFilterChain } from '../src/server-listener';
+
+function makeMatch(fields: Partial<FilterChainMatch__Output>): FilterChainMatch__Output {
+  return {
+    prefix_ranges: [],
+    address_suffix: '',
+    suffix_len: null,
+    source_prefix_ranges: [],
+    source_ports: [],
+    destination_port: null,
+    transport_protocol: '',
+    application_protocols: [],
+    server_names: [],
+    source_type: 'ANY',
+    direct_source_prefix_ranges: [],
+    ...fields
+  };
+}
+
+function cidr(addressPrefix: string, prefixLength: number) {
+  return {address_prefix: addressPrefix, prefix_len: {value: prefixLength}};
+}
+
+function makeEntry(name: string, fields: Partial<FilterChainMatch__Output>) {
+  return {name, match: parseFilterChainMatch(makeMatch(fields))!};
+}
+
+describe('Server listener filter chain matching', () => {
+  describe('parseIpAddress', () => {
+    it('Should parse IPv4 addresses', () => {
+      assert.deepStrictEqual(parseIpAddress('10.1.2.3'), Buffer.from([10, 1, 2, 3]));
+    });
+    it('Should parse IPv6 addresses with ::', () => {
+      const expected = Buffer.alloc(16);
+      expected[0] = 0x20;
+      expected[1] = 0x01;
+      expected[15] = 1;
+      assert.deepStrictEqual(parseIpAddress('2001::1'), expected);
+    });
+    it('Should convert IPv4-mapped IPv6 addresses to IPv4', () => {
+      assert.deepStrictEqual(parseIpAddress('::ffff:127.0.0.1'), Buffer.from([127, 0, 0, 1]));
+    });
+    it('Should reject host names', () => {
+      assert.strictEqual(parseIpAddress('localhost'), null);
+    });
+  });
+  describe('selectFilterChain', () => {
+    const connection = {
+      localAddress: '10.1.2.3',
+      remoteAddress: '192.168.0.5',
+      remotePort: 12345
+    };
+    it('Should prefer the longest destination prefix match', () => {
+      const entries = [
+        makeEntry('short', {prefix_ranges: [cidr('10.0.0.0', 8)]}),
+        makeEntry('long', {prefix_ranges: [cidr('10.1.0.0', 16)]}),
+        makeEntry('other', {prefix_ranges: [cidr('10.2.0.0', 16)]})
+      ];
+      assert.strictEqual(selectFilterChain(entries, connection)?.name, 'long');
+    });
+    it('Should use chains with no destination prefix ranges if no ranges match', () => {
+      const entries = [
+        makeEntry('nonmatching', {prefix_ranges: [cidr('172.16.0.0', 12)]}),
+        makeEntry('any', {})
+      ];
+      assert.strictEqual(selectFilterChain(entries, connection)?.name, 'any');
+    });
+    it('Should prefer a specific source type', () => {
+      const entries = [
+        makeEntry('any', {}),
+        makeEntry('external', {source_type: 'EXTERNAL'}),
+        makeEntry('local', {source_type: 'SAME_IP_OR_LOOPBACK'})
+      ];
+      assert.strictEqual(selectFilterChain(entries, connection)?.name, 'external');
+      assert.strictEqual(selectFilterChain(entries, {...connection, remoteAddress: '127.0.0.1'})?.name, 'local');
+    });
+    it('Should prefer an exact source port match', () => {
+      const entries = [
+        makeEntry('any', {}),
+        makeEntry('port', {source_ports: [12345]})
+      ];
+      assert.strictEqual(selectFilterChain(entries, connection)?.name, 'port');
+      assert.strictEqual(selectFilterChain(entries, {...connection, remotePort: 1})?.name, 'any');
+    });
+    it('Should never select chains with unsupported fields', () => {
+      const entries = [
+        makeEntry('server_names', {server_names: ['example.com']}),
+        makeEntry('tls', {transport_protocol: 'tls'})
+      ];
+      assert.strictEqual(selectFilterChain(entries, connection), null);
+    });
+  });
+  describe('getFilterChainMatchKeys', () => {
+    it('Should produce the same key for equivalent ranges', () => {
+      const keys1 = getFilterChainMatchKeys(parseFilterChainMatch(makeMatch({prefix_ranges: [cidr('10.1.2.3', 16)]}))!);
+      const keys2 = getFilterChainMatchKeys(parseFilterChainMatch(makeMatch({prefix_ranges: [cidr('10.1.0.0', 16)]}))!);
+      assert.deepStrictEqual(keys1, keys2);
+    });
+    it('Should produce no keys for unusable matches', () => {
+      assert.deepStrictEqual(getFilterChainMatchKeys(parseFilterChainMatch(makeMatch({destination_port: {value: 80}}))!), []);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { Metadata } from "@grpc/grpc-js";
+import { AnyExtension } from "@grpc/proto-loader";
+import { Backend } from "./backend";
+import { XdsTestClient } from "./client";
+import { FakeEdsCluster, FakeRouteGroup } from "./framework";
+import { XdsManagementServer } from "../src/xds-management-server";
+import { EXPERIMENTAL_OVERRIDE_HOST } from "../src/environment";
+import { HttpConnectionManager } from "../src/generated/envoy/extensions/filters/network/http_connection_manager/v3/HttpConnectionManager";
+import { Listener } from "../src/generated/envoy/config/listener/v3/Listener";
+import assert = require("assert");
+
+const COOKIE_NAME = 'grpc_session';
+
+function getListenerWithStatefulSession(routeGroup: FakeRouteGroup): Listener {
+  const listener = routeGroup.getListener();
+  const httpConnectionManager = listener.api_listener!.api_listener as HttpConnectionManager & AnyExtension;
+  httpConnectionManager.http_filters = [{
+    name: 'stateful_session',
+    typed_config: {
+      '@type': 'type.googleapis.com/envoy.extensions.filters.http.stateful_session.v3.StatefulSession',
+      session_state: {
+        name: 'envoy.http.stateful_session.cookie',
+        typed_config: {
+          '@type': 'type.googleapis.com/envoy.extensions.http.stateful_session.cookie.v3.CookieBasedSessionState',
+          cookie: {
+            name: COOKIE_NAME,
+            path: '/'
+          }
+        }
+      }
+    } as AnyExtension
+  }, {
+    name: 'router',
+    typed_config: {
+      '@type': 'type.googleapis.com/envoy.extensions.filters.http.router.v3.Router'
+    }
+  }];
+  return listener;
+}
+
+function getSessionCookie(responseMetadata: Metadata | null): string | null {
+  for (const value of responseMetadata?.get('set-cookie') ?? []) {
+    const cookie = value.toString().split(';')[0];
+    if (cookie.startsWith(COOKIE_NAME + '=')) {
+      return cookie;
+    }
+  }
+  return null;
+}
+
+function sendCallWithCookie(client: XdsTestClient, cookie: string | null): Promise<Metadata | null> {
+  const metadata = new Metadata();
+  if (cookie) {
+    metadata.set('cookie', cookie);
+  }
+  return new Promise((resolve, reject) => {
+    client.sendOneCallWithMetadata(metadata, (error, responseMetadata) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(responseMetadata);
+      }
+    });
+  });
+}
+
+describe('Stateful session affinity', () => {
+  let xdsServer: XdsManagementServer;
+  let client: XdsTestClient;
+  beforeEach(function(done) {
+    if (!EXPERIMENTAL_OVERRIDE_HOST) {
+      this.skip();
+    }
+    xdsServer = new XdsManagementServer();
+    xdsServer.startServer(done);
+  });
+  afterEach(() => {
+    client?.close();
+    xdsServer?.shutdownServer();
+  });
+  it('Should send calls with a session cookie to the same backend', async () => {
+    const backends = [new Backend(), new Backend()];
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: backends, locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    xdsServer.setEdsResource(cluster.getEndpointConfig());
+    xdsServer.setCdsResource(cluster.getClusterConfig());
+    xdsServer.setRdsResource(routeGroup.getRouteConfiguration());
+    xdsServer.setLdsResource(getListenerWithStatefulSession(routeGroup));
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        client.stopCalls();
+        assert.fail(`Client NACKED ${typeUrl} resource with message ${responseState.errorMessage}`);
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    const cookie = getSessionCookie(await sendCallWithCookie(client, null));
+    assert(cookie, 'Response did not set the session cookie');
+    for (const backend of backends) {
+      backend.resetCallCount();
+    }
+    for (let i = 0; i < 10; i++) {
+      const responseMetadata = await sendCallWithCookie(client, cookie);
+      assert.strictEqual(getSessionCookie(responseMetadata), null);
+    }
+    assert.deepStrictEqual(backends.map(backend => backend.getCallCount()).sort(), [0, 10]);
+  });
+  it('Should keep sending calls with a session cookie to a draining backend', async () => {
+    const backends = [new Backend(), new Backend()];
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: backends, locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    const clusterConfig = cluster.getClusterConfig();
+    clusterConfig.common_lb_config = {
+      override_host_status: {
+        statuses: ['UNKNOWN', 'HEALTHY', 'DRAINING']
+      }
+    };
+    xdsServer.setEdsResource(cluster.getEndpointConfig());
+    xdsServer.setCdsResource(clusterConfig);
+    xdsServer.setRdsResource(routeGroup.getRouteConfiguration());
+    xdsServer.setLdsResource(getListenerWithStatefulSession(routeGroup));
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        client.stopCalls();
+        assert.fail(`Client NACKED ${typeUrl} resource with message ${responseState.errorMessage}`);
+      }
+    });
+    client = XdsTestClient.createFromServer('listener1', xdsServer);
+    const cookie = getSessionCookie(await sendCallWithCookie(client, null));
+    assert(cookie, 'Response did not set the session cookie');
+    const drainingBackend = backends.find(backend => backend.getCallCount() > 0)!;
+    const otherBackend = backends.find(backend => backend !== drainingBackend)!;
+    const endpointConfig = cluster.getEndpointConfig();
+    for (const lbEndpoint of endpointConfig.endpoints![0].lb_endpoints!) {
+      if (lbEndpoint.endpoint?.address?.socket_address?.port_value === drainingBackend.getPort()) {
+        lbEndpoint.health_status = 'DRAINING';
+      }
+    }
+    const edsAcked = new Promise<void>(resolve => {
+      xdsServer.addResponseListener((typeUrl, responseState) => {
+        if (typeUrl === 'type.googleapis.com/envoy.config.endpoint.v3.ClusterLoadAssignment' && responseState.state === 'ACKED') {
+          resolve();
+        }
+      });
+    });
+    xdsServer.setEdsResource(endpointConfig);
+    await edsAcked;
+    drainingBackend.resetCallCount();
+    otherBackend.resetCallCount();
+    for (let i = 0; i < 5; i++) {
+      await sendCallWithCookie(client, cookie);
+      await sendCallWithCookie(client, null);
+    }
+    assert.strictEqual(drainingBackend.getCallCount(), 5);
+    assert.strictEqual(otherBackend.getCallCount(), 5);
+  });
+});
@@ -0,0 +1,185 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import { PeerCertificate } from 'tls';
+import { CommonTlsContext__Output } from '../src/generated/envoy/extensions/transport_sockets/tls/v3/CommonTlsContext';
+import { CertificateValidationContext__Output } from '../src/generated/envoy/extensions/transport_sockets/tls/v3/CertificateValidationContext';
+import { UpstreamTlsContext__Output } from '../src/generated/envoy/extensions/transport_sockets/tls/v3/UpstreamTlsContext';
+import { DownstreamTlsContext__Output } from '../src/generated/envoy/extensions/transport_sockets/tls/v3/DownstreamTlsContext';
+import { createSubjectAltNameChecker, parseDownstreamTlsContext, parseUpstreamTlsContext } from '../src/tls-context';
+import { BootstrapInfo, validateBootstrapConfig } from '../src/xds-bootstrap';
+
+const bootstrap: BootstrapInfo = validateBootstrapConfig({
+  xds_servers: [{server_uri: 'localhost:1234', channel_creds: [{type: 'insecure'}]}],
+  node: {id: 'test', locality: {}},
+  certificate_providers: {
+    ca: {plugin_name: 'file_watcher', config: {ca_certificate_file: '/ca.pem'}},
+    identity: {plugin_name: 'file_watcher', config: {certificate_file: '/cert.pem', private_key_file: '/key.pem'}}
+  }
+});
+
+function makeValidationContext(fields: Partial<CertificateValidationContext__Output>): CertificateValidationContext__Output {
+  return {
+    trusted_ca: null,
+    verify_certificate_hash: [],
+    verify_certificate_spki: [],
+    require_signed_certificate_timestamp: null,
+    crl: null,
+    allow_expired_certificate: false,
+    match_subject_alt_names: [],
+    trust_chain_verification: 'VERIFY_TRUST_CHAIN',
+    watched_directory: null,
+    custom_validator_config: null,
+    ca_certificate_provider_instance: {instance_name: 'ca', certificate_name: ''},
+    only_verify_leaf_cert_crl: false,
+    match_typed_subject_alt_names: [],
+    max_verify_depth: null,
+    ...fields
+  };
+}
+
+function makeCommonTlsContext(fields: Partial<CommonTlsContext__Output>): CommonTlsContext__Output {
+  return {
+    tls_params: null,
+    tls_certificates: [],
+    alpn_protocols: [],
+    tls_certificate_sds_secret_configs: [],
+    tls_certificate_certificate_provider: null,
+    tls_certificate_certificate_provider_instance: null,
+    custom_handshaker: null,
+    tls_certificate_provider_instance: {instance_name: 'identity', certificate_name: ''},
+    key_log: null,
+    validation_context: makeValidationContext({}),
+    validation_context_type: 'validation_context',
+    ...fields
+  };
+}
+
+function makeUpstreamTlsContext(commonTlsContext: CommonTlsContext__Output): UpstreamTlsContext__Output {
+  return {
+    common_tls_context: commonTlsContext,
+    sni: '',
+    allow_renegotiation: false,
+    max_session_keys: null
+  };
+}
+
+function makeDownstreamTlsContext(commonTlsContext: CommonTlsContext__Output, fields: Partial<DownstreamTlsContext__Output> = {}): DownstreamTlsContext__Output {
+  return {
+    common_tls_context: commonTlsContext,
+    require_client_certificate: null,
+    require_sni: null,
+    session_timeout: null,
+    ocsp_staple_policy: 'LENIENT_STAPLING',
+    full_scan_certs_on_sni_mismatch: null,
+    session_ticket_keys_type: 'session_ticket_keys',
+    ...fields
+  };
+}
+
+describe('TLS context parsing', () => {
+  describe('UpstreamTlsContext', () => {
+    it('Should extract certificate provider instances and SAN matchers', () => {
+      const matcher = {exact: 'server.example.com', ignore_case: false, match_pattern: 'exact' as const};
+      const context = makeUpstreamTlsContext(makeCommonTlsContext({
+        validation_context: makeValidationContext({match_subject_alt_names: [matcher]})
+      }));
+      assert.deepStrictEqual(parseUpstreamTlsContext(context, bootstrap), {
+        ca_certificate_provider_instance: 'ca',
+        identity_certificate_provider_instance: 'identity',
+        subject_alt_name_matchers: [matcher]
+      });
+    });
+    it('Should accept the combined validation context', () => {
+      const context = makeUpstreamTlsContext(makeCommonTlsContext({
+        tls_certificate_provider_instance: null,
+        validation_context: undefined,
+        combined_validation_context: {
+          default_validation_context: makeValidationContext({ca_certificate_provider_instance: null}),
+          validation_context_sds_secret_config: null,
+          validation_context_certificate_provider: null,
+          validation_context_certificate_provider_instance: {instance_name: 'ca', certificate_name: ''}
+        },
+        validation_context_type: 'combined_validation_context'
+      }));
+      assert.deepStrictEqual(parseUpstreamTlsContext(context, bootstrap), {
+        ca_certificate_provider_instance: 'ca',
+        subject_alt_name_matchers: []
+      });
+    });
+    it('Should require a CA certificate provider instance', () => {
+      const context = makeUpstreamTlsContext(makeCommonTlsContext({
+        validation_context: makeValidationContext({ca_certificate_provider_instance: null})
+      }));
+      assert.throws(() => parseUpstreamTlsContext(context, bootstrap));
+    });
+    it('Should reject instances that are not in the bootstrap', () => {
+      const context = makeUpstreamTlsContext(makeCommonTlsContext({
+        tls_certificate_provider_instance: {instance_name: 'unknown', certificate_name: ''}
+      }));
+      assert.throws(() => parseUpstreamTlsContext(context, bootstrap));
+    });
+    it('Should reject unsupported validation features', () => {
+      const context = makeUpstreamTlsContext(makeCommonTlsContext({
+        validation_context: makeValidationContext({verify_certificate_hash: ['abc']})
+      }));
+      assert.throws(() => parseUpstreamTlsContext(context, bootstrap));
+    });
+  });
+  describe('DownstreamTlsContext', () => {
+    it('Should extract certificate provider instances', () => {
+      const context = makeDownstreamTlsContext(makeCommonTlsContext({}), {require_client_certificate: {value: true}});
+      assert.deepStrictEqual(parseDownstreamTlsContext(context, bootstrap), {
+        caCertificateProviderInstance: 'ca',
+        identityCertificateProviderInstance: 'identity',
+        requireClientCertificate: true
+      });
+    });
+    it('Should require an identity certificate provider instance', () => {
+      const context = makeDownstreamTlsContext(makeCommonTlsContext({tls_certificate_provider_instance: null}));
+      assert.throws(() => parseDownstreamTlsContext(context, bootstrap));
+    });
+    it('Should require a CA certificate provider instance to require client certificates', () => {
+      const context = makeDownstreamTlsContext(makeCommonTlsContext({
+        validation_context: undefined,
+        validation_context_type: undefined
+      }), {require_client_certificate: {value: true}});
+      assert.throws(() => parseDownstreamTlsContext(context, bootstrap));
+    });
+    it('Should reject SAN matchers', () => {
+      const context = makeDownstreamTlsContext(makeCommonTlsContext({
+        validation_context: makeValidationContext({match_subject_alt_names: [{exact: 'client', ignore_case: false, match_pattern: 'exact'}]})
+      }));
+      assert.throws(() => parseDownstreamTlsContext(context, bootstrap));
+    });
+  });
+  describe('createSubjectAltNameChecker', () => {
+    const certificate = {subjectaltname: 'DNS:server.example.com, URI:spiffe://example.com/server'} as PeerCertificate;
+    it('Should accept any certificate if there are no matchers', () => {
+      assert.strictEqual(createSubjectAltNameChecker([])('localhost', {} as PeerCertificate), undefined);
+    });
+    it('Should accept a certificate with a matching SAN', () => {
+      const checker = createSubjectAltNameChecker([{prefix: 'spiffe://example.com/', ignore_case: false, match_pattern: 'prefix'}]);
+      assert.strictEqual(checker('localhost', certificate), undefined);
+    });
+    it('Should reject a certificate with no matching SAN', () => {
+      const checker = createSubjectAltNameChecker([{exact: 'other.example.com', ignore_case: false, match_pattern: 'exact'}]);
+      assert(checker('localhost', certificate) instanceof Error);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { status } from "@grpc/grpc-js";
+import { Backend } from "./backend";
+import { XdsTestClient } from "./client";
+import { FakeEdsCluster, FakeRouteGroup } from "./framework";
+import { XdsManagementServer } from "../src/xds-management-server";
+import { createXdsClient, XDS_CLIENT_OPTION_KEY, XdsClient } from "../src/xds-client";
+import assert = require("assert");
+
+/**
+ * Wait for the management server to have the expected numbers of open ADS
+ * and LRS streams.
+ */
+async function waitForOpenStreamCounts(xdsServer: XdsManagementServer, expected: {ads: number, lrs: number}) {
+  for (let i = 0; i < 50; i++) {
+    const counts = xdsServer.getOpenStreamCounts();
+    if (counts.ads === expected.ads && counts.lrs === expected.lrs) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  assert.deepStrictEqual(xdsServer.getOpenStreamCounts(), expected);
+}
+
+describe('XdsClient channel option', () => {
+  let xdsServers: XdsManagementServer[];
+  let xdsClients: XdsClient[];
+  let clients: XdsTestClient[];
+  beforeEach(async () => {
+    xdsServers = [new XdsManagementServer(), new XdsManagementServer()];
+    xdsClients = [];
+    clients = [];
+    for (const xdsServer of xdsServers) {
+      await new Promise<void>((resolve, reject) => {
+        xdsServer.startServer(error => error ? reject(error) : resolve());
+      });
+    }
+  });
+  afterEach(() => {
+    for (const client of clients) {
+      client.close();
+    }
+    for (const xdsClient of xdsClients) {
+      xdsClient.close();
+    }
+    for (const xdsServer of xdsServers) {
+      xdsServer.shutdownServer();
+    }
+  });
+  async function setUpResources(xdsServer: XdsManagementServer): Promise<Backend> {
+    const backend = new Backend();
+    const cluster = new FakeEdsCluster('cluster1', 'endpoint1', [{backends: [backend], locality:{region: 'region1'}}]);
+    const routeGroup = new FakeRouteGroup('listener1', 'route1', [{cluster: cluster}]);
+    await routeGroup.startAllBackends();
+    xdsServer.setSnapshot({
+      listeners: [routeGroup.getListener()],
+      routeConfigurations: [routeGroup.getRouteConfiguration()],
+      clusters: [cluster.getClusterConfig()],
+      clusterLoadAssignments: [cluster.getEndpointConfig()]
+    });
+    xdsServer.addResponseListener((typeUrl, responseState) => {
+      if (responseState.state === 'NACKED') {
+        assert.fail(`Client NACKED ${typeUrl} resource with message ${responseState.errorMessage}`);
+      }
+    });
+    return backend;
+  }
+  function createClient(xdsServer: XdsManagementServer, xdsClient: XdsClient) {
+    const client = XdsTestClient.createFromServer('listener1', xdsServer, {[XDS_CLIENT_OPTION_KEY]: xdsClient});
+    clients.push(client);
+    return client;
+  }
+  it('Should use the control plane of the selected client', async () => {
+    const backends: Backend[] = [];
+    for (const xdsServer of xdsServers) {
+      backends.push(await setUpResources(xdsServer));
+      xdsClients.push(createXdsClient(JSON.parse(xdsServer.getBootstrapInfoString())));
+    }
+    for (let i = 0; i < xdsServers.length; i++) {
+      const client = createClient(xdsServers[i], xdsClients[i]);
+      await new Promise<void>((resolve, reject) => {
+        client.sendNCalls(3, error => error ? reject(error) : resolve());
+      });
+      assert.deepStrictEqual(backends.map(backend => backend.getCallCount()), i === 0 ? [3, 0] : [3, 3]);
+    }
+  });
+  it('Should fail calls on channels created with a closed client', done => {
+    const xdsClient = createXdsClient(JSON.parse(xdsServers[0].getBootstrapInfoString()));
+    xdsClient.close();
+    const client = createClient(xdsServers[0], xdsClient);
+    client.sendOneCall(error => {
+      assert.strictEqual(error?.code, status.UNAVAILABLE);
+      done();
+    });
+  });
+  it('Should close the client created from the bootstrap config option with the channel', async () => {
+    await setUpResources(xdsServers[0]);
+    const client = XdsTestClient.createFromServer('listener1', xdsServers[0]);
+    clients.push(client);
+    await new Promise<void>((resolve, reject) => {
+      client.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    await waitForOpenStreamCounts(xdsServers[0], {ads: 1, lrs: 1});
+    client.close();
+    await waitForOpenStreamCounts(xdsServers[0], {ads: 0, lrs: 0});
+  });
+  it('Should not close a client passed in the channel options with the channel', async () => {
+    await setUpResources(xdsServers[0]);
+    const xdsClient = createXdsClient(JSON.parse(xdsServers[0].getBootstrapInfoString()));
+    xdsClients.push(xdsClient);
+    const client1 = createClient(xdsServers[0], xdsClient);
+    await new Promise<void>((resolve, reject) => {
+      client1.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    client1.close();
+    const client2 = createClient(xdsServers[0], xdsClient);
+    await new Promise<void>((resolve, reject) => {
+      client2.sendOneCall(error => error ? reject(error) : resolve());
+    });
+    client2.close();
+    xdsClient.close();
+    await waitForOpenStreamCounts(xdsServers[0], {ads: 0, lrs: 0});
+  });
+});
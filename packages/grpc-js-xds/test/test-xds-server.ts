@@ -0,0 +1,217 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { Metadata, ServerCredentials, status, StatusObject } from "@grpc/grpc-js";
+import { AnyExtension } from "@grpc/proto-loader";
+import { Backend } from "./backend";
+import { XdsTestClient } from "./client";
+import { XdsManagementServer } from "../src/xds-management-server";
+import { register } from "../src";
+import { ServingStatusListener, XdsServer } from "../src/server";
+import { HTTP_CONNECTION_MANGER_TYPE_URL, LDS_TYPE_URL } from "../src/resources";
+import { HttpConnectionManager } from "../src/generated/envoy/extensions/filters/network/http_connection_manager/v3/HttpConnectionManager";
+import { Listener } from "../src/generated/envoy/config/listener/v3/Listener";
+import { RouteConfiguration } from "../src/generated/envoy/config/route/v3/RouteConfiguration";
+import assert = require("assert");
+
+register();
+
+const BOOTSTRAP_CONFIG_KEY = 'grpc.TEST_ONLY_DO_NOT_USE_IN_PROD.xds_bootstrap_config';
+
+const LISTENER_RESOURCE_NAME_TEMPLATE = 'grpc/server?xds.resource.listening_address=%s';
+
+function getListenerName(port: number) {
+  return `grpc/server?xds.resource.listening_address=127.0.0.1:${port}`;
+}
+
+function createRouteConfiguration(name: string, nonForwarding: boolean): RouteConfiguration {
+  return {
+    name: name,
+    virtual_hosts: [{
+      domains: ['*'],
+      routes: [nonForwarding ? {
+        match: {prefix: ''},
+        non_forwarding_action: {}
+      } : {
+        match: {prefix: ''},
+        route: {cluster: 'cluster1'}
+      }]
+    }]
+  };
+}
+
+function createServerListener(port: number, routeSpecifier: Pick<HttpConnectionManager, 'rds' | 'route_config'>, filterChainName = 'filter_chain'): Listener {
+  const httpConnectionManager: HttpConnectionManager & AnyExtension = {
+    '@type': HTTP_CONNECTION_MANGER_TYPE_URL,
+    ...routeSpecifier,
+    http_filters: [{
+      name: 'router',
+      typed_config: {
+        '@type': 'type.googleapis.com/envoy.extensions.filters.http.router.v3.Router'
+      }
+    }]
+  };
+  return {
+    name: getListenerName(port),
+    address: {
+      socket_address: {
+        address: '127.0.0.1',
+        port_value: port
+      }
+    },
+    filter_chains: [{
+      name: filterChainName,
+      filters: [{
+        name: 'http_connection_manager',
+        typed_config: httpConnectionManager
+      }]
+    }]
+  };
+}
+
+function sendCall(client: XdsTestClient, metadata = new Metadata(), deadlineMs?: number): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    client.sendOneCallWithMetadata(metadata, error => error ? reject(error) : resolve(), deadlineMs);
+  });
+}
+
+describe('XdsServer', () => {
+  let xdsServer: XdsManagementServer;
+  let server: XdsServer;
+  let client: XdsTestClient;
+  let port: number;
+  let onServingStatusChange: ServingStatusListener;
+  beforeEach(async () => {
+    xdsServer = new XdsManagementServer();
+    await new Promise<void>((resolve, reject) => {
+      xdsServer.startServer(error => error ? reject(error) : resolve());
+    });
+    const bootstrapInfo = {
+      ...JSON.parse(xdsServer.getBootstrapInfoString()),
+      server_listener_resource_name_template: LISTENER_RESOURCE_NAME_TEMPLATE
+    };
+    onServingStatusChange = () => {};
+    server = new XdsServer({
+      [BOOTSTRAP_CONFIG_KEY]: JSON.stringify(bootstrapInfo),
+      drainGraceTimeMs: 200,
+      onServingStatusChange: (address, serving, error) => onServingStatusChange(address, serving, error)
+    });
+    new Backend().addToServer(server);
+    port = await new Promise<number>((resolve, reject) => {
+      server.bindAsync('127.0.0.1:0', ServerCredentials.createInsecure(), (error, boundPort) => error ? reject(error) : resolve(boundPort));
+    });
+    client = new XdsTestClient(`127.0.0.1:${port}`, xdsServer.getBootstrapInfoString());
+  });
+  afterEach(() => {
+    client.close();
+    server.forceShutdown();
+    xdsServer.shutdownServer();
+  });
+  /**
+   * Wait for the server to report the given serving status, and return the
+   * error that came with it.
+   */
+  function waitForServingStatus(serving: boolean): Promise<StatusObject | null> {
+    return new Promise<StatusObject | null>(resolve => {
+      onServingStatusChange = (address, newServing, error) => {
+        if (newServing === serving) {
+          onServingStatusChange = () => {};
+          resolve(error);
+        }
+      };
+    });
+  }
+  async function startServing(routeSpecifier: Pick<HttpConnectionManager, 'rds' | 'route_config'>) {
+    const servingPromise = waitForServingStatus(true);
+    xdsServer.setLdsResource(createServerListener(port, routeSpecifier));
+    await servingPromise;
+  }
+  it('Should not accept calls before the Listener is received', async () => {
+    await sendCall(client).then(
+      () => assert.fail('Call unexpectedly succeeded'),
+      error => {
+        assert.strictEqual(error.code, status.UNAVAILABLE);
+      }
+    );
+  });
+  it('Should serve after the Listener is received', async () => {
+    await startServing({route_config: createRouteConfiguration('route1', true)});
+    await sendCall(client);
+  });
+  it('Should stop serving when the Listener is deleted', async () => {
+    await startServing({route_config: createRouteConfiguration('route1', true)});
+    await sendCall(client);
+    const notServingPromise = waitForServingStatus(false);
+    xdsServer.unsetResource(LDS_TYPE_URL, getListenerName(port));
+    const error = await notServingPromise;
+    assert.strictEqual(error?.code, status.NOT_FOUND);
+    client.close();
+    client = new XdsTestClient(`127.0.0.1:${port}`, xdsServer.getBootstrapInfoString());
+    await sendCall(client).then(
+      () => assert.fail('Call unexpectedly succeeded'),
+      error => {
+        assert.strictEqual(error.code, status.UNAVAILABLE);
+      }
+    );
+  });
+  it('Should keep serving with the previous Listener after a NACK', async () => {
+    await startServing({route_config: createRouteConfiguration('route1', true)});
+    const nackPromise = new Promise<void>(resolve => {
+      xdsServer.addResponseListener((typeUrl, responseState) => {
+        if (typeUrl === LDS_TYPE_URL && responseState.state === 'NACKED') {
+          resolve();
+        }
+      });
+    });
+    const invalidListener = createServerListener(port, {route_config: createRouteConfiguration('route1', true)});
+    invalidListener.filter_chains![0].filters = [];
+    xdsServer.setLdsResource(invalidListener);
+    await nackPromise;
+    await sendCall(client);
+  });
+  it('Should serve with a route configuration from RDS', async () => {
+    const routeConfigName = 'server_route';
+    xdsServer.setRdsResource(createRouteConfiguration(routeConfigName, true));
+    await startServing({rds: {route_config_name: routeConfigName, config_source: {ads: {}}}});
+    await sendCall(client);
+  });
+  it('Should reject calls that match a route without a non-forwarding action', async () => {
+    await startServing({route_config: createRouteConfiguration('route1', false)});
+    await sendCall(client).then(
+      () => assert.fail('Call unexpectedly succeeded'),
+      error => {
+        assert.strictEqual(error.code, status.UNAVAILABLE);
+        assert.strictEqual(error.details, 'No matching route found');
+      }
+    );
+  });
+  it('Should end calls on old connections after the drain grace time', async () => {
+    await startServing({route_config: createRouteConfiguration('route1', true)});
+    const metadata = new Metadata();
+    metadata.set('rpc-behavior', 'sleep-5000');
+    const startTime = Date.now();
+    const slowCallPromise = sendCall(client, metadata, 10000);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    xdsServer.setLdsResource(createServerListener(port, {route_config: createRouteConfiguration('route1', true)}, 'updated_filter_chain'));
+    await slowCallPromise.then(
+      () => assert.fail('Call unexpectedly succeeded'),
+      () => {
+        assert(Date.now() - startTime < 5000, 'Call ended after the backend finished it');
+      }
+    );
+  });
+});
@@ -0,0 +1,30 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { PeerCertificate } from 'tls';
+
+export interface AuthContext {
+  /**
+   * "ssl" if the connection uses TLS, or unset otherwise.
+   */
+  transportSecurityType?: string;
+  /**
+   * The certificate presented by the peer, if the connection uses TLS and
+   * the peer presented one.
+   */
+  sslPeerCertificate?: PeerCertificate;
+}
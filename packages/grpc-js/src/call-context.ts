@@ -0,0 +1,126 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { CallOptions } from './client';
+import { Propagate } from './constants';
+import { Metadata } from './metadata';
+
+/**
+ * Metadata keys that carry tracing context. These are copied from the server
+ * call to outgoing calls by default.
+ */
+export const DEFAULT_PROPAGATED_METADATA_KEYS = [
+  'traceparent',
+  'tracestate',
+  'grpc-trace-bin',
+];
+
+/**
+ * Controls what a client copies from the server call that is handling the
+ * current request to the calls it starts.
+ */
+export interface CallContextPropagationOptions {
+  /**
+   * A bitwise combination of elements of grpc.propagate. The default is
+   * grpc.propagate.DEFAULTS, which includes the deadline and cancellation.
+   * The propagate_flags call option overrides this for a single call.
+   */
+  flags?: number;
+  /**
+   * The request metadata keys to copy to outgoing calls. Keys that are
+   * already set in the outgoing call's metadata are not overwritten. The
+   * default is DEFAULT_PROPAGATED_METADATA_KEYS.
+   */
+  metadataKeys?: string[];
+}
+
+/**
+ * A server call that can be passed as the parent of a client call.
+ */
+export type ParentCall = NonNullable<CallOptions['parent']>;
+
+let callContextStorage: AsyncLocalStorage<ParentCall> | null = null;
+
+/**
+ * Run a function with the given server call as the current call context.
+ * The context is available to everything the function does synchronously,
+ * and to asynchronous work that it starts, such as promise continuations and
+ * timers.
+ * @param call
+ * @param fn
+ */
+export function runWithCallContext<T>(call: ParentCall, fn: () => T): T {
+  if (!callContextStorage) {
+    callContextStorage = new AsyncLocalStorage();
+  }
+  return callContextStorage.run(call, fn);
+}
+
+/**
+ * Get the server call that is being handled in the current asynchronous
+ * context, if the server was created with the grpc-node.enable_call_context
+ * option.
+ */
+export function getCurrentServerCall(): ParentCall | undefined {
+  return callContextStorage?.getStore();
+}
+
+/**
+ * Apply the current call context to the arguments of an outgoing call. If
+ * the call already has a parent, or there is no current call context, the
+ * arguments are returned unchanged.
+ * @param metadata
+ * @param options
+ * @param propagation
+ */
+export function applyCallContext(
+  metadata: Metadata,
+  options: CallOptions,
+  propagation: CallContextPropagationOptions
+): { metadata: Metadata; options: CallOptions } {
+  if (options.parent) {
+    return { metadata, options };
+  }
+  const parent = getCurrentServerCall();
+  if (!parent) {
+    return { metadata, options };
+  }
+  let propagatedMetadata = metadata;
+  for (const key of propagation.metadataKeys ??
+    DEFAULT_PROPAGATED_METADATA_KEYS) {
+    const values = parent.metadata.get(key);
+    if (values.length === 0 || metadata.get(key).length > 0) {
+      continue;
+    }
+    if (propagatedMetadata === metadata) {
+      propagatedMetadata = metadata.clone();
+    }
+    for (const value of values) {
+      propagatedMetadata.add(key, value);
+    }
+  }
+  return {
+    metadata: propagatedMetadata,
+    options: {
+      ...options,
+      parent: parent,
+      propagate_flags:
+        options.propagate_flags ?? propagation.flags ?? Propagate.DEFAULTS,
+    },
+  };
+}
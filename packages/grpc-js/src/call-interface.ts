@@ -20,12 +20,14 @@ import { Status } from './constants';
 import { Deadline } from './deadline';
 import { Metadata } from './metadata';
 import { ServerSurfaceCall } from './server-call';
+import type { CallTracer } from './call-tracer';
 
 export interface CallStreamOptions {
   deadline: Deadline;
   flags: number;
   host: string;
   parentCall: ServerSurfaceCall | null;
+  callTracer?: CallTracer | null;
 }
 
 export type PartialCallStreamOptions = Partial<CallStreamOptions>;
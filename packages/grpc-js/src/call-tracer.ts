@@ -0,0 +1,130 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { StatusObject } from './call-interface';
+import { Metadata } from './metadata';
+
+/**
+ * The length of the header that precedes each message in the gRPC wire
+ * format.
+ */
+const MESSAGE_HEADER_LENGTH = 5;
+
+export interface CallAttemptInfo {
+  /**
+   * The target of the channel that the attempt is made on
+   */
+  target: string;
+  /**
+   * The full method path, like /package.Service/Method
+   */
+  method: string;
+  /**
+   * The number of attempts of the same call that were started before this
+   * one, which is also the value of the grpc-previous-rpc-attempts metadata
+   * sent with this attempt.
+   */
+  previousRpcAttempts: number;
+  /**
+   * True if this attempt is a transparent retry: the previous attempt failed
+   * before the server application saw it, so this attempt was started
+   * without consulting the retry policy.
+   */
+  transparentRetry: boolean;
+}
+
+/**
+ * The reason that an attempt was committed:
+ * RESPONSE: The attempt received response metadata or a message
+ * BUFFER_LIMIT: The messages sent on the call no longer fit in the retry
+ * buffer, so the attempt that has sent the most messages was committed
+ */
+export type CallCommitReason = 'RESPONSE' | 'BUFFER_LIMIT';
+
+export interface RetryDelayInfo {
+  /**
+   * The time until the next attempt starts
+   */
+  delayMs: number;
+  /**
+   * True if the server set the delay with the grpc-retry-pushback-ms
+   * trailer, false if it is the backoff from the retry policy
+   */
+  fromPushback: boolean;
+}
+
+/**
+ * Observes a single attempt of a call. Each attempt is sent on one
+ * connection, and a call can make multiple attempts if it is retried or
+ * hedged. All methods are optional.
+ */
+export interface CallAttemptTracer {
+  /**
+   * Called when the attempt starts. The tracer can modify the metadata, for
+   * example to add tracing headers, and the modified metadata is sent with
+   * this attempt only.
+   * @param metadata
+   */
+  onStart?(metadata: Metadata): void;
+  /**
+   * Called for each message sent on the attempt.
+   * @param size The size of the message on the wire, after compression
+   */
+  onSendMessage?(size: number): void;
+  /**
+   * Called for each message received on the attempt.
+   * @param size The size of the message on the wire, before decompression
+   */
+  onReceiveMessage?(size: number): void;
+  /**
+   * Called when the attempt is committed while it is still active, which
+   * means that its response is the response of the call, and that no new
+   * attempts will be started. At most one attempt of each call is
+   * committed. An attempt that ends with a status that is not retried is
+   * not reported as committed. This is only reported for calls on channels
+   * with retries enabled.
+   * @param reason
+   */
+  onCommit?(reason: CallCommitReason): void;
+  /**
+   * Called once, when the attempt ends.
+   * @param status
+   */
+  onEnd?(status: StatusObject): void;
+}
+
+/**
+ * Observes the attempts of a call. A call tracer can be passed to a call
+ * with the call_tracer call option, usually by an interceptor.
+ */
+export interface CallTracer {
+  startAttempt(info: CallAttemptInfo): CallAttemptTracer;
+  /**
+   * Called when an attempt failed and a retry or hedged attempt is delayed
+   * because of the retry policy backoff or the server's pushback.
+   * @param info
+   */
+  onRetryDelay?(info: RetryDelayInfo): void;
+}
+
+/**
+ * Get the size of a message as it is reported to a call attempt tracer.
+ * @param framedMessage A message with the gRPC message header
+ */
+export function getTracedMessageSize(framedMessage: Buffer): number {
+  return Math.max(framedMessage.length - MESSAGE_HEADER_LENGTH, 0);
+}
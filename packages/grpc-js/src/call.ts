@@ -20,6 +20,11 @@ import { Duplex, Readable, Writable } from 'stream';
 
 import { StatusObject, MessageContext } from './call-interface';
 import { Status } from './constants';
+import {
+  deserializeStatusDetails,
+  ErrorDetail__Output,
+  STATUS_DETAILS_METADATA_KEY,
+} from './error-details';
 import { EmitterAugmentation1 } from './events';
 import { Metadata } from './metadata';
 import { ObjectReadable, ObjectWritable, WriteCallback } from './object-stream';
@@ -28,7 +33,14 @@ import { InterceptingCallInterface } from './client-interceptors';
 /**
  * A type extending the built-in Error object with additional fields.
  */
-export type ServiceError = StatusObject & Error;
+export type ServiceError = StatusObject &
+  Error & {
+    /**
+     * The error details from the grpc-status-details-bin trailer, if the
+     * server sent any.
+     */
+    statusDetails?: ErrorDetail__Output[];
+  };
 
 /**
  * A base type for all user-facing values returned by client-side method calls.
@@ -81,7 +93,20 @@ export function callErrorFromStatus(
   const message = `${status.code} ${Status[status.code]}: ${status.details}`;
   const error = new Error(message);
   const stack = `${error.stack}\nfor call at\n${callerStack}`;
-  return Object.assign(new Error(message), status, { stack });
+  const serviceError: ServiceError = Object.assign(new Error(message), status, {
+    stack,
+  });
+  const statusDetailsBin = status.metadata?.get(STATUS_DETAILS_METADATA_KEY);
+  if (statusDetailsBin?.length) {
+    try {
+      serviceError.statusDetails = deserializeStatusDetails(
+        statusDetailsBin[0] as Buffer
+      ).details;
+    } catch (e) {
+      // Leave statusDetails unset if the trailer is malformed
+    }
+  }
+  return serviceError;
 }
 
 export class ClientUnaryCallImpl
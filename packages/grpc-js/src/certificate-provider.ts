@@ -0,0 +1,233 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as fs from 'fs';
+import * as logging from './logging';
+import { LogVerbosity } from './constants';
+import { promisify } from 'util';
+
+const TRACER_NAME = 'certificate_provider';
+
+function trace(text: string) {
+  logging.trace(LogVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+export interface CaCertificateUpdate {
+  caCertificate: Buffer;
+}
+
+export interface IdentityCertificateUpdate {
+  certificate: Buffer;
+  privateKey: Buffer;
+}
+
+/**
+ * A listener for CA certificate updates. null indicates that no valid
+ * certificate is currently available.
+ */
+export interface CaCertificateUpdateListener {
+  (update: CaCertificateUpdate | null): void;
+}
+
+/**
+ * A listener for identity certificate updates. null indicates that no valid
+ * certificate is currently available.
+ */
+export interface IdentityCertificateUpdateListener {
+  (update: IdentityCertificateUpdate | null): void;
+}
+
+/**
+ * A source of certificates that can change over time. A listener that is
+ * added receives the latest certificate, if one is available, and then every
+ * subsequent update.
+ */
+export interface CertificateProvider {
+  addCaCertificateListener(listener: CaCertificateUpdateListener): void;
+  removeCaCertificateListener(listener: CaCertificateUpdateListener): void;
+  addIdentityCertificateListener(
+    listener: IdentityCertificateUpdateListener
+  ): void;
+  removeIdentityCertificateListener(
+    listener: IdentityCertificateUpdateListener
+  ): void;
+}
+
+export interface FileWatcherCertificateProviderConfig {
+  certificateFile?: string | undefined;
+  privateKeyFile?: string | undefined;
+  caCertificateFile?: string | undefined;
+  refreshIntervalMs: number;
+}
+
+const readFilePromise = promisify(fs.readFile);
+
+function readFileOrNull(path: string | undefined): Promise<Buffer | null> {
+  if (path === undefined) {
+    return Promise.resolve(null);
+  }
+  return readFilePromise(path).catch(error => {
+    trace('Failed to read ' + path + ': ' + (error as Error).message);
+    return null;
+  });
+}
+
+/**
+ * A certificate provider that reads certificates from files, and re-reads
+ * them periodically while there are any listeners, so that certificates
+ * rotated on disk are picked up without restarting the process.
+ */
+export class FileWatcherCertificateProvider implements CertificateProvider {
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private fileResultPromise: Promise<Array<Buffer | null>> | null = null;
+  private latestCaUpdate: CaCertificateUpdate | null = null;
+  private caListeners: Set<CaCertificateUpdateListener> = new Set();
+  private latestIdentityUpdate: IdentityCertificateUpdate | null = null;
+  private identityListeners: Set<IdentityCertificateUpdateListener> = new Set();
+  private lastUpdateTime: Date | null = null;
+
+  constructor(private config: FileWatcherCertificateProviderConfig) {
+    if (
+      (config.certificateFile === undefined) !==
+      (config.privateKeyFile === undefined)
+    ) {
+      throw new Error(
+        'certificateFile and privateKeyFile must be set or unset together'
+      );
+    }
+    if (
+      config.certificateFile === undefined &&
+      config.caCertificateFile === undefined
+    ) {
+      throw new Error(
+        'At least one of certificateFile and caCertificateFile must be set'
+      );
+    }
+    trace('File watcher constructed with config ' + JSON.stringify(config));
+  }
+
+  private updateCertificates() {
+    if (this.fileResultPromise) {
+      return;
+    }
+    const fileResultPromise = Promise.all([
+      readFileOrNull(this.config.certificateFile),
+      readFileOrNull(this.config.privateKeyFile),
+      readFileOrNull(this.config.caCertificateFile),
+    ]);
+    this.fileResultPromise = fileResultPromise;
+    fileResultPromise.then(([certificate, privateKey, caCertificate]) => {
+      // Ignore the result if watching stopped while the files were read
+      if (this.fileResultPromise !== fileResultPromise) {
+        return;
+      }
+      trace(
+        'File watcher read certificates certificate ' +
+          (certificate ? 'succeeded' : 'failed') +
+          ', privateKey ' +
+          (privateKey ? 'succeeded' : 'failed') +
+          ', CA certificate ' +
+          (caCertificate ? 'succeeded' : 'failed')
+      );
+      this.lastUpdateTime = new Date();
+      this.fileResultPromise = null;
+      if (certificate && privateKey) {
+        this.latestIdentityUpdate = { certificate, privateKey };
+      } else {
+        this.latestIdentityUpdate = null;
+      }
+      if (caCertificate) {
+        this.latestCaUpdate = { caCertificate };
+      } else {
+        this.latestCaUpdate = null;
+      }
+      /* Copy the listener sets, so that listeners added by other listeners
+       * only get the update once. */
+      for (const listener of [...this.identityListeners]) {
+        listener(this.latestIdentityUpdate);
+      }
+      for (const listener of [...this.caListeners]) {
+        listener(this.latestCaUpdate);
+      }
+    });
+    trace('File watcher initiated certificate update');
+  }
+
+  private maybeStartWatchingFiles() {
+    if (!this.refreshTimer) {
+      /* Perform the first read immediately, but only if there was not already
+       * a recent read, to avoid reading from the filesystem significantly more
+       * frequently than configured if the provider quickly switches between
+       * used and unused. */
+      const timeSinceLastUpdate = this.lastUpdateTime
+        ? new Date().getTime() - this.lastUpdateTime.getTime()
+        : Infinity;
+      if (timeSinceLastUpdate > this.config.refreshIntervalMs) {
+        this.updateCertificates();
+      }
+      if (timeSinceLastUpdate > this.config.refreshIntervalMs * 2) {
+        // Clear out old updates if they are definitely stale
+        this.latestCaUpdate = null;
+        this.latestIdentityUpdate = null;
+        this.lastUpdateTime = null;
+      }
+      this.refreshTimer = setInterval(
+        () => this.updateCertificates(),
+        this.config.refreshIntervalMs
+      );
+      this.refreshTimer.unref?.();
+      trace('File watcher started watching');
+    }
+  }
+
+  private maybeStopWatchingFiles() {
+    if (this.caListeners.size === 0 && this.identityListeners.size === 0) {
+      this.fileResultPromise = null;
+      if (this.refreshTimer) {
+        clearInterval(this.refreshTimer);
+        this.refreshTimer = null;
+      }
+    }
+  }
+
+  addCaCertificateListener(listener: CaCertificateUpdateListener): void {
+    this.caListeners.add(listener);
+    this.maybeStartWatchingFiles();
+    if (this.lastUpdateTime) {
+      process.nextTick(listener, this.latestCaUpdate);
+    }
+  }
+  removeCaCertificateListener(listener: CaCertificateUpdateListener): void {
+    this.caListeners.delete(listener);
+    this.maybeStopWatchingFiles();
+  }
+  addIdentityCertificateListener(
+    listener: IdentityCertificateUpdateListener
+  ): void {
+    this.identityListeners.add(listener);
+    this.maybeStartWatchingFiles();
+    if (this.lastUpdateTime) {
+      process.nextTick(listener, this.latestIdentityUpdate);
+    }
+  }
+  removeIdentityCertificateListener(
+    listener: IdentityCertificateUpdateListener
+  ): void {
+    this.identityListeners.delete(listener);
+    this.maybeStopWatchingFiles();
+  }
+}
@@ -23,6 +23,13 @@ import {
 } from 'tls';
 
 import { CallCredentials } from './call-credentials';
+import {
+  CaCertificateUpdate,
+  CertificateProvider,
+  FileWatcherCertificateProvider,
+  FileWatcherCertificateProviderConfig,
+  IdentityCertificateUpdate,
+} from './certificate-provider';
 import { CIPHER_SUITES, getDefaultRootsData } from './tls-helpers';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -100,6 +107,36 @@ export abstract class ChannelCredentials {
    */
   abstract _equals(other: ChannelCredentials): boolean;
 
+  /**
+   * Indicates that a subchannel has started using these credentials. Some
+   * credentials only watch for certificate updates while they are in use.
+   */
+  _ref(): void {}
+
+  /**
+   * Indicates that a subchannel has stopped using these credentials.
+   */
+  _unref(): void {}
+
+  /**
+   * Returns a promise that resolves when the connection options are ready to
+   * be used, or rejects if they cannot currently be determined.
+   */
+  _waitForReady(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Select the credentials to use for a subchannel when the load balancing
+   * policy provides its own credentials for it. Most credentials ignore the
+   * override, so that the credentials provided by the application are always
+   * used.
+   * @param override The credentials provided by the load balancing policy
+   */
+  _getSubchannelCredentials(override: ChannelCredentials): ChannelCredentials {
+    return this;
+  }
+
   /**
    * Return a new ChannelCredentials instance with a given set of credentials.
    * The resulting instance can be used to construct a Channel that communicates
@@ -154,6 +191,27 @@ export abstract class ChannelCredentials {
     return new SecureChannelCredentialsImpl(secureContext, verifyOptions ?? {});
   }
 
+  /**
+   * Return a new ChannelCredentials instance that reads the root certificates
+   * and optionally a client certificate and its private key from files, and
+   * re-reads them every refreshIntervalMs milliseconds while the credentials
+   * are in use. Updated certificates are used for new connections. If
+   * caCertificateFile is not set, the default root certificates are used.
+   * @param config The files to watch
+   * @param verifyOptions Additional options to modify certificate verification
+   */
+  static createFromFileWatcher(
+    config: FileWatcherCertificateProviderConfig,
+    verifyOptions?: VerifyOptions
+  ): ChannelCredentials {
+    const provider = new FileWatcherCertificateProvider(config);
+    return new CertificateProviderChannelCredentialsImpl(
+      config.caCertificateFile ? provider : null,
+      config.certificateFile ? provider : null,
+      verifyOptions ?? {}
+    );
+  }
+
   /**
    * Return a new ChannelCredentials instance with no credentials.
    */
@@ -229,9 +287,194 @@ class SecureChannelCredentialsImpl extends ChannelCredentials {
   }
 }
 
+class CertificateProviderChannelCredentialsImpl extends ChannelCredentials {
+  private refcount = 0;
+  /**
+   * undefined means that no update has been received yet, and null means that
+   * the provider reported an error before providing any certificate.
+   */
+  private latestCaUpdate: CaCertificateUpdate | null | undefined = undefined;
+  private latestIdentityUpdate: IdentityCertificateUpdate | null | undefined =
+    undefined;
+  private secureContext: SecureContext | null = null;
+  private readyWaiters: Array<{
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private caCertificateUpdateListener = (
+    update: CaCertificateUpdate | null
+  ) => {
+    // An error does not replace a certificate that is already in use
+    if (update || !this.latestCaUpdate) {
+      this.latestCaUpdate = update;
+    }
+    this.updateSecureContext();
+  };
+  private identityCertificateUpdateListener = (
+    update: IdentityCertificateUpdate | null
+  ) => {
+    if (update || !this.latestIdentityUpdate) {
+      this.latestIdentityUpdate = update;
+    }
+    this.updateSecureContext();
+  };
+
+  constructor(
+    private caCertificateProvider: CertificateProvider | null,
+    private identityCertificateProvider: CertificateProvider | null,
+    private verifyOptions: VerifyOptions
+  ) {
+    super();
+  }
+
+  compose(callCredentials: CallCredentials): ChannelCredentials {
+    const combinedCallCredentials =
+      this.callCredentials.compose(callCredentials);
+    return new ComposedChannelCredentialsImpl(this, combinedCallCredentials);
+  }
+
+  _ref(): void {
+    this.refcount += 1;
+    if (this.refcount === 1) {
+      this.caCertificateProvider?.addCaCertificateListener(
+        this.caCertificateUpdateListener
+      );
+      this.identityCertificateProvider?.addIdentityCertificateListener(
+        this.identityCertificateUpdateListener
+      );
+    }
+  }
+
+  _unref(): void {
+    this.refcount -= 1;
+    if (this.refcount === 0) {
+      this.caCertificateProvider?.removeCaCertificateListener(
+        this.caCertificateUpdateListener
+      );
+      this.identityCertificateProvider?.removeIdentityCertificateListener(
+        this.identityCertificateUpdateListener
+      );
+    }
+  }
+
+  private hasAllUpdates() {
+    return (
+      (this.caCertificateProvider === null ||
+        this.latestCaUpdate !== undefined) &&
+      (this.identityCertificateProvider === null ||
+        this.latestIdentityUpdate !== undefined)
+    );
+  }
+
+  private getError(): Error | null {
+    if (this.caCertificateProvider && this.latestCaUpdate === null) {
+      return new Error('No CA certificate available');
+    }
+    if (
+      this.identityCertificateProvider &&
+      this.latestIdentityUpdate === null
+    ) {
+      return new Error('No identity certificate available');
+    }
+    return null;
+  }
+
+  private updateSecureContext() {
+    if (!this.hasAllUpdates()) {
+      return;
+    }
+    const error = this.getError();
+    if (!error) {
+      this.secureContext = createSecureContext({
+        ca:
+          this.latestCaUpdate?.caCertificate ??
+          getDefaultRootsData() ??
+          undefined,
+        key: this.latestIdentityUpdate?.privateKey,
+        cert: this.latestIdentityUpdate?.certificate,
+        ciphers: CIPHER_SUITES,
+      });
+    }
+    const waiters = this.readyWaiters;
+    this.readyWaiters = [];
+    for (const waiter of waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve();
+      }
+    }
+  }
+
+  _waitForReady(): Promise<void> {
+    if (this.hasAllUpdates()) {
+      const error = this.getError();
+      return error ? Promise.reject(error) : Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      this.readyWaiters.push({ resolve, reject });
+    });
+  }
+
+  _getConnectionOptions(): ConnectionOptions | null {
+    if (!this.secureContext) {
+      throw new Error('Certificates are not yet available');
+    }
+    const connectionOptions: ConnectionOptions = {
+      secureContext: this.secureContext,
+    };
+    if (this.verifyOptions.checkServerIdentity) {
+      connectionOptions.checkServerIdentity =
+        this.verifyOptions.checkServerIdentity;
+    }
+    return connectionOptions;
+  }
+  _isSecure(): boolean {
+    return true;
+  }
+  _equals(other: ChannelCredentials): boolean {
+    if (this === other) {
+      return true;
+    }
+    if (other instanceof CertificateProviderChannelCredentialsImpl) {
+      return (
+        this.caCertificateProvider === other.caCertificateProvider &&
+        this.identityCertificateProvider ===
+          other.identityCertificateProvider &&
+        this.verifyOptions.checkServerIdentity ===
+          other.verifyOptions.checkServerIdentity
+      );
+    } else {
+      return false;
+    }
+  }
+}
+
+/**
+ * Create channel credentials that use TLS with certificates from the given
+ * providers, and that pick up updates to those certificates for new
+ * connections.
+ * @param caCertificateProvider The source of the root certificates used to
+ *     verify the server
+ * @param identityCertificateProvider The source of the client certificate,
+ *     if the client should present one
+ * @param verifyOptions Additional options to modify certificate verification
+ */
+export function createCertificateProviderChannelCredentials(
+  caCertificateProvider: CertificateProvider,
+  identityCertificateProvider: CertificateProvider | null,
+  verifyOptions?: VerifyOptions
+): ChannelCredentials {
+  return new CertificateProviderChannelCredentialsImpl(
+    caCertificateProvider,
+    identityCertificateProvider,
+    verifyOptions ?? {}
+  );
+}
+
 class ComposedChannelCredentialsImpl extends ChannelCredentials {
   constructor(
-    private channelCredentials: SecureChannelCredentialsImpl,
+    private channelCredentials: ChannelCredentials,
     callCreds: CallCredentials
   ) {
     super(callCreds);
@@ -245,6 +488,18 @@ class ComposedChannelCredentialsImpl extends ChannelCredentials {
     );
   }
 
+  _ref(): void {
+    this.channelCredentials._ref();
+  }
+  _unref(): void {
+    this.channelCredentials._unref();
+  }
+  _waitForReady(): Promise<void> {
+    return this.channelCredentials._waitForReady();
+  }
+  _getSubchannelCredentials(override: ChannelCredentials): ChannelCredentials {
+    return this.channelCredentials._getSubchannelCredentials(override);
+  }
   _getConnectionOptions(): ConnectionOptions | null {
     return this.channelCredentials._getConnectionOptions();
   }
@@ -44,6 +44,12 @@ export interface ChannelOptions {
   'grpc.default_compression_algorithm'?: CompressionAlgorithms;
   'grpc.enable_channelz'?: number;
   'grpc.dns_min_time_between_resolutions_ms'?: number;
+  /**
+   * If set to 1, the DNS resolver resolves names of the form
+   * _service._proto.name with SRV queries, and discovers balancer addresses
+   * with _grpc_lb._tcp.<hostname> SRV queries.
+   */
+  'grpc.dns_enable_srv_queries'?: number;
   'grpc.enable_retries'?: number;
   'grpc.per_rpc_retry_buffer_size'?: number;
   /* This option is pattered like a core option, but the core does not have
@@ -54,13 +60,28 @@ export interface ChannelOptions {
   'grpc.retry_buffer_size'?: number;
   'grpc.max_connection_age_ms'?: number;
   'grpc.max_connection_age_grace_ms'?: number;
+  'grpc.max_connection_idle_ms'?: number;
+  'grpc.http2.min_ping_interval_without_data_ms'?: number;
+  'grpc.http2.max_ping_strikes'?: number;
   'grpc-node.max_session_memory'?: number;
+  /**
+   * The name of the DNS backend for the DNS resolver to use: "native" for
+   * dns.lookup, "ares" to query DNS servers directly, or the name of a
+   * backend registered with registerDnsBackend.
+   */
+  'grpc-node.dns_backend'?: string;
   'grpc.service_config_disable_resolution'?: number;
   'grpc.client_idle_timeout_ms'?: number;
   /**
    * Set the enableTrace option in TLS clients and servers
    */
   'grpc-node.tls_enable_trace'?: number;
+  /**
+   * If set to 1 on a server, handlers run with their call as the current call
+   * context, so that client calls started while handling it inherit its
+   * deadline, cancellation and tracing metadata.
+   */
+  'grpc-node.enable_call_context'?: number;
   'grpc.lb.ring_hash.ring_size_cap'?: number;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any;
@@ -88,15 +109,21 @@ export const recognizedOptions = {
   'grpc.enable_http_proxy': true,
   'grpc.enable_channelz': true,
   'grpc.dns_min_time_between_resolutions_ms': true,
+  'grpc.dns_enable_srv_queries': true,
   'grpc.enable_retries': true,
   'grpc.per_rpc_retry_buffer_size': true,
   'grpc.retry_buffer_size': true,
   'grpc.max_connection_age_ms': true,
   'grpc.max_connection_age_grace_ms': true,
+  'grpc.max_connection_idle_ms': true,
+  'grpc.http2.min_ping_interval_without_data_ms': true,
+  'grpc.http2.max_ping_strikes': true,
   'grpc-node.max_session_memory': true,
+  'grpc-node.dns_backend': true,
   'grpc.service_config_disable_resolution': true,
   'grpc.client_idle_timeout_ms': true,
   'grpc-node.tls_enable_trace': true,
+  'grpc-node.enable_call_context': true,
   'grpc.lb.ring_hash.ring_size_cap': true,
 };
 
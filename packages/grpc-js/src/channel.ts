@@ -22,6 +22,7 @@ import { ServerSurfaceCall } from './server-call';
 import { ConnectivityState } from './connectivity-state';
 import { ChannelRef } from './channelz';
 import { Call } from './call-interface';
+import { CallTracer } from './call-tracer';
 import { InternalChannel } from './internal-channel';
 import { Deadline } from './deadline';
 
@@ -80,13 +81,15 @@ export interface Channel {
    * @param parentCall A server call to propagate some information from
    * @param propagateFlags A bitwise combination of elements of grpc.propagate
    *     that indicates what information to propagate from parentCall.
+   * @param callTracer An object that observes each attempt of the call
    */
   createCall(
     method: string,
     deadline: Deadline,
     host: string | null | undefined,
     parentCall: ServerSurfaceCall | null,
-    propagateFlags: number | null | undefined
+    propagateFlags: number | null | undefined,
+    callTracer?: CallTracer | null
   ): Call;
 }
 
@@ -153,7 +156,8 @@ export class ChannelImplementation implements Channel {
     deadline: Deadline,
     host: string | null | undefined,
     parentCall: ServerSurfaceCall | null,
-    propagateFlags: number | null | undefined
+    propagateFlags: number | null | undefined,
+    callTracer?: CallTracer | null
   ): Call {
     if (typeof method !== 'string') {
       throw new TypeError('Channel#createCall: method must be a string');
@@ -168,7 +172,8 @@ export class ChannelImplementation implements Channel {
       deadline,
       host,
       parentCall,
-      propagateFlags
+      propagateFlags,
+      callTracer
     );
   }
 }
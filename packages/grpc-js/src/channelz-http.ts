@@ -0,0 +1,368 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as http from 'http';
+import { URL } from 'url';
+import { getChannelzHandlers } from './channelz';
+import { Status } from './constants';
+import { sendUnaryData, ServerUnaryCall } from './server-call';
+
+const DEFAULT_PATH_PREFIX = '/channelz';
+const DEFAULT_MAX_RESULTS = 100;
+
+export interface ChannelzHttpHandlerOptions {
+  /**
+   * The path that the handler serves requests under. The default is
+   * /channelz.
+   */
+  pathPrefix?: string;
+}
+
+/**
+ * A request listener that can be passed to http.createServer or added as a
+ * 'request' listener on an existing http.Server. If next is provided, it is
+ * called for requests outside of the handler's path prefix, which allows
+ * using the handler as middleware in frameworks like Express. Otherwise,
+ * those requests get a 404 response.
+ */
+export type ChannelzHttpHandler = (
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  next?: () => void
+) => void;
+
+type ChannelzResponse =
+  | { status: 200; body: object }
+  | { status: 400 | 404; body: { error: string } };
+
+/**
+ * Call one of the channelz service handlers with the given request. The
+ * handlers complete synchronously.
+ */
+function callHandler<RequestType, ResponseType>(
+  handler: (
+    call: ServerUnaryCall<RequestType, ResponseType>,
+    callback: sendUnaryData<ResponseType>
+  ) => void,
+  request: RequestType
+): ChannelzResponse {
+  let result: ChannelzResponse | null = null;
+  handler(
+    { request } as ServerUnaryCall<RequestType, ResponseType>,
+    (error, value) => {
+      if (error) {
+        result = {
+          status: error.code === Status.NOT_FOUND ? 404 : 400,
+          body: { error: error.details ?? 'Unknown error' },
+        };
+      } else {
+        result = { status: 200, body: value as object };
+      }
+    }
+  );
+  return result ?? { status: 404, body: { error: 'No response' } };
+}
+
+function formatIpAddress(address: Buffer): string {
+  if (address.length === 4) {
+    return Array.from(address).join('.');
+  }
+  const sections: string[] = [];
+  for (let i = 0; i + 1 < address.length; i += 2) {
+    sections.push(address.readUInt16BE(i).toString(16));
+  }
+  return sections.join(':');
+}
+
+/**
+ * Convert a channelz message to a value that can be passed to
+ * JSON.stringify. Timestamps are converted to ISO 8601 strings, IP addresses
+ * to their text representation, and other bytes fields to base64 strings.
+ * Field names are kept as they are in channelz.proto.
+ */
+function messageToJson(value: unknown, key = ''): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (Buffer.isBuffer(value)) {
+    return key === 'ip_address'
+      ? formatIpAddress(value)
+      : value.toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => messageToJson(item));
+  }
+  if (typeof value === 'object') {
+    const object = value as { [key: string]: unknown };
+    if (key.endsWith('timestamp') && 'seconds' in object) {
+      const millis =
+        Number(object.seconds) * 1000 + Number(object.nanos ?? 0) / 1_000_000;
+      return new Date(millis).toISOString();
+    }
+    const result: { [key: string]: unknown } = {};
+    for (const [fieldName, fieldValue] of Object.entries(object)) {
+      result[fieldName] = messageToJson(fieldValue, fieldName);
+    }
+    return result;
+  }
+  return value;
+}
+
+function isValidId(id: string) {
+  return /^\d+$/.test(id);
+}
+
+function getPageParameters(url: URL) {
+  const startId = url.searchParams.get('start_id') ?? '0';
+  const maxResults =
+    url.searchParams.get('max_results') ?? `${DEFAULT_MAX_RESULTS}`;
+  if (!isValidId(startId) || !isValidId(maxResults)) {
+    return null;
+  }
+  return { startId, maxResults };
+}
+
+const INVALID_PAGE_RESPONSE: ChannelzResponse = {
+  status: 400,
+  body: { error: 'start_id and max_results must be non-negative integers' },
+};
+
+/**
+ * Get the channelz response for a path relative to the handler's path
+ * prefix, or null if the path does not match any resource.
+ * @param path The path segments after the prefix
+ * @param url
+ */
+function getResponse(path: string[], url: URL): ChannelzResponse | null {
+  const handlers = getChannelzHandlers();
+  const [collection, id, subCollection] = path;
+  if (path.length === 1) {
+    const page = getPageParameters(url);
+    if (collection !== 'channels' && collection !== 'servers') {
+      return null;
+    }
+    if (!page) {
+      return INVALID_PAGE_RESPONSE;
+    }
+    if (collection === 'channels') {
+      return callHandler(handlers.GetTopChannels, {
+        start_channel_id: page.startId,
+        max_results: page.maxResults,
+      });
+    } else {
+      return callHandler(handlers.GetServers, {
+        start_server_id: page.startId,
+        max_results: page.maxResults,
+      });
+    }
+  }
+  if (
+    path.length !== 2 &&
+    !(path.length === 3 && subCollection === 'sockets')
+  ) {
+    return null;
+  }
+  if (!isValidId(id)) {
+    return { status: 400, body: { error: `Invalid id "${id}"` } };
+  }
+  switch (collection) {
+    case 'channels':
+      return path.length === 2
+        ? callHandler(handlers.GetChannel, { channel_id: id })
+        : null;
+    case 'subchannels':
+      return path.length === 2
+        ? callHandler(handlers.GetSubchannel, { subchannel_id: id })
+        : null;
+    case 'sockets':
+      return path.length === 2
+        ? callHandler(handlers.GetSocket, { socket_id: id, summary: false })
+        : null;
+    case 'servers': {
+      if (path.length === 2) {
+        return callHandler(handlers.GetServer, { server_id: id });
+      }
+      const page = getPageParameters(url);
+      if (!page) {
+        return INVALID_PAGE_RESPONSE;
+      }
+      return callHandler(handlers.GetServerSockets, {
+        server_id: id,
+        start_socket_id: page.startId,
+        max_results: page.maxResults,
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * A page that shows the channelz JSON responses, with links between the
+ * referenced channels, subchannels, servers and sockets. The page navigates
+ * with the URL fragment, so it works under any path prefix.
+ */
+const BROWSER_VIEW_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>channelz</title>
+<style>
+body { font-family: sans-serif; margin: 1em 2em; }
+pre { background: #f4f4f4; padding: 1em; }
+nav a { margin-right: 1em; }
+</style>
+</head>
+<body>
+<nav><a href="#channels">Channels</a><a href="#servers">Servers</a></nav>
+<h1 id="title"></h1>
+<pre id="content"></pre>
+<script>
+const LINKS = {
+  channel_id: 'channels',
+  subchannel_id: 'subchannels',
+  server_id: 'servers',
+  socket_id: 'sockets',
+};
+function escapeHtml(text) {
+  return String(text).replace(/[&<>"]/g, c => '&#' + c.charCodeAt(0) + ';');
+}
+function render(value, indent) {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    return '[\\n' + value.map(item => indent + '  ' + render(item, indent + '  ')).join(',\\n') + '\\n' + indent + ']';
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return '{\\n' + entries.map(([key, item]) => {
+      let rendered = render(item, indent + '  ');
+      if (LINKS[key] && item !== null) {
+        rendered = '<a href="#' + LINKS[key] + '/' + escapeHtml(item) + '">' + rendered + '</a>';
+      }
+      return indent + '  ' + escapeHtml(JSON.stringify(key)) + ': ' + rendered;
+    }).join(',\\n') + '\\n' + indent + '}';
+  }
+  return escapeHtml(JSON.stringify(value));
+}
+function show() {
+  const path = location.hash.substring(1) || 'channels';
+  const base = location.pathname.replace(/\\/$/, '');
+  document.getElementById('title').textContent = path;
+  fetch(base + '/' + path)
+    .then(response => response.json())
+    .then(body => {
+      document.getElementById('content').innerHTML = render(body, '');
+    }, error => {
+      document.getElementById('content').textContent = String(error);
+    });
+}
+window.addEventListener('hashchange', show);
+show();
+</script>
+</body>
+</html>
+`;
+
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown,
+  isHead: boolean
+) {
+  const text = JSON.stringify(body, null, 2) + '\n';
+  response.writeHead(status, {
+    'content-type': 'application/json; charset=utf-8',
+    'content-length': Buffer.byteLength(text),
+  });
+  response.end(isHead ? undefined : text);
+}
+
+/**
+ * Create a handler that serves channelz data as JSON over HTTP, and a
+ * minimal browser view of that data. With the default path prefix, it
+ * serves these paths:
+ *  - /channelz/: The browser view
+ *  - /channelz/channels: The top level channels
+ *  - /channelz/channels/<id>: A channel, with its trace events
+ *  - /channelz/subchannels/<id>: A subchannel
+ *  - /channelz/servers: All servers
+ *  - /channelz/servers/<id>: A server
+ *  - /channelz/servers/<id>/sockets: The sockets of a server's connections
+ *  - /channelz/sockets/<id>: A socket, with its TLS info
+ * The list endpoints accept start_id and max_results query parameters. The
+ * data is the same as the channelz service responses, so it is only
+ * available for channels and servers that have channelz enabled. The handler
+ * does not authenticate requests, so it should not be exposed to untrusted
+ * networks.
+ * @param options
+ */
+export function createChannelzHttpHandler(
+  options: ChannelzHttpHandlerOptions = {}
+): ChannelzHttpHandler {
+  const pathPrefix = (options.pathPrefix ?? DEFAULT_PATH_PREFIX).replace(
+    /\/+$/,
+    ''
+  );
+  return (request, response, next) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const pathname = url.pathname;
+    if (pathname !== pathPrefix && !pathname.startsWith(pathPrefix + '/')) {
+      if (next) {
+        next();
+      } else {
+        sendJson(response, 404, { error: 'Not found' }, false);
+      }
+      return;
+    }
+    const isHead = request.method === 'HEAD';
+    if (request.method !== 'GET' && !isHead) {
+      response.setHeader('allow', 'GET, HEAD');
+      sendJson(response, 405, { error: 'Method not allowed' }, isHead);
+      return;
+    }
+    const path = pathname
+      .substring(pathPrefix.length)
+      .split('/')
+      .filter(segment => segment !== '');
+    if (path.length === 0) {
+      if (!pathname.endsWith('/')) {
+        /* Redirect so that relative URLs in the page resolve under the
+         * prefix */
+        response.writeHead(301, { location: pathname + '/' + url.search });
+        response.end();
+        return;
+      }
+      response.writeHead(200, {
+        'content-type': 'text/html; charset=utf-8',
+        'content-length': Buffer.byteLength(BROWSER_VIEW_HTML),
+      });
+      response.end(isHead ? undefined : BROWSER_VIEW_HTML);
+      return;
+    }
+    const result = getResponse(path, url);
+    if (result === null) {
+      sendJson(response, 404, { error: 'Not found' }, isHead);
+      return;
+    }
+    sendJson(response, result.status, messageToJson(result.body), isHead);
+  };
+}
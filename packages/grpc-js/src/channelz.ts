@@ -613,7 +613,7 @@ function GetTopChannels(
   }
   callback(null, {
     channel: resultList,
-    end: i >= servers.length,
+    end: i >= channels.length,
   });
 }
 
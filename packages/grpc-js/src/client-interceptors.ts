@@ -346,7 +346,14 @@ function getCall(channel: Channel, path: string, options: CallOptions): Call {
   const parent = options.parent ?? null;
   const propagateFlags = options.propagate_flags;
   const credentials = options.credentials;
-  const call = channel.createCall(path, deadline, host, parent, propagateFlags);
+  const call = channel.createCall(
+    path,
+    deadline,
+    host,
+    parent,
+    propagateFlags,
+    options.call_tracer
+  );
   if (credentials) {
     call.setCredentials(credentials);
   }
@@ -29,6 +29,7 @@ import {
   SurfaceCall,
 } from './call';
 import { CallCredentials } from './call-credentials';
+import { CallTracer } from './call-tracer';
 import { StatusObject } from './call-interface';
 import { Channel, ChannelImplementation } from './channel';
 import { ConnectivityState } from './connectivity-state';
@@ -51,11 +52,16 @@ import {
   ServerDuplexStream,
 } from './server-call';
 import { Deadline } from './deadline';
+import {
+  applyCallContext,
+  CallContextPropagationOptions,
+} from './call-context';
 
 const CHANNEL_SYMBOL = Symbol();
 const INTERCEPTOR_SYMBOL = Symbol();
 const INTERCEPTOR_PROVIDER_SYMBOL = Symbol();
 const CALL_INVOCATION_TRANSFORMER_SYMBOL = Symbol();
+const CALL_CONTEXT_PROPAGATION_SYMBOL = Symbol();
 
 function isFunction<ResponseType>(
   arg: Metadata | CallOptions | UnaryCallback<ResponseType> | undefined
@@ -80,6 +86,11 @@ export interface CallOptions {
   credentials?: CallCredentials;
   interceptors?: Interceptor[];
   interceptor_providers?: InterceptorProvider[];
+  /**
+   * An object that observes each attempt of the call. This is experimental,
+   * and is intended to be set by interceptors that record telemetry.
+   */
+  call_tracer?: CallTracer;
 }
 /* eslint-enable @typescript-eslint/no-explicit-any */
 
@@ -107,6 +118,14 @@ export type ClientOptions = Partial<ChannelOptions> & {
   interceptors?: Interceptor[];
   interceptor_providers?: InterceptorProvider[];
   callInvocationTransformer?: CallInvocationTransformer;
+  /**
+   * Controls what calls started by this client inherit from the server call
+   * that is being handled when they start, if the server was created with
+   * the grpc-node.enable_call_context option. Set this to false to disable
+   * propagation for this client. Calls with the parent call option set are
+   * not affected.
+   */
+  callContextPropagation?: CallContextPropagationOptions | false;
 };
 
 function getErrorStackString(error: Error): string {
@@ -122,6 +141,9 @@ export class Client {
   private readonly [INTERCEPTOR_SYMBOL]: Interceptor[];
   private readonly [INTERCEPTOR_PROVIDER_SYMBOL]: InterceptorProvider[];
   private readonly [CALL_INVOCATION_TRANSFORMER_SYMBOL]?: CallInvocationTransformer;
+  private readonly [CALL_CONTEXT_PROPAGATION_SYMBOL]:
+    | CallContextPropagationOptions
+    | false;
   constructor(
     address: string,
     credentials: ChannelCredentials,
@@ -144,6 +166,9 @@ export class Client {
     this[CALL_INVOCATION_TRANSFORMER_SYMBOL] =
       options.callInvocationTransformer;
     delete options.callInvocationTransformer;
+    this[CALL_CONTEXT_PROPAGATION_SYMBOL] =
+      options.callContextPropagation ?? {};
+    delete options.callContextPropagation;
     if (options.channelOverride) {
       this[CHANNEL_SYMBOL] = options.channelOverride;
     } else if (options.channelFactoryOverride) {
@@ -232,6 +257,23 @@ export class Client {
     }
   }
 
+  private applyCallContext<
+    T extends { metadata: Metadata; options: CallOptions }
+  >(checkedArguments: T): T {
+    const propagation = this[CALL_CONTEXT_PROPAGATION_SYMBOL];
+    if (!propagation) {
+      return checkedArguments;
+    }
+    return {
+      ...checkedArguments,
+      ...applyCallContext(
+        checkedArguments.metadata,
+        checkedArguments.options,
+        propagation
+      ),
+    };
+  }
+
   makeUnaryRequest<RequestType, ResponseType>(
     method: string,
     serialize: (value: RequestType) => Buffer,
@@ -273,12 +315,13 @@ export class Client {
     options?: CallOptions | UnaryCallback<ResponseType>,
     callback?: UnaryCallback<ResponseType>
   ): ClientUnaryCall {
-    const checkedArguments =
+    const checkedArguments = this.applyCallContext(
       this.checkOptionalUnaryResponseArguments<ResponseType>(
         metadata,
         options,
         callback
-      );
+      )
+    );
     const methodDefinition: ClientMethodDefinition<RequestType, ResponseType> =
       {
         path: method,
@@ -406,12 +449,13 @@ export class Client {
     options?: CallOptions | UnaryCallback<ResponseType>,
     callback?: UnaryCallback<ResponseType>
   ): ClientWritableStream<RequestType> {
-    const checkedArguments =
+    const checkedArguments = this.applyCallContext(
       this.checkOptionalUnaryResponseArguments<ResponseType>(
         metadata,
         options,
         callback
-      );
+      )
+    );
     const methodDefinition: ClientMethodDefinition<RequestType, ResponseType> =
       {
         path: method,
@@ -548,7 +592,9 @@ export class Client {
     metadata?: Metadata | CallOptions,
     options?: CallOptions
   ): ClientReadableStream<ResponseType> {
-    const checkedArguments = this.checkMetadataAndOptions(metadata, options);
+    const checkedArguments = this.applyCallContext(
+      this.checkMetadataAndOptions(metadata, options)
+    );
     const methodDefinition: ClientMethodDefinition<RequestType, ResponseType> =
       {
         path: method,
@@ -641,7 +687,9 @@ export class Client {
     metadata?: Metadata | CallOptions,
     options?: CallOptions
   ): ClientDuplexStream<RequestType, ResponseType> {
-    const checkedArguments = this.checkMetadataAndOptions(metadata, options);
+    const checkedArguments = this.applyCallContext(
+      this.checkMetadataAndOptions(metadata, options)
+    );
     const methodDefinition: ClientMethodDefinition<RequestType, ResponseType> =
       {
         path: method,
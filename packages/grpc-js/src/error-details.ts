@@ -0,0 +1,230 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { loadProtosWithOptionsSync } from '@grpc/proto-loader/build/src/util';
+import { Status } from './constants';
+import {
+  BadRequest,
+  BadRequest__Output,
+} from './generated/google/rpc/BadRequest';
+import { DebugInfo, DebugInfo__Output } from './generated/google/rpc/DebugInfo';
+import { ErrorInfo, ErrorInfo__Output } from './generated/google/rpc/ErrorInfo';
+import { Help, Help__Output } from './generated/google/rpc/Help';
+import {
+  LocalizedMessage,
+  LocalizedMessage__Output,
+} from './generated/google/rpc/LocalizedMessage';
+import {
+  PreconditionFailure,
+  PreconditionFailure__Output,
+} from './generated/google/rpc/PreconditionFailure';
+import {
+  QuotaFailure,
+  QuotaFailure__Output,
+} from './generated/google/rpc/QuotaFailure';
+import {
+  RequestInfo,
+  RequestInfo__Output,
+} from './generated/google/rpc/RequestInfo';
+import {
+  ResourceInfo,
+  ResourceInfo__Output,
+} from './generated/google/rpc/ResourceInfo';
+import { RetryInfo, RetryInfo__Output } from './generated/google/rpc/RetryInfo';
+import { Status__Output as RpcStatus__Output } from './generated/google/rpc/Status';
+
+/**
+ * The trailer that carries a serialized google.rpc.Status message, as
+ * described in https://google.aip.dev/193.
+ */
+export const STATUS_DETAILS_METADATA_KEY = 'grpc-status-details-bin';
+
+const TYPE_URL_PREFIX = 'type.googleapis.com/';
+
+/**
+ * The standard error detail messages defined in google/rpc/error_details.proto
+ */
+interface ErrorDetailMessages {
+  'google.rpc.BadRequest': [BadRequest, BadRequest__Output];
+  'google.rpc.DebugInfo': [DebugInfo, DebugInfo__Output];
+  'google.rpc.ErrorInfo': [ErrorInfo, ErrorInfo__Output];
+  'google.rpc.Help': [Help, Help__Output];
+  'google.rpc.LocalizedMessage': [LocalizedMessage, LocalizedMessage__Output];
+  'google.rpc.PreconditionFailure': [
+    PreconditionFailure,
+    PreconditionFailure__Output
+  ];
+  'google.rpc.QuotaFailure': [QuotaFailure, QuotaFailure__Output];
+  'google.rpc.RequestInfo': [RequestInfo, RequestInfo__Output];
+  'google.rpc.ResourceInfo': [ResourceInfo, ResourceInfo__Output];
+  'google.rpc.RetryInfo': [RetryInfo, RetryInfo__Output];
+}
+
+const ERROR_DETAIL_TYPE_NAMES: ReadonlySet<string> = new Set<
+  keyof ErrorDetailMessages
+>([
+  'google.rpc.BadRequest',
+  'google.rpc.DebugInfo',
+  'google.rpc.ErrorInfo',
+  'google.rpc.Help',
+  'google.rpc.LocalizedMessage',
+  'google.rpc.PreconditionFailure',
+  'google.rpc.QuotaFailure',
+  'google.rpc.RequestInfo',
+  'google.rpc.ResourceInfo',
+  'google.rpc.RetryInfo',
+]);
+
+/**
+ * An error detail message to send, identified by its type URL in the
+ * '@type' field, like in the JSON representation of google.protobuf.Any.
+ * For example:
+ * `{'@type': 'type.googleapis.com/google.rpc.RetryInfo', retry_delay: {seconds: 1}}`
+ */
+export type ErrorDetail = {
+  [Name in keyof ErrorDetailMessages]: {
+    '@type': `${typeof TYPE_URL_PREFIX}${Name}`;
+  } & ErrorDetailMessages[Name][0];
+}[keyof ErrorDetailMessages];
+
+/**
+ * A detail message with a type that is not one of the standard error
+ * details, so it could not be decoded.
+ */
+export interface UnknownErrorDetail {
+  type_url: string;
+  value: Buffer;
+}
+
+/**
+ * A received error detail message. Standard error details are decoded and
+ * identified by the '@type' field. Other details are left encoded.
+ */
+export type ErrorDetail__Output =
+  | {
+      [Name in keyof ErrorDetailMessages]: {
+        '@type': `${typeof TYPE_URL_PREFIX}${Name}`;
+      } & ErrorDetailMessages[Name][1];
+    }[keyof ErrorDetailMessages]
+  | UnknownErrorDetail;
+
+type ProtobufRoot = ReturnType<typeof loadProtosWithOptionsSync>;
+
+const toObjectOptions = {
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true,
+};
+
+let loadedRoot: ProtobufRoot | null = null;
+
+function getErrorDetailsRoot(): ProtobufRoot {
+  if (loadedRoot) {
+    return loadedRoot;
+  }
+  /* The purpose of this complexity is to avoid loading @grpc/proto-loader at
+   * runtime for users who will not use the rich error model. */
+  const loaderLoadProtos = require('@grpc/proto-loader/build/src/util')
+    .loadProtosWithOptionsSync as typeof loadProtosWithOptionsSync;
+  loadedRoot = loaderLoadProtos(
+    ['google/rpc/status.proto', 'google/rpc/error_details.proto'],
+    {
+      keepCase: true,
+      includeDirs: [`${__dirname}/../../proto`],
+    }
+  );
+  return loadedRoot;
+}
+
+/**
+ * Get the name of the standard error detail type identified by the type URL,
+ * or null if the type URL does not identify one.
+ * @param typeUrl
+ */
+function getErrorDetailTypeName(typeUrl: string): string | null {
+  if (!typeUrl.startsWith(TYPE_URL_PREFIX)) {
+    return null;
+  }
+  const typeName = typeUrl.substring(TYPE_URL_PREFIX.length);
+  return ERROR_DETAIL_TYPE_NAMES.has(typeName) ? typeName : null;
+}
+
+/**
+ * Serialize a google.rpc.Status message with the given details, to be sent
+ * in the grpc-status-details-bin trailer.
+ * @param code The status code. This should match the status of the call.
+ * @param message The status message. This should match the status details
+ *     of the call.
+ * @param details The error detail messages
+ */
+export function serializeStatusDetails(
+  code: Status,
+  message: string,
+  details: ErrorDetail[]
+): Buffer {
+  const root = getErrorDetailsRoot();
+  const statusType = root.lookupType('google.rpc.Status');
+  const encodedDetails = details.map(detail => {
+    const { '@type': typeUrl, ...fields } = detail;
+    const typeName = getErrorDetailTypeName(typeUrl);
+    if (typeName === null) {
+      throw new Error(`Unknown error detail type URL ${typeUrl}`);
+    }
+    const detailType = root.lookupType(typeName);
+    return {
+      type_url: typeUrl,
+      value: detailType.encode(detailType.fromObject(fields)).finish(),
+    };
+  });
+  return Buffer.from(
+    statusType
+      .encode(statusType.fromObject({ code, message, details: encodedDetails }))
+      .finish()
+  );
+}
+
+/**
+ * Deserialize the google.rpc.Status message from a grpc-status-details-bin
+ * trailer, and decode the standard error details in it.
+ * @param serialized
+ */
+export function deserializeStatusDetails(serialized: Buffer): {
+  code: Status;
+  message: string;
+  details: ErrorDetail__Output[];
+} {
+  const root = getErrorDetailsRoot();
+  const statusType = root.lookupType('google.rpc.Status');
+  const status = statusType.toObject(
+    statusType.decode(serialized),
+    toObjectOptions
+  ) as RpcStatus__Output;
+  const details = status.details.map((detail): ErrorDetail__Output => {
+    const value = Buffer.from(detail.value);
+    const typeName = getErrorDetailTypeName(detail.type_url);
+    if (typeName === null) {
+      return { type_url: detail.type_url, value };
+    }
+    const detailType = root.lookupType(typeName);
+    return {
+      '@type': detail.type_url,
+      ...detailType.toObject(detailType.decode(value), toObjectOptions),
+    } as ErrorDetail__Output;
+  });
+  return { code: status.code, message: status.message, details };
+}
@@ -4,8 +4,19 @@ export {
   ResolverListener,
   registerResolver,
   ConfigSelector,
+  CallConfig,
   createResolver,
 } from './resolver';
+export {
+  BALANCER_ADDRESSES_ATTRIBUTE_KEY,
+  SrvEndpoint,
+  isSrvEndpoint,
+} from './resolver-dns';
+export {
+  DnsBackend,
+  DnsBackendFactory,
+  registerDnsBackend,
+} from './resolver-dns-backend';
 export { GrpcUri, uriToString } from './uri-parser';
 export { Duration, durationToMs } from './duration';
 export { BackoffTimeout } from './backoff-timeout';
@@ -36,6 +47,7 @@ export {
   PickResult,
   PickArgs,
   PickResultType,
+  OnCallEnded,
 } from './picker';
 export { Call as CallStream } from './call-interface';
 export { Filter, BaseFilter, FilterFactory } from './filter';
@@ -52,3 +64,42 @@ export {
   SuccessRateEjectionConfig,
   FailurePercentageEjectionConfig,
 } from './load-balancer-outlier-detection';
+export { WeightedRoundRobinRawConfig } from './load-balancer-weighted-round-robin';
+export { LeastRequestRawConfig } from './load-balancer-least-request';
+export {
+  createServerCredentialsWithInterceptors,
+  createCertificateProviderServerCredentials,
+  SecureContextWatcher,
+} from './server-credentials';
+export { createCertificateProviderChannelCredentials } from './channel-credentials';
+export {
+  CaCertificateUpdate,
+  CaCertificateUpdateListener,
+  IdentityCertificateUpdate,
+  IdentityCertificateUpdateListener,
+  CertificateProvider,
+  FileWatcherCertificateProvider,
+  FileWatcherCertificateProviderConfig,
+} from './certificate-provider';
+export { ConnectionInjector } from './server';
+export {
+  MetricsListener,
+  createMetricsReader,
+  OrcaOobMetricsSubchannelWrapper,
+} from './orca';
+export { OrcaLoadReport__Output as OrcaLoadReport } from './generated/xds/data/orca/v3/OrcaLoadReport';
+export {
+  CallAttemptInfo,
+  CallAttemptTracer,
+  CallCommitReason,
+  CallTracer,
+  RetryDelayInfo,
+} from './call-tracer';
+export { RetryThrottlingState } from './retrying-call';
+export { getRetryThrottlingState } from './internal-channel';
+export {
+  RetryBudgetConfig,
+  RetryBudgetState,
+  setRetryBudget,
+  getRetryBudgetState,
+} from './retry-budget';
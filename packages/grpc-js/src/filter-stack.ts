@@ -18,6 +18,7 @@
 import { StatusObject, WriteObject } from './call-interface';
 import { Filter, FilterFactory } from './filter';
 import { Metadata } from './metadata';
+import { CallConfig } from './resolver';
 
 export class FilterStack implements Filter {
   constructor(private readonly filters: Filter[]) {}
@@ -92,9 +93,9 @@ export class FilterStackFactory implements FilterFactory<FilterStack> {
     return new FilterStackFactory([...this.factories]);
   }
 
-  createFilter(): FilterStack {
+  createFilter(callConfig?: CallConfig): FilterStack {
     return new FilterStack(
-      this.factories.map(factory => factory.createFilter())
+      this.factories.map(factory => factory.createFilter(callConfig))
     );
   }
 }
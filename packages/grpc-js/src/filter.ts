@@ -17,6 +17,7 @@
 
 import { StatusObject, WriteObject } from './call-interface';
 import { Metadata } from './metadata';
+import { CallConfig } from './resolver';
 
 /**
  * Filter classes represent related per-call logic and state that is primarily
@@ -59,5 +60,9 @@ export abstract class BaseFilter implements Filter {
 }
 
 export interface FilterFactory<T extends Filter> {
-  createFilter(): T;
+  /**
+   * @param callConfig The config selected for the call, if the filter is
+   *     created after config selection
+   */
+  createFilter(callConfig?: CallConfig): T;
 }
@@ -0,0 +1,88 @@
+// Original file: proto/google/rpc/error_details.proto
+
+
+/**
+ * A message type used to describe a single quota violation.  For example, a
+ * daily quota or a custom quota that was exceeded.
+ */
+export interface _google_rpc_QuotaFailure_Violation {
+  /**
+   * The subject on which the quota check failed.
+   * For example, "clientip:<ip address of client>" or "project:<Google
+   * developer project id>".
+   */
+  'subject'?: (string);
+  /**
+   * A description of how the quota check failed. Clients can use this
+   * description to find more about the quota configuration in the service's
+   * public documentation, or find the relevant quota limit to adjust through
+   * developer console.
+   * 
+   * For example: "Service disabled" or "Daily Limit for read operations
+   * exceeded".
+   */
+  'description'?: (string);
+}
+
+/**
+ * A message type used to describe a single quota violation.  For example, a
+ * daily quota or a custom quota that was exceeded.
+ */
+export interface _google_rpc_QuotaFailure_Violation__Output {
+  /**
+   * The subject on which the quota check failed.
+   * For example, "clientip:<ip address of client>" or "project:<Google
+   * developer project id>".
+   */
+  'subject': (string);
+  /**
+   * A description of how the quota check failed. Clients can use this
+   * description to find more about the quota configuration in the service's
+   * public documentation, or find the relevant quota limit to adjust through
+   * developer console.
+   * 
+   * For example: "Service disabled" or "Daily Limit for read operations
+   * exceeded".
+   */
+  'description': (string);
+}
+
+/**
+ * Describes how a quota check failed.
+ * 
+ * For example if a daily limit was exceeded for the calling project,
+ * a service could respond with a QuotaFailure detail containing the project
+ * id and the description of the quota limit that was exceeded.  If the
+ * calling project hasn't enabled the service in the developer console, then
+ * a service could respond with the project id and set `service_disabled`
+ * to true.
+ * 
+ * Also see RetryInfo and Help types for other details about handling a
+ * quota failure.
+ */
+export interface QuotaFailure {
+  /**
+   * Describes all quota violations.
+   */
+  'violations'?: (_google_rpc_QuotaFailure_Violation)[];
+}
+
+/**
+ * Describes how a quota check failed.
+ * 
+ * For example if a daily limit was exceeded for the calling project,
+ * a service could respond with a QuotaFailure detail containing the project
+ * id and the description of the quota limit that was exceeded.  If the
+ * calling project hasn't enabled the service in the developer console, then
+ * a service could respond with the project id and set `service_disabled`
+ * to true.
+ * 
+ * Also see RetryInfo and Help types for other details about handling a
+ * quota failure.
+ */
+export interface QuotaFailure__Output {
+  /**
+   * Describes all quota violations.
+   */
+  'violations': (_google_rpc_QuotaFailure_Violation__Output)[];
+}
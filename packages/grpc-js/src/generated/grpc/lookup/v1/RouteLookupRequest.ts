@@ -0,0 +1,96 @@
+// Original file: proto/grpc/lookup/v1/rls.proto
+
+import type { Any as _google_protobuf_Any, Any__Output as _google_protobuf_Any__Output } from '../../../google/protobuf/Any';
+
+// Original file: proto/grpc/lookup/v1/rls.proto
+
+/**
+ * Possible reasons for making a request.
+ */
+export const _grpc_lookup_v1_RouteLookupRequest_Reason = {
+  /**
+   * Unused
+   */
+  REASON_UNKNOWN: 'REASON_UNKNOWN',
+  /**
+   * No data available in local cache
+   */
+  REASON_MISS: 'REASON_MISS',
+  /**
+   * Data in local cache is stale
+   */
+  REASON_STALE: 'REASON_STALE',
+} as const;
+
+/**
+ * Possible reasons for making a request.
+ */
+export type _grpc_lookup_v1_RouteLookupRequest_Reason =
+  /**
+   * Unused
+   */
+  | 'REASON_UNKNOWN'
+  | 0
+  /**
+   * No data available in local cache
+   */
+  | 'REASON_MISS'
+  | 1
+  /**
+   * Data in local cache is stale
+   */
+  | 'REASON_STALE'
+  | 2
+
+/**
+ * Possible reasons for making a request.
+ */
+export type _grpc_lookup_v1_RouteLookupRequest_Reason__Output = typeof _grpc_lookup_v1_RouteLookupRequest_Reason[keyof typeof _grpc_lookup_v1_RouteLookupRequest_Reason]
+
+export interface RouteLookupRequest {
+  /**
+   * Target type allows the client to specify what kind of target format it
+   * would like from RLS to allow it to find the regional server, e.g. "grpc".
+   */
+  'target_type'?: (string);
+  /**
+   * Map of key values extracted via key builders for the gRPC or HTTP request.
+   */
+  'key_map'?: ({[key: string]: string});
+  /**
+   * Reason for making this request.
+   */
+  'reason'?: (_grpc_lookup_v1_RouteLookupRequest_Reason);
+  /**
+   * For REASON_STALE, the header_data from the stale response, if any.
+   */
+  'stale_header_data'?: (string);
+  /**
+   * Application-specific optional extensions.
+   */
+  'extensions'?: (_google_protobuf_Any)[];
+}
+
+export interface RouteLookupRequest__Output {
+  /**
+   * Target type allows the client to specify what kind of target format it
+   * would like from RLS to allow it to find the regional server, e.g. "grpc".
+   */
+  'target_type': (string);
+  /**
+   * Map of key values extracted via key builders for the gRPC or HTTP request.
+   */
+  'key_map': ({[key: string]: string});
+  /**
+   * Reason for making this request.
+   */
+  'reason': (_grpc_lookup_v1_RouteLookupRequest_Reason__Output);
+  /**
+   * For REASON_STALE, the header_data from the stale response, if any.
+   */
+  'stale_header_data': (string);
+  /**
+   * Application-specific optional extensions.
+   */
+  'extensions': (_google_protobuf_Any__Output)[];
+}
@@ -0,0 +1,41 @@
+// Original file: proto/grpc/lookup/v1/rls.proto
+
+import type { Any as _google_protobuf_Any, Any__Output as _google_protobuf_Any__Output } from '../../../google/protobuf/Any';
+
+export interface RouteLookupResponse {
+  /**
+   * Optional header value to pass along to AFE in the X-Google-RLS-Data header.
+   * Cached with "target" and sent with all requests that match the request key.
+   * Allows the RLS to pass its work product to the eventual target.
+   */
+  'header_data'?: (string);
+  /**
+   * Prioritized list (best one first) of addressable entities to use
+   * for routing, using syntax requested by the request target_type.
+   * The targets will be tried in order until a healthy one is found.
+   */
+  'targets'?: (string)[];
+  /**
+   * Application-specific optional extensions.
+   */
+  'extensions'?: (_google_protobuf_Any)[];
+}
+
+export interface RouteLookupResponse__Output {
+  /**
+   * Optional header value to pass along to AFE in the X-Google-RLS-Data header.
+   * Cached with "target" and sent with all requests that match the request key.
+   * Allows the RLS to pass its work product to the eventual target.
+   */
+  'header_data': (string);
+  /**
+   * Prioritized list (best one first) of addressable entities to use
+   * for routing, using syntax requested by the request target_type.
+   * The targets will be tried in order until a healthy one is found.
+   */
+  'targets': (string)[];
+  /**
+   * Application-specific optional extensions.
+   */
+  'extensions': (_google_protobuf_Any__Output)[];
+}
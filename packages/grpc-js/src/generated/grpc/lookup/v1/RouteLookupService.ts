@@ -0,0 +1,36 @@
+// Original file: proto/grpc/lookup/v1/rls.proto
+
+import type * as grpc from '../../../../index'
+import type { MethodDefinition } from '@grpc/proto-loader'
+import type { RouteLookupRequest as _grpc_lookup_v1_RouteLookupRequest, RouteLookupRequest__Output as _grpc_lookup_v1_RouteLookupRequest__Output } from '../../../grpc/lookup/v1/RouteLookupRequest';
+import type { RouteLookupResponse as _grpc_lookup_v1_RouteLookupResponse, RouteLookupResponse__Output as _grpc_lookup_v1_RouteLookupResponse__Output } from '../../../grpc/lookup/v1/RouteLookupResponse';
+
+export interface RouteLookupServiceClient extends grpc.Client {
+  /**
+   * Lookup returns a target for a single key.
+   */
+  RouteLookup(argument: _grpc_lookup_v1_RouteLookupRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  RouteLookup(argument: _grpc_lookup_v1_RouteLookupRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  RouteLookup(argument: _grpc_lookup_v1_RouteLookupRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  RouteLookup(argument: _grpc_lookup_v1_RouteLookupRequest, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  /**
+   * Lookup returns a target for a single key.
+   */
+  routeLookup(argument: _grpc_lookup_v1_RouteLookupRequest, metadata: grpc.Metadata, options: grpc.CallOptions, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  routeLookup(argument: _grpc_lookup_v1_RouteLookupRequest, metadata: grpc.Metadata, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  routeLookup(argument: _grpc_lookup_v1_RouteLookupRequest, options: grpc.CallOptions, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  routeLookup(argument: _grpc_lookup_v1_RouteLookupRequest, callback: grpc.requestCallback<_grpc_lookup_v1_RouteLookupResponse__Output>): grpc.ClientUnaryCall;
+  
+}
+
+export interface RouteLookupServiceHandlers extends grpc.UntypedServiceImplementation {
+  /**
+   * Lookup returns a target for a single key.
+   */
+  RouteLookup: grpc.handleUnaryCall<_grpc_lookup_v1_RouteLookupRequest__Output, _grpc_lookup_v1_RouteLookupResponse>;
+  
+}
+
+export interface RouteLookupServiceDefinition extends grpc.ServiceDefinition {
+  RouteLookup: MethodDefinition<_grpc_lookup_v1_RouteLookupRequest, _grpc_lookup_v1_RouteLookupResponse, _grpc_lookup_v1_RouteLookupRequest__Output, _grpc_lookup_v1_RouteLookupResponse__Output>
+}
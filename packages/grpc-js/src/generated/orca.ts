@@ -0,0 +1,44 @@
+import type * as grpc from '../index';
+import type { MessageTypeDefinition } from '@grpc/proto-loader';
+
+import type { OpenRcaServiceClient as _xds_service_orca_v3_OpenRcaServiceClient, OpenRcaServiceDefinition as _xds_service_orca_v3_OpenRcaServiceDefinition } from './xds/service/orca/v3/OpenRcaService.ts';
+
+type SubtypeConstructor<Constructor extends new (...args: any) => any, Subtype> = {
+  new(...args: ConstructorParameters<Constructor>): Subtype;
+};
+
+export interface ProtoGrpcType {
+  google: {
+    protobuf: {
+      Duration: MessageTypeDefinition
+    }
+  }
+  xds: {
+    data: {
+      orca: {
+        v3: {
+          OrcaLoadReport: MessageTypeDefinition
+        }
+      }
+    }
+    service: {
+      orca: {
+        v3: {
+          /**
+           * Out-of-band (OOB) load reporting service for the additional load reporting
+           * agent that does not sit in the request path. Reports are periodically sampled
+           * with sufficient frequency to provide temporal association with requests.
+           * OOB reporting compensates the limitation of in-band reporting in revealing
+           * costs for backends that do not provide a steady stream of telemetry such as
+           * long running stream operations and zero QPS services. This is a server
+           * streaming service, client needs to terminate current RPC and initiate
+           * a new call to change backend reporting frequency.
+           */
+          OpenRcaService: SubtypeConstructor<typeof grpc.Client, _xds_service_orca_v3_OpenRcaServiceClient> & { service: _xds_service_orca_v3_OpenRcaServiceDefinition }
+          OrcaLoadReportRequest: MessageTypeDefinition
+        }
+      }
+    }
+  }
+}
+
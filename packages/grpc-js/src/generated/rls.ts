@@ -0,0 +1,26 @@
+import type * as grpc from '../index';
+import type { MessageTypeDefinition } from '@grpc/proto-loader';
+
+import type { RouteLookupServiceClient as _grpc_lookup_v1_RouteLookupServiceClient, RouteLookupServiceDefinition as _grpc_lookup_v1_RouteLookupServiceDefinition } from './grpc/lookup/v1/RouteLookupService';
+
+type SubtypeConstructor<Constructor extends new (...args: any) => any, Subtype> = {
+  new(...args: ConstructorParameters<Constructor>): Subtype;
+};
+
+export interface ProtoGrpcType {
+  google: {
+    protobuf: {
+      Any: MessageTypeDefinition
+    }
+  }
+  grpc: {
+    lookup: {
+      v1: {
+        RouteLookupRequest: MessageTypeDefinition
+        RouteLookupResponse: MessageTypeDefinition
+        RouteLookupService: SubtypeConstructor<typeof grpc.Client, _grpc_lookup_v1_RouteLookupServiceClient> & { service: _grpc_lookup_v1_RouteLookupServiceDefinition }
+      }
+    }
+  }
+}
+
@@ -0,0 +1,297 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { loadSync } from '@grpc/proto-loader';
+import { BackoffOptions, BackoffTimeout } from './backoff-timeout';
+import { ConnectivityState } from './connectivity-state';
+import { LogVerbosity, Status } from './constants';
+import { ProtoGrpcType as HealthProtoGrpcType } from './generated/health';
+import { HealthDefinition } from './generated/grpc/health/v1/Health';
+import { HealthCheckResponse__Output } from './generated/grpc/health/v1/HealthCheckResponse';
+import * as logging from './logging';
+import { loadPackageDefinition } from './make-client';
+import { Metadata } from './metadata';
+import { Subchannel } from './subchannel';
+import { StatusObjectWithRstCode, SubchannelCall } from './subchannel-call';
+import { ConnectivityStateListener } from './subchannel-interface';
+
+const TRACER_NAME = 'health_check_client';
+
+const HEALTH_WATCH_METHOD = '/grpc.health.v1.Health/Watch';
+
+let loadedHealthServiceDefinition: HealthDefinition | null = null;
+
+function getHealthServiceDefinition(): HealthDefinition {
+  if (loadedHealthServiceDefinition) {
+    return loadedHealthServiceDefinition;
+  }
+  /* The purpose of this complexity is to avoid loading @grpc/proto-loader at
+   * runtime for users who will not use health checking. */
+  const loaderLoadSync = require('@grpc/proto-loader')
+    .loadSync as typeof loadSync;
+  const loadedProto = loaderLoadSync('grpc/health/v1/health.proto', {
+    keepCase: true,
+    longs: String,
+    enums: String,
+    defaults: true,
+    oneofs: true,
+    includeDirs: [`${__dirname}/../../proto`],
+  });
+  const healthGrpcObject = loadPackageDefinition(
+    loadedProto
+  ) as unknown as HealthProtoGrpcType;
+  loadedHealthServiceDefinition =
+    healthGrpcObject.grpc.health.v1.Health.service;
+  return loadedHealthServiceDefinition;
+}
+
+export interface HealthStateListener {
+  /**
+   * @param state READY if the backend reported that it is serving or does not
+   *     implement the health service, or TRANSIENT_FAILURE otherwise
+   * @param errorMessage A description of why the backend is not healthy
+   */
+  (state: ConnectivityState, errorMessage?: string): void;
+}
+
+/**
+ * Watches the health of a backend with the grpc.health.v1.Health/Watch
+ * method, as specified in
+ * https://github.com/grpc/proposal/blob/master/A17-client-side-health-checking.md.
+ * A stream is open whenever the subchannel is READY and the client is started.
+ */
+export class HealthCheckClient {
+  private call: SubchannelCall | null = null;
+  private started = false;
+  /**
+   * Indicates that the server does not implement the health service, so
+   * health checking is disabled until the subchannel reconnects.
+   */
+  private disabled = false;
+  private receivedResponse = false;
+  private backoffTimeout: BackoffTimeout;
+  private subchannelStateListener: ConnectivityStateListener = (
+    subchannel,
+    previousState,
+    newState
+  ) => {
+    if (newState === ConnectivityState.READY) {
+      /* The subchannel reports the READY state before it can start calls, so
+       * the call is started asynchronously. */
+      process.nextTick(() => this.startCall());
+    } else {
+      this.disabled = false;
+      this.backoffTimeout.stop();
+      this.backoffTimeout.reset();
+      this.cancelCall();
+    }
+  };
+
+  constructor(
+    private readonly subchannel: Subchannel,
+    private readonly serviceName: string,
+    private readonly authority: string,
+    backoffOptions: BackoffOptions,
+    private readonly listener: HealthStateListener
+  ) {
+    this.backoffTimeout = new BackoffTimeout(() => {
+      this.startCall();
+    }, backoffOptions);
+    this.backoffTimeout.unref();
+  }
+
+  private trace(text: string) {
+    logging.trace(
+      LogVerbosity.DEBUG,
+      TRACER_NAME,
+      '(' +
+        this.subchannel.getChannelzRef().id +
+        ') ' +
+        this.subchannel.getAddress() +
+        ' service="' +
+        this.serviceName +
+        '" ' +
+        text
+    );
+  }
+
+  private reportState(state: ConnectivityState, errorMessage?: string) {
+    this.trace('Reporting state ' + ConnectivityState[state]);
+    this.listener(state, errorMessage);
+  }
+
+  private startCall() {
+    if (
+      !this.started ||
+      this.disabled ||
+      this.call ||
+      this.subchannel.getConnectivityState() !== ConnectivityState.READY
+    ) {
+      return;
+    }
+    this.trace('Starting health check stream');
+    this.receivedResponse = false;
+    let call: SubchannelCall;
+    try {
+      call = this.subchannel.createCall(
+        new Metadata(),
+        this.authority,
+        HEALTH_WATCH_METHOD,
+        {
+          onReceiveMetadata: () => {},
+          onReceiveMessage: (message: Buffer) => {
+            if (this.call !== call) {
+              return;
+            }
+            this.handleResponse(call, message);
+          },
+          onReceiveStatus: status => {
+            if (this.call !== call) {
+              return;
+            }
+            this.call = null;
+            this.handleStatus(status);
+          },
+        }
+      );
+    } catch (error) {
+      this.trace(
+        'Failed to start health check stream: ' + (error as Error).message
+      );
+      this.reportState(
+        ConnectivityState.TRANSIENT_FAILURE,
+        'Failed to start health check stream: ' + (error as Error).message
+      );
+      this.backoffTimeout.runOnce();
+      return;
+    }
+    this.call = call;
+    const serializedRequest =
+      getHealthServiceDefinition().Watch.requestSerialize({
+        service: this.serviceName,
+      });
+    const framedRequest = Buffer.alloc(serializedRequest.length + 5);
+    framedRequest.writeUInt8(0, 0);
+    framedRequest.writeUInt32BE(serializedRequest.length, 1);
+    serializedRequest.copy(framedRequest, 5);
+    call.sendMessageWithContext({}, framedRequest);
+    call.halfClose();
+    call.startRead();
+  }
+
+  private handleResponse(call: SubchannelCall, message: Buffer) {
+    if (message.readUInt8(0) !== 0) {
+      call.cancelWithStatus(
+        Status.INTERNAL,
+        'Compressed health check responses are not supported'
+      );
+      return;
+    }
+    let response: HealthCheckResponse__Output;
+    try {
+      response = getHealthServiceDefinition().Watch.responseDeserialize(
+        message.subarray(5)
+      );
+    } catch (error) {
+      call.cancelWithStatus(
+        Status.INTERNAL,
+        'Failed to parse health check response: ' + (error as Error).message
+      );
+      return;
+    }
+    this.receivedResponse = true;
+    this.backoffTimeout.reset();
+    if (response.status === 'SERVING') {
+      this.reportState(ConnectivityState.READY);
+    } else {
+      this.reportState(
+        ConnectivityState.TRANSIENT_FAILURE,
+        `Backend reported health status ${response.status}`
+      );
+    }
+    call.startRead();
+  }
+
+  private handleStatus(status: StatusObjectWithRstCode) {
+    this.trace(
+      'Health check stream ended with status ' +
+        Status[status.code] +
+        ': ' +
+        status.details
+    );
+    if (status.code === Status.UNIMPLEMENTED) {
+      this.disabled = true;
+      this.subchannel.addChannelzTrace(
+        'CT_ERROR',
+        'Health checking disabled: the server does not implement the grpc.health.v1.Health service'
+      );
+      logging.log(
+        LogVerbosity.ERROR,
+        `Health checking disabled for ${this.subchannel.getAddress()}: the server does not implement the grpc.health.v1.Health service`
+      );
+      this.reportState(ConnectivityState.READY);
+      return;
+    }
+    this.reportState(
+      ConnectivityState.TRANSIENT_FAILURE,
+      'Health check stream ended with status ' +
+        Status[status.code] +
+        ': ' +
+        status.details
+    );
+    /* If the stream worked for a while, restart it immediately. Otherwise,
+     * wait for the backoff timer. */
+    if (this.receivedResponse) {
+      this.startCall();
+    } else {
+      this.backoffTimeout.runOnce();
+    }
+  }
+
+  private cancelCall() {
+    if (this.call) {
+      const call = this.call;
+      this.call = null;
+      call.cancelWithStatus(Status.CANCELLED, 'Health check stopped');
+    }
+  }
+
+  /**
+   * Start watching the backend's health. The listener is called whenever a
+   * health check stream reports a new status or ends.
+   */
+  start() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.subchannel.addConnectivityStateListener(this.subchannelStateListener);
+    process.nextTick(() => this.startCall());
+  }
+
+  stop() {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+    this.subchannel.removeConnectivityStateListener(
+      this.subchannelStateListener
+    );
+    this.backoffTimeout.stop();
+    this.cancelCall();
+  }
+}
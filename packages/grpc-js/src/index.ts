@@ -23,7 +23,7 @@ import {
   ServiceError,
 } from './call';
 import { CallCredentials, OAuth2Client } from './call-credentials';
-import { StatusObject } from './call-interface';
+import { PartialStatusObject, StatusObject } from './call-interface';
 import { Channel, ChannelImplementation } from './channel';
 import { CompressionAlgorithms } from './compression-algorithms';
 import { ConnectivityState } from './connectivity-state';
@@ -52,6 +52,8 @@ import {
   ServerOptions,
   UntypedHandleCall,
   UntypedServiceImplementation,
+  UntypedHandleAsyncCall,
+  UntypedAsyncServiceImplementation,
 } from './server';
 import { KeyCertPair, ServerCredentials } from './server-credentials';
 import { StatusBuilder } from './status-builder';
@@ -60,6 +62,10 @@ import {
   handleServerStreamingCall,
   handleClientStreamingCall,
   handleUnaryCall,
+  handleAsyncBidiStreamingCall,
+  handleAsyncServerStreamingCall,
+  handleAsyncClientStreamingCall,
+  handleAsyncUnaryCall,
   sendUnaryData,
   ServerUnaryCall,
   ServerReadableStream,
@@ -174,6 +180,7 @@ export {
   CallOptions,
   MethodDefinition,
   StatusObject,
+  PartialStatusObject,
   ServiceError,
   ServerUnaryCall,
   ServerReadableStream,
@@ -183,6 +190,8 @@ export {
   ServiceDefinition,
   UntypedHandleCall,
   UntypedServiceImplementation,
+  UntypedHandleAsyncCall,
+  UntypedAsyncServiceImplementation,
   VerifyOptions
 };
 
@@ -193,6 +202,10 @@ export {
   handleServerStreamingCall,
   handleUnaryCall,
   handleClientStreamingCall,
+  handleAsyncBidiStreamingCall,
+  handleAsyncServerStreamingCall,
+  handleAsyncUnaryCall,
+  handleAsyncClientStreamingCall,
 };
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -237,8 +250,23 @@ export const getClientChannel = (client: Client) => {
 
 export { StatusBuilder };
 
+export {
+  ErrorDetail,
+  ErrorDetail__Output,
+  UnknownErrorDetail,
+  STATUS_DETAILS_METADATA_KEY,
+  serializeStatusDetails,
+  deserializeStatusDetails,
+} from './error-details';
+
 export { Listener, InterceptingListener } from './call-interface';
 
+export {
+  CallContextPropagationOptions,
+  DEFAULT_PROPAGATED_METADATA_KEYS,
+  getCurrentServerCall,
+} from './call-context';
+
 export {
   Requester,
   ListenerBuilder,
@@ -255,14 +283,27 @@ export {
   GrpcObject,
   ServiceClientConstructor,
   ProtobufTypeDefinition,
+  ClientConstructorOptions,
 } from './make-client';
 
+export {
+  RequestIterable,
+  PromiseClientCall,
+  ResponseIterable,
+} from './promise-client';
+
 export { ChannelOptions } from './channel-options';
 
 export { getChannelzServiceDefinition, getChannelzHandlers } from './channelz';
 
 export { addAdminServicesToServer } from './admin';
 
+export {
+  ChannelzHttpHandler,
+  ChannelzHttpHandlerOptions,
+  createChannelzHttpHandler,
+} from './channelz-http';
+
 export { ServiceConfig, LoadBalancingConfig, MethodConfig, RetryPolicy } from './service-config';
 
 export {
@@ -274,9 +315,31 @@ export {
   ResponderBuilder,
   ServerInterceptingCallInterface,
   ServerInterceptingCall,
-  ServerInterceptor
+  ServerInterceptor,
+  InterceptingServerListener,
+  ConnectionInfo
 } from './server-interceptors';
 
+export {
+  AccessLogEntry,
+  createAccessLogInterceptor,
+  CredentialVerifier,
+  AuthInterceptorOptions,
+  ApiKeyAuthInterceptorOptions,
+  createBearerTokenAuthInterceptor,
+  createApiKeyAuthInterceptor,
+  RequestValidator,
+  createRequestValidationInterceptor,
+  DeadlineInterceptorOptions,
+  createDeadlineInterceptor,
+  RecoveryInterceptorOptions,
+  createRecoveryInterceptor,
+} from './standard-server-interceptors';
+
+export { AuthContext } from './auth-context';
+
+export { ServerMetricRecorder, PerRequestMetricRecorder } from './orca';
+
 import * as experimental from './experimental';
 export { experimental };
 
@@ -286,6 +349,9 @@ import * as resolver_ip from './resolver-ip';
 import * as load_balancer_pick_first from './load-balancer-pick-first';
 import * as load_balancer_round_robin from './load-balancer-round-robin';
 import * as load_balancer_outlier_detection from './load-balancer-outlier-detection';
+import * as load_balancer_weighted_round_robin from './load-balancer-weighted-round-robin';
+import * as load_balancer_least_request from './load-balancer-least-request';
+import * as load_balancer_rls from './load-balancer-rls';
 import * as channelz from './channelz';
 import { Deadline } from './deadline';
 
@@ -296,5 +362,8 @@ import { Deadline } from './deadline';
   load_balancer_pick_first.setup();
   load_balancer_round_robin.setup();
   load_balancer_outlier_detection.setup();
+  load_balancer_weighted_round_robin.setup();
+  load_balancer_least_request.setup();
+  load_balancer_rls.setup();
   channelz.setup();
 })();
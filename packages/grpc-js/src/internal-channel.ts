@@ -52,6 +52,7 @@ import {
 import { LoadBalancingCall } from './load-balancing-call';
 import { CallCredentials } from './call-credentials';
 import { Call, CallStreamOptions, StatusObject } from './call-interface';
+import { CallAttemptTracer, CallTracer } from './call-tracer';
 import { Deadline, deadlineToString } from './deadline';
 import { ResolvingCall } from './resolving-call';
 import { getNextCallNumber } from './call-number';
@@ -59,13 +60,18 @@ import { restrictControlPlaneStatusCode } from './control-plane-status';
 import {
   MessageBufferTracker,
   RetryingCall,
+  RetryRejectionReason,
   RetryThrottler,
+  RetryThrottlingState,
 } from './retrying-call';
+import { getRetryBudget, normalizeTarget } from './retry-budget';
 import {
   BaseSubchannelWrapper,
   ConnectivityStateListener,
   SubchannelInterface,
 } from './subchannel-interface';
+import { HealthCheckClient } from './health-check-client';
+import { BackoffOptions } from './backoff-timeout';
 
 /**
  * See https://nodejs.org/api/timers.html#timers_setinterval_callback_delay_args
@@ -104,6 +110,20 @@ type GetConfigResult =
 
 const RETRY_THROTTLER_MAP: Map<string, RetryThrottler> = new Map();
 
+/**
+ * Get the current state of the retry throttling policy from the service
+ * config of channels with the given target. Channels with the same target
+ * share the same tokens.
+ * @param target The target that channels are constructed with
+ * @returns The state, or null if the service config has no retry throttling
+ *     policy, or no channel with the target has received a service config
+ */
+export function getRetryThrottlingState(
+  target: string
+): RetryThrottlingState | null {
+  return RETRY_THROTTLER_MAP.get(normalizeTarget(target))?.getState() ?? null;
+}
+
 const DEFAULT_RETRY_BUFFER_SIZE_BYTES = 1 << 24; // 16 MB
 const DEFAULT_PER_RPC_RETRY_BUFFER_SIZE_BYTES = 1 << 20; // 1 MB
 
@@ -113,9 +133,14 @@ class ChannelSubchannelWrapper
 {
   private refCount = 0;
   private subchannelStateListener: ConnectivityStateListener;
+  private healthCheckServiceName: string | null = null;
+  private healthCheckClient: HealthCheckClient | null = null;
   constructor(
     childSubchannel: SubchannelInterface,
-    private channel: InternalChannel
+    private channel: InternalChannel,
+    private authority: string,
+    private backoffOptions: BackoffOptions,
+    healthCheckServiceName: string | null
   ) {
     super(childSubchannel);
     this.subchannelStateListener = (
@@ -125,19 +150,61 @@ class ChannelSubchannelWrapper
       keepaliveTime
     ) => {
       channel.throttleKeepalive(keepaliveTime);
+      /* The backend's health is unknown on a new connection until the health
+       * check stream reports it. */
+      if (this.healthCheckClient && newState !== ConnectivityState.READY) {
+        this.setHealthy(false);
+      }
     };
     childSubchannel.addConnectivityStateListener(this.subchannelStateListener);
+    this.setHealthCheckServiceName(healthCheckServiceName);
+  }
+
+  /**
+   * Start health checking the backend with the given service name, or stop
+   * health checking if the name is null. The result is reported to load
+   * balancing policies through the subchannel's health state.
+   * @param serviceName
+   */
+  setHealthCheckServiceName(serviceName: string | null) {
+    if (serviceName === this.healthCheckServiceName) {
+      return;
+    }
+    this.healthCheckServiceName = serviceName;
+    this.healthCheckClient?.stop();
+    this.healthCheckClient = null;
+    if (serviceName === null) {
+      this.setHealthy(true);
+      return;
+    }
+    this.setHealthy(false);
+    this.healthCheckClient = new HealthCheckClient(
+      this.child.getRealSubchannel(),
+      serviceName,
+      this.authority,
+      this.backoffOptions,
+      state => {
+        this.setHealthy(state === ConnectivityState.READY);
+      }
+    );
+    if (this.refCount > 0) {
+      this.healthCheckClient.start();
+    }
   }
 
   ref(): void {
     this.child.ref();
     this.refCount += 1;
+    if (this.refCount === 1) {
+      this.healthCheckClient?.start();
+    }
   }
 
   unref(): void {
     this.child.unref();
     this.refCount -= 1;
     if (this.refCount <= 0) {
+      this.healthCheckClient?.stop();
       this.child.removeConnectivityStateListener(this.subchannelStateListener);
       this.channel.removeWrappedSubchannel(this);
     }
@@ -180,6 +247,16 @@ export class InternalChannel {
   private keepaliveTime: number;
   private readonly wrappedSubchannels: Set<ChannelSubchannelWrapper> =
     new Set();
+  /**
+   * The service name from the healthCheckConfig in the most recent service
+   * config, or null if client-side health checking is disabled.
+   */
+  private healthCheckServiceName: string | null = null;
+  /**
+   * The mechanism that rejected the most recent retry on this channel, or
+   * null if it was allowed.
+   */
+  private retryRejectedBy: RetryRejectionReason | null = null;
 
   private callCount = 0;
   private idleTimer: NodeJS.Timeout | null = null;
@@ -279,13 +356,16 @@ export class InternalChannel {
     const channelControlHelper: ChannelControlHelper = {
       createSubchannel: (
         subchannelAddress: SubchannelAddress,
-        subchannelArgs: ChannelOptions
+        subchannelArgs: ChannelOptions,
+        credentialsOverride?: ChannelCredentials | null
       ) => {
         const subchannel = this.subchannelPool.getOrCreateSubchannel(
           this.target,
           subchannelAddress,
           Object.assign({}, this.options, subchannelArgs),
-          this.credentials
+          credentialsOverride
+            ? this.credentials._getSubchannelCredentials(credentialsOverride)
+            : this.credentials
         );
         subchannel.throttleKeepalive(this.keepaliveTime);
         if (this.channelzEnabled) {
@@ -297,7 +377,13 @@ export class InternalChannel {
         }
         const wrappedSubchannel = new ChannelSubchannelWrapper(
           subchannel,
-          this
+          this,
+          this.defaultAuthority,
+          {
+            initialDelay: this.options['grpc.initial_reconnect_backoff_ms'],
+            maxDelay: this.options['grpc.max_reconnect_backoff_ms'],
+          },
+          this.healthCheckServiceName
         );
         this.wrappedSubchannels.add(wrappedSubchannel);
         return wrappedSubchannel;
@@ -330,12 +416,23 @@ export class InternalChannel {
           this.childrenTracker.unrefChild(child);
         }
       },
+      getChannelCredentials: () => {
+        return this.credentials;
+      },
     };
     this.resolvingLoadBalancer = new ResolvingLoadBalancer(
       this.target,
       channelControlHelper,
       options,
       (serviceConfig, configSelector) => {
+        const healthCheckServiceName =
+          serviceConfig.healthCheckConfig?.serviceName ?? null;
+        if (healthCheckServiceName !== this.healthCheckServiceName) {
+          this.healthCheckServiceName = healthCheckServiceName;
+          for (const wrappedSubchannel of this.wrappedSubchannels) {
+            wrappedSubchannel.setHealthCheckServiceName(healthCheckServiceName);
+          }
+        }
         if (serviceConfig.retryThrottling) {
           RETRY_THROTTLER_MAP.set(
             this.getTarget(),
@@ -525,10 +622,19 @@ export class InternalChannel {
     this.wrappedSubchannels.delete(wrappedSubchannel);
   }
 
-  doPick(metadata: Metadata, extraPickInfo: { [key: string]: string }) {
+  doPick(
+    metadata: Metadata,
+    extraPickInfo: { [key: string]: string },
+    method?: string,
+    host?: string,
+    callAttributes?: Map<string, unknown>
+  ) {
     return this.currentPicker.pick({
       metadata: metadata,
       extraPickInfo: extraPickInfo,
+      method: method,
+      host: host,
+      callAttributes: callAttributes,
     });
   }
 
@@ -633,7 +739,8 @@ export class InternalChannel {
     method: string,
     host: string,
     credentials: CallCredentials,
-    deadline: Deadline
+    deadline: Deadline,
+    attemptTracer: CallAttemptTracer | null
   ): LoadBalancingCall {
     const callNumber = getNextCallNumber();
     this.trace(
@@ -646,7 +753,8 @@ export class InternalChannel {
       host,
       credentials,
       deadline,
-      callNumber
+      callNumber,
+      attemptTracer
     );
   }
 
@@ -655,7 +763,8 @@ export class InternalChannel {
     method: string,
     host: string,
     credentials: CallCredentials,
-    deadline: Deadline
+    deadline: Deadline,
+    callTracer: CallTracer | null
   ): RetryingCall {
     const callNumber = getNextCallNumber();
     this.trace(
@@ -670,7 +779,9 @@ export class InternalChannel {
       deadline,
       callNumber,
       this.retryBufferTracker,
-      RETRY_THROTTLER_MAP.get(this.getTarget())
+      RETRY_THROTTLER_MAP.get(this.getTarget()),
+      getRetryBudget(this.getTarget()),
+      callTracer
     );
   }
 
@@ -679,16 +790,27 @@ export class InternalChannel {
     method: string,
     host: string,
     credentials: CallCredentials,
-    deadline: Deadline
+    deadline: Deadline,
+    callTracer: CallTracer | null
   ): Call {
     // Create a RetryingCall if retries are enabled
     if (this.options['grpc.enable_retries'] === 0) {
+      /* Without retries, the LoadBalancingCall is the only attempt of the
+       * call. */
+      const attemptTracer =
+        callTracer?.startAttempt({
+          target: this.getTarget(),
+          method,
+          previousRpcAttempts: 0,
+          transparentRetry: false,
+        }) ?? null;
       return this.createLoadBalancingCall(
         callConfig,
         method,
         host,
         credentials,
-        deadline
+        deadline,
+        attemptTracer
       );
     } else {
       return this.createRetryingCall(
@@ -696,7 +818,8 @@ export class InternalChannel {
         method,
         host,
         credentials,
-        deadline
+        deadline,
+        callTracer
       );
     }
   }
@@ -706,7 +829,8 @@ export class InternalChannel {
     deadline: Deadline,
     host: string | null | undefined,
     parentCall: ServerSurfaceCall | null,
-    propagateFlags: number | null | undefined
+    propagateFlags: number | null | undefined,
+    callTracer: CallTracer | null
   ): ResolvingCall {
     const callNumber = getNextCallNumber();
     this.trace(
@@ -722,6 +846,7 @@ export class InternalChannel {
       flags: propagateFlags ?? Propagate.DEFAULTS,
       host: host ?? this.defaultAuthority,
       parentCall: parentCall,
+      callTracer: callTracer,
     };
 
     const call = new ResolvingCall(
@@ -812,12 +937,44 @@ export class InternalChannel {
     return this.channelzRef;
   }
 
+  /**
+   * Add a channelz trace event when retries on this channel start or stop
+   * being rejected by the retry throttling policy or the retry budget.
+   * @param rejectedBy The mechanism that rejected the most recent retry, or
+   *     null if it was allowed
+   */
+  reportRetryRejection(rejectedBy: RetryRejectionReason | null) {
+    if (rejectedBy === this.retryRejectedBy) {
+      return;
+    }
+    this.retryRejectedBy = rejectedBy;
+    if (!this.channelzEnabled) {
+      return;
+    }
+    if (rejectedBy === 'THROTTLING') {
+      const state = RETRY_THROTTLER_MAP.get(this.getTarget())?.getState();
+      this.channelzTrace.addTrace(
+        'CT_WARNING',
+        `Retries throttled: ${state?.tokens} of ${state?.maxTokens} tokens available`
+      );
+    } else if (rejectedBy === 'BUDGET') {
+      const state = getRetryBudget(this.getTarget())?.getState();
+      this.channelzTrace.addTrace(
+        'CT_WARNING',
+        `Retries rejected by the retry budget: ${state?.retries} retries for ${state?.calls} calls`
+      );
+    } else {
+      this.channelzTrace.addTrace('CT_INFO', 'Retries allowed again');
+    }
+  }
+
   createCall(
     method: string,
     deadline: Deadline,
     host: string | null | undefined,
     parentCall: ServerSurfaceCall | null,
-    propagateFlags: number | null | undefined
+    propagateFlags: number | null | undefined,
+    callTracer?: CallTracer | null
   ): Call {
     if (typeof method !== 'string') {
       throw new TypeError('Channel#createCall: method must be a string');
@@ -835,7 +992,8 @@ export class InternalChannel {
       deadline,
       host,
       parentCall,
-      propagateFlags
+      propagateFlags,
+      callTracer ?? null
     );
   }
 }
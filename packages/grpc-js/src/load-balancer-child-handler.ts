@@ -23,6 +23,7 @@ import {
 } from './load-balancer';
 import { Endpoint, SubchannelAddress } from './subchannel-address';
 import { ChannelOptions } from './channel-options';
+import { ChannelCredentials } from './channel-credentials';
 import { ConnectivityState } from './connectivity-state';
 import { Picker } from './picker';
 import { ChannelRef, SubchannelRef } from './channelz';
@@ -40,11 +41,13 @@ export class ChildLoadBalancerHandler implements LoadBalancer {
     constructor(private parent: ChildLoadBalancerHandler) {}
     createSubchannel(
       subchannelAddress: SubchannelAddress,
-      subchannelArgs: ChannelOptions
+      subchannelArgs: ChannelOptions,
+      credentialsOverride?: ChannelCredentials | null
     ): SubchannelInterface {
       return this.parent.channelControlHelper.createSubchannel(
         subchannelAddress,
-        subchannelArgs
+        subchannelArgs,
+        credentialsOverride
       );
     }
     updateState(connectivityState: ConnectivityState, picker: Picker): void {
@@ -75,6 +78,9 @@ export class ChildLoadBalancerHandler implements LoadBalancer {
     removeChannelzChild(child: ChannelRef | SubchannelRef) {
       this.parent.channelControlHelper.removeChannelzChild(child);
     }
+    getChannelCredentials(): ChannelCredentials {
+      return this.parent.channelControlHelper.getChannelCredentials();
+    }
 
     private calledByPendingChild(): boolean {
       return this.child === this.parent.pendingChild;
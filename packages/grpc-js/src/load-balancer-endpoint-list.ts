@@ -0,0 +1,187 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { ConnectivityState } from './connectivity-state';
+import { LogVerbosity } from './constants';
+import { ChannelControlHelper, LoadBalancer } from './load-balancer';
+import { LeafLoadBalancer } from './load-balancer-pick-first';
+import * as logging from './logging';
+import { Picker, QueuePicker } from './picker';
+import { Endpoint, EndpointMap } from './subchannel-address';
+
+export interface EndpointListEntry {
+  child: LeafLoadBalancer;
+}
+
+/**
+ * The children of a load balancing policy that has a pick_first child for
+ * each endpoint, keeps all of them connected, and picks among the READY
+ * ones, like weighted_round_robin and least_request. Children are kept
+ * across endpoint list updates for endpoints that are still present.
+ */
+export class EndpointList<EntryType extends EndpointListEntry> {
+  private entries: EndpointMap<EntryType> = new EndpointMap();
+  /**
+   * The entries in the order of the most recent endpoint list.
+   */
+  private entryList: EntryType[] = [];
+  private currentState: ConnectivityState = ConnectivityState.IDLE;
+  private updatesPaused = false;
+
+  /**
+   * @param channelControlHelper The helper of the policy that owns the list,
+   *     which the aggregate state is reported to
+   * @param parent The policy that owns the list
+   * @param tracerName The tracer to log state changes with
+   * @param createReadyPicker Create the picker that is used when any child
+   *     is READY
+   * @param onStateChange Called with each aggregate state before it is
+   *     reported
+   */
+  constructor(
+    private readonly channelControlHelper: ChannelControlHelper,
+    private readonly parent: LoadBalancer,
+    private readonly tracerName: string,
+    private readonly createReadyPicker: (readyEntries: EntryType[]) => Picker,
+    private readonly onStateChange?: (state: ConnectivityState) => void
+  ) {}
+
+  private trace(text: string): void {
+    logging.trace(LogVerbosity.DEBUG, this.tracerName, text);
+  }
+
+  private countEntriesWithState(state: ConnectivityState) {
+    return this.entryList.filter(
+      entry => entry.child.getConnectivityState() === state
+    ).length;
+  }
+
+  getReadyEntries(): EntryType[] {
+    return this.entryList.filter(
+      entry => entry.child.getConnectivityState() === ConnectivityState.READY
+    );
+  }
+
+  getState(): ConnectivityState {
+    return this.currentState;
+  }
+
+  /**
+   * Create children for new endpoints, destroy the children of endpoints
+   * that were removed, and then report the new aggregate state.
+   * @param endpointList
+   * @param createEntry Create the entry for a new endpoint
+   * @param updateEntry Update the entry of an endpoint that was already in
+   *     the list
+   */
+  updateEndpoints(
+    endpointList: Endpoint[],
+    createEntry: (endpoint: Endpoint) => EntryType,
+    updateEntry: (entry: EntryType) => void
+  ) {
+    this.updatesPaused = true;
+    for (const entry of this.entries.deleteMissing(endpointList)) {
+      entry.child.destroy();
+    }
+    this.entryList = endpointList.map(endpoint => {
+      let entry = this.entries.get(endpoint);
+      if (entry) {
+        entry.child.updateEndpoint(endpoint);
+        updateEntry(entry);
+      } else {
+        entry = createEntry(endpoint);
+        this.entries.set(endpoint, entry);
+        entry.child.startConnecting();
+      }
+      return entry;
+    });
+    this.updatesPaused = false;
+    this.calculateAndUpdateState();
+  }
+
+  /**
+   * Report the aggregate state of the children. Children call this when
+   * their state changes.
+   */
+  calculateAndUpdateState() {
+    if (this.updatesPaused) {
+      return;
+    }
+    if (this.countEntriesWithState(ConnectivityState.READY) > 0) {
+      this.updateState(
+        ConnectivityState.READY,
+        this.createReadyPicker(this.getReadyEntries())
+      );
+    } else if (this.countEntriesWithState(ConnectivityState.CONNECTING) > 0) {
+      this.updateState(
+        ConnectivityState.CONNECTING,
+        new QueuePicker(this.parent)
+      );
+    } else if (
+      this.countEntriesWithState(ConnectivityState.TRANSIENT_FAILURE) > 0
+    ) {
+      /* The failing children's pickers report their connection errors, so
+       * use one of them to fail picks. */
+      const failedEntry = this.entryList.find(
+        entry =>
+          entry.child.getConnectivityState() ===
+          ConnectivityState.TRANSIENT_FAILURE
+      )!;
+      this.updateState(
+        ConnectivityState.TRANSIENT_FAILURE,
+        failedEntry.child.getPicker()
+      );
+    } else {
+      this.updateState(ConnectivityState.IDLE, new QueuePicker(this.parent));
+    }
+    /* Like round_robin, keep all children connected. */
+    for (const entry of this.entryList) {
+      if (entry.child.getConnectivityState() === ConnectivityState.IDLE) {
+        entry.child.exitIdle();
+      }
+    }
+  }
+
+  private updateState(newState: ConnectivityState, picker: Picker) {
+    if (newState !== this.currentState) {
+      this.trace(
+        ConnectivityState[this.currentState] +
+          ' -> ' +
+          ConnectivityState[newState]
+      );
+    }
+    this.currentState = newState;
+    this.onStateChange?.(newState);
+    this.channelControlHelper.updateState(newState, picker);
+  }
+
+  exitIdle(): void {
+    /* The aggregate state is only IDLE if there are no endpoints, so there is
+     * no meaningful action that can be taken here. */
+  }
+
+  /**
+   * Destroy all of the children.
+   */
+  clear(): void {
+    for (const entry of this.entryList) {
+      entry.child.destroy();
+    }
+    this.entryList = [];
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,282 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// https://github.com/grpc/proposal/blob/master/A48-xds-least-request-lb-policy.md
+
+import { ChannelOptions } from './channel-options';
+import { LogVerbosity } from './constants';
+import {
+  ChannelControlHelper,
+  createChildChannelControlHelper,
+  LoadBalancer,
+  registerLoadBalancerType,
+  TypedLoadBalancingConfig,
+} from './load-balancer';
+import { EndpointList } from './load-balancer-endpoint-list';
+import { LeafLoadBalancer } from './load-balancer-pick-first';
+import * as logging from './logging';
+import { PickArgs, Picker, PickResult, PickResultType } from './picker';
+import { Endpoint, endpointToString } from './subchannel-address';
+import {
+  BaseSubchannelWrapper,
+  SubchannelInterface,
+} from './subchannel-interface';
+
+const TRACER_NAME = 'least_request';
+
+function trace(text: string): void {
+  logging.trace(LogVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const TYPE_NAME = 'least_request';
+
+const DEFAULT_CHOICE_COUNT = 2;
+const MAX_CHOICE_COUNT = 10;
+
+export interface LeastRequestRawConfig {
+  choiceCount?: number;
+}
+
+class LeastRequestLoadBalancingConfig implements TypedLoadBalancingConfig {
+  private readonly choiceCount: number;
+
+  constructor(choiceCount: number) {
+    /* Values above the maximum are capped instead of rejected, as specified
+     * in A48. */
+    this.choiceCount = Math.min(choiceCount, MAX_CHOICE_COUNT);
+  }
+
+  getLoadBalancerName(): string {
+    return TYPE_NAME;
+  }
+
+  toJsonObject(): object {
+    return {
+      [TYPE_NAME]: {
+        choiceCount: this.choiceCount,
+      },
+    };
+  }
+
+  getChoiceCount() {
+    return this.choiceCount;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  static createFromJson(obj: any) {
+    if ('choiceCount' in obj && obj.choiceCount !== undefined) {
+      if (
+        !(
+          typeof obj.choiceCount === 'number' &&
+          Number.isInteger(obj.choiceCount)
+        )
+      ) {
+        throw new Error(
+          `least_request config choiceCount parse error: expected integer, got ${typeof obj.choiceCount}`
+        );
+      }
+      if (obj.choiceCount < 2) {
+        throw new Error(
+          `least_request config choiceCount parse error: must be at least 2, got ${obj.choiceCount}`
+        );
+      }
+      return new LeastRequestLoadBalancingConfig(obj.choiceCount);
+    }
+    return new LeastRequestLoadBalancingConfig(DEFAULT_CHOICE_COUNT);
+  }
+}
+
+/**
+ * The number of outstanding requests on all of the subchannels of an
+ * endpoint.
+ */
+class OutstandingRequestCounter {
+  private count = 0;
+  increment() {
+    this.count += 1;
+  }
+  decrement() {
+    this.count -= 1;
+  }
+  getCount() {
+    return this.count;
+  }
+}
+
+class LeastRequestSubchannelWrapper
+  extends BaseSubchannelWrapper
+  implements SubchannelInterface
+{
+  constructor(
+    childSubchannel: SubchannelInterface,
+    private counter: OutstandingRequestCounter
+  ) {
+    super(childSubchannel);
+  }
+
+  onCallStarted() {
+    this.counter.increment();
+  }
+
+  onCallEnded() {
+    this.counter.decrement();
+  }
+
+  getWrappedSubchannel(): SubchannelInterface {
+    return this.child;
+  }
+}
+
+interface LeastRequestPickerChild {
+  picker: Picker;
+  counter: OutstandingRequestCounter;
+}
+
+class LeastRequestPicker implements Picker {
+  constructor(
+    private readonly children: LeastRequestPickerChild[],
+    private readonly choiceCount: number
+  ) {}
+
+  pick(pickArgs: PickArgs): PickResult {
+    /* Candidates are chosen with replacement, so the same child can be
+     * chosen more than once. */
+    let selected: LeastRequestPickerChild | null = null;
+    for (let i = 0; i < this.choiceCount; i++) {
+      const candidate =
+        this.children[Math.floor(Math.random() * this.children.length)];
+      if (
+        selected === null ||
+        candidate.counter.getCount() < selected.counter.getCount()
+      ) {
+        selected = candidate;
+      }
+    }
+    const pickResult = selected!.picker.pick(pickArgs);
+    if (
+      pickResult.pickResultType !== PickResultType.COMPLETE ||
+      !(pickResult.subchannel instanceof LeastRequestSubchannelWrapper)
+    ) {
+      return pickResult;
+    }
+    const subchannelWrapper = pickResult.subchannel;
+    return {
+      ...pickResult,
+      subchannel: subchannelWrapper.getWrappedSubchannel(),
+      onCallStarted: () => {
+        subchannelWrapper.onCallStarted();
+        pickResult.onCallStarted?.();
+      },
+      onCallEnded: (statusCode, details, metadata) => {
+        subchannelWrapper.onCallEnded();
+        pickResult.onCallEnded?.(statusCode, details, metadata);
+      },
+    };
+  }
+}
+
+interface ChildEntry {
+  child: LeafLoadBalancer;
+  counter: OutstandingRequestCounter;
+}
+
+export class LeastRequestLoadBalancer implements LoadBalancer {
+  private children: EndpointList<ChildEntry>;
+  private latestConfig: LeastRequestLoadBalancingConfig | null = null;
+
+  constructor(
+    private readonly channelControlHelper: ChannelControlHelper,
+    private readonly options: ChannelOptions
+  ) {
+    this.children = new EndpointList(
+      channelControlHelper,
+      this,
+      TRACER_NAME,
+      readyEntries =>
+        new LeastRequestPicker(
+          readyEntries.map(entry => ({
+            picker: entry.child.getPicker(),
+            counter: entry.counter,
+          })),
+          this.latestConfig!.getChoiceCount()
+        )
+    );
+  }
+
+  private createChild(endpoint: Endpoint): ChildEntry {
+    const counter = new OutstandingRequestCounter();
+    return {
+      counter,
+      child: new LeafLoadBalancer(
+        endpoint,
+        createChildChannelControlHelper(this.channelControlHelper, {
+          createSubchannel: (subchannelAddress, subchannelArgs) =>
+            new LeastRequestSubchannelWrapper(
+              this.channelControlHelper.createSubchannel(
+                subchannelAddress,
+                subchannelArgs
+              ),
+              counter
+            ),
+          updateState: (connectivityState, picker) => {
+            this.children.calculateAndUpdateState();
+          },
+        }),
+        this.options
+      ),
+    };
+  }
+
+  updateAddressList(
+    endpointList: Endpoint[],
+    lbConfig: TypedLoadBalancingConfig
+  ): void {
+    if (!(lbConfig instanceof LeastRequestLoadBalancingConfig)) {
+      return;
+    }
+    trace('Connect to endpoint list ' + endpointList.map(endpointToString));
+    this.latestConfig = lbConfig;
+    /* Children are kept across updates so that their outstanding request
+     * counts are preserved. */
+    this.children.updateEndpoints(
+      endpointList,
+      endpoint => this.createChild(endpoint),
+      () => {}
+    );
+  }
+
+  exitIdle(): void {
+    this.children.exitIdle();
+  }
+  resetBackoff(): void {
+    // This LB policy has no backoff to reset
+  }
+  destroy(): void {
+    this.children.clear();
+  }
+  getTypeName(): string {
+    return TYPE_NAME;
+  }
+}
+
+export function setup() {
+  registerLoadBalancerType(
+    TYPE_NAME,
+    LeastRequestLoadBalancer,
+    LeastRequestLoadBalancingConfig
+  );
+}
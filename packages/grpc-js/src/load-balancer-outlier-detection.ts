@@ -16,6 +16,7 @@
  */
 
 import { ChannelOptions } from './channel-options';
+import { ChannelCredentials } from './channel-credentials';
 import { ConnectivityState } from './connectivity-state';
 import { LogVerbosity, Status } from './constants';
 import { Duration, durationToMs, isDuration, msToDuration } from './duration';
@@ -427,13 +428,13 @@ class OutlierDetectionPicker implements Picker {
       if (mapEntry) {
         let onCallEnded = wrappedPick.onCallEnded;
         if (this.countCalls) {
-          onCallEnded = statusCode => {
+          onCallEnded = (statusCode, details, metadata) => {
             if (statusCode === Status.OK) {
               mapEntry.counter.addSuccess();
             } else {
               mapEntry.counter.addFailure();
             }
-            wrappedPick.onCallEnded?.(statusCode);
+            wrappedPick.onCallEnded?.(statusCode, details, metadata);
           };
         }
         return {
@@ -475,11 +476,13 @@ export class OutlierDetectionLoadBalancer implements LoadBalancer {
       createChildChannelControlHelper(channelControlHelper, {
         createSubchannel: (
           subchannelAddress: SubchannelAddress,
-          subchannelArgs: ChannelOptions
+          subchannelArgs: ChannelOptions,
+          credentialsOverride?: ChannelCredentials | null
         ) => {
           const originalSubchannel = channelControlHelper.createSubchannel(
             subchannelAddress,
-            subchannelArgs
+            subchannelArgs,
+            credentialsOverride
           );
           const mapEntry =
             this.entryMap.getForSubchannelAddress(subchannelAddress);
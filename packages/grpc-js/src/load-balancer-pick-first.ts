@@ -593,6 +593,10 @@ export class LeafLoadBalancer {
     }
   }
 
+  exitIdle() {
+    this.pickFirstBalancer.exitIdle();
+  }
+
   getConnectivityState() {
     return this.latestState;
   }
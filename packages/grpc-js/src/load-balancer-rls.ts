@@ -0,0 +1,1121 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// https://github.com/grpc/grpc-proto/blob/master/grpc/lookup/v1/rls_config.proto
+
+import type { loadSync } from '@grpc/proto-loader';
+import { BackoffTimeout } from './backoff-timeout';
+import { ChannelOptions } from './channel-options';
+import { Client } from './client';
+import { ConnectivityState } from './connectivity-state';
+import { LogVerbosity, Status } from './constants';
+import { Duration, durationToMs, isDuration } from './duration';
+import { ProtoGrpcType as RlsProtoGrpcType } from './generated/rls';
+import { RouteLookupRequest } from './generated/grpc/lookup/v1/RouteLookupRequest';
+import { RouteLookupResponse__Output } from './generated/grpc/lookup/v1/RouteLookupResponse';
+import { RouteLookupServiceDefinition } from './generated/grpc/lookup/v1/RouteLookupService';
+import {
+  ChannelControlHelper,
+  createChildChannelControlHelper,
+  LoadBalancer,
+  registerLoadBalancerType,
+  selectLbConfigFromList,
+  TypedLoadBalancingConfig,
+} from './load-balancer';
+import { ChildLoadBalancerHandler } from './load-balancer-child-handler';
+import * as logging from './logging';
+import { loadPackageDefinition } from './make-client';
+import { Metadata } from './metadata';
+import {
+  PickArgs,
+  Picker,
+  PickResult,
+  PickResultType,
+  QueuePicker,
+  UnavailablePicker,
+} from './picker';
+import { LoadBalancingConfig } from './service-config';
+import { StatusObject } from './call-interface';
+import { Endpoint } from './subchannel-address';
+
+const TRACER_NAME = 'rls';
+
+function trace(text: string): void {
+  logging.trace(LogVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const TYPE_NAME = 'rls_experimental';
+
+const DEFAULT_LOOKUP_SERVICE_TIMEOUT_MS = 10_000;
+const MAX_MAX_AGE_MS = 5 * 60_000;
+const MAX_CACHE_SIZE_BYTES = 5 * 1024 * 1024;
+/**
+ * The approximate size of the fields of a cache entry other than its key,
+ * targets, and header data.
+ */
+const CACHE_ENTRY_OVERHEAD_BYTES = 128;
+const CACHE_CLEANUP_INTERVAL_MS = 60_000;
+
+const THROTTLE_WINDOW_MS = 30_000;
+const THROTTLE_RATIO_FOR_SUCCESSES = 2;
+const THROTTLE_PADDING = 8;
+
+/**
+ * The metadata key that the header_data from the RLS response is sent in
+ */
+const RLS_DATA_METADATA_KEY = 'x-google-rls-data';
+
+/**
+ * The value of the target field that is used to validate the child policy
+ * config when there is no default target.
+ */
+const FAKE_TARGET_FIELD_VALUE = 'fake_target_field_value';
+
+/**
+ * Recognizes a number with up to 9 digits after the decimal point, followed by
+ * an "s", representing a number of seconds.
+ */
+const DURATION_REGEX = /^\d+(\.\d{1,9})?s$/;
+
+let loadedRlsServiceDefinition: RouteLookupServiceDefinition | null = null;
+
+function getRlsServiceDefinition(): RouteLookupServiceDefinition {
+  if (loadedRlsServiceDefinition) {
+    return loadedRlsServiceDefinition;
+  }
+  /* The purpose of this complexity is to avoid loading @grpc/proto-loader at
+   * runtime for users who will not use RLS. */
+  const loaderLoadSync = require('@grpc/proto-loader')
+    .loadSync as typeof loadSync;
+  const loadedProto = loaderLoadSync('grpc/lookup/v1/rls.proto', {
+    keepCase: true,
+    longs: String,
+    enums: String,
+    defaults: true,
+    oneofs: true,
+    includeDirs: [`${__dirname}/../../proto`],
+  });
+  const rlsGrpcObject = loadPackageDefinition(
+    loadedProto
+  ) as unknown as RlsProtoGrpcType;
+  loadedRlsServiceDefinition =
+    rlsGrpcObject.grpc.lookup.v1.RouteLookupService.service;
+  return loadedRlsServiceDefinition;
+}
+
+/**
+ * Parse a duration in the proto3 JSON format, like "1.5s", or in the
+ * Duration object format.
+ * @param obj
+ * @param fieldName
+ * @returns The duration in milliseconds, or null if the field is not set
+ */
+function parseDurationField(obj: any, fieldName: string): number | null {
+  const value = obj[fieldName];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === 'string' && DURATION_REGEX.test(value)) {
+    return Number(value.substring(0, value.length - 1)) * 1000;
+  }
+  if (isDuration(value) && value.seconds >= 0 && value.nanos >= 0) {
+    return durationToMs(value as Duration);
+  }
+  throw new Error(
+    `RLS config ${fieldName} parse error: expected a non-negative duration`
+  );
+}
+
+function validateStringField(obj: any, fieldName: string, required = false) {
+  if (obj[fieldName] === undefined) {
+    if (required) {
+      throw new Error(`RLS config ${fieldName} parse error: field is required`);
+    }
+    return;
+  }
+  if (typeof obj[fieldName] !== 'string') {
+    throw new Error(
+      `RLS config ${fieldName} parse error: expected string, got ${typeof obj[
+        fieldName
+      ]}`
+    );
+  }
+}
+
+interface HeaderKeyBuilder {
+  key: string;
+  names: string[];
+}
+
+interface ExtraKeys {
+  host?: string;
+  service?: string;
+  method?: string;
+}
+
+interface GrpcKeyBuilder {
+  headers: HeaderKeyBuilder[];
+  extraKeys: ExtraKeys;
+  constantKeys: { [key: string]: string };
+}
+
+export interface RouteLookupConfig {
+  /**
+   * Map from paths, like /service/method, or /service/ for all methods of a
+   * service, to the key builder for those paths
+   */
+  keyBuilders: Map<string, GrpcKeyBuilder>;
+  lookupService: string;
+  lookupServiceTimeoutMs: number;
+  maxAgeMs: number;
+  staleAgeMs: number;
+  cacheSizeBytes: number;
+  defaultTarget: string | null;
+}
+
+function parseGrpcKeyBuilder(
+  obj: any,
+  keyBuilders: Map<string, GrpcKeyBuilder>
+) {
+  if (!Array.isArray(obj.names) || obj.names.length === 0) {
+    throw new Error(
+      'RLS config grpcKeybuilders parse error: names must be a non-empty array'
+    );
+  }
+  const usedKeys = new Set<string>();
+  const checkKey = (key: unknown) => {
+    if (typeof key !== 'string' || key === '') {
+      throw new Error(
+        'RLS config grpcKeybuilders parse error: keys must be non-empty strings'
+      );
+    }
+    if (usedKeys.has(key)) {
+      throw new Error(
+        `RLS config grpcKeybuilders parse error: duplicate key ${key}`
+      );
+    }
+    usedKeys.add(key);
+  };
+  const headers: HeaderKeyBuilder[] = [];
+  for (const header of obj.headers ?? []) {
+    checkKey(header.key);
+    if (header.requiredMatch) {
+      throw new Error(
+        'RLS config grpcKeybuilders parse error: requiredMatch must not be set'
+      );
+    }
+    if (
+      !Array.isArray(header.names) ||
+      header.names.length === 0 ||
+      !header.names.every((name: unknown) => typeof name === 'string')
+    ) {
+      throw new Error(
+        `RLS config grpcKeybuilders parse error: headers for key ${header.key} must have a non-empty list of names`
+      );
+    }
+    headers.push({ key: header.key, names: header.names });
+  }
+  const extraKeys: ExtraKeys = {};
+  for (const field of ['host', 'service', 'method'] as const) {
+    const key = obj.extraKeys?.[field];
+    if (key !== undefined && key !== '') {
+      checkKey(key);
+      extraKeys[field] = key;
+    }
+  }
+  const constantKeys: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(obj.constantKeys ?? {})) {
+    checkKey(key);
+    if (typeof value !== 'string') {
+      throw new Error(
+        `RLS config grpcKeybuilders parse error: constant key ${key} must have a string value`
+      );
+    }
+    constantKeys[key] = value;
+  }
+  const keyBuilder: GrpcKeyBuilder = { headers, extraKeys, constantKeys };
+  for (const name of obj.names) {
+    if (typeof name.service !== 'string' || name.service === '') {
+      throw new Error(
+        'RLS config grpcKeybuilders parse error: names must have a service'
+      );
+    }
+    const path = `/${name.service}/${name.method ?? ''}`;
+    if (keyBuilders.has(path)) {
+      throw new Error(
+        `RLS config grpcKeybuilders parse error: duplicate name ${path}`
+      );
+    }
+    keyBuilders.set(path, keyBuilder);
+  }
+}
+
+/**
+ * Validate a RouteLookupConfig in the proto3 JSON format.
+ * @param obj
+ */
+export function parseRouteLookupConfig(obj: any): RouteLookupConfig {
+  if (!Array.isArray(obj.grpcKeybuilders) || obj.grpcKeybuilders.length === 0) {
+    throw new Error(
+      'RLS config grpcKeybuilders parse error: must be a non-empty array'
+    );
+  }
+  const keyBuilders = new Map<string, GrpcKeyBuilder>();
+  for (const keyBuilder of obj.grpcKeybuilders) {
+    parseGrpcKeyBuilder(keyBuilder, keyBuilders);
+  }
+  validateStringField(obj, 'lookupService', true);
+  if (obj.lookupService === '') {
+    throw new Error('RLS config lookupService parse error: must not be empty');
+  }
+  const maxAge = parseDurationField(obj, 'maxAge');
+  const staleAge = parseDurationField(obj, 'staleAge');
+  if (staleAge !== null && maxAge === null) {
+    throw new Error(
+      'RLS config staleAge parse error: maxAge must be set if staleAge is set'
+    );
+  }
+  // A maxAge of 0 is treated the same as an unset maxAge
+  const maxAgeMs = Math.min(maxAge || MAX_MAX_AGE_MS, MAX_MAX_AGE_MS);
+  const cacheSizeBytes = Number(obj.cacheSizeBytes);
+  if (!(cacheSizeBytes > 0)) {
+    throw new Error(
+      'RLS config cacheSizeBytes parse error: must be a positive number'
+    );
+  }
+  validateStringField(obj, 'defaultTarget');
+  return {
+    keyBuilders,
+    lookupService: obj.lookupService,
+    lookupServiceTimeoutMs:
+      parseDurationField(obj, 'lookupServiceTimeout') ||
+      DEFAULT_LOOKUP_SERVICE_TIMEOUT_MS,
+    maxAgeMs,
+    staleAgeMs: Math.min(staleAge ?? maxAgeMs, maxAgeMs),
+    cacheSizeBytes: Math.min(cacheSizeBytes, MAX_CACHE_SIZE_BYTES),
+    defaultTarget: obj.defaultTarget || null,
+  };
+}
+
+/**
+ * Insert the target into each of the child policy configs in the field with
+ * the given name.
+ */
+function getChildConfigsForTarget(
+  childPolicy: LoadBalancingConfig[],
+  targetFieldName: string,
+  target: string
+): LoadBalancingConfig[] {
+  return childPolicy.map(entry => {
+    const [name] = Object.keys(entry);
+    return { [name]: { ...entry[name], [targetFieldName]: target } };
+  });
+}
+
+export class RlsLoadBalancingConfig implements TypedLoadBalancingConfig {
+  constructor(
+    private readonly rawRouteLookupConfig: object,
+    private readonly routeLookupConfig: RouteLookupConfig,
+    private readonly routeLookupChannelServiceConfig: object | null,
+    private readonly childPolicy: LoadBalancingConfig[],
+    private readonly childPolicyConfigTargetFieldName: string
+  ) {}
+
+  getLoadBalancerName(): string {
+    return TYPE_NAME;
+  }
+
+  toJsonObject(): object {
+    return {
+      [TYPE_NAME]: {
+        routeLookupConfig: this.rawRouteLookupConfig,
+        routeLookupChannelServiceConfig:
+          this.routeLookupChannelServiceConfig ?? undefined,
+        childPolicy: this.childPolicy,
+        childPolicyConfigTargetFieldName: this.childPolicyConfigTargetFieldName,
+      },
+    };
+  }
+
+  getRouteLookupConfig() {
+    return this.routeLookupConfig;
+  }
+
+  getRouteLookupChannelServiceConfig() {
+    return this.routeLookupChannelServiceConfig;
+  }
+
+  /**
+   * Get the child policy config for the given target
+   * @param target
+   */
+  getChildConfig(target: string): TypedLoadBalancingConfig | null {
+    return selectLbConfigFromList(
+      getChildConfigsForTarget(
+        this.childPolicy,
+        this.childPolicyConfigTargetFieldName,
+        target
+      )
+    );
+  }
+
+  static createFromJson(obj: any): RlsLoadBalancingConfig {
+    if (typeof obj.routeLookupConfig !== 'object' || !obj.routeLookupConfig) {
+      throw new Error('RLS config routeLookupConfig parse error: missing');
+    }
+    const routeLookupConfig = parseRouteLookupConfig(obj.routeLookupConfig);
+    if (
+      obj.routeLookupChannelServiceConfig !== undefined &&
+      typeof obj.routeLookupChannelServiceConfig !== 'object'
+    ) {
+      throw new Error(
+        'RLS config routeLookupChannelServiceConfig parse error: expected object'
+      );
+    }
+    validateStringField(obj, 'childPolicyConfigTargetFieldName', true);
+    if (obj.childPolicyConfigTargetFieldName === '') {
+      throw new Error(
+        'RLS config childPolicyConfigTargetFieldName parse error: must not be empty'
+      );
+    }
+    if (!Array.isArray(obj.childPolicy)) {
+      throw new Error('RLS config childPolicy parse error: expected array');
+    }
+    const config = new RlsLoadBalancingConfig(
+      obj.routeLookupConfig,
+      routeLookupConfig,
+      obj.routeLookupChannelServiceConfig ?? null,
+      obj.childPolicy,
+      obj.childPolicyConfigTargetFieldName
+    );
+    if (
+      !config.getChildConfig(
+        routeLookupConfig.defaultTarget ?? FAKE_TARGET_FIELD_VALUE
+      )
+    ) {
+      throw new Error(
+        'RLS config childPolicy parse error: no valid child policy config'
+      );
+    }
+    return config;
+  }
+}
+
+/**
+ * Build the RLS request key map for a call, as specified by the matching
+ * gRPC key builder.
+ * @param keyBuilders
+ * @param method The full method path, like /service/method
+ * @param host
+ * @param metadata
+ */
+export function buildKeyMap(
+  keyBuilders: Map<string, GrpcKeyBuilder>,
+  method: string,
+  host: string,
+  metadata: Metadata
+): { [key: string]: string } {
+  const [, serviceName = '', methodName = ''] = method.split('/');
+  const keyBuilder =
+    keyBuilders.get(`/${serviceName}/${methodName}`) ??
+    keyBuilders.get(`/${serviceName}/`);
+  if (!keyBuilder) {
+    return {};
+  }
+  const keyMap: { [key: string]: string } = {};
+  for (const header of keyBuilder.headers) {
+    for (const name of header.names) {
+      const values = metadata
+        .get(name)
+        .filter(value => typeof value === 'string');
+      if (values.length > 0) {
+        keyMap[header.key] = values.join(',');
+        break;
+      }
+    }
+  }
+  if (keyBuilder.extraKeys.host) {
+    keyMap[keyBuilder.extraKeys.host] = host;
+  }
+  if (keyBuilder.extraKeys.service) {
+    keyMap[keyBuilder.extraKeys.service] = serviceName;
+  }
+  if (keyBuilder.extraKeys.method) {
+    keyMap[keyBuilder.extraKeys.method] = methodName;
+  }
+  Object.assign(keyMap, keyBuilder.constantKeys);
+  return keyMap;
+}
+
+function keyMapToString(keyMap: { [key: string]: string }): string {
+  return JSON.stringify(
+    Object.entries(keyMap).sort(([key1], [key2]) => key1.localeCompare(key2))
+  );
+}
+
+/**
+ * Client-side adaptive throttling of RLS requests, as described in
+ * https://sre.google/sre-book/handling-overload/#eq2101
+ */
+export class AdaptiveThrottler {
+  private requestTimes: number[] = [];
+  private successTimes: number[] = [];
+
+  constructor(
+    private readonly windowMs = THROTTLE_WINDOW_MS,
+    private readonly ratioForSuccesses = THROTTLE_RATIO_FOR_SUCCESSES,
+    private readonly padding = THROTTLE_PADDING
+  ) {}
+
+  private removeOldEntries(now: number) {
+    const cutoff = now - this.windowMs;
+    this.requestTimes = this.requestTimes.filter(time => time > cutoff);
+    this.successTimes = this.successTimes.filter(time => time > cutoff);
+  }
+
+  /**
+   * Decide whether to throttle a request. A throttled request is counted as
+   * a failed request.
+   * @returns true if the request should not be sent
+   */
+  shouldThrottle(): boolean {
+    const now = Date.now();
+    this.removeOldEntries(now);
+    const throttleProbability =
+      (this.requestTimes.length -
+        this.successTimes.length * this.ratioForSuccesses) /
+      (this.requestTimes.length + this.padding);
+    const throttle = Math.random() < throttleProbability;
+    if (throttle) {
+      this.requestTimes.push(now);
+    }
+    return throttle;
+  }
+
+  registerResponse(success: boolean) {
+    const now = Date.now();
+    this.requestTimes.push(now);
+    if (success) {
+      this.successTimes.push(now);
+    }
+  }
+}
+
+/**
+ * Wraps the child policy for a single target. Child policies are shared by
+ * all cache entries with the same target, and are destroyed when they are no
+ * longer referenced.
+ */
+class ChildPolicyWrapper {
+  private child: ChildLoadBalancerHandler;
+  private connectivityState: ConnectivityState = ConnectivityState.IDLE;
+  private picker: Picker;
+  private refCount = 0;
+
+  constructor(private parent: RlsLoadBalancer, public readonly target: string) {
+    this.child = new ChildLoadBalancerHandler(
+      createChildChannelControlHelper(parent.getChannelControlHelper(), {
+        updateState: (connectivityState, picker) => {
+          this.connectivityState = connectivityState;
+          this.picker = picker;
+          this.parent.updateState();
+        },
+      }),
+      parent.getChannelOptions()
+    );
+    this.picker = new QueuePicker(this.child);
+  }
+
+  update(
+    config: RlsLoadBalancingConfig,
+    endpointList: Endpoint[],
+    attributes: { [key: string]: unknown }
+  ) {
+    const childConfig = config.getChildConfig(this.target);
+    if (!childConfig) {
+      this.connectivityState = ConnectivityState.TRANSIENT_FAILURE;
+      this.picker = new UnavailablePicker({
+        details: `No valid child policy config for target ${this.target}`,
+      });
+      return;
+    }
+    this.child.updateAddressList(endpointList, childConfig, attributes);
+  }
+
+  getConnectivityState() {
+    return this.connectivityState;
+  }
+
+  pick(pickArgs: PickArgs): PickResult {
+    return this.picker.pick(pickArgs);
+  }
+
+  exitIdle() {
+    this.child.exitIdle();
+  }
+
+  resetBackoff() {
+    this.child.resetBackoff();
+  }
+
+  ref() {
+    this.refCount += 1;
+  }
+
+  /**
+   * @returns true if the wrapper is no longer referenced and was destroyed
+   */
+  unref(): boolean {
+    this.refCount -= 1;
+    if (this.refCount <= 0) {
+      this.child.destroy();
+      return true;
+    }
+    return false;
+  }
+}
+
+interface CacheEntry {
+  /**
+   * The child policies for the targets in the last successful response, in
+   * order of priority
+   */
+  childPolicyWrappers: ChildPolicyWrapper[];
+  headerData: string;
+  /**
+   * The time after which the data from the last successful response is no
+   * longer used
+   */
+  expirationTime: number;
+  /**
+   * The time after which picks that use the data trigger a refresh
+   */
+  staleTime: number;
+  /**
+   * The status of the last failed request. Picks fail with this status while
+   * the backoff timer is running.
+   */
+  status: StatusObject | null;
+  backoff: BackoffTimeout | null;
+  sizeBytes: number;
+}
+
+function hasValidData(entry: CacheEntry | undefined, now: number): boolean {
+  return (
+    !!entry &&
+    entry.childPolicyWrappers.length > 0 &&
+    now < entry.expirationTime
+  );
+}
+
+function isInBackoff(entry: CacheEntry | undefined): boolean {
+  return !!entry?.backoff?.isRunning();
+}
+
+class RlsPicker implements Picker {
+  constructor(private parent: RlsLoadBalancer) {}
+
+  pick(pickArgs: PickArgs): PickResult {
+    return this.parent.pick(pickArgs);
+  }
+}
+
+export class RlsLoadBalancer implements LoadBalancer {
+  private latestConfig: RlsLoadBalancingConfig | null = null;
+  private latestEndpointList: Endpoint[] = [];
+  private latestAttributes: { [key: string]: unknown } = {};
+  /**
+   * Map from key map strings to cache entries. The map iteration order is
+   * the order of last use, from least to most recent.
+   */
+  private cache: Map<string, CacheEntry> = new Map();
+  private cacheSizeBytes = 0;
+  private pendingRequests: Set<string> = new Set();
+  private childPolicyWrappers: Map<string, ChildPolicyWrapper> = new Map();
+  private defaultChildPolicyWrapper: ChildPolicyWrapper | null = null;
+  private throttler = new AdaptiveThrottler();
+  private rlsClient: Client | null = null;
+  private rlsChannelState: ConnectivityState = ConnectivityState.IDLE;
+  private cleanupTimer: NodeJS.Timeout;
+  private updatingChildren = false;
+  private destroyed = false;
+
+  constructor(
+    private readonly channelControlHelper: ChannelControlHelper,
+    private readonly options: ChannelOptions
+  ) {
+    this.cleanupTimer = setInterval(() => {
+      this.removeExpiredEntries();
+    }, CACHE_CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref?.();
+  }
+
+  getChannelControlHelper() {
+    return this.channelControlHelper;
+  }
+
+  getChannelOptions() {
+    return this.options;
+  }
+
+  private getOrCreateChildPolicyWrapper(target: string): ChildPolicyWrapper {
+    let wrapper = this.childPolicyWrappers.get(target);
+    if (!wrapper) {
+      trace('Creating child policy for target ' + target);
+      wrapper = new ChildPolicyWrapper(this, target);
+      this.childPolicyWrappers.set(target, wrapper);
+      if (this.latestConfig) {
+        this.updatingChildren = true;
+        wrapper.update(
+          this.latestConfig,
+          this.latestEndpointList,
+          this.latestAttributes
+        );
+        this.updatingChildren = false;
+      }
+    }
+    wrapper.ref();
+    return wrapper;
+  }
+
+  private unrefChildPolicyWrapper(wrapper: ChildPolicyWrapper) {
+    if (wrapper.unref()) {
+      trace('Removing child policy for target ' + wrapper.target);
+      this.childPolicyWrappers.delete(wrapper.target);
+    }
+  }
+
+  /**
+   * Update the connectivity state and picker. The state is the best state of
+   * the child policies.
+   */
+  updateState() {
+    if (this.updatingChildren || this.destroyed) {
+      return;
+    }
+    const states = Array.from(this.childPolicyWrappers.values()).map(wrapper =>
+      wrapper.getConnectivityState()
+    );
+    let state: ConnectivityState;
+    if (states.includes(ConnectivityState.READY)) {
+      state = ConnectivityState.READY;
+    } else if (states.includes(ConnectivityState.CONNECTING)) {
+      state = ConnectivityState.CONNECTING;
+    } else if (states.length === 0 || states.includes(ConnectivityState.IDLE)) {
+      state = ConnectivityState.IDLE;
+    } else {
+      state = ConnectivityState.TRANSIENT_FAILURE;
+    }
+    this.channelControlHelper.updateState(state, new RlsPicker(this));
+  }
+
+  private pickFromEntry(entry: CacheEntry, pickArgs: PickArgs): PickResult {
+    if (entry.headerData) {
+      pickArgs.metadata.set(RLS_DATA_METADATA_KEY, entry.headerData);
+    }
+    for (const wrapper of entry.childPolicyWrappers) {
+      if (
+        wrapper.getConnectivityState() !== ConnectivityState.TRANSIENT_FAILURE
+      ) {
+        return wrapper.pick(pickArgs);
+      }
+    }
+    return entry.childPolicyWrappers[0].pick(pickArgs);
+  }
+
+  /**
+   * Use the default target if there is one, or fail the pick otherwise.
+   */
+  private pickDefaultTarget(
+    pickArgs: PickArgs,
+    status: StatusObject
+  ): PickResult {
+    if (this.defaultChildPolicyWrapper) {
+      return this.defaultChildPolicyWrapper.pick(pickArgs);
+    }
+    return {
+      pickResultType: PickResultType.TRANSIENT_FAILURE,
+      subchannel: null,
+      status: status,
+      onCallStarted: null,
+      onCallEnded: null,
+    };
+  }
+
+  pick(pickArgs: PickArgs): PickResult {
+    const config = this.latestConfig!.getRouteLookupConfig();
+    const keyMap = buildKeyMap(
+      config.keyBuilders,
+      pickArgs.method ?? '',
+      pickArgs.host ?? '',
+      pickArgs.metadata
+    );
+    const key = keyMapToString(keyMap);
+    const entry = this.cache.get(key);
+    const now = Date.now();
+    if (entry) {
+      // Move the entry to the end of the LRU order
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
+    if (hasValidData(entry, now)) {
+      if (
+        now >= entry!.staleTime &&
+        !this.pendingRequests.has(key) &&
+        !isInBackoff(entry)
+      ) {
+        this.startRequest(key, keyMap, 'REASON_STALE', entry!.headerData);
+      }
+      return this.pickFromEntry(entry!, pickArgs);
+    }
+    if (isInBackoff(entry)) {
+      return this.pickDefaultTarget(pickArgs, entry!.status!);
+    }
+    if (!this.pendingRequests.has(key)) {
+      if (this.throttler.shouldThrottle()) {
+        trace('Throttled RLS request for key ' + key);
+        return this.pickDefaultTarget(pickArgs, {
+          code: Status.UNAVAILABLE,
+          details: 'RLS request throttled',
+          metadata: new Metadata(),
+        });
+      }
+      this.startRequest(key, keyMap, 'REASON_MISS', '');
+    }
+    return {
+      pickResultType: PickResultType.QUEUE,
+      subchannel: null,
+      status: null,
+      onCallStarted: null,
+      onCallEnded: null,
+    };
+  }
+
+  private startRequest(
+    key: string,
+    keyMap: { [key: string]: string },
+    reason: 'REASON_MISS' | 'REASON_STALE',
+    staleHeaderData: string
+  ) {
+    if (!this.rlsClient) {
+      return;
+    }
+    trace('Starting RLS request for key ' + key + ' with reason ' + reason);
+    this.pendingRequests.add(key);
+    const config = this.latestConfig!.getRouteLookupConfig();
+    const request: RouteLookupRequest = {
+      target_type: 'grpc',
+      key_map: keyMap,
+      reason: reason,
+      stale_header_data: staleHeaderData,
+    };
+    const method = getRlsServiceDefinition().RouteLookup;
+    const client = this.rlsClient;
+    client.makeUnaryRequest(
+      method.path,
+      method.requestSerialize,
+      method.responseDeserialize,
+      request,
+      { deadline: Date.now() + config.lookupServiceTimeoutMs },
+      (error, response?: RouteLookupResponse__Output) => {
+        this.pendingRequests.delete(key);
+        if (this.destroyed || client !== this.rlsClient) {
+          return;
+        }
+        if (!error && response!.targets.length === 0) {
+          error = {
+            name: 'Error',
+            message: 'RLS response has no targets',
+            code: Status.UNAVAILABLE,
+            details: 'RLS response has no targets',
+            metadata: new Metadata(),
+          };
+        }
+        this.throttler.registerResponse(!error);
+        if (error) {
+          trace('RLS request for key ' + key + ' failed: ' + error.details);
+          this.handleRequestFailure(key, error.details);
+        } else {
+          trace(
+            'RLS request for key ' +
+              key +
+              ' returned targets ' +
+              response!.targets
+          );
+          this.handleResponse(key, response!);
+        }
+        this.updateState();
+      }
+    );
+  }
+
+  private getOrCreateEntry(key: string): CacheEntry {
+    let entry = this.cache.get(key);
+    if (!entry) {
+      entry = {
+        childPolicyWrappers: [],
+        headerData: '',
+        expirationTime: 0,
+        staleTime: 0,
+        status: null,
+        backoff: null,
+        sizeBytes: 0,
+      };
+      this.cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  private setEntrySize(key: string, entry: CacheEntry) {
+    this.cacheSizeBytes -= entry.sizeBytes;
+    entry.sizeBytes =
+      CACHE_ENTRY_OVERHEAD_BYTES +
+      key.length +
+      entry.headerData.length +
+      entry.childPolicyWrappers.reduce(
+        (sum, wrapper) => sum + wrapper.target.length,
+        0
+      );
+    this.cacheSizeBytes += entry.sizeBytes;
+    this.evictEntries(
+      this.latestConfig!.getRouteLookupConfig().cacheSizeBytes,
+      key
+    );
+  }
+
+  private removeEntry(key: string, entry: CacheEntry) {
+    for (const wrapper of entry.childPolicyWrappers) {
+      this.unrefChildPolicyWrapper(wrapper);
+    }
+    entry.backoff?.stop();
+    this.cacheSizeBytes -= entry.sizeBytes;
+    this.cache.delete(key);
+  }
+
+  /**
+   * Remove the least recently used entries until the cache fits in the
+   * given size.
+   * @param maxSizeBytes
+   * @param keepKey A key that should not be evicted
+   */
+  private evictEntries(maxSizeBytes: number, keepKey?: string) {
+    for (const [key, entry] of this.cache) {
+      if (this.cacheSizeBytes <= maxSizeBytes) {
+        break;
+      }
+      if (key === keepKey) {
+        continue;
+      }
+      trace('Evicting cache entry for key ' + key);
+      this.removeEntry(key, entry);
+    }
+  }
+
+  private handleResponse(key: string, response: RouteLookupResponse__Output) {
+    const config = this.latestConfig!.getRouteLookupConfig();
+    const entry = this.getOrCreateEntry(key);
+    const oldWrappers = entry.childPolicyWrappers;
+    entry.childPolicyWrappers = response.targets.map(target =>
+      this.getOrCreateChildPolicyWrapper(target)
+    );
+    for (const wrapper of oldWrappers) {
+      this.unrefChildPolicyWrapper(wrapper);
+    }
+    const now = Date.now();
+    entry.headerData = response.header_data;
+    entry.expirationTime = now + config.maxAgeMs;
+    entry.staleTime = now + config.staleAgeMs;
+    entry.status = null;
+    entry.backoff?.stop();
+    entry.backoff = null;
+    this.setEntrySize(key, entry);
+  }
+
+  private handleRequestFailure(key: string, details: string) {
+    const entry = this.getOrCreateEntry(key);
+    entry.status = {
+      code: Status.UNAVAILABLE,
+      details: `RLS request failed: ${details}`,
+      metadata: new Metadata(),
+    };
+    if (!entry.backoff) {
+      entry.backoff = new BackoffTimeout(() => {
+        /* Update the picker so that queued picks are retried, which starts a
+         * new request if there is no valid data. */
+        this.updateState();
+      });
+      entry.backoff.unref();
+    }
+    entry.backoff.runOnce();
+    this.setEntrySize(key, entry);
+  }
+
+  private removeExpiredEntries() {
+    const now = Date.now();
+    for (const [key, entry] of Array.from(this.cache.entries())) {
+      if (
+        now >= entry.expirationTime &&
+        !isInBackoff(entry) &&
+        !this.pendingRequests.has(key)
+      ) {
+        this.removeEntry(key, entry);
+      }
+    }
+  }
+
+  /**
+   * When the RLS channel recovers from TRANSIENT_FAILURE, retry the failed
+   * requests without waiting for their backoff timers.
+   */
+  private handleRlsChannelStateChange(client: Client) {
+    if (client !== this.rlsClient) {
+      return;
+    }
+    const channel = client.getChannel();
+    const newState = channel.getConnectivityState(false);
+    if (
+      this.rlsChannelState === ConnectivityState.TRANSIENT_FAILURE &&
+      newState === ConnectivityState.READY
+    ) {
+      trace('RLS channel recovered, resetting backoff of failed requests');
+      for (const entry of this.cache.values()) {
+        if (entry.backoff) {
+          entry.backoff.stop();
+          entry.backoff.reset();
+        }
+      }
+      this.updateState();
+    }
+    this.rlsChannelState = newState;
+    channel.watchConnectivityState(newState, Infinity, () => {
+      this.handleRlsChannelStateChange(client);
+    });
+  }
+
+  private createRlsClient(config: RlsLoadBalancingConfig) {
+    const routeLookupConfig = config.getRouteLookupConfig();
+    const channelServiceConfig = config.getRouteLookupChannelServiceConfig();
+    const channelOptions: ChannelOptions = {};
+    if (channelServiceConfig) {
+      channelOptions['grpc.service_config'] =
+        JSON.stringify(channelServiceConfig);
+      channelOptions['grpc.service_config_disable_resolution'] = 1;
+    }
+    trace('Creating RLS channel to ' + routeLookupConfig.lookupService);
+    this.rlsClient = new Client(
+      routeLookupConfig.lookupService,
+      this.channelControlHelper.getChannelCredentials(),
+      channelOptions
+    );
+    const channel = this.rlsClient.getChannel();
+    this.channelControlHelper.addChannelzChild(channel.getChannelzRef());
+    this.rlsChannelState = channel.getConnectivityState(false);
+    const client = this.rlsClient;
+    channel.watchConnectivityState(this.rlsChannelState, Infinity, () => {
+      this.handleRlsChannelStateChange(client);
+    });
+  }
+
+  private closeRlsClient() {
+    const client = this.rlsClient;
+    if (client) {
+      /* Clear the field first so that the connectivity state watcher stops
+       * when the channel is closed. */
+      this.rlsClient = null;
+      this.channelControlHelper.removeChannelzChild(
+        client.getChannel().getChannelzRef()
+      );
+      client.close();
+    }
+  }
+
+  updateAddressList(
+    endpointList: Endpoint[],
+    lbConfig: TypedLoadBalancingConfig,
+    attributes: { [key: string]: unknown }
+  ): void {
+    if (!(lbConfig instanceof RlsLoadBalancingConfig)) {
+      return;
+    }
+    const oldConfig = this.latestConfig;
+    this.latestConfig = lbConfig;
+    this.latestEndpointList = endpointList;
+    this.latestAttributes = attributes;
+    const routeLookupConfig = lbConfig.getRouteLookupConfig();
+    if (
+      !oldConfig ||
+      oldConfig.getRouteLookupConfig().lookupService !==
+        routeLookupConfig.lookupService ||
+      JSON.stringify(oldConfig.getRouteLookupChannelServiceConfig()) !==
+        JSON.stringify(lbConfig.getRouteLookupChannelServiceConfig())
+    ) {
+      this.closeRlsClient();
+      this.createRlsClient(lbConfig);
+    }
+    this.evictEntries(routeLookupConfig.cacheSizeBytes);
+    this.updatingChildren = true;
+    const oldDefaultWrapper = this.defaultChildPolicyWrapper;
+    if (routeLookupConfig.defaultTarget) {
+      this.defaultChildPolicyWrapper = this.getOrCreateChildPolicyWrapper(
+        routeLookupConfig.defaultTarget
+      );
+    } else {
+      this.defaultChildPolicyWrapper = null;
+    }
+    if (oldDefaultWrapper) {
+      this.unrefChildPolicyWrapper(oldDefaultWrapper);
+    }
+    for (const wrapper of this.childPolicyWrappers.values()) {
+      wrapper.update(lbConfig, endpointList, attributes);
+    }
+    this.updatingChildren = false;
+    this.updateState();
+  }
+
+  exitIdle(): void {
+    for (const wrapper of this.childPolicyWrappers.values()) {
+      wrapper.exitIdle();
+    }
+  }
+
+  resetBackoff(): void {
+    for (const wrapper of this.childPolicyWrappers.values()) {
+      wrapper.resetBackoff();
+    }
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+    clearInterval(this.cleanupTimer);
+    for (const [key, entry] of Array.from(this.cache.entries())) {
+      this.removeEntry(key, entry);
+    }
+    if (this.defaultChildPolicyWrapper) {
+      this.unrefChildPolicyWrapper(this.defaultChildPolicyWrapper);
+      this.defaultChildPolicyWrapper = null;
+    }
+    this.closeRlsClient();
+  }
+
+  getTypeName(): string {
+    return TYPE_NAME;
+  }
+}
+
+export function setup() {
+  registerLoadBalancerType(TYPE_NAME, RlsLoadBalancer, RlsLoadBalancingConfig);
+}
@@ -161,6 +161,13 @@ export class RoundRobinLoadBalancer implements LoadBalancer {
     } else {
       this.updateState(ConnectivityState.IDLE, new QueuePicker(this));
     }
+    /* round_robin should keep all children connected. A child becomes IDLE
+     * when its connection drops, so it needs to start connecting again. */
+    for (const child of this.children) {
+      if (child.getConnectivityState() === ConnectivityState.IDLE) {
+        child.exitIdle();
+      }
+    }
   }
 
   private updateState(newState: ConnectivityState, picker: Picker) {
@@ -0,0 +1,560 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// https://github.com/grpc/proposal/blob/master/A58-client-side-weighted-round-robin-lb-policy.md
+
+import { ChannelOptions } from './channel-options';
+import { ConnectivityState } from './connectivity-state';
+import { LogVerbosity } from './constants';
+import { Duration, durationToMs, isDuration, msToDuration } from './duration';
+import {
+  ChannelControlHelper,
+  createChildChannelControlHelper,
+  LoadBalancer,
+  registerLoadBalancerType,
+  TypedLoadBalancingConfig,
+} from './load-balancer';
+import { EndpointList } from './load-balancer-endpoint-list';
+import { LeafLoadBalancer } from './load-balancer-pick-first';
+import * as logging from './logging';
+import {
+  createMetricsReader,
+  MetricsListener,
+  OrcaOobMetricsSubchannelWrapper,
+} from './orca';
+import { OrcaLoadReport__Output } from './generated/xds/data/orca/v3/OrcaLoadReport';
+import { PickArgs, Picker, PickResult, PickResultType } from './picker';
+import { Endpoint, endpointToString } from './subchannel-address';
+
+const TRACER_NAME = 'weighted_round_robin';
+
+function trace(text: string): void {
+  logging.trace(LogVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+const TYPE_NAME = 'weighted_round_robin';
+
+const DEFAULT_OOB_REPORTING_PERIOD_MS = 10_000;
+const DEFAULT_BLACKOUT_PERIOD_MS = 10_000;
+const DEFAULT_WEIGHT_EXPIRATION_PERIOD_MS = 3 * 60_000;
+const DEFAULT_WEIGHT_UPDATE_PERIOD_MS = 1_000;
+const MIN_WEIGHT_UPDATE_PERIOD_MS = 100;
+const DEFAULT_ERROR_UTILIZATION_PENALTY = 1;
+
+function validateFieldType(
+  obj: any,
+  fieldName: string,
+  expectedType: 'boolean' | 'number'
+) {
+  if (
+    fieldName in obj &&
+    obj[fieldName] !== undefined &&
+    typeof obj[fieldName] !== expectedType
+  ) {
+    throw new Error(
+      `weighted round robin config ${fieldName} parse error: expected ${expectedType}, got ${typeof obj[
+        fieldName
+      ]}`
+    );
+  }
+}
+
+function parseDurationField(obj: any, fieldName: string): number | null {
+  if (!(fieldName in obj) || obj[fieldName] === undefined) {
+    return null;
+  }
+  if (!isDuration(obj[fieldName])) {
+    throw new Error(
+      `weighted round robin config ${fieldName} parse error: expected Duration, got ${typeof obj[
+        fieldName
+      ]}`
+    );
+  }
+  if (obj[fieldName].seconds < 0 || obj[fieldName].nanos < 0) {
+    throw new Error(
+      `weighted round robin config ${fieldName} parse error: negative Duration`
+    );
+  }
+  return durationToMs(obj[fieldName]);
+}
+
+export class WeightedRoundRobinLoadBalancingConfig
+  implements TypedLoadBalancingConfig
+{
+  private readonly enableOobLoadReport: boolean;
+  private readonly oobReportingPeriodMs: number;
+  private readonly blackoutPeriodMs: number;
+  private readonly weightExpirationPeriodMs: number;
+  private readonly weightUpdatePeriodMs: number;
+  private readonly errorUtilizationPenalty: number;
+
+  constructor(
+    enableOobLoadReport: boolean | null,
+    oobReportingPeriodMs: number | null,
+    blackoutPeriodMs: number | null,
+    weightExpirationPeriodMs: number | null,
+    weightUpdatePeriodMs: number | null,
+    errorUtilizationPenalty: number | null
+  ) {
+    this.enableOobLoadReport = enableOobLoadReport ?? false;
+    this.oobReportingPeriodMs =
+      oobReportingPeriodMs ?? DEFAULT_OOB_REPORTING_PERIOD_MS;
+    this.blackoutPeriodMs = blackoutPeriodMs ?? DEFAULT_BLACKOUT_PERIOD_MS;
+    this.weightExpirationPeriodMs =
+      weightExpirationPeriodMs ?? DEFAULT_WEIGHT_EXPIRATION_PERIOD_MS;
+    this.weightUpdatePeriodMs = Math.max(
+      weightUpdatePeriodMs ?? DEFAULT_WEIGHT_UPDATE_PERIOD_MS,
+      MIN_WEIGHT_UPDATE_PERIOD_MS
+    );
+    this.errorUtilizationPenalty =
+      errorUtilizationPenalty ?? DEFAULT_ERROR_UTILIZATION_PENALTY;
+  }
+
+  getLoadBalancerName(): string {
+    return TYPE_NAME;
+  }
+  toJsonObject(): object {
+    return {
+      [TYPE_NAME]: {
+        enable_oob_load_report: this.enableOobLoadReport,
+        oob_reporting_period: msToDuration(this.oobReportingPeriodMs),
+        blackout_period: msToDuration(this.blackoutPeriodMs),
+        weight_expiration_period: msToDuration(this.weightExpirationPeriodMs),
+        weight_update_period: msToDuration(this.weightUpdatePeriodMs),
+        error_utilization_penalty: this.errorUtilizationPenalty,
+      },
+    };
+  }
+
+  getEnableOobLoadReport(): boolean {
+    return this.enableOobLoadReport;
+  }
+  getOobReportingPeriodMs(): number {
+    return this.oobReportingPeriodMs;
+  }
+  getBlackoutPeriodMs(): number {
+    return this.blackoutPeriodMs;
+  }
+  getWeightExpirationPeriodMs(): number {
+    return this.weightExpirationPeriodMs;
+  }
+  getWeightUpdatePeriodMs(): number {
+    return this.weightUpdatePeriodMs;
+  }
+  getErrorUtilizationPenalty(): number {
+    return this.errorUtilizationPenalty;
+  }
+
+  static createFromJson(obj: any): WeightedRoundRobinLoadBalancingConfig {
+    validateFieldType(obj, 'enable_oob_load_report', 'boolean');
+    validateFieldType(obj, 'error_utilization_penalty', 'number');
+    if (obj.error_utilization_penalty < 0) {
+      throw new Error(
+        'weighted round robin config error_utilization_penalty must be non-negative'
+      );
+    }
+    return new WeightedRoundRobinLoadBalancingConfig(
+      obj.enable_oob_load_report ?? null,
+      parseDurationField(obj, 'oob_reporting_period'),
+      parseDurationField(obj, 'blackout_period'),
+      parseDurationField(obj, 'weight_expiration_period'),
+      parseDurationField(obj, 'weight_update_period'),
+      obj.error_utilization_penalty ?? null
+    );
+  }
+}
+
+export type WeightedRoundRobinRawConfig = {
+  enable_oob_load_report?: boolean;
+  oob_reporting_period?: Duration;
+  blackout_period?: Duration;
+  weight_expiration_period?: Duration;
+  weight_update_period?: Duration;
+  error_utilization_penalty?: number;
+};
+
+interface SchedulerEntry {
+  index: number;
+  weight: number;
+  deadline: number;
+}
+
+/**
+ * An earliest deadline first scheduler. Each index is picked with a frequency
+ * proportional to its weight.
+ */
+class EdfScheduler {
+  /* A binary min-heap ordered by deadline, then by index. */
+  private heap: SchedulerEntry[];
+
+  constructor(weights: number[]) {
+    /* Start each entry at a random point in its period so that channels with
+     * the same weights do not all pick in the same order. */
+    this.heap = weights.map((weight, index) => ({
+      index,
+      weight,
+      deadline: Math.random() / weight,
+    }));
+    for (let i = Math.floor(this.heap.length / 2) - 1; i >= 0; i--) {
+      this.siftDown(i);
+    }
+  }
+
+  private isBefore(a: SchedulerEntry, b: SchedulerEntry): boolean {
+    if (a.deadline === b.deadline) {
+      return a.index < b.index;
+    }
+    return a.deadline < b.deadline;
+  }
+
+  private siftDown(position: number) {
+    const length = this.heap.length;
+    while (position * 2 + 1 < length) {
+      const left = position * 2 + 1;
+      const right = left + 1;
+      let smallest = left;
+      if (right < length && this.isBefore(this.heap[right], this.heap[left])) {
+        smallest = right;
+      }
+      if (!this.isBefore(this.heap[smallest], this.heap[position])) {
+        return;
+      }
+      const temp = this.heap[position];
+      this.heap[position] = this.heap[smallest];
+      this.heap[smallest] = temp;
+      position = smallest;
+    }
+  }
+
+  /**
+   * Return the index with the earliest deadline, and move its deadline to the
+   * end of its next period.
+   */
+  pick(): number {
+    const entry = this.heap[0];
+    entry.deadline += 1 / entry.weight;
+    this.siftDown(0);
+    return entry.index;
+  }
+}
+
+/**
+ * Tracks the weight of a single endpoint, computed from the load reports it
+ * sends.
+ */
+class EndpointWeight {
+  private weight = 0;
+  /**
+   * The time at which the endpoint started sending usable load reports, or
+   * null if it has not since the weight was last reset.
+   */
+  private nonEmptySince: number | null = null;
+  private lastUpdated = 0;
+
+  constructor(private config: WeightedRoundRobinLoadBalancingConfig) {}
+
+  setConfig(config: WeightedRoundRobinLoadBalancingConfig) {
+    this.config = config;
+  }
+
+  handleLoadReport(loadReport: OrcaLoadReport__Output) {
+    const utilization =
+      loadReport.application_utilization > 0
+        ? loadReport.application_utilization
+        : loadReport.cpu_utilization;
+    const qps = loadReport.rps_fractional;
+    if (utilization <= 0 || qps <= 0) {
+      return;
+    }
+    const errorRate = loadReport.eps / qps;
+    const weight =
+      qps /
+      (utilization + errorRate * this.config.getErrorUtilizationPenalty());
+    if (!(weight > 0)) {
+      return;
+    }
+    const now = Date.now();
+    if (this.nonEmptySince === null) {
+      this.nonEmptySince = now;
+    }
+    this.lastUpdated = now;
+    this.weight = weight;
+  }
+
+  /**
+   * Discard the blackout period progress, so that the weight is not used
+   * until the endpoint has reported load for a full blackout period again.
+   */
+  resetBlackout() {
+    this.nonEmptySince = null;
+  }
+
+  /**
+   * Return the current weight, or 0 if there is no usable weight.
+   * @param now
+   */
+  getWeight(now: number): number {
+    if (now - this.lastUpdated >= this.config.getWeightExpirationPeriodMs()) {
+      this.nonEmptySince = null;
+      return 0;
+    }
+    const blackoutPeriodMs = this.config.getBlackoutPeriodMs();
+    if (
+      blackoutPeriodMs > 0 &&
+      (this.nonEmptySince === null ||
+        now - this.nonEmptySince < blackoutPeriodMs)
+    ) {
+      return 0;
+    }
+    return this.weight;
+  }
+}
+
+interface WeightedPickerChild {
+  picker: Picker;
+  weight: number;
+  /**
+   * Reads per-call load reports. Null if out-of-band reporting is enabled.
+   */
+  metricsListener: MetricsListener | null;
+}
+
+class WeightedRoundRobinPicker implements Picker {
+  private scheduler: EdfScheduler;
+  constructor(private readonly children: WeightedPickerChild[]) {
+    /* Endpoints without a usable weight get the mean weight. If fewer than
+     * two endpoints have weights, they are all treated equally, which is
+     * plain round robin. */
+    const weights = children.map(child => child.weight);
+    const weightedCount = weights.filter(weight => weight > 0).length;
+    if (weightedCount < 2) {
+      this.scheduler = new EdfScheduler(weights.map(() => 1));
+    } else {
+      const meanWeight =
+        weights.reduce((sum, weight) => sum + weight, 0) / weightedCount;
+      this.scheduler = new EdfScheduler(
+        weights.map(weight => (weight > 0 ? weight : meanWeight))
+      );
+    }
+  }
+
+  pick(pickArgs: PickArgs): PickResult {
+    const child = this.children[this.scheduler.pick()];
+    const pickResult = child.picker.pick(pickArgs);
+    if (pickResult.pickResultType !== PickResultType.COMPLETE) {
+      return pickResult;
+    }
+    const subchannel =
+      pickResult.subchannel instanceof OrcaOobMetricsSubchannelWrapper
+        ? pickResult.subchannel.getWrappedSubchannel()
+        : pickResult.subchannel;
+    if (child.metricsListener) {
+      return {
+        ...pickResult,
+        subchannel,
+        onCallEnded: createMetricsReader(
+          child.metricsListener,
+          pickResult.onCallEnded
+        ),
+      };
+    }
+    return { ...pickResult, subchannel };
+  }
+}
+
+interface ChildEntry {
+  endpoint: Endpoint;
+  child: LeafLoadBalancer;
+  weight: EndpointWeight;
+  oobWrappers: Set<OrcaOobMetricsSubchannelWrapper>;
+  lastState: ConnectivityState;
+}
+
+export class WeightedRoundRobinLoadBalancer implements LoadBalancer {
+  private children: EndpointList<ChildEntry>;
+  private latestConfig: WeightedRoundRobinLoadBalancingConfig | null = null;
+  private weightUpdateTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly channelControlHelper: ChannelControlHelper,
+    private readonly options: ChannelOptions
+  ) {
+    this.children = new EndpointList(
+      channelControlHelper,
+      this,
+      TRACER_NAME,
+      readyEntries => this.createReadyPicker(readyEntries),
+      state => {
+        if (state === ConnectivityState.READY) {
+          this.startWeightUpdateTimer();
+        } else {
+          this.stopWeightUpdateTimer();
+        }
+      }
+    );
+  }
+
+  private createChild(
+    endpoint: Endpoint,
+    config: WeightedRoundRobinLoadBalancingConfig
+  ): ChildEntry {
+    /* Subchannels use the latest config when they are created, but whether
+     * they are wrapped is fixed for the lifetime of the child. */
+    const enableOobLoadReport = config.getEnableOobLoadReport();
+    const weight = new EndpointWeight(config);
+    const oobWrappers = new Set<OrcaOobMetricsSubchannelWrapper>();
+    const entry: ChildEntry = {
+      endpoint,
+      weight,
+      oobWrappers,
+      lastState: ConnectivityState.IDLE,
+      child: new LeafLoadBalancer(
+        endpoint,
+        createChildChannelControlHelper(this.channelControlHelper, {
+          createSubchannel: (subchannelAddress, subchannelArgs) => {
+            const subchannel = this.channelControlHelper.createSubchannel(
+              subchannelAddress,
+              subchannelArgs
+            );
+            if (!enableOobLoadReport) {
+              return subchannel;
+            }
+            const wrapper = new OrcaOobMetricsSubchannelWrapper(
+              subchannel,
+              loadReport => weight.handleLoadReport(loadReport),
+              (this.latestConfig ?? config).getOobReportingPeriodMs()
+            );
+            oobWrappers.add(wrapper);
+            return wrapper;
+          },
+          updateState: (connectivityState, picker) => {
+            if (
+              connectivityState === ConnectivityState.READY &&
+              entry.lastState !== ConnectivityState.READY
+            ) {
+              weight.resetBlackout();
+            }
+            entry.lastState = connectivityState;
+            this.children.calculateAndUpdateState();
+          },
+        }),
+        this.options
+      ),
+    };
+    return entry;
+  }
+
+  private createReadyPicker(
+    readyEntries: ChildEntry[]
+  ): WeightedRoundRobinPicker {
+    const now = Date.now();
+    const perCallReporting = !this.latestConfig?.getEnableOobLoadReport();
+    return new WeightedRoundRobinPicker(
+      readyEntries.map(entry => ({
+        picker: entry.child.getPicker(),
+        weight: entry.weight.getWeight(now),
+        metricsListener: perCallReporting
+          ? (loadReport: OrcaLoadReport__Output) =>
+              entry.weight.handleLoadReport(loadReport)
+          : null,
+      }))
+    );
+  }
+
+  private startWeightUpdateTimer() {
+    if (this.weightUpdateTimer || !this.latestConfig) {
+      return;
+    }
+    this.weightUpdateTimer = setInterval(() => {
+      if (this.children.getState() === ConnectivityState.READY) {
+        this.channelControlHelper.updateState(
+          ConnectivityState.READY,
+          this.createReadyPicker(this.children.getReadyEntries())
+        );
+      }
+    }, this.latestConfig.getWeightUpdatePeriodMs());
+    this.weightUpdateTimer.unref?.();
+  }
+
+  private stopWeightUpdateTimer() {
+    if (this.weightUpdateTimer) {
+      clearInterval(this.weightUpdateTimer);
+      this.weightUpdateTimer = null;
+    }
+  }
+
+  updateAddressList(
+    endpointList: Endpoint[],
+    lbConfig: TypedLoadBalancingConfig
+  ): void {
+    if (!(lbConfig instanceof WeightedRoundRobinLoadBalancingConfig)) {
+      return;
+    }
+    trace('Connect to endpoint list ' + endpointList.map(endpointToString));
+    const previousConfig = this.latestConfig;
+    this.latestConfig = lbConfig;
+    if (
+      previousConfig &&
+      (previousConfig.getEnableOobLoadReport() !==
+        lbConfig.getEnableOobLoadReport() ||
+        previousConfig.getWeightUpdatePeriodMs() !==
+          lbConfig.getWeightUpdatePeriodMs())
+    ) {
+      this.stopWeightUpdateTimer();
+      if (
+        previousConfig.getEnableOobLoadReport() !==
+        lbConfig.getEnableOobLoadReport()
+      ) {
+        /* Subchannels are only wrapped for out-of-band reporting when they
+         * are created, so the children need to be recreated. */
+        this.children.clear();
+      }
+    }
+    this.children.updateEndpoints(
+      endpointList,
+      endpoint => this.createChild(endpoint, lbConfig),
+      entry => {
+        entry.weight.setConfig(lbConfig);
+        for (const wrapper of entry.oobWrappers) {
+          wrapper.setReportInterval(lbConfig.getOobReportingPeriodMs());
+        }
+      }
+    );
+  }
+
+  exitIdle(): void {
+    this.children.exitIdle();
+  }
+  resetBackoff(): void {
+    // This LB policy has no backoff to reset
+  }
+  destroy(): void {
+    this.stopWeightUpdateTimer();
+    this.children.clear();
+  }
+  getTypeName(): string {
+    return TYPE_NAME;
+  }
+}
+
+export function setup() {
+  registerLoadBalancerType(
+    TYPE_NAME,
+    WeightedRoundRobinLoadBalancer,
+    WeightedRoundRobinLoadBalancingConfig
+  );
+}
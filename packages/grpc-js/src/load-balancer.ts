@@ -24,6 +24,7 @@ import { SubchannelInterface } from './subchannel-interface';
 import { LoadBalancingConfig } from './service-config';
 import { log } from './logging';
 import { LogVerbosity } from './constants';
+import { ChannelCredentials } from './channel-credentials';
 
 /**
  * A collection of functions associated with a channel that a load balancer
@@ -34,10 +35,14 @@ export interface ChannelControlHelper {
    * Returns a subchannel connected to the specified address.
    * @param subchannelAddress The address to connect to
    * @param subchannelArgs Extra channel arguments specified by the load balancer
+   * @param credentialsOverride Credentials that the load balancer wants the
+   *     subchannel to use. The channel only uses them if its own credentials
+   *     allow it.
    */
   createSubchannel(
     subchannelAddress: SubchannelAddress,
-    subchannelArgs: ChannelOptions
+    subchannelArgs: ChannelOptions,
+    credentialsOverride?: ChannelCredentials | null
   ): SubchannelInterface;
   /**
    * Passes a new subchannel picker up to the channel. This is called if either
@@ -53,6 +58,11 @@ export interface ChannelControlHelper {
   requestReresolution(): void;
   addChannelzChild(child: ChannelRef | SubchannelRef): void;
   removeChannelzChild(child: ChannelRef | SubchannelRef): void;
+  /**
+   * Returns the credentials that the channel was constructed with, for load
+   * balancers that create their own channels to other services.
+   */
+  getChannelCredentials(): ChannelCredentials;
 }
 
 /**
@@ -82,6 +92,9 @@ export function createChildChannelControlHelper(
     removeChannelzChild:
       overrides.removeChannelzChild?.bind(overrides) ??
       parent.removeChannelzChild.bind(parent),
+    getChannelCredentials:
+      overrides.getChannelCredentials?.bind(overrides) ??
+      parent.getChannelCredentials.bind(parent),
   };
 }
 
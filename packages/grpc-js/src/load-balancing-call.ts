@@ -16,6 +16,7 @@
  */
 
 import { CallCredentials } from './call-credentials';
+import { CallAttemptTracer, getTracedMessageSize } from './call-tracer';
 import {
   Call,
   InterceptingListener,
@@ -28,7 +29,7 @@ import { LogVerbosity, Status } from './constants';
 import { Deadline, getDeadlineTimeoutString } from './deadline';
 import { InternalChannel } from './internal-channel';
 import { Metadata } from './metadata';
-import { PickResultType } from './picker';
+import { OnCallEnded, PickResultType } from './picker';
 import { CallConfig } from './resolver';
 import { splitHostPort } from './uri-parser';
 import * as logging from './logging';
@@ -58,7 +59,7 @@ export class LoadBalancingCall implements Call {
   private serviceUrl: string;
   private metadata: Metadata | null = null;
   private listener: InterceptingListener | null = null;
-  private onCallEnded: ((statusCode: Status) => void) | null = null;
+  private onCallEnded: OnCallEnded | null = null;
   constructor(
     private readonly channel: InternalChannel,
     private readonly callConfig: CallConfig,
@@ -66,7 +67,8 @@ export class LoadBalancingCall implements Call {
     private readonly host: string,
     private readonly credentials: CallCredentials,
     private readonly deadline: Deadline,
-    private readonly callNumber: number
+    private readonly callNumber: number,
+    private readonly attemptTracer: CallAttemptTracer | null = null
   ) {
     const splitPath: string[] = this.methodName.split('/');
     let serviceName = '';
@@ -101,8 +103,13 @@ export class LoadBalancingCall implements Call {
           '"'
       );
       const finalStatus = { ...status, progress };
+      this.attemptTracer?.onEnd?.(status);
       this.listener?.onReceiveStatus(finalStatus);
-      this.onCallEnded?.(finalStatus.code);
+      this.onCallEnded?.(
+        finalStatus.code,
+        finalStatus.details,
+        finalStatus.metadata
+      );
     }
   }
 
@@ -117,7 +124,10 @@ export class LoadBalancingCall implements Call {
     const finalMetadata = this.metadata.clone();
     const pickResult = this.channel.doPick(
       finalMetadata,
-      this.callConfig.pickInformation
+      this.callConfig.pickInformation,
+      this.methodName,
+      this.host,
+      this.callConfig.callAttributes
     );
     const subchannelString = pickResult.subchannel
       ? '(' +
@@ -193,6 +203,9 @@ export class LoadBalancingCall implements Call {
                     },
                     onReceiveMessage: message => {
                       this.trace('Received message');
+                      this.attemptTracer?.onReceiveMessage?.(
+                        getTracedMessageSize(message)
+                      );
                       this.listener!.onReceiveMessage(message);
                     },
                     onReceiveStatus: status => {
@@ -313,12 +326,14 @@ export class LoadBalancingCall implements Call {
     listener: LoadBalancingCallInterceptingListener
   ): void {
     this.trace('start called');
+    this.attemptTracer?.onStart?.(metadata);
     this.listener = listener;
     this.metadata = metadata;
     this.doPick();
   }
   sendMessageWithContext(context: MessageContext, message: Buffer): void {
     this.trace('write() called with message of length ' + message.length);
+    this.attemptTracer?.onSendMessage?.(getTracedMessageSize(message));
     if (this.child) {
       this.child.sendMessageWithContext(context, message);
     } else {
@@ -18,6 +18,12 @@
 import { ChannelCredentials } from './channel-credentials';
 import { ChannelOptions } from './channel-options';
 import { Client } from './client';
+import {
+  makePromiseBidiStreamRequest,
+  makePromiseClientStreamRequest,
+  makePromiseServerStreamRequest,
+  makePromiseUnaryRequest,
+} from './promise-client';
 import { UntypedServiceImplementation } from './server';
 
 export interface Serialize<T> {
@@ -80,6 +86,29 @@ const requesterFuncs = {
   bidi: Client.prototype.makeBidiStreamRequest,
 };
 
+/**
+ * Map with short names for each of the promise API requester functions. Used
+ * in makeClientConstructor when the promiseApi option is set
+ * @private
+ */
+const promiseRequesterFuncs = {
+  unary: makePromiseUnaryRequest,
+  server_stream: makePromiseServerStreamRequest,
+  client_stream: makePromiseClientStreamRequest,
+  bidi: makePromiseBidiStreamRequest,
+};
+
+export interface ClientConstructorOptions {
+  /**
+   * If true, the generated methods use the promise API instead of callbacks
+   * and Node streams: unary and client streaming methods return a Promise for
+   * the response, client streaming and bidirectional streaming methods take
+   * an iterable or async iterable of requests, and server streaming and
+   * bidirectional streaming methods return an async iterable of responses.
+   */
+  promiseApi?: boolean;
+}
+
 export interface ServiceClient extends Client {
   [methodName: string]: Function;
 }
@@ -120,11 +149,13 @@ function isPrototypePolluted(key: string): boolean {
 export function makeClientConstructor(
   methods: ServiceDefinition,
   serviceName: string,
-  classOptions?: {}
+  classOptions?: ClientConstructorOptions
 ): ServiceClientConstructor {
   if (!classOptions) {
     classOptions = {};
   }
+  const methodRequesterFuncs: Record<keyof typeof requesterFuncs, Function> =
+    classOptions.promiseApi ? promiseRequesterFuncs : requesterFuncs;
 
   class ServiceClientImpl extends Client implements ServiceClient {
     static service: ServiceDefinition;
@@ -158,7 +189,7 @@ export function makeClientConstructor(
     const serialize = attrs.requestSerialize;
     const deserialize = attrs.responseDeserialize;
     const methodFunc = partial(
-      requesterFuncs[methodType],
+      methodRequesterFuncs[methodType],
       attrs.path,
       serialize,
       deserialize
@@ -206,10 +237,12 @@ function isProtobufTypeDefinition(
 /**
  * Load a gRPC package definition as a gRPC object hierarchy.
  * @param packageDef The package definition object.
+ * @param options Options passed to makeClientConstructor for each service.
  * @return The resulting gRPC object.
  */
 export function loadPackageDefinition(
-  packageDef: PackageDefinition
+  packageDef: PackageDefinition,
+  options: ClientConstructorOptions = {}
 ): GrpcObject {
   const result: GrpcObject = {};
   for (const serviceFqn in packageDef) {
@@ -230,7 +263,11 @@ export function loadPackageDefinition(
       if (isProtobufTypeDefinition(service)) {
         current[serviceName] = service;
       } else {
-        current[serviceName] = makeClientConstructor(service, serviceName, {});
+        current[serviceName] = makeClientConstructor(
+          service,
+          serviceName,
+          options
+        );
       }
     }
   }
@@ -0,0 +1,705 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import type { loadSync } from '@grpc/proto-loader';
+import { BackoffTimeout } from './backoff-timeout';
+import { ConnectivityState } from './connectivity-state';
+import { LogVerbosity, Status } from './constants';
+import { ProtoGrpcType as OrcaProtoGrpcType } from './generated/orca';
+import {
+  OrcaLoadReport,
+  OrcaLoadReport__Output,
+} from './generated/xds/data/orca/v3/OrcaLoadReport';
+import {
+  OpenRcaServiceDefinition,
+  OpenRcaServiceHandlers,
+} from './generated/xds/service/orca/v3/OpenRcaService';
+import { OrcaLoadReportRequest__Output } from './generated/xds/service/orca/v3/OrcaLoadReportRequest';
+import * as logging from './logging';
+import { loadPackageDefinition } from './make-client';
+import { Metadata } from './metadata';
+import { OnCallEnded } from './picker';
+import type { Server } from './server';
+import { ServerWritableStream } from './server-call';
+import { Subchannel } from './subchannel';
+import { StatusObjectWithRstCode, SubchannelCall } from './subchannel-call';
+import {
+  BaseSubchannelWrapper,
+  ConnectivityStateListener,
+  SubchannelInterface,
+} from './subchannel-interface';
+
+const TRACER_NAME = 'orca';
+
+function trace(text: string): void {
+  logging.trace(LogVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+/**
+ * The trailer that carries the per-call load report, as specified in
+ * https://github.com/grpc/proposal/blob/master/A51-custom-backend-metrics.md.
+ */
+export const LOAD_REPORT_METADATA_KEY = 'endpoint-load-metrics-bin';
+
+const OOB_METHOD = '/xds.service.orca.v3.OpenRcaService/StreamCoreMetrics';
+
+const DEFAULT_MIN_REPORT_INTERVAL_MS = 30_000;
+
+let loadedOrcaServiceDefinition: OpenRcaServiceDefinition | null = null;
+
+function getOrcaServiceDefinition(): OpenRcaServiceDefinition {
+  if (loadedOrcaServiceDefinition) {
+    return loadedOrcaServiceDefinition;
+  }
+  /* The purpose of this complexity is to avoid loading @grpc/proto-loader at
+   * runtime for users who will not use ORCA. */
+  const loaderLoadSync = require('@grpc/proto-loader')
+    .loadSync as typeof loadSync;
+  const loadedProto = loaderLoadSync('xds/service/orca/v3/orca.proto', {
+    keepCase: true,
+    longs: String,
+    enums: String,
+    defaults: true,
+    oneofs: true,
+    includeDirs: [`${__dirname}/../../proto/xds`],
+  });
+  const orcaGrpcObject = loadPackageDefinition(
+    loadedProto
+  ) as unknown as OrcaProtoGrpcType;
+  loadedOrcaServiceDefinition =
+    orcaGrpcObject.xds.service.orca.v3.OpenRcaService.service;
+  return loadedOrcaServiceDefinition;
+}
+
+function serializeLoadReport(loadReport: OrcaLoadReport): Buffer {
+  return getOrcaServiceDefinition().StreamCoreMetrics.responseSerialize(
+    loadReport
+  );
+}
+
+function deserializeLoadReport(serialized: Buffer): OrcaLoadReport__Output {
+  return getOrcaServiceDefinition().StreamCoreMetrics.responseDeserialize(
+    serialized
+  );
+}
+
+function isValidUtilization(value: number): boolean {
+  return value >= 0 && value <= 1;
+}
+
+function isNonNegative(value: number): boolean {
+  return value >= 0;
+}
+
+/**
+ * Records metrics for a single call, to be sent to the client in the
+ * endpoint-load-metrics-bin trailer. Invalid values are ignored.
+ */
+export class PerRequestMetricRecorder {
+  private message: OrcaLoadReport = {};
+  private hasValues = false;
+
+  private setMapValue(
+    field: 'request_cost' | 'utilization' | 'named_metrics',
+    name: string,
+    value: number
+  ) {
+    if (!this.message[field]) {
+      this.message[field] = {};
+    }
+    this.message[field]![name] = value;
+    this.hasValues = true;
+  }
+
+  private setValue(
+    field:
+      | 'cpu_utilization'
+      | 'mem_utilization'
+      | 'application_utilization'
+      | 'rps_fractional'
+      | 'eps',
+    value: number
+  ) {
+    this.message[field] = value;
+    this.hasValues = true;
+  }
+
+  /**
+   * Records an application-specific cost of handling this call.
+   * @param name
+   * @param value
+   */
+  recordRequestCostMetric(name: string, value: number) {
+    this.setMapValue('request_cost', name, value);
+  }
+
+  /**
+   * Records a named utilization value in the range [0, 1].
+   * @param name
+   * @param value
+   */
+  recordUtilizationMetric(name: string, value: number) {
+    if (!isValidUtilization(value)) {
+      return;
+    }
+    this.setMapValue('utilization', name, value);
+  }
+
+  /**
+   * Records an application-specific opaque metric.
+   * @param name
+   * @param value
+   */
+  recordNamedMetric(name: string, value: number) {
+    this.setMapValue('named_metrics', name, value);
+  }
+
+  /**
+   * Records the CPU utilization. Values greater than 1 are allowed.
+   * @param value
+   */
+  recordCpuUtilizationMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.setValue('cpu_utilization', value);
+  }
+
+  /**
+   * Records the memory utilization, in the range [0, 1].
+   * @param value
+   */
+  recordMemoryUtilizationMetric(value: number) {
+    if (!isValidUtilization(value)) {
+      return;
+    }
+    this.setValue('mem_utilization', value);
+  }
+
+  /**
+   * Records the application utilization. Values greater than 1 are allowed.
+   * @param value
+   */
+  recordApplicationUtilizationMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.setValue('application_utilization', value);
+  }
+
+  /**
+   * Records the queries per second handled by the server.
+   * @param value
+   */
+  recordQpsMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.setValue('rps_fractional', value);
+  }
+
+  /**
+   * Records the errors per second returned by the server.
+   * @param value
+   */
+  recordEpsMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.setValue('eps', value);
+  }
+
+  /**
+   * Returns the serialized load report, or null if no metrics were recorded.
+   */
+  serialize(): Buffer | null {
+    if (!this.hasValues) {
+      return null;
+    }
+    return serializeLoadReport(this.message);
+  }
+}
+
+/**
+ * Records server-wide metrics and serves them to clients with the
+ * xds.service.orca.v3.OpenRcaService out-of-band reporting service. Invalid
+ * values are ignored.
+ */
+export class ServerMetricRecorder {
+  private message: OrcaLoadReport = {};
+  private serviceImplementation: OpenRcaServiceHandlers = {
+    StreamCoreMetrics: (
+      call: ServerWritableStream<OrcaLoadReportRequest__Output, OrcaLoadReport>
+    ) => {
+      const requestedIntervalMs = call.request.report_interval
+        ? Number(call.request.report_interval.seconds) * 1000 +
+          call.request.report_interval.nanos / 1_000_000
+        : 0;
+      const intervalMs = Math.max(
+        requestedIntervalMs,
+        this.minReportIntervalMs
+      );
+      trace(
+        'Starting load report stream to ' +
+          call.getPeer() +
+          ' with interval ' +
+          intervalMs +
+          'ms'
+      );
+      call.write(this.message);
+      const timer = setInterval(() => {
+        call.write(this.message);
+      }, intervalMs);
+      call.on('cancelled', () => {
+        clearInterval(timer);
+      });
+    },
+  };
+
+  /**
+   * @param minReportIntervalMs The minimum interval between out-of-band
+   *     reports. Clients that request a shorter interval get this one instead.
+   */
+  constructor(
+    private readonly minReportIntervalMs = DEFAULT_MIN_REPORT_INTERVAL_MS
+  ) {}
+
+  /**
+   * Sets a named utilization value in the range [0, 1].
+   * @param name
+   * @param value
+   */
+  setUtilizationMetric(name: string, value: number) {
+    if (!isValidUtilization(value)) {
+      return;
+    }
+    this.message.utilization = { ...this.message.utilization, [name]: value };
+  }
+
+  /**
+   * Replaces all named utilization values. Invalid values are dropped.
+   * @param metrics
+   */
+  setAllUtilizationMetrics(metrics: { [name: string]: number }) {
+    const utilization: { [name: string]: number } = {};
+    for (const [name, value] of Object.entries(metrics)) {
+      if (isValidUtilization(value)) {
+        utilization[name] = value;
+      }
+    }
+    this.message.utilization = utilization;
+  }
+
+  deleteUtilizationMetric(name: string) {
+    if (this.message.utilization) {
+      const { [name]: deleted, ...rest } = this.message.utilization;
+      this.message.utilization = rest;
+    }
+  }
+
+  setCpuUtilizationMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.message.cpu_utilization = value;
+  }
+
+  deleteCpuUtilizationMetric() {
+    delete this.message.cpu_utilization;
+  }
+
+  setMemoryUtilizationMetric(value: number) {
+    if (!isValidUtilization(value)) {
+      return;
+    }
+    this.message.mem_utilization = value;
+  }
+
+  deleteMemoryUtilizationMetric() {
+    delete this.message.mem_utilization;
+  }
+
+  setApplicationUtilizationMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.message.application_utilization = value;
+  }
+
+  deleteApplicationUtilizationMetric() {
+    delete this.message.application_utilization;
+  }
+
+  setQpsMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.message.rps_fractional = value;
+  }
+
+  deleteQpsMetric() {
+    delete this.message.rps_fractional;
+  }
+
+  setEpsMetric(value: number) {
+    if (!isNonNegative(value)) {
+      return;
+    }
+    this.message.eps = value;
+  }
+
+  deleteEpsMetric() {
+    delete this.message.eps;
+  }
+
+  /**
+   * Register the OpenRcaService on the server, to send the recorded metrics
+   * to clients that request out-of-band load reports.
+   * @param server
+   */
+  addToServer(server: Server) {
+    server.addService(getOrcaServiceDefinition(), this.serviceImplementation);
+  }
+}
+
+export type MetricsListener = (loadReport: OrcaLoadReport__Output) => void;
+
+/**
+ * Create an onCallEnded callback for a pick result that passes the load
+ * report in the call's trailers, if there is one, to the listener.
+ * @param listener
+ * @param previousOnCallEnded The onCallEnded callback from the child pick
+ *     result, if any. It is called first.
+ */
+export function createMetricsReader(
+  listener: MetricsListener,
+  previousOnCallEnded: OnCallEnded | null
+): OnCallEnded {
+  return (statusCode, details, metadata) => {
+    previousOnCallEnded?.(statusCode, details, metadata);
+    const serializedLoadReport = metadata.get(LOAD_REPORT_METADATA_KEY)[0];
+    if (!serializedLoadReport) {
+      return;
+    }
+    let loadReport: OrcaLoadReport__Output;
+    try {
+      loadReport = deserializeLoadReport(serializedLoadReport as Buffer);
+    } catch (e) {
+      trace('Failed to parse load report: ' + (e as Error).message);
+      return;
+    }
+    listener(loadReport);
+  };
+}
+
+interface OobMetricsWatcher {
+  intervalMs: number;
+  listener: MetricsListener;
+}
+
+/**
+ * Maintains a single out-of-band load report stream on a subchannel, shared
+ * by all watchers of that subchannel. The stream requests the shortest
+ * interval that any watcher requested.
+ */
+class OobMetricsProducer {
+  private watchers: Set<OobMetricsWatcher> = new Set();
+  private call: SubchannelCall | null = null;
+  private callIntervalMs = 0;
+  /**
+   * Indicates that the server does not implement the OpenRcaService, so
+   * streams are not started until the subchannel reconnects.
+   */
+  private disabled = false;
+  private receivedResponse = false;
+  private backoffTimeout: BackoffTimeout;
+  private subchannelStateListener: ConnectivityStateListener = (
+    subchannel,
+    previousState,
+    newState
+  ) => {
+    if (newState === ConnectivityState.READY) {
+      /* The subchannel reports the READY state before it can start calls, so
+       * the call is started asynchronously. */
+      process.nextTick(() => this.updateCall());
+    } else {
+      this.disabled = false;
+      this.backoffTimeout.stop();
+      this.backoffTimeout.reset();
+      this.cancelCall();
+    }
+  };
+
+  constructor(private readonly subchannel: Subchannel) {
+    this.backoffTimeout = new BackoffTimeout(() => {
+      if (this.canStartCall() && !this.call) {
+        this.startCall(this.getRequestedIntervalMs());
+      }
+    });
+    this.backoffTimeout.unref();
+  }
+
+  private trace(text: string) {
+    trace(
+      '(' +
+        this.subchannel.getChannelzRef().id +
+        ') ' +
+        this.subchannel.getAddress() +
+        ' ' +
+        text
+    );
+  }
+
+  private getRequestedIntervalMs(): number {
+    let intervalMs = Infinity;
+    for (const watcher of this.watchers) {
+      intervalMs = Math.min(intervalMs, watcher.intervalMs);
+    }
+    return intervalMs;
+  }
+
+  private canStartCall(): boolean {
+    return (
+      this.watchers.size > 0 &&
+      !this.disabled &&
+      this.subchannel.getConnectivityState() === ConnectivityState.READY
+    );
+  }
+
+  private updateCall() {
+    if (!this.canStartCall()) {
+      return;
+    }
+    const intervalMs = this.getRequestedIntervalMs();
+    if (this.call) {
+      if (this.callIntervalMs === intervalMs) {
+        return;
+      }
+      /* The report interval can only be set when the stream starts, so the
+       * stream is restarted to change it. */
+      this.cancelCall();
+    } else if (this.backoffTimeout.isRunning()) {
+      return;
+    }
+    this.startCall(intervalMs);
+  }
+
+  private startCall(intervalMs: number) {
+    this.trace(
+      'Starting load report stream with interval ' + intervalMs + 'ms'
+    );
+    this.receivedResponse = false;
+    let call: SubchannelCall;
+    try {
+      call = this.subchannel.createCall(
+        new Metadata(),
+        this.subchannel.getDefaultAuthority(),
+        OOB_METHOD,
+        {
+          onReceiveMetadata: () => {},
+          onReceiveMessage: (message: Buffer) => {
+            if (this.call !== call) {
+              return;
+            }
+            this.handleResponse(call, message);
+          },
+          onReceiveStatus: status => {
+            if (this.call !== call) {
+              return;
+            }
+            this.call = null;
+            this.handleStatus(status);
+          },
+        }
+      );
+    } catch (error) {
+      this.trace(
+        'Failed to start load report stream: ' + (error as Error).message
+      );
+      this.backoffTimeout.runOnce();
+      return;
+    }
+    this.call = call;
+    this.callIntervalMs = intervalMs;
+    const serializedRequest =
+      getOrcaServiceDefinition().StreamCoreMetrics.requestSerialize({
+        report_interval: {
+          seconds: Math.floor(intervalMs / 1000),
+          nanos: (intervalMs % 1000) * 1_000_000,
+        },
+      });
+    const framedRequest = Buffer.alloc(serializedRequest.length + 5);
+    framedRequest.writeUInt8(0, 0);
+    framedRequest.writeUInt32BE(serializedRequest.length, 1);
+    serializedRequest.copy(framedRequest, 5);
+    call.sendMessageWithContext({}, framedRequest);
+    call.halfClose();
+    call.startRead();
+  }
+
+  private handleResponse(call: SubchannelCall, message: Buffer) {
+    if (message.readUInt8(0) !== 0) {
+      call.cancelWithStatus(
+        Status.INTERNAL,
+        'Compressed load reports are not supported'
+      );
+      return;
+    }
+    let loadReport: OrcaLoadReport__Output;
+    try {
+      loadReport = deserializeLoadReport(message.subarray(5));
+    } catch (error) {
+      call.cancelWithStatus(
+        Status.INTERNAL,
+        'Failed to parse load report: ' + (error as Error).message
+      );
+      return;
+    }
+    this.receivedResponse = true;
+    this.backoffTimeout.reset();
+    for (const watcher of this.watchers) {
+      watcher.listener(loadReport);
+    }
+    call.startRead();
+  }
+
+  private handleStatus(status: StatusObjectWithRstCode) {
+    this.trace(
+      'Load report stream ended with status ' +
+        Status[status.code] +
+        ': ' +
+        status.details
+    );
+    if (status.code === Status.UNIMPLEMENTED) {
+      this.disabled = true;
+      logging.log(
+        LogVerbosity.ERROR,
+        `Out-of-band load reporting disabled for ${this.subchannel.getAddress()}: the server does not implement the xds.service.orca.v3.OpenRcaService service`
+      );
+      return;
+    }
+    /* If the stream worked for a while, restart it immediately. Otherwise,
+     * wait for the backoff timer. */
+    if (this.receivedResponse) {
+      this.updateCall();
+    } else {
+      this.backoffTimeout.runOnce();
+    }
+  }
+
+  private cancelCall() {
+    if (this.call) {
+      const call = this.call;
+      this.call = null;
+      call.cancelWithStatus(Status.CANCELLED, 'Load report stream stopped');
+    }
+  }
+
+  addWatcher(watcher: OobMetricsWatcher) {
+    if (this.watchers.size === 0) {
+      this.subchannel.addConnectivityStateListener(
+        this.subchannelStateListener
+      );
+    }
+    this.watchers.add(watcher);
+    process.nextTick(() => this.updateCall());
+  }
+
+  removeWatcher(watcher: OobMetricsWatcher) {
+    this.watchers.delete(watcher);
+    if (this.watchers.size === 0) {
+      this.subchannel.removeConnectivityStateListener(
+        this.subchannelStateListener
+      );
+      this.backoffTimeout.stop();
+      this.cancelCall();
+    } else {
+      this.updateCall();
+    }
+  }
+}
+
+const oobMetricsProducers = new WeakMap<Subchannel, OobMetricsProducer>();
+
+function getOobMetricsProducer(subchannel: Subchannel): OobMetricsProducer {
+  let producer = oobMetricsProducers.get(subchannel);
+  if (!producer) {
+    producer = new OobMetricsProducer(subchannel);
+    oobMetricsProducers.set(subchannel, producer);
+  }
+  return producer;
+}
+
+/**
+ * A subchannel wrapper that receives out-of-band load reports from the
+ * backend while it is referenced. Wrappers for the same underlying subchannel
+ * share a single stream, which uses the shortest requested interval.
+ */
+export class OrcaOobMetricsSubchannelWrapper extends BaseSubchannelWrapper {
+  private refCount = 0;
+  private watcher: OobMetricsWatcher;
+
+  constructor(
+    child: SubchannelInterface,
+    listener: MetricsListener,
+    intervalMs: number
+  ) {
+    super(child);
+    this.watcher = { listener, intervalMs };
+  }
+
+  /**
+   * Change the requested report interval. This restarts the stream if it
+   * changes the interval used by the shared stream.
+   * @param intervalMs
+   */
+  setReportInterval(intervalMs: number) {
+    if (intervalMs === this.watcher.intervalMs) {
+      return;
+    }
+    if (this.refCount > 0) {
+      const producer = getOobMetricsProducer(this.getRealSubchannel());
+      producer.removeWatcher(this.watcher);
+      this.watcher = { ...this.watcher, intervalMs };
+      producer.addWatcher(this.watcher);
+    } else {
+      this.watcher = { ...this.watcher, intervalMs };
+    }
+  }
+
+  getWrappedSubchannel(): SubchannelInterface {
+    return this.child;
+  }
+
+  ref(): void {
+    this.child.ref();
+    this.refCount += 1;
+    if (this.refCount === 1) {
+      getOobMetricsProducer(this.getRealSubchannel()).addWatcher(this.watcher);
+    }
+  }
+
+  unref(): void {
+    this.refCount -= 1;
+    if (this.refCount === 0) {
+      getOobMetricsProducer(this.getRealSubchannel()).removeWatcher(
+        this.watcher
+      );
+    }
+    this.child.unref();
+  }
+}
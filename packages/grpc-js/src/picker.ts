@@ -28,6 +28,19 @@ export enum PickResultType {
   DROP,
 }
 
+/**
+ * Called when a call that used a picked subchannel ends.
+ * @param statusCode The status code the call ended with
+ * @param details The status details the call ended with
+ * @param metadata The trailers received from the server, or an empty
+ *     Metadata object if the call did not receive trailers
+ */
+export type OnCallEnded = (
+  statusCode: Status,
+  details: string,
+  metadata: Metadata
+) => void;
+
 export interface PickResult {
   pickResultType: PickResultType;
   /**
@@ -42,7 +55,7 @@ export interface PickResult {
    */
   status: StatusObject | null;
   onCallStarted: (() => void) | null;
-  onCallEnded: ((statusCode: Status) => void) | null;
+  onCallEnded: OnCallEnded | null;
 }
 
 export interface CompletePickResult extends PickResult {
@@ -50,7 +63,7 @@ export interface CompletePickResult extends PickResult {
   subchannel: SubchannelInterface | null;
   status: null;
   onCallStarted: (() => void) | null;
-  onCallEnded: ((statusCode: Status) => void) | null;
+  onCallEnded: OnCallEnded | null;
 }
 
 export interface QueuePickResult extends PickResult {
@@ -80,6 +93,20 @@ export interface DropCallPickResult extends PickResult {
 export interface PickArgs {
   metadata: Metadata;
   extraPickInfo: { [key: string]: string };
+  /**
+   * The full method path of the call, like /package.Service/Method. The
+   * channel sets this for every pick.
+   */
+  method?: string;
+  /**
+   * The authority of the call. The channel sets this for every pick.
+   */
+  host?: string;
+  /**
+   * Per-call state from the call config. Set if the config selector provided
+   * it.
+   */
+  callAttributes?: Map<string, unknown>;
 }
 
 /**
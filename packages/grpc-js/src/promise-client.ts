@@ -0,0 +1,279 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import {
+  ClientDuplexStream,
+  ClientReadableStream,
+  ClientUnaryCall,
+  ClientWritableStream,
+  SurfaceCall,
+} from './call';
+import { CallOptions, Client } from './client';
+import { Metadata } from './metadata';
+
+/**
+ * A source of request messages for a client streaming or bidirectional
+ * streaming call made using the promise API.
+ */
+export type RequestIterable<RequestType> =
+  | Iterable<RequestType>
+  | AsyncIterable<RequestType>;
+
+/**
+ * The return value of a unary or client streaming method call made using the
+ * promise API. The promise resolves with the response message, or rejects
+ * with a ServiceError. The underlying call object is exposed to allow
+ * cancellation and access to the metadata and status events.
+ */
+export type PromiseClientCall<
+  ResponseType,
+  CallType extends SurfaceCall
+> = Promise<ResponseType> & { call: CallType };
+
+/**
+ * The return value of a server streaming or bidirectional streaming method
+ * call made using the promise API. Iterating it yields the response messages.
+ * Iteration throws a ServiceError if the call ends with a non-OK status.
+ * Ending iteration early cancels the call.
+ */
+export type ResponseIterable<
+  ResponseType,
+  CallType extends SurfaceCall
+> = AsyncIterableIterator<ResponseType> & { call: CallType };
+
+function checkMetadataAndOptions(
+  arg1?: Metadata | CallOptions,
+  arg2?: CallOptions
+): { metadata: Metadata; options: CallOptions } {
+  if (arg1 instanceof Metadata) {
+    return { metadata: arg1, options: arg2 ?? {} };
+  } else {
+    return { metadata: new Metadata(), options: arg1 ?? {} };
+  }
+}
+
+/**
+ * Wait until the stream can accept more writes, or until the call ends.
+ * @param stream
+ */
+function waitForDrain<RequestType>(
+  stream: ClientWritableStream<RequestType>
+): Promise<void> {
+  return new Promise<void>(resolve => {
+    const onDone = () => {
+      stream.removeListener('drain', onDone);
+      stream.removeListener('status', onDone);
+      resolve();
+    };
+    stream.on('drain', onDone);
+    stream.on('status', onDone);
+  });
+}
+
+/**
+ * Write every message from requests to the stream, respecting backpressure,
+ * and then half close the stream. Stops early if the call ends first.
+ * @param requests
+ * @param stream
+ */
+async function writeAll<RequestType>(
+  requests: RequestIterable<RequestType>,
+  stream: ClientWritableStream<RequestType>
+): Promise<void> {
+  let ended = false;
+  const onStatus = () => {
+    ended = true;
+  };
+  stream.on('status', onStatus);
+  try {
+    for await (const message of requests) {
+      if (ended) {
+        return;
+      }
+      if (!stream.write(message)) {
+        await waitForDrain(stream);
+      }
+    }
+    if (!ended) {
+      stream.end();
+    }
+  } finally {
+    stream.removeListener('status', onStatus);
+  }
+}
+
+/**
+ * Wrap a response stream in an async iterator that ends the call if the
+ * consumer stops iterating early.
+ * @param stream
+ * @param getWriteError Returns an error from writing requests, if any, which
+ *     is reported in preference to the resulting cancellation error.
+ */
+function iterateResponses<ResponseType>(
+  stream: ClientReadableStream<ResponseType>,
+  getWriteError: () => Error | null
+): AsyncIterableIterator<ResponseType> {
+  let receivedStatus = false;
+  let callError: Error | null = null;
+  /* These listeners are added immediately instead of when iteration starts so
+   * that an error that arrives before anything is reading does not become an
+   * uncaught exception. */
+  stream.on('status', () => {
+    receivedStatus = true;
+  });
+  stream.on('error', (error: Error) => {
+    callError = error;
+  });
+  async function* generate(): AsyncGenerator<ResponseType> {
+    try {
+      for await (const message of stream) {
+        yield message;
+      }
+    } catch (e) {
+      throw getWriteError() ?? e;
+    } finally {
+      if (!receivedStatus) {
+        stream.cancel();
+      }
+    }
+    if (callError) {
+      throw getWriteError() ?? callError;
+    }
+  }
+  return generate();
+}
+
+export function makePromiseUnaryRequest<RequestType, ResponseType>(
+  this: Client,
+  method: string,
+  serialize: (value: RequestType) => Buffer,
+  deserialize: (value: Buffer) => ResponseType,
+  argument: RequestType,
+  metadata?: Metadata | CallOptions,
+  options?: CallOptions
+): PromiseClientCall<ResponseType, ClientUnaryCall> {
+  const checkedArguments = checkMetadataAndOptions(metadata, options);
+  let call: ClientUnaryCall;
+  const promise = new Promise<ResponseType>((resolve, reject) => {
+    call = this.makeUnaryRequest(
+      method,
+      serialize,
+      deserialize,
+      argument,
+      checkedArguments.metadata,
+      checkedArguments.options,
+      (error, value) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(value!);
+        }
+      }
+    );
+  });
+  return Object.assign(promise, { call: call! });
+}
+
+export function makePromiseClientStreamRequest<RequestType, ResponseType>(
+  this: Client,
+  method: string,
+  serialize: (value: RequestType) => Buffer,
+  deserialize: (value: Buffer) => ResponseType,
+  requests: RequestIterable<RequestType>,
+  metadata?: Metadata | CallOptions,
+  options?: CallOptions
+): PromiseClientCall<ResponseType, ClientWritableStream<RequestType>> {
+  const checkedArguments = checkMetadataAndOptions(metadata, options);
+  let writeError: Error | null = null;
+  let call: ClientWritableStream<RequestType>;
+  const promise = new Promise<ResponseType>((resolve, reject) => {
+    call = this.makeClientStreamRequest(
+      method,
+      serialize,
+      deserialize,
+      checkedArguments.metadata,
+      checkedArguments.options,
+      (error, value) => {
+        if (error) {
+          reject(writeError ?? error);
+        } else {
+          resolve(value!);
+        }
+      }
+    );
+  });
+  writeAll(requests, call!).catch(error => {
+    writeError = error;
+    call.cancel();
+  });
+  return Object.assign(promise, { call: call! });
+}
+
+export function makePromiseServerStreamRequest<RequestType, ResponseType>(
+  this: Client,
+  method: string,
+  serialize: (value: RequestType) => Buffer,
+  deserialize: (value: Buffer) => ResponseType,
+  argument: RequestType,
+  metadata?: Metadata | CallOptions,
+  options?: CallOptions
+): ResponseIterable<ResponseType, ClientReadableStream<ResponseType>> {
+  const checkedArguments = checkMetadataAndOptions(metadata, options);
+  const call = this.makeServerStreamRequest(
+    method,
+    serialize,
+    deserialize,
+    argument,
+    checkedArguments.metadata,
+    checkedArguments.options
+  );
+  return Object.assign(
+    iterateResponses(call, () => null),
+    { call }
+  );
+}
+
+export function makePromiseBidiStreamRequest<RequestType, ResponseType>(
+  this: Client,
+  method: string,
+  serialize: (value: RequestType) => Buffer,
+  deserialize: (value: Buffer) => ResponseType,
+  requests: RequestIterable<RequestType>,
+  metadata?: Metadata | CallOptions,
+  options?: CallOptions
+): ResponseIterable<
+  ResponseType,
+  ClientDuplexStream<RequestType, ResponseType>
+> {
+  const checkedArguments = checkMetadataAndOptions(metadata, options);
+  const call = this.makeBidiStreamRequest(
+    method,
+    serialize,
+    deserialize,
+    checkedArguments.metadata,
+    checkedArguments.options
+  );
+  let writeError: Error | null = null;
+  writeAll(requests, call).catch(error => {
+    writeError = error;
+    call.cancel();
+  });
+  return Object.assign(
+    iterateResponses(call, () => writeError),
+    { call }
+  );
+}
@@ -0,0 +1,245 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as dns from 'dns';
+import * as util from 'util';
+import { ChannelOptions } from './channel-options';
+import { LogVerbosity } from './constants';
+import * as logging from './logging';
+
+const TRACER_NAME = 'dns_resolver';
+
+function trace(text: string): void {
+  logging.trace(LogVerbosity.DEBUG, TRACER_NAME, text);
+}
+
+/**
+ * The DNS queries that the DNS resolver makes. Implementations can be
+ * registered with registerDnsBackend and selected with the
+ * grpc-node.dns_backend channel option.
+ */
+export interface DnsBackend {
+  /**
+   * Look up the IPv4 and IPv6 addresses of a hostname. A name that exists but
+   * has no addresses should result in an empty list.
+   * @param hostname
+   */
+  lookup(hostname: string): Promise<string[]>;
+  resolveTxt(hostname: string): Promise<string[][]>;
+  resolveSrv(hostname: string): Promise<dns.SrvRecord[]>;
+}
+
+/**
+ * Create a DNS backend for a channel.
+ * @param authority The authority in the target URI, which is the DNS server
+ *     to query, or undefined if the target does not specify one.
+ * @param options The channel options
+ */
+export type DnsBackendFactory = (
+  authority: string | undefined,
+  options: ChannelOptions
+) => DnsBackend;
+
+const dnsLookupPromise = util.promisify(dns.lookup);
+
+/**
+ * A backend that uses the operating system's resolver through dns.lookup.
+ * Address lookups run on the libuv threadpool, and the DNS server cannot be
+ * configured per channel.
+ */
+class NativeDnsBackend implements DnsBackend {
+  lookup(hostname: string): Promise<string[]> {
+    /* We lookup both address families together because when looking up a
+     * single family, dns.lookup outputs an error if the name exists but there
+     * are no records for that family, and that error is indistinguishable from
+     * other kinds of errors */
+    return dnsLookupPromise(hostname, { all: true }).then(addressList =>
+      addressList.map(addr => addr.address)
+    );
+  }
+
+  /* dns.setServers replaces the default resolver that the dns.resolve*
+   * functions are bound to, so these look up the functions when they are
+   * called instead of when this module is loaded. */
+  resolveTxt(hostname: string): Promise<string[][]> {
+    return util.promisify(dns.resolveTxt)(hostname);
+  }
+
+  resolveSrv(hostname: string): Promise<dns.SrvRecord[]> {
+    return util.promisify(dns.resolveSrv)(hostname);
+  }
+}
+
+interface CachedAddresses {
+  addresses: string[];
+  expiryTime: number;
+}
+
+function isNoDataError(error: NodeJS.ErrnoException) {
+  return error.code === dns.NODATA || error.code === dns.NOTFOUND;
+}
+
+/**
+ * A backend that sends queries directly to DNS servers with a dns.Resolver,
+ * like the c-ares resolver in gRPC core. Address lookups are cached for the
+ * TTL of the records.
+ */
+class NameserverDnsBackend implements DnsBackend {
+  private resolver = new dns.Resolver();
+  private addressCache = new Map<string, CachedAddresses>();
+
+  /**
+   * @param servers The DNS servers to query, in the format accepted by
+   *     dns.setServers. If it is empty, the system's DNS servers are used.
+   */
+  constructor(servers: string[]) {
+    if (servers.length > 0) {
+      this.resolver.setServers(servers);
+    }
+  }
+
+  private resolveAddresses(
+    hostname: string,
+    rrtype: 'A' | 'AAAA'
+  ): Promise<string[]> {
+    const cacheKey = `${rrtype}:${hostname}`;
+    const cached = this.addressCache.get(cacheKey);
+    if (cached && cached.expiryTime > Date.now()) {
+      return Promise.resolve(cached.addresses);
+    }
+    this.addressCache.delete(cacheKey);
+    const resultPromise = new Promise<dns.RecordWithTtl[]>(
+      (resolve, reject) => {
+        const callback = (
+          error: NodeJS.ErrnoException | null,
+          records: dns.RecordWithTtl[]
+        ) => (error ? reject(error) : resolve(records));
+        if (rrtype === 'A') {
+          this.resolver.resolve4(hostname, { ttl: true }, callback);
+        } else {
+          this.resolver.resolve6(hostname, { ttl: true }, callback);
+        }
+      }
+    );
+    return resultPromise.then(
+      records => {
+        const addresses = records.map(record => record.address);
+        const ttlSeconds = Math.min(...records.map(record => record.ttl));
+        if (records.length > 0 && ttlSeconds > 0) {
+          this.addressCache.set(cacheKey, {
+            addresses,
+            expiryTime: Date.now() + ttlSeconds * 1000,
+          });
+        }
+        return addresses;
+      },
+      (error: NodeJS.ErrnoException) => {
+        if (isNoDataError(error)) {
+          return [];
+        }
+        throw error;
+      }
+    );
+  }
+
+  lookup(hostname: string): Promise<string[]> {
+    /* Both queries are in flight at once, so each one needs a rejection
+     * handler from the start. Otherwise, a failure of one while the other is
+     * still pending would be an unhandled rejection. */
+    const ipv4Promise = this.resolveAddresses(hostname, 'A').then(
+      addresses => ({ addresses, error: null }),
+      (error: Error) => ({ addresses: [] as string[], error })
+    );
+    const ipv6Promise = this.resolveAddresses(hostname, 'AAAA').then(
+      addresses => ({ addresses, error: null }),
+      (error: Error) => ({ addresses: [] as string[], error })
+    );
+    /* If only one of the queries fails, use the result of the other one
+     * instead of failing the whole lookup. */
+    return Promise.all([ipv4Promise, ipv6Promise]).then(([ipv4, ipv6]) => {
+      if (ipv4.error) {
+        trace('A query for ' + hostname + ' failed: ' + ipv4.error.message);
+      }
+      if (ipv6.error) {
+        trace('AAAA query for ' + hostname + ' failed: ' + ipv6.error.message);
+      }
+      if (ipv4.error && ipv6.addresses.length === 0) {
+        throw ipv4.error;
+      }
+      return [...ipv4.addresses, ...ipv6.addresses];
+    });
+  }
+
+  resolveTxt(hostname: string): Promise<string[][]> {
+    return util.promisify(this.resolver.resolveTxt.bind(this.resolver))(
+      hostname
+    );
+  }
+
+  resolveSrv(hostname: string): Promise<dns.SrvRecord[]> {
+    return util.promisify(this.resolver.resolveSrv.bind(this.resolver))(
+      hostname
+    );
+  }
+}
+
+const registeredBackends = new Map<string, DnsBackendFactory>([
+  [
+    'native',
+    authority => {
+      if (authority) {
+        trace(
+          'The native DNS backend ignores the DNS server ' +
+            authority +
+            ' in the target'
+        );
+      }
+      return new NativeDnsBackend();
+    },
+  ],
+  ['ares', authority => new NameserverDnsBackend(authority ? [authority] : [])],
+]);
+
+/**
+ * Register a DNS backend, so that channels can select it by setting the
+ * grpc-node.dns_backend channel option to the given name.
+ * @param name
+ * @param factory
+ */
+export function registerDnsBackend(name: string, factory: DnsBackendFactory) {
+  registeredBackends.set(name, factory);
+}
+
+/**
+ * Create the DNS backend selected by the channel options. If none is
+ * selected, targets that specify a DNS server use the "ares" backend to query
+ * it, and other targets use the "native" backend.
+ * @param authority
+ * @param options
+ */
+export function createDnsBackend(
+  authority: string | undefined,
+  options: ChannelOptions
+): DnsBackend {
+  const name =
+    options['grpc-node.dns_backend'] ?? (authority ? 'ares' : 'native');
+  const factory = registeredBackends.get(name);
+  if (!factory) {
+    throw new Error(`Unknown DNS backend ${name}`);
+  }
+  return factory(authority, options);
+}
@@ -21,18 +21,18 @@ import {
   registerDefaultScheme,
 } from './resolver';
 import * as dns from 'dns';
-import * as util from 'util';
 import { extractAndSelectServiceConfig, ServiceConfig } from './service-config';
 import { Status } from './constants';
 import { StatusObject } from './call-interface';
 import { Metadata } from './metadata';
 import * as logging from './logging';
 import { LogVerbosity } from './constants';
-import { Endpoint, TcpSubchannelAddress } from './subchannel-address';
+import { Endpoint, endpointToString } from './subchannel-address';
 import { GrpcUri, uriToString, splitHostPort } from './uri-parser';
 import { isIPv6, isIPv4 } from 'net';
 import { ChannelOptions } from './channel-options';
 import { BackoffOptions, BackoffTimeout } from './backoff-timeout';
+import { createDnsBackend, DnsBackend } from './resolver-dns-backend';
 
 const TRACER_NAME = 'dns_resolver';
 
@@ -47,8 +47,76 @@ export const DEFAULT_PORT = 443;
 
 const DEFAULT_MIN_TIME_BETWEEN_RESOLUTIONS_MS = 30_000;
 
-const resolveTxtPromise = util.promisify(dns.resolveTxt);
-const dnsLookupPromise = util.promisify(dns.lookup);
+/**
+ * Matches names of the form _service._proto.name, which are resolved with an
+ * SRV query instead of an address lookup when SRV queries are enabled.
+ */
+const SRV_SERVICE_NAME_REGEX = /^_[^.]+\._[^.]+\../;
+
+/**
+ * The resolution attribute that holds the balancer addresses discovered by
+ * the _grpc_lb._tcp.<hostname> SRV query, as a SrvEndpoint[]. It is only set
+ * if that query returns any records.
+ */
+export const BALANCER_ADDRESSES_ATTRIBUTE_KEY = 'grpc.dns.balancer_addresses';
+
+/**
+ * An endpoint that was resolved from an SRV record. It contains every address
+ * of the record's target, and the record's priority and weight, so that LB
+ * policies can use them.
+ */
+export interface SrvEndpoint extends Endpoint {
+  /**
+   * The target hostname in the SRV record.
+   */
+  srvTarget: string;
+  srvPriority: number;
+  srvWeight: number;
+}
+
+export function isSrvEndpoint(endpoint: Endpoint): endpoint is SrvEndpoint {
+  return typeof (endpoint as SrvEndpoint).srvTarget === 'string';
+}
+
+/**
+ * Resolve the SRV records for the name, and then look up the addresses of
+ * each record's target. Targets that fail to resolve are omitted.
+ * @param backend
+ * @param name
+ */
+function lookupSrvEndpoints(
+  backend: DnsBackend,
+  name: string
+): Promise<SrvEndpoint[]> {
+  return backend.resolveSrv(name).then(records =>
+    Promise.all(
+      records.map(record =>
+        backend.lookup(record.name).then(
+          (addressList): SrvEndpoint => ({
+            addresses: addressList.map(address => ({
+              host: address,
+              port: record.port,
+            })),
+            srvTarget: record.name,
+            srvPriority: record.priority,
+            srvWeight: record.weight,
+          }),
+          err => {
+            trace(
+              'Failed to resolve SRV target ' +
+                record.name +
+                ': ' +
+                (err as Error).message
+            );
+            return null;
+          }
+        )
+      )
+    ).then(endpoints =>
+      endpoints.filter((endpoint): endpoint is SrvEndpoint => !!endpoint)
+    )
+  );
+}
 
 /**
  * Resolver implementation that handles DNS names and IP addresses.
@@ -57,17 +125,21 @@ class DnsResolver implements Resolver {
   private readonly ipResult: Endpoint[] | null;
   private readonly dnsHostname: string | null;
   private readonly port: number | null;
+  private readonly backend: DnsBackend | null;
+  private readonly backendError: string | null;
   /**
    * Minimum time between resolutions, measured as the time between starting
    * successive resolution requests. Only applies to successful resolutions.
    * Failures are handled by the backoff timer.
    */
   private readonly minTimeBetweenResolutionsMs: number;
-  private pendingLookupPromise: Promise<dns.LookupAddress[]> | null = null;
+  private pendingLookupPromise: Promise<Endpoint[]> | null = null;
   private pendingTxtPromise: Promise<string[][]> | null = null;
+  private pendingBalancerSrvPromise: Promise<SrvEndpoint[]> | null = null;
   private latestLookupResult: Endpoint[] | null = null;
   private latestServiceConfig: ServiceConfig | null = null;
   private latestServiceConfigError: StatusObject | null = null;
+  private latestBalancerAddresses: SrvEndpoint[] | null = null;
   private percentage: number;
   private defaultResolutionError: StatusObject;
   private backoff: BackoffTimeout;
@@ -75,6 +147,7 @@ class DnsResolver implements Resolver {
   private nextResolutionTimer: NodeJS.Timeout;
   private isNextResolutionTimerRunning = false;
   private isServiceConfigEnabled = true;
+  private isSrvQueryEnabled = false;
   private returnedIpResult = false;
   constructor(
     private target: GrpcUri,
@@ -109,10 +182,27 @@ class DnsResolver implements Resolver {
     }
     this.percentage = Math.random() * 100;
 
+    try {
+      /* An empty authority, as in dns:///hostname, means that no DNS server
+       * was specified. */
+      this.backend = createDnsBackend(
+        target.authority || undefined,
+        channelOptions
+      );
+      this.backendError = null;
+    } catch (e) {
+      this.backend = null;
+      this.backendError = (e as Error).message;
+    }
+
     if (channelOptions['grpc.service_config_disable_resolution'] === 1) {
       this.isServiceConfigEnabled = false;
     }
 
+    if (channelOptions['grpc.dns_enable_srv_queries'] === 1) {
+      this.isSrvQueryEnabled = true;
+    }
+
     this.defaultResolutionError = {
       code: Status.UNAVAILABLE,
       details: `Name resolution failed for target ${uriToString(this.target)}`,
@@ -138,9 +228,22 @@ class DnsResolver implements Resolver {
     clearTimeout(this.nextResolutionTimer);
   }
 
+  private getResolutionAttributes(): { [key: string]: unknown } {
+    if (
+      this.latestBalancerAddresses &&
+      this.latestBalancerAddresses.length > 0
+    ) {
+      return {
+        [BALANCER_ADDRESSES_ATTRIBUTE_KEY]: this.latestBalancerAddresses,
+      };
+    }
+    return {};
+  }
+
   /**
    * If the target is an IP address, just provide that address as a result.
-   * Otherwise, initiate A, AAAA, and TXT lookups
+   * Otherwise, initiate A, AAAA, and TXT lookups, and SRV lookups if they are
+   * enabled.
    */
   private startResolution() {
     if (this.ipResult !== null) {
@@ -172,7 +275,25 @@ class DnsResolver implements Resolver {
         });
       });
       this.stopNextResolutionTimer();
+    } else if (this.backend === null) {
+      trace(
+        'Failed to create DNS backend for target ' +
+          uriToString(this.target) +
+          ': ' +
+          this.backendError
+      );
+      setImmediate(() => {
+        this.listener.onError({
+          code: Status.UNAVAILABLE,
+          details: `Failed to create DNS backend for target ${uriToString(
+            this.target
+          )}: ${this.backendError}`,
+          metadata: new Metadata(),
+        });
+      });
+      this.stopNextResolutionTimer();
     } else {
+      const backend = this.backend;
       if (this.pendingLookupPromise !== null) {
         return;
       }
@@ -185,31 +306,30 @@ class DnsResolver implements Resolver {
        * revert to an effectively blank one. */
       this.latestLookupResult = null;
       const hostname: string = this.dnsHostname;
-      /* We lookup both address families here and then split them up later
-       * because when looking up a single family, dns.lookup outputs an error
-       * if the name exists but there are no records for that family, and that
-       * error is indistinguishable from other kinds of errors */
-      this.pendingLookupPromise = dnsLookupPromise(hostname, { all: true });
+      const isSrvServiceName =
+        this.isSrvQueryEnabled && SRV_SERVICE_NAME_REGEX.test(hostname);
+      if (isSrvServiceName) {
+        /* The ports come from the SRV records, so the port in the target is
+         * not used. */
+        this.pendingLookupPromise = lookupSrvEndpoints(backend, hostname);
+      } else {
+        this.pendingLookupPromise = backend.lookup(hostname).then(addressList =>
+          addressList.map(address => ({
+            addresses: [{ host: address, port: +this.port! }],
+          }))
+        );
+      }
       this.pendingLookupPromise.then(
-        addressList => {
+        endpointList => {
           if (this.pendingLookupPromise === null) {
             return;
           }
           this.pendingLookupPromise = null;
           this.backoff.reset();
           this.backoff.stop();
-          const subchannelAddresses: TcpSubchannelAddress[] = addressList.map(
-            addr => ({ host: addr.address, port: +this.port! })
-          );
-          this.latestLookupResult = subchannelAddresses.map(address => ({
-            addresses: [address],
-          }));
+          this.latestLookupResult = endpointList;
           const allAddressesString: string =
-            '[' +
-            subchannelAddresses
-              .map(addr => addr.host + ':' + addr.port)
-              .join(',') +
-            ']';
+            '[' + endpointList.map(endpointToString).join(',') + ']';
           trace(
             'Resolved addresses for target ' +
               uriToString(this.target) +
@@ -229,7 +349,7 @@ class DnsResolver implements Resolver {
             this.latestServiceConfig,
             this.latestServiceConfigError,
             null,
-            {}
+            this.getResolutionAttributes()
           );
         },
         err => {
@@ -253,7 +373,7 @@ class DnsResolver implements Resolver {
         /* We handle the TXT query promise differently than the others because
          * the name resolution attempt as a whole is a success even if the TXT
          * lookup fails */
-        this.pendingTxtPromise = resolveTxtPromise(hostname);
+        this.pendingTxtPromise = backend.resolveTxt(hostname);
         this.pendingTxtPromise.then(
           txtRecord => {
             if (this.pendingTxtPromise === null) {
@@ -284,7 +404,7 @@ class DnsResolver implements Resolver {
                 this.latestServiceConfig,
                 this.latestServiceConfigError,
                 null,
-                {}
+                this.getResolutionAttributes()
               );
             }
           },
@@ -299,6 +419,55 @@ class DnsResolver implements Resolver {
           }
         );
       }
+      if (
+        this.isSrvQueryEnabled &&
+        !isSrvServiceName &&
+        this.pendingBalancerSrvPromise === null
+      ) {
+        const balancerName = '_grpc_lb._tcp.' + hostname;
+        this.pendingBalancerSrvPromise = lookupSrvEndpoints(
+          backend,
+          balancerName
+        );
+        this.pendingBalancerSrvPromise.then(
+          balancerEndpoints => {
+            if (this.pendingBalancerSrvPromise === null) {
+              return;
+            }
+            this.pendingBalancerSrvPromise = null;
+            trace(
+              'Resolved balancer addresses for target ' +
+                uriToString(this.target) +
+                ': [' +
+                balancerEndpoints.map(endpointToString).join(',') +
+                ']'
+            );
+            this.latestBalancerAddresses = balancerEndpoints;
+            if (this.latestLookupResult !== null) {
+              this.listener.onSuccessfulResolution(
+                this.latestLookupResult,
+                this.latestServiceConfig,
+                this.latestServiceConfigError,
+                null,
+                this.getResolutionAttributes()
+              );
+            }
+          },
+          err => {
+            if (this.pendingBalancerSrvPromise === null) {
+              return;
+            }
+            this.pendingBalancerSrvPromise = null;
+            /* If the name has no SRV records, there are no balancers. For any
+             * other error, like with the TXT lookup, we continue to use the
+             * result of the most recent successful lookup. */
+            const code = (err as NodeJS.ErrnoException).code;
+            if (code === dns.NODATA || code === dns.NOTFOUND) {
+              this.latestBalancerAddresses = null;
+            }
+          }
+        );
+      }
     }
   }
 
@@ -358,9 +527,11 @@ class DnsResolver implements Resolver {
     this.stopNextResolutionTimer();
     this.pendingLookupPromise = null;
     this.pendingTxtPromise = null;
+    this.pendingBalancerSrvPromise = null;
     this.latestLookupResult = null;
     this.latestServiceConfig = null;
     this.latestServiceConfigError = null;
+    this.latestBalancerAddresses = null;
     this.returnedIpResult = false;
   }
 
@@ -30,6 +30,12 @@ export interface CallConfig {
   pickInformation: { [key: string]: string };
   status: Status;
   dynamicFilterFactories: FilterFactory<Filter>[];
+  /**
+   * Per-call state shared between the dynamic filters and the load balancing
+   * picks for a single call. The config selector should return a new map for
+   * each call.
+   */
+  callAttributes?: Map<string, unknown>;
 }
 
 /**
@@ -16,6 +16,7 @@
  */
 
 import { CallCredentials } from './call-credentials';
+import { CallTracer } from './call-tracer';
 import {
   Call,
   CallStreamOptions,
@@ -51,10 +52,16 @@ export class ResolvingCall implements Call {
   private metadata: Metadata | null = null;
   private listener: InterceptingListener | null = null;
   private deadline: Deadline;
+  private callTracer: CallTracer | null;
   private host: string;
   private statusWatchers: ((status: StatusObject) => void)[] = [];
   private deadlineTimer: NodeJS.Timeout = setTimeout(() => {}, 0);
   private filterStack: FilterStack | null = null;
+  /**
+   * Remove the listener that cancels this call when the parent call is
+   * cancelled, so that it does not outlive this call.
+   */
+  private removeParentCancelListener: (() => void) | null = null;
 
   constructor(
     private readonly channel: InternalChannel,
@@ -66,11 +73,23 @@ export class ResolvingCall implements Call {
   ) {
     this.deadline = options.deadline;
     this.host = options.host;
+    this.callTracer = options.callTracer ?? null;
     if (options.parentCall) {
       if (options.flags & Propagate.CANCELLATION) {
-        options.parentCall.on('cancelled', () => {
+        const cancelWithParent = () => {
           this.cancelWithStatus(Status.CANCELLED, 'Cancelled by parent call');
-        });
+        };
+        /* The parent emits the cancelled event only once, so a call started
+         * after that happened would otherwise never be cancelled. */
+        if (options.parentCall.cancelled) {
+          process.nextTick(cancelWithParent);
+        } else {
+          const parentCall = options.parentCall;
+          parentCall.on('cancelled', cancelWithParent);
+          this.removeParentCancelListener = () => {
+            parentCall.removeListener('cancelled', cancelWithParent);
+          };
+        }
       }
       if (options.flags & Propagate.DEADLINE) {
         this.trace(
@@ -115,6 +134,8 @@ export class ResolvingCall implements Call {
   private outputStatus(status: StatusObject) {
     if (!this.ended) {
       this.ended = true;
+      this.removeParentCancelListener?.();
+      this.removeParentCancelListener = null;
       if (!this.filterStack) {
         this.filterStack = this.filterStackFactory.createFilter();
       }
@@ -204,7 +225,7 @@ export class ResolvingCall implements Call {
     }
 
     this.filterStackFactory.push(config.dynamicFilterFactories);
-    this.filterStack = this.filterStackFactory.createFilter();
+    this.filterStack = this.filterStackFactory.createFilter(config);
     this.filterStack.sendMetadata(Promise.resolve(this.metadata)).then(
       filteredMetadata => {
         this.child = this.channel.createInnerCall(
@@ -212,7 +233,8 @@ export class ResolvingCall implements Call {
           this.method,
           this.host,
           this.credentials,
-          this.deadline
+          this.deadline,
+          this.callTracer
         );
         this.trace('Created child [' + this.child.getCallNumber() + ']');
         this.child.start(filteredMetadata, {
@@ -238,6 +238,8 @@ export class ResolvingLoadBalancer implements LoadBalancer {
           channelControlHelper.addChannelzChild.bind(channelControlHelper),
         removeChannelzChild:
           channelControlHelper.removeChannelzChild.bind(channelControlHelper),
+        getChannelCredentials:
+          channelControlHelper.getChannelCredentials.bind(channelControlHelper),
       },
       channelOptions
     );
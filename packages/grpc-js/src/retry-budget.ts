@@ -0,0 +1,215 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import { mapUriDefaultScheme } from './resolver';
+import { parseUri, uriToString } from './uri-parser';
+
+const DEFAULT_MIN_RETRIES_PER_SECOND = 10;
+const DEFAULT_WINDOW_MS = 10_000;
+/**
+ * The number of buckets that the window is divided into. Calls and retries
+ * leave the window one bucket at a time.
+ */
+const BUCKET_COUNT = 10;
+
+export interface RetryBudgetConfig {
+  /**
+   * The maximum number of retries as a fraction of the number of calls in
+   * the window. For example, 0.1 allows at most 10% extra load from retries.
+   */
+  maxRetryRatio: number;
+  /**
+   * The number of retries per second that are allowed regardless of the
+   * ratio, so that targets with little traffic can still retry. The default
+   * is 10.
+   */
+  minRetriesPerSecond?: number;
+  /**
+   * The length of the time window that calls and retries are counted in, in
+   * milliseconds. The default is 10000.
+   */
+  windowMs?: number;
+}
+
+export interface RetryBudgetState {
+  /**
+   * The number of calls started in the current window
+   */
+  calls: number;
+  /**
+   * The number of retries started in the current window
+   */
+  retries: number;
+  /**
+   * The number of retries that can currently be started
+   */
+  availableRetries: number;
+}
+
+interface Bucket {
+  startTime: number;
+  calls: number;
+  retries: number;
+}
+
+function validateNonNegativeNumber(
+  config: RetryBudgetConfig,
+  key: keyof RetryBudgetConfig
+) {
+  const value: unknown = config[key];
+  if (
+    value !== undefined &&
+    !(typeof value === 'number' && Number.isFinite(value) && value >= 0)
+  ) {
+    throw new Error(
+      `Invalid retry budget config: ${key} must be a non-negative number`
+    );
+  }
+}
+
+/**
+ * Limits the retries of calls to a target to a fraction of the calls made to
+ * it in a sliding time window.
+ */
+export class RetryBudget {
+  private readonly maxRetryRatio: number;
+  private readonly minRetriesPerSecond: number;
+  private readonly windowMs: number;
+  private readonly bucketMs: number;
+  private buckets: Bucket[] = [];
+
+  constructor(config: RetryBudgetConfig) {
+    if (config.maxRetryRatio === undefined) {
+      throw new Error('Invalid retry budget config: maxRetryRatio is required');
+    }
+    validateNonNegativeNumber(config, 'maxRetryRatio');
+    validateNonNegativeNumber(config, 'minRetriesPerSecond');
+    validateNonNegativeNumber(config, 'windowMs');
+    this.maxRetryRatio = config.maxRetryRatio;
+    this.minRetriesPerSecond =
+      config.minRetriesPerSecond ?? DEFAULT_MIN_RETRIES_PER_SECOND;
+    this.windowMs = config.windowMs ?? DEFAULT_WINDOW_MS;
+    this.bucketMs = this.windowMs / BUCKET_COUNT;
+  }
+
+  /**
+   * Drop the buckets that are entirely outside of the window, and return the
+   * bucket for the current time.
+   */
+  private getCurrentBucket(): Bucket {
+    const now = Date.now();
+    this.buckets = this.buckets.filter(
+      bucket => bucket.startTime + this.bucketMs > now - this.windowMs
+    );
+    const lastBucket = this.buckets[this.buckets.length - 1];
+    if (lastBucket && lastBucket.startTime + this.bucketMs > now) {
+      return lastBucket;
+    }
+    const bucket: Bucket = { startTime: now, calls: 0, retries: 0 };
+    this.buckets.push(bucket);
+    return bucket;
+  }
+
+  recordCall() {
+    this.getCurrentBucket().calls += 1;
+  }
+
+  /**
+   * Record a retry if the budget allows it.
+   * @returns true if the retry is allowed, false if it should be rejected
+   */
+  tryRetry(): boolean {
+    const bucket = this.getCurrentBucket();
+    if (this.getState().availableRetries < 1) {
+      return false;
+    }
+    bucket.retries += 1;
+    return true;
+  }
+
+  getState(): RetryBudgetState {
+    this.getCurrentBucket();
+    let calls = 0;
+    let retries = 0;
+    for (const bucket of this.buckets) {
+      calls += bucket.calls;
+      retries += bucket.retries;
+    }
+    const allowedRetries = Math.floor(
+      (this.minRetriesPerSecond * this.windowMs) / 1000 +
+        this.maxRetryRatio * calls
+    );
+    return {
+      calls,
+      retries,
+      availableRetries: Math.max(allowedRetries - retries, 0),
+    };
+  }
+}
+
+const RETRY_BUDGET_MAP: Map<string, RetryBudget> = new Map();
+
+/**
+ * Convert a target to the format returned by Channel#getTarget, so that a
+ * budget set with the target string used to construct a channel applies to
+ * that channel.
+ * @param target
+ */
+export function normalizeTarget(target: string): string {
+  const uri = parseUri(target);
+  if (uri === null) {
+    return target;
+  }
+  const mappedUri = mapUriDefaultScheme(uri);
+  if (mappedUri === null) {
+    return target;
+  }
+  return uriToString(mappedUri);
+}
+
+/**
+ * Set the retry budget shared by all channels in this process with the given
+ * target, in addition to any retry throttling policy in the service config.
+ * The calls and retries counted by a previous budget for the same target
+ * are discarded.
+ * @param target The target that channels are constructed with
+ * @param config The budget configuration, or null to remove the budget
+ */
+export function setRetryBudget(
+  target: string,
+  config: RetryBudgetConfig | null
+) {
+  const key = normalizeTarget(target);
+  if (config) {
+    RETRY_BUDGET_MAP.set(key, new RetryBudget(config));
+  } else {
+    RETRY_BUDGET_MAP.delete(key);
+  }
+}
+
+export function getRetryBudget(target: string): RetryBudget | null {
+  return RETRY_BUDGET_MAP.get(target) ?? null;
+}
+
+/**
+ * Get the current state of the retry budget for the given target.
+ * @param target The target that channels are constructed with
+ * @returns The state, or null if there is no budget for the target
+ */
+export function getRetryBudgetState(target: string): RetryBudgetState | null {
+  return getRetryBudget(normalizeTarget(target))?.getState() ?? null;
+}
@@ -34,9 +34,35 @@ import {
   StatusObjectWithProgress,
 } from './load-balancing-call';
 import { InternalChannel } from './internal-channel';
+import { CallAttemptTracer, CallCommitReason, CallTracer } from './call-tracer';
+import { RetryBudget } from './retry-budget';
 
 const TRACER_NAME = 'retrying_call';
 
+export interface RetryThrottlingState {
+  /**
+   * The current number of tokens
+   */
+  tokens: number;
+  maxTokens: number;
+  /**
+   * The number of tokens added by each successful call
+   */
+  tokenRatio: number;
+  /**
+   * True if retries are currently throttled, which happens when the token
+   * count is at or below half of maxTokens
+   */
+  throttled: boolean;
+}
+
+/**
+ * The mechanism that rejected a retry:
+ * THROTTLING: The retry throttling policy from the service config
+ * BUDGET: The process-wide retry budget for the target
+ */
+export type RetryRejectionReason = 'THROTTLING' | 'BUDGET';
+
 export class RetryThrottler {
   private tokens: number;
   constructor(
@@ -56,16 +82,25 @@ export class RetryThrottler {
   }
 
   addCallSucceeded() {
-    this.tokens = Math.max(this.tokens + this.tokenRatio, this.maxTokens);
+    this.tokens = Math.min(this.tokens + this.tokenRatio, this.maxTokens);
   }
 
   addCallFailed() {
-    this.tokens = Math.min(this.tokens - 1, 0);
+    this.tokens = Math.max(this.tokens - 1, 0);
   }
 
   canRetryCall() {
     return this.tokens > this.maxTokens / 2;
   }
+
+  getState(): RetryThrottlingState {
+    return {
+      tokens: this.tokens,
+      maxTokens: this.maxTokens,
+      tokenRatio: this.tokenRatio,
+      throttled: !this.canRetryCall(),
+    };
+  }
 }
 
 export class MessageBufferTracker {
@@ -121,6 +156,7 @@ interface UnderlyingCall {
   state: UnderlyingCallState;
   call: LoadBalancingCall;
   nextMessageToSend: number;
+  tracer: CallAttemptTracer | null;
 }
 
 /**
@@ -207,7 +243,9 @@ export class RetryingCall implements Call {
     private readonly deadline: Deadline,
     private readonly callNumber: number,
     private readonly bufferTracker: MessageBufferTracker,
-    private readonly retryThrottler?: RetryThrottler
+    private readonly retryThrottler?: RetryThrottler,
+    private readonly retryBudget: RetryBudget | null = null,
+    private readonly callTracer: CallTracer | null = null
   ) {
     if (callConfig.methodConfig.retryPolicy) {
       this.state = 'RETRY';
@@ -312,7 +350,7 @@ export class RetryingCall implements Call {
     this.writeBufferOffset = earliestNeededMessageIndex;
   }
 
-  private commitCall(index: number) {
+  private commitCall(index: number, reason?: CallCommitReason) {
     if (this.state === 'COMMITTED') {
       return;
     }
@@ -327,6 +365,9 @@ export class RetryingCall implements Call {
     );
     this.state = 'COMMITTED';
     this.committedCallIndex = index;
+    if (reason) {
+      this.underlyingCalls[index].tracer?.onCommit?.(reason);
+    }
     for (let i = 0; i < this.underlyingCalls.length; i++) {
       if (i === index) {
         continue;
@@ -363,7 +404,7 @@ export class RetryingCall implements Call {
        * is started to be committed. */
       this.state = 'TRANSPARENT_ONLY';
     } else {
-      this.commitCall(callWithMostMessages);
+      this.commitCall(callWithMostMessages, 'BUFFER_LIMIT');
     }
   }
 
@@ -415,19 +456,61 @@ export class RetryingCall implements Call {
       retryDelayMs = pushback;
       this.nextRetryBackoffSec = this.initialRetryBackoffSec;
     }
+    this.callTracer?.onRetryDelay?.({
+      delayMs: retryDelayMs,
+      fromPushback: pushback !== null,
+    });
     setTimeout(() => {
       if (this.state !== 'RETRY') {
         callback(false);
         return;
       }
-      if (this.retryThrottler?.canRetryCall() ?? true) {
+      if (this.canStartRetryAttempt()) {
         callback(true);
         this.attempts += 1;
         this.startNewAttempt();
+      } else {
+        callback(false);
       }
     }, retryDelayMs);
   }
 
+  /**
+   * Check whether the retry throttling policy and the retry budget allow
+   * another attempt, and count the attempt against the budget if so.
+   */
+  private canStartRetryAttempt(): boolean {
+    let rejectedBy: RetryRejectionReason | null = null;
+    if (!(this.retryThrottler?.canRetryCall() ?? true)) {
+      rejectedBy = 'THROTTLING';
+    } else if (!(this.retryBudget?.tryRetry() ?? true)) {
+      rejectedBy = 'BUDGET';
+    }
+    if (rejectedBy) {
+      this.trace('Retry rejected by ' + rejectedBy);
+    }
+    if (this.retryThrottler || this.retryBudget) {
+      this.channel.reportRetryRejection(rejectedBy);
+    }
+    return rejectedBy === null;
+  }
+
+  /**
+   * Check whether the retry budget allows another hedged attempt, and count
+   * the attempt against the budget if so.
+   */
+  private canStartHedgingAttempt(): boolean {
+    if (!this.retryBudget) {
+      return true;
+    }
+    const allowed = this.retryBudget.tryRetry();
+    if (!allowed) {
+      this.trace('Hedged attempt rejected by BUDGET');
+    }
+    this.channel.reportRetryRejection(allowed ? null : 'BUDGET');
+    return allowed;
+  }
+
   private countActiveCalls(): number {
     let count = 0;
     for (const call of this.underlyingCalls) {
@@ -468,6 +551,7 @@ export class RetryingCall implements Call {
             return;
           } else {
             delayMs = pushback;
+            this.callTracer?.onRetryDelay?.({ delayMs, fromPushback: true });
           }
           setTimeout(() => {
             this.maybeStartHedgingAttempt();
@@ -548,7 +632,7 @@ export class RetryingCall implements Call {
     switch (status.progress) {
       case 'NOT_STARTED':
         // RPC never leaves the client, always safe to retry
-        this.startNewAttempt();
+        this.startNewAttempt(true);
         break;
       case 'REFUSED':
         // RPC reaches the server library, but not the server application logic
@@ -556,7 +640,7 @@ export class RetryingCall implements Call {
           this.handleProcessedStatus(status, callIndex, pushback);
         } else {
           this.transparentRetryUsed = true;
-          this.startNewAttempt();
+          this.startNewAttempt(true);
         }
         break;
       case 'DROP':
@@ -580,6 +664,9 @@ export class RetryingCall implements Call {
     if (this.attempts >= Math.min(hedgingPolicy.maxAttempts, 5)) {
       return;
     }
+    if (!this.canStartHedgingAttempt()) {
+      return;
+    }
     this.attempts += 1;
     this.startNewAttempt();
     this.maybeStartHedgingTimer();
@@ -609,13 +696,22 @@ export class RetryingCall implements Call {
     this.hedgingTimer.unref?.();
   }
 
-  private startNewAttempt() {
+  private startNewAttempt(transparentRetry = false) {
+    const previousAttempts = this.attempts - 1;
+    const attemptTracer =
+      this.callTracer?.startAttempt({
+        target: this.channel.getTarget(),
+        method: this.methodName,
+        previousRpcAttempts: previousAttempts,
+        transparentRetry,
+      }) ?? null;
     const child = this.channel.createLoadBalancingCall(
       this.callConfig,
       this.methodName,
       this.host,
       this.credentials,
-      this.deadline
+      this.deadline,
+      attemptTracer
     );
     this.trace(
       'Created child call [' +
@@ -628,8 +724,8 @@ export class RetryingCall implements Call {
       state: 'ACTIVE',
       call: child,
       nextMessageToSend: 0,
+      tracer: attemptTracer,
     });
-    const previousAttempts = this.attempts - 1;
     const initialMetadata = this.initialMetadata!.clone();
     if (previousAttempts > 0) {
       initialMetadata.set(
@@ -643,7 +739,7 @@ export class RetryingCall implements Call {
         this.trace(
           'Received metadata from child [' + child.getCallNumber() + ']'
         );
-        this.commitCall(index);
+        this.commitCall(index, 'RESPONSE');
         receivedMetadata = true;
         if (previousAttempts > 0) {
           metadata.set(
@@ -659,7 +755,7 @@ export class RetryingCall implements Call {
         this.trace(
           'Received message from child [' + child.getCallNumber() + ']'
         );
-        this.commitCall(index);
+        this.commitCall(index, 'RESPONSE');
         if (this.underlyingCalls[index].state === 'ACTIVE') {
           this.listener!.onReceiveMessage(message);
         }
@@ -688,6 +784,9 @@ export class RetryingCall implements Call {
     this.listener = listener;
     this.initialMetadata = metadata;
     this.attempts += 1;
+    if (this.state === 'RETRY' || this.state === 'HEDGING') {
+      this.retryBudget?.recordCall();
+    }
     this.startNewAttempt();
     this.maybeStartHedgingTimer();
   }
@@ -27,6 +27,7 @@ import { ObjectReadable, ObjectWritable } from './object-stream';
 import { StatusObject, PartialStatusObject } from './call-interface';
 import { Deadline } from './deadline';
 import { ServerInterceptingCallInterface } from './server-interceptors';
+import { PerRequestMetricRecorder } from './orca';
 
 export type ServerStatusResponse = Partial<StatusObject>;
 
@@ -39,6 +40,7 @@ export type ServerSurfaceCall = {
   sendMetadata(responseMetadata: Metadata): void;
   getDeadline(): Deadline;
   getPath(): string;
+  getMetricsRecorder(): PerRequestMetricRecorder;
 } & EventEmitter;
 
 export type ServerUnaryCall<RequestType, ResponseType> = ServerSurfaceCall & {
@@ -77,6 +79,44 @@ export function serverErrorToStatus(error: ServerErrorResponse | ServerStatusRes
   return status;
 }
 
+/**
+ * The errors thrown by handlers, keyed by the statuses that were sent for
+ * them, so that interceptors can tell those statuses apart from others.
+ */
+const handlerErrors = new WeakMap<PartialStatusObject, unknown>();
+
+/**
+ * Get the status to send when a method handler throws an error.
+ * @param error
+ */
+export function handlerErrorToStatus(error: unknown): PartialStatusObject {
+  const status: PartialStatusObject = {
+    code: Status.UNKNOWN,
+    details: `Server method handler threw error ${(error as Error).message}`,
+    metadata: null,
+  };
+  handlerErrors.set(status, error);
+  return status;
+}
+
+/**
+ * Check whether the status was sent because a method handler threw an
+ * error.
+ * @param status
+ */
+export function isHandlerErrorStatus(status: PartialStatusObject): boolean {
+  return handlerErrors.has(status);
+}
+
+/**
+ * Get the error that a method handler threw, if the status was sent because
+ * of it.
+ * @param status
+ */
+export function getHandlerError(status: PartialStatusObject): unknown {
+  return handlerErrors.get(status);
+}
+
 export class ServerUnaryCallImpl<RequestType, ResponseType>
   extends EventEmitter
   implements ServerUnaryCall<RequestType, ResponseType>
@@ -108,6 +148,10 @@ export class ServerUnaryCallImpl<RequestType, ResponseType>
   getPath(): string {
     return this.path;
   }
+
+  getMetricsRecorder(): PerRequestMetricRecorder {
+    return this.call.getMetricsRecorder();
+  }
 }
 
 export class ServerReadableStreamImpl<RequestType, ResponseType>
@@ -144,6 +188,10 @@ export class ServerReadableStreamImpl<RequestType, ResponseType>
   getPath(): string {
     return this.path;
   }
+
+  getMetricsRecorder(): PerRequestMetricRecorder {
+    return this.call.getMetricsRecorder();
+  }
 }
 
 export class ServerWritableStreamImpl<RequestType, ResponseType>
@@ -189,6 +237,10 @@ export class ServerWritableStreamImpl<RequestType, ResponseType>
     return this.path;
   }
 
+  getMetricsRecorder(): PerRequestMetricRecorder {
+    return this.call.getMetricsRecorder();
+  }
+
   _write(
     chunk: ResponseType,
     encoding: string,
@@ -258,6 +310,10 @@ export class ServerDuplexStreamImpl<RequestType, ResponseType>
     return this.path;
   }
 
+  getMetricsRecorder(): PerRequestMetricRecorder {
+    return this.call.getMetricsRecorder();
+  }
+
   _read(size: number) {
     this.call.startRead();
   }
@@ -319,6 +375,43 @@ export type handleBidiStreamingCall<RequestType, ResponseType> = (
   call: ServerDuplexStream<RequestType, ResponseType>
 ) => void;
 
+// User provided async handler for unary calls. The returned value or promise
+// result is sent as the response.
+export type handleAsyncUnaryCall<RequestType, ResponseType> = (
+  call: ServerUnaryCall<RequestType, ResponseType>
+) => Promise<ResponseType> | ResponseType;
+
+// User provided async handler for client streaming calls. The call object is
+// an async iterable of request messages.
+export type handleAsyncClientStreamingCall<RequestType, ResponseType> = (
+  call: ServerReadableStream<RequestType, ResponseType>
+) => Promise<ResponseType> | ResponseType;
+
+// User provided async handler for server streaming calls. Each value yielded
+// by the returned iterable is sent as a response. Alternatively, the handler
+// can write to the call object directly and return a promise.
+export type handleAsyncServerStreamingCall<RequestType, ResponseType> = (
+  call: ServerWritableStream<RequestType, ResponseType>
+) => AsyncResponses<ResponseType>;
+
+// User provided async handler for bidirectional streaming calls. The call
+// object is an async iterable of request messages, and each value yielded by
+// the returned iterable is sent as a response.
+export type handleAsyncBidiStreamingCall<RequestType, ResponseType> = (
+  call: ServerDuplexStream<RequestType, ResponseType>
+) => AsyncResponses<ResponseType>;
+
+export type AsyncResponses<ResponseType> =
+  | AsyncIterable<ResponseType>
+  | Iterable<ResponseType>
+  | Promise<void>;
+
+export type HandleAsyncCall<RequestType, ResponseType> =
+  | handleAsyncUnaryCall<RequestType, ResponseType>
+  | handleAsyncClientStreamingCall<RequestType, ResponseType>
+  | handleAsyncServerStreamingCall<RequestType, ResponseType>
+  | handleAsyncBidiStreamingCall<RequestType, ResponseType>;
+
 export type HandleCall<RequestType, ResponseType> =
   | handleUnaryCall<RequestType, ResponseType>
   | handleClientStreamingCall<RequestType, ResponseType>
@@ -364,3 +457,224 @@ export type Handler<RequestType, ResponseType> =
   | BidiStreamingHandler<RequestType, ResponseType>;
 
 export type HandlerType = 'bidi' | 'clientStream' | 'serverStream' | 'unary';
+
+/**
+ * Convert a value thrown or rejected by an async handler into an error that
+ * can be passed to serverErrorToStatus. Errors with numeric `code` fields and
+ * optional `details` and `metadata` fields are used as is.
+ * @param error
+ */
+function asyncHandlerErrorToServerError(
+  error: unknown
+): ServerErrorResponse | ServerStatusResponse {
+  if (typeof error === 'object' && error !== null) {
+    return error as ServerErrorResponse | ServerStatusResponse;
+  }
+  return {
+    code: Status.UNKNOWN,
+    details: `Server method handler threw error ${error}`,
+  };
+}
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncIterable<T>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+function isIterable<T>(value: unknown): value is Iterable<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Iterable<T>)[Symbol.iterator] === 'function'
+  );
+}
+
+/**
+ * Wait until the stream can accept more writes, or until the call is
+ * cancelled.
+ * @param stream
+ */
+function waitForDrain(stream: Writable): Promise<void> {
+  return new Promise<void>(resolve => {
+    const onDone = () => {
+      stream.removeListener('drain', onDone);
+      stream.removeListener('close', onDone);
+      resolve();
+    };
+    stream.on('drain', onDone);
+    stream.on('close', onDone);
+  });
+}
+
+/**
+ * Iterate over the request messages received by a stream. Unlike the
+ * Readable stream's own async iterator, this does not destroy the stream when
+ * the requests end, so a bidirectional streaming handler can continue to send
+ * responses afterwards.
+ * @param stream
+ */
+async function* iterateRequests<RequestType>(
+  stream: ObjectReadable<RequestType>
+): AsyncGenerator<RequestType> {
+  let ended = false;
+  let wake: (() => void) | null = null;
+  const onReadable = () => {
+    wake?.();
+  };
+  const onEnd = () => {
+    ended = true;
+    wake?.();
+  };
+  stream.on('readable', onReadable);
+  stream.on('end', onEnd);
+  stream.on('close', onEnd);
+  try {
+    while (true) {
+      const message = stream.read();
+      if (message !== null) {
+        yield message;
+      } else if (ended || stream.destroyed) {
+        return;
+      } else {
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    }
+  } finally {
+    stream.removeListener('readable', onReadable);
+    stream.removeListener('end', onEnd);
+    stream.removeListener('close', onEnd);
+  }
+}
+
+/**
+ * Make the stream's async iterator use iterateRequests.
+ * @param stream
+ */
+function useRequestIterator<RequestType>(stream: ObjectReadable<RequestType>) {
+  Object.defineProperty(stream, Symbol.asyncIterator, {
+    value: () => iterateRequests(stream),
+  });
+}
+
+/**
+ * Run an async unary or client streaming handler and pass the result to the
+ * callback.
+ * @param runHandler
+ * @param callback
+ */
+function respondAsync<ResponseType>(
+  runHandler: () => Promise<ResponseType> | ResponseType,
+  callback: sendUnaryData<ResponseType>
+) {
+  new Promise<ResponseType>(resolve => resolve(runHandler())).then(
+    value => callback(null, value),
+    error => callback(asyncHandlerErrorToServerError(error))
+  );
+}
+
+/**
+ * Run an async server streaming or bidirectional streaming handler, write
+ * the responses it produces, and then end the call. Errors are reported
+ * through the stream's 'error' event, which sets the call status.
+ * @param runHandler
+ * @param stream
+ */
+function streamAsync<RequestType, ResponseType>(
+  runHandler: () => AsyncResponses<ResponseType>,
+  stream:
+    | ServerWritableStream<RequestType, ResponseType>
+    | ServerDuplexStream<RequestType, ResponseType>
+) {
+  const sendResponses = async () => {
+    const result = runHandler();
+    if (
+      isAsyncIterable<ResponseType>(result) ||
+      isIterable<ResponseType>(result)
+    ) {
+      for await (const response of result) {
+        if (stream.cancelled) {
+          return;
+        }
+        if (!stream.write(response)) {
+          await waitForDrain(stream);
+        }
+      }
+    } else {
+      await result;
+    }
+    if (!stream.cancelled) {
+      stream.end();
+    }
+  };
+  sendResponses().catch(error => {
+    if (!stream.cancelled) {
+      stream.emit('error', asyncHandlerErrorToServerError(error));
+    }
+  });
+}
+
+/**
+ * Adapt an async handler to the callback-based handler interface for the
+ * given method type.
+ * @param handlerType
+ * @param handler
+ */
+export function getCallbackHandlerForAsyncHandler<RequestType, ResponseType>(
+  handlerType: HandlerType,
+  handler: HandleAsyncCall<RequestType, ResponseType>
+): HandleCall<RequestType, ResponseType> {
+  switch (handlerType) {
+    case 'unary': {
+      const asyncHandler = handler as handleAsyncUnaryCall<
+        RequestType,
+        ResponseType
+      >;
+      return (
+        call: ServerUnaryCall<RequestType, ResponseType>,
+        callback: sendUnaryData<ResponseType>
+      ) => {
+        respondAsync(() => asyncHandler(call), callback);
+      };
+    }
+    case 'clientStream': {
+      const asyncHandler = handler as handleAsyncClientStreamingCall<
+        RequestType,
+        ResponseType
+      >;
+      return (
+        call: ServerReadableStream<RequestType, ResponseType>,
+        callback: sendUnaryData<ResponseType>
+      ) => {
+        useRequestIterator(call);
+        respondAsync(() => asyncHandler(call), callback);
+      };
+    }
+    case 'serverStream': {
+      const asyncHandler = handler as handleAsyncServerStreamingCall<
+        RequestType,
+        ResponseType
+      >;
+      return (call: ServerWritableStream<RequestType, ResponseType>) => {
+        streamAsync(() => asyncHandler(call), call);
+      };
+    }
+    case 'bidi': {
+      const asyncHandler = handler as handleAsyncBidiStreamingCall<
+        RequestType,
+        ResponseType
+      >;
+      return (call: ServerDuplexStream<RequestType, ResponseType>) => {
+        useRequestIterator(call);
+        streamAsync(() => asyncHandler(call), call);
+      };
+    }
+    default:
+      throw new Error(`Invalid handlerType ${handlerType}`);
+  }
+}
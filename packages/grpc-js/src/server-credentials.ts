@@ -18,6 +18,14 @@
 import { SecureServerOptions } from 'http2';
 import { CIPHER_SUITES, getDefaultRootsData } from './tls-helpers';
 import { SecureContextOptions } from 'tls';
+import { ServerInterceptor } from './server-interceptors';
+import {
+  CaCertificateUpdate,
+  CertificateProvider,
+  FileWatcherCertificateProvider,
+  FileWatcherCertificateProviderConfig,
+  IdentityCertificateUpdate,
+} from './certificate-provider';
 
 export interface KeyCertPair {
   private_key: Buffer;
@@ -31,6 +39,14 @@ export interface SecureContextWatcher {
 export abstract class ServerCredentials {
   private watchers: Set<SecureContextWatcher> = new Set();
   private latestContextOptions: SecureServerOptions | null = null;
+  /**
+   * @param serverConstructorOptions Options that only take effect when the
+   *     server is constructed, such as requestCert, which cannot be changed
+   *     later with setSecureContext.
+   */
+  constructor(
+    private serverConstructorOptions: SecureServerOptions | null = null
+  ) {}
   _addWatcher(watcher: SecureContextWatcher) {
     this.watchers.add(watcher);
   }
@@ -51,7 +67,13 @@ export abstract class ServerCredentials {
   _getSettings(): SecureServerOptions | null {
     return this.latestContextOptions;
   }
+  _getConstructorOptions(): SecureServerOptions | null {
+    return this.serverConstructorOptions;
+  }
   abstract _equals(other: ServerCredentials): boolean;
+  _getInterceptors(): ServerInterceptor[] {
+    return [];
+  }
 
   static createInsecure(): ServerCredentials {
     return new InsecureServerCredentials();
@@ -104,6 +126,36 @@ export abstract class ServerCredentials {
       ciphers: CIPHER_SUITES,
     });
   }
+
+  /**
+   * Create server credentials that read the server certificate, its private
+   * key, and optionally the root certificates used to verify clients from
+   * files, and re-read them every refreshIntervalMs milliseconds. Updated
+   * certificates are used for new connections without restarting the server
+   * or closing existing connections. Connections are rejected until the files
+   * have been read successfully.
+   * @param config The files to watch. certificateFile and privateKeyFile are
+   *     required.
+   * @param checkClientCertificate Reject clients that do not present a
+   *     certificate signed by the root certificates in caCertificateFile
+   */
+  static createFromFileWatcher(
+    config: FileWatcherCertificateProviderConfig,
+    checkClientCertificate = false
+  ): ServerCredentials {
+    if (!config.certificateFile || !config.privateKeyFile) {
+      throw new Error('certificateFile and privateKeyFile are required');
+    }
+    if (checkClientCertificate && !config.caCertificateFile) {
+      throw new Error('checkClientCertificate requires caCertificateFile');
+    }
+    const provider = new FileWatcherCertificateProvider(config);
+    return new CertificateProviderServerCredentials(
+      config.caCertificateFile ? provider : null,
+      provider,
+      checkClientCertificate
+    );
+  }
 }
 
 class InsecureServerCredentials extends ServerCredentials {
@@ -214,3 +266,178 @@ class SecureServerCredentials extends ServerCredentials {
     return true;
   }
 }
+
+class InterceptorServerCredentials extends ServerCredentials {
+  constructor(
+    private readonly childCredentials: ServerCredentials,
+    private readonly interceptors: ServerInterceptor[]
+  ) {
+    super();
+  }
+  _isSecure(): boolean {
+    return this.childCredentials._isSecure();
+  }
+  _equals(other: ServerCredentials): boolean {
+    if (!(other instanceof InterceptorServerCredentials)) {
+      return false;
+    }
+    if (!this.childCredentials._equals(other.childCredentials)) {
+      return false;
+    }
+    if (this.interceptors.length !== other.interceptors.length) {
+      return false;
+    }
+    for (let i = 0; i < this.interceptors.length; i++) {
+      if (this.interceptors[i] !== other.interceptors[i]) {
+        return false;
+      }
+    }
+    return true;
+  }
+  _getInterceptors(): ServerInterceptor[] {
+    return this.interceptors;
+  }
+  _addWatcher(watcher: SecureContextWatcher) {
+    this.childCredentials._addWatcher(watcher);
+  }
+  _removeWatcher(watcher: SecureContextWatcher) {
+    this.childCredentials._removeWatcher(watcher);
+  }
+  _getSettings(): SecureServerOptions | null {
+    return this.childCredentials._getSettings();
+  }
+  _getConstructorOptions(): SecureServerOptions | null {
+    return this.childCredentials._getConstructorOptions();
+  }
+}
+
+class CertificateProviderServerCredentials extends ServerCredentials {
+  private latestCaUpdate: CaCertificateUpdate | null = null;
+  private latestIdentityUpdate: IdentityCertificateUpdate | null = null;
+  private caCertificateUpdateListener = (
+    update: CaCertificateUpdate | null
+  ) => {
+    // An error does not replace a certificate that is already in use
+    if (update) {
+      this.latestCaUpdate = update;
+      this.updateOptions();
+    }
+  };
+  private identityCertificateUpdateListener = (
+    update: IdentityCertificateUpdate | null
+  ) => {
+    if (update) {
+      this.latestIdentityUpdate = update;
+      this.updateOptions();
+    }
+  };
+  private watcherCount = 0;
+
+  constructor(
+    private readonly caCertificateProvider: CertificateProvider | null,
+    private readonly identityCertificateProvider: CertificateProvider,
+    private readonly requireClientCertificate: boolean
+  ) {
+    super({
+      requestCert: caCertificateProvider !== null,
+      rejectUnauthorized: requireClientCertificate,
+    });
+  }
+
+  private updateOptions() {
+    if (!this.latestIdentityUpdate) {
+      return;
+    }
+    if (this.caCertificateProvider && !this.latestCaUpdate) {
+      return;
+    }
+    this.updateSecureContextOptions({
+      ca: this.latestCaUpdate?.caCertificate,
+      cert: this.latestIdentityUpdate.certificate,
+      key: this.latestIdentityUpdate.privateKey,
+      requestCert: this.caCertificateProvider !== null,
+      rejectUnauthorized: this.requireClientCertificate,
+      ciphers: CIPHER_SUITES,
+    });
+  }
+
+  _addWatcher(watcher: SecureContextWatcher) {
+    super._addWatcher(watcher);
+    this.watcherCount += 1;
+    if (this.watcherCount === 1) {
+      this.caCertificateProvider?.addCaCertificateListener(
+        this.caCertificateUpdateListener
+      );
+      this.identityCertificateProvider.addIdentityCertificateListener(
+        this.identityCertificateUpdateListener
+      );
+    }
+  }
+
+  _removeWatcher(watcher: SecureContextWatcher) {
+    super._removeWatcher(watcher);
+    this.watcherCount -= 1;
+    if (this.watcherCount === 0) {
+      this.caCertificateProvider?.removeCaCertificateListener(
+        this.caCertificateUpdateListener
+      );
+      this.identityCertificateProvider.removeIdentityCertificateListener(
+        this.identityCertificateUpdateListener
+      );
+    }
+  }
+
+  _isSecure(): boolean {
+    return true;
+  }
+
+  _equals(other: ServerCredentials): boolean {
+    if (this === other) {
+      return true;
+    }
+    if (!(other instanceof CertificateProviderServerCredentials)) {
+      return false;
+    }
+    return (
+      this.caCertificateProvider === other.caCertificateProvider &&
+      this.identityCertificateProvider === other.identityCertificateProvider &&
+      this.requireClientCertificate === other.requireClientCertificate
+    );
+  }
+}
+
+/**
+ * Create server credentials that use TLS with certificates from the given
+ * providers. Connections are rejected until the certificates are available,
+ * and updated certificates are used for new connections.
+ * @param caCertificateProvider The source of the root certificates used to
+ *     verify client certificates, or null to not request client certificates
+ * @param identityCertificateProvider The source of the server certificate
+ * @param requireClientCertificate Reject clients that do not present a valid
+ *     certificate
+ */
+export function createCertificateProviderServerCredentials(
+  caCertificateProvider: CertificateProvider | null,
+  identityCertificateProvider: CertificateProvider,
+  requireClientCertificate: boolean
+): ServerCredentials {
+  return new CertificateProviderServerCredentials(
+    caCertificateProvider,
+    identityCertificateProvider,
+    requireClientCertificate
+  );
+}
+
+/**
+ * Wrap server credentials so that every call on a connection accepted with
+ * them is also passed through the given interceptors. These interceptors run
+ * before the interceptors configured on the server.
+ * @param credentials
+ * @param interceptors
+ */
+export function createServerCredentialsWithInterceptors(
+  credentials: ServerCredentials,
+  interceptors: ServerInterceptor[]
+): ServerCredentials {
+  return new InterceptorServerCredentials(credentials, interceptors);
+}
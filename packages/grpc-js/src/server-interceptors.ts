@@ -23,12 +23,15 @@ import { Handler, ServerErrorResponse } from "./server-call";
 import { Deadline } from "./deadline";
 import { DEFAULT_MAX_RECEIVE_MESSAGE_LENGTH, DEFAULT_MAX_SEND_MESSAGE_LENGTH, LogVerbosity, Status } from "./constants";
 import * as http2 from 'http2';
+import { TLSSocket } from 'tls';
 import { getErrorMessage } from "./error";
 import * as zlib from 'zlib';
 import { promisify } from "util";
 import { StreamDecoder } from "./stream-decoder";
 import { CallEventTracker } from "./transport";
 import * as logging from './logging';
+import { AuthContext } from './auth-context';
+import { LOAD_REPORT_METADATA_KEY, PerRequestMetricRecorder } from './orca';
 
 const unzip = promisify(zlib.unzip);
 const inflate = promisify(zlib.inflate);
@@ -317,6 +320,32 @@ export interface ServerInterceptingCallInterface {
    * Return the call deadline set by the client. The value is Infinity if there is no deadline.
    */
   getDeadline(): Deadline;
+  /**
+   * Return the host requested by the client in the ":authority" header.
+   */
+  getHost(): string;
+  /**
+   * Return the addresses and ports of both ends of the connection the call
+   * was received on. Fields are unset if they are not known.
+   */
+  getConnectionInfo(): ConnectionInfo;
+  /**
+   * Return information about the security of the connection the call was
+   * received on.
+   */
+  getAuthContext(): AuthContext;
+  /**
+   * Return the recorder for backend metrics to send to the client in the
+   * call's trailers.
+   */
+  getMetricsRecorder(): PerRequestMetricRecorder;
+}
+
+export interface ConnectionInfo {
+  localAddress?: string;
+  localPort?: number;
+  remoteAddress?: string;
+  remotePort?: number;
 }
 
 export class ServerInterceptingCall implements ServerInterceptingCallInterface {
@@ -391,10 +420,22 @@ export class ServerInterceptingCall implements ServerInterceptingCallInterface {
   getDeadline(): Deadline {
     return this.nextCall.getDeadline();
   }
+  getHost(): string {
+    return this.nextCall.getHost();
+  }
+  getConnectionInfo(): ConnectionInfo {
+    return this.nextCall.getConnectionInfo();
+  }
+  getAuthContext(): AuthContext {
+    return this.nextCall.getAuthContext();
+  }
+  getMetricsRecorder(): PerRequestMetricRecorder {
+    return this.nextCall.getMetricsRecorder();
+  }
 }
 
 export interface ServerInterceptor {
-  (methodDescriptor: ServerMethodDefinition<any, any>, call: ServerInterceptingCallInterface): ServerInterceptingCall;
+  (methodDescriptor: ServerMethodDefinition<any, any>, call: ServerInterceptingCallInterface): ServerInterceptingCallInterface;
 }
 
 interface DeadlineUnitIndexSignature {
@@ -455,6 +496,8 @@ export class BaseServerInterceptingCall implements ServerInterceptingCallInterfa
   private isReadPending = false;
   private receivedHalfClose = false;
   private streamEnded = false;
+  private host: string;
+  private metricsRecorder: PerRequestMetricRecorder | null = null;
 
   constructor(
     private readonly stream: http2.ServerHttp2Stream,
@@ -508,6 +551,7 @@ export class BaseServerInterceptingCall implements ServerInterceptingCallInterfa
       this.maxReceiveMessageSize = options['grpc.max_receive_message_length']!;
     }
 
+    this.host = headers[':authority'] ?? headers.host!;
     const metadata = Metadata.fromHttp2Headers(headers);
 
     if (logging.isTracerEnabled(TRACER_NAME)) {
@@ -797,6 +841,13 @@ export class BaseServerInterceptingCall implements ServerInterceptingCallInterfa
         status.details
     );
 
+    const serializedLoadReport = this.metricsRecorder?.serialize();
+    if (serializedLoadReport) {
+      const trailers = status.metadata?.clone() ?? new Metadata();
+      trailers.set(LOAD_REPORT_METADATA_KEY, serializedLoadReport);
+      status = { ...status, metadata: trailers };
+    }
+
     if (this.stream.headersSent) {
       if (!this.wantTrailers) {
         this.wantTrailers = true;
@@ -861,6 +912,36 @@ export class BaseServerInterceptingCall implements ServerInterceptingCallInterfa
   getDeadline(): Deadline {
     return this.deadline;
   }
+  getHost(): string {
+    return this.host;
+  }
+  getConnectionInfo(): ConnectionInfo {
+    const socket = this.stream.session?.socket;
+    return {
+      localAddress: socket?.localAddress,
+      localPort: socket?.localPort,
+      remoteAddress: socket?.remoteAddress,
+      remotePort: socket?.remotePort,
+    };
+  }
+  getAuthContext(): AuthContext {
+    const socket = this.stream.session?.socket;
+    if (socket instanceof TLSSocket) {
+      const peerCertificate = socket.getPeerCertificate();
+      return {
+        transportSecurityType: 'ssl',
+        sslPeerCertificate: peerCertificate.raw ? peerCertificate : undefined,
+      };
+    } else {
+      return {};
+    }
+  }
+  getMetricsRecorder(): PerRequestMetricRecorder {
+    if (!this.metricsRecorder) {
+      this.metricsRecorder = new PerRequestMetricRecorder();
+    }
+    return this.metricsRecorder;
+  }
 }
 
 export function getServerInterceptingCall(
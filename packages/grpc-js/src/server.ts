@@ -19,12 +19,15 @@ import * as http2 from 'http2';
 import * as util from 'util';
 
 import { ServiceError } from './call';
+import { ParentCall, runWithCallContext } from './call-context';
 import { Status, LogVerbosity } from './constants';
 import { Deserialize, Serialize, ServiceDefinition } from './make-client';
 import { Metadata } from './metadata';
 import {
   BidiStreamingHandler,
   ClientStreamingHandler,
+  getCallbackHandlerForAsyncHandler,
+  HandleAsyncCall,
   HandleCall,
   Handler,
   HandlerType,
@@ -40,6 +43,7 @@ import {
   ServerErrorResponse,
   ServerStatusResponse,
   serverErrorToStatus,
+  handlerErrorToStatus,
 } from './server-call';
 import { SecureContextWatcher, ServerCredentials } from './server-credentials';
 import { ChannelOptions } from './channel-options';
@@ -77,8 +81,14 @@ import { Socket } from 'net';
 import { Duplex } from 'stream';
 
 const UNLIMITED_CONNECTION_AGE_MS = ~(1 << 31);
+const UNLIMITED_CONNECTION_IDLE_MS = ~(1 << 31);
 const KEEPALIVE_MAX_TIME_MS = ~(1 << 31);
 const KEEPALIVE_TIMEOUT_MS = 20000;
+const DEFAULT_MIN_PING_INTERVAL_WITHOUT_DATA_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_PING_STRIKES = 2;
+/* If keepalive pings without calls are not permitted, a client may only send
+ * a ping this often while it has no active calls. */
+const MIN_PING_INTERVAL_WITHOUT_CALLS_MS = 2 * 60 * 60 * 1000;
 
 const { HTTP2_HEADER_PATH } = http2.constants;
 
@@ -125,10 +135,14 @@ type UntypedClientStreamingHandler = ClientStreamingHandler<any, any>;
 type UntypedServerStreamingHandler = ServerStreamingHandler<any, any>;
 type UntypedBidiStreamingHandler = BidiStreamingHandler<any, any>;
 export type UntypedHandleCall = HandleCall<any, any>;
+export type UntypedHandleAsyncCall = HandleAsyncCall<any, any>;
 type UntypedHandler = Handler<any, any>;
 export interface UntypedServiceImplementation {
   [name: string]: UntypedHandleCall;
 }
+export interface UntypedAsyncServiceImplementation {
+  [name: string]: UntypedHandleAsyncCall;
+}
 
 function getDefaultHandler(handlerType: HandlerType, methodName: string) {
   const unimplementedStatusResponse =
@@ -170,6 +184,22 @@ interface ChannelzSessionInfo {
   lastMessageReceivedTimestamp: Date | null;
 }
 
+/**
+ * The state used to enforce grpc.max_connection_idle_ms and the keepalive
+ * ping policy on a single session. The ping policy is described in
+ * https://github.com/grpc/proposal/blob/master/A8-client-side-keepalive.md#server-enforcement
+ */
+interface SessionActivityInfo {
+  activeStreams: number;
+  idleTimer: NodeJS.Timeout | null;
+  /**
+   * The time when the last ping was received, or null if the server has sent
+   * data since then.
+   */
+  lastPingTimestamp: number | null;
+  pingStrikes: number;
+}
+
 /**
  * Information related to a single invocation of bindAsync. This should be
  * tracked in a map keyed by target string, normalized with a pass through
@@ -241,6 +271,10 @@ export class Server {
     UntypedHandler
   >();
   private sessions = new Map<http2.ServerHttp2Session, ChannelzSessionInfo>();
+  private sessionActivity = new Map<
+    http2.ServerHttp2Session,
+    SessionActivityInfo
+  >();
   /**
    * This field only exists to ensure that the start method throws an error if
    * it is called twice, as it did previously.
@@ -261,9 +295,16 @@ export class Server {
   private readonly maxConnectionAgeMs: number;
   private readonly maxConnectionAgeGraceMs: number;
 
+  private readonly maxConnectionIdleMs: number;
+
   private readonly keepaliveTimeMs: number;
   private readonly keepaliveTimeoutMs: number;
 
+  private readonly minPingIntervalWithoutDataMs: number;
+  private readonly maxPingStrikes: number;
+  private readonly keepalivePermitWithoutCalls: boolean;
+  private readonly callContextEnabled: boolean;
+
   private readonly interceptors: ServerInterceptor[];
 
   /**
@@ -293,6 +334,18 @@ export class Server {
       this.options['grpc.keepalive_time_ms'] ?? KEEPALIVE_MAX_TIME_MS;
     this.keepaliveTimeoutMs =
       this.options['grpc.keepalive_timeout_ms'] ?? KEEPALIVE_TIMEOUT_MS;
+    this.maxConnectionIdleMs =
+      this.options['grpc.max_connection_idle_ms'] ??
+      UNLIMITED_CONNECTION_IDLE_MS;
+    this.minPingIntervalWithoutDataMs =
+      this.options['grpc.http2.min_ping_interval_without_data_ms'] ??
+      DEFAULT_MIN_PING_INTERVAL_WITHOUT_DATA_MS;
+    this.maxPingStrikes =
+      this.options['grpc.http2.max_ping_strikes'] ?? DEFAULT_MAX_PING_STRIKES;
+    this.keepalivePermitWithoutCalls =
+      this.options['grpc.keepalive_permit_without_calls'] === 1;
+    this.callContextEnabled =
+      this.options['grpc-node.enable_call_context'] === 1;
     this.commonServerOptions = {
       maxSendHeaderBlockLength: Number.MAX_SAFE_INTEGER,
     };
@@ -402,6 +455,48 @@ export class Server {
   addService(
     service: ServiceDefinition,
     implementation: UntypedServiceImplementation
+  ): void {
+    this.addServiceImplementation(
+      'addService',
+      service,
+      implementation,
+      (methodType, implFn) => implFn as UntypedHandleCall
+    );
+  }
+
+  /**
+   * Add a service implemented with async handlers. Unary and client streaming
+   * handlers return the response or a promise for it. Server streaming and
+   * bidirectional streaming handlers return an iterable or async iterable of
+   * responses, such as the result of an async generator function. The call
+   * objects passed to client streaming and bidirectional streaming handlers
+   * are async iterables of the request messages. If a handler throws or
+   * rejects, the call ends with a status taken from the `code`, `details`,
+   * and `metadata` fields of the error, or UNKNOWN if it does not have them.
+   * @param service
+   * @param implementation
+   */
+  addAsyncService(
+    service: ServiceDefinition,
+    implementation: UntypedAsyncServiceImplementation
+  ): void {
+    this.addServiceImplementation(
+      'addAsyncService',
+      service,
+      implementation,
+      (methodType, implFn) =>
+        getCallbackHandlerForAsyncHandler(
+          methodType,
+          implFn as UntypedHandleAsyncCall
+        )
+    );
+  }
+
+  private addServiceImplementation(
+    callerName: string,
+    service: ServiceDefinition,
+    implementation: { [name: string]: Function },
+    getHandler: (methodType: HandlerType, implFn: Function) => UntypedHandleCall
   ): void {
     if (
       service === null ||
@@ -409,7 +504,7 @@ export class Server {
       implementation === null ||
       typeof implementation !== 'object'
     ) {
-      throw new Error('addService() requires two objects as arguments');
+      throw new Error(`${callerName}() requires two objects as arguments`);
     }
 
     const serviceKeys = Object.keys(service);
@@ -444,7 +539,7 @@ export class Server {
       }
 
       if (implFn !== undefined) {
-        impl = implFn.bind(implementation);
+        impl = getHandler(methodType, implFn.bind(implementation));
       } else {
         impl = getDefaultHandler(methodType, name);
       }
@@ -512,6 +607,7 @@ export class Server {
       const credentialsSettings = credentials._getSettings();
       const secureServerOptions: http2.SecureServerOptions = {
         ...this.commonServerOptions,
+        ...credentials._getConstructorOptions(),
         ...credentialsSettings,
         enableTrace: this.options['grpc-node.tls_enable_trace'] === 1
       };
@@ -546,7 +642,7 @@ export class Server {
     }
 
     http2Server.setTimeout(0, noop);
-    this._setupHandlers(http2Server);
+    this._setupHandlers(http2Server, credentials._getInterceptors());
     return http2Server;
   }
 
@@ -1036,7 +1132,7 @@ export class Server {
     }
 
     this.handlers.set(name, {
-      func: handler,
+      func: this.callContextEnabled ? bindCallContext(handler) : handler,
       serialize,
       deserialize,
       type,
@@ -1189,6 +1285,7 @@ export class Server {
   }
 
   private _channelzHandler(
+    extraInterceptors: ServerInterceptor[],
     stream: http2.ServerHttp2Stream,
     headers: http2.IncomingHttpHeaders
   ) {
@@ -1219,6 +1316,7 @@ export class Server {
 
     let callEventTracker: CallEventTracker = {
       addMessageSent: () => {
+        this.onSessionDataSent(stream.session as http2.ServerHttp2Session);
         if (channelzSessionInfo) {
           channelzSessionInfo.messagesSent += 1;
           channelzSessionInfo.lastMessageSentTimestamp = new Date();
@@ -1248,7 +1346,14 @@ export class Server {
       }
     }
 
-    const call = getServerInterceptingCall(this.interceptors, stream, headers, callEventTracker, handler, this.options);
+    const call = getServerInterceptingCall(
+      [...extraInterceptors, ...this.interceptors],
+      stream,
+      headers,
+      callEventTracker,
+      handler,
+      this.options
+    );
 
     if (!this._runHandlerForCall(call, handler)) {
       this.callTracker.addCallFailed();
@@ -1262,6 +1367,7 @@ export class Server {
   }
 
   private _streamHandler(
+    extraInterceptors: ServerInterceptor[],
     stream: http2.ServerHttp2Stream,
     headers: http2.IncomingHttpHeaders
   ) {
@@ -1281,7 +1387,23 @@ export class Server {
       return;
     }
 
-    const call = getServerInterceptingCall(this.interceptors, stream, headers, null, handler, this.options);
+    const callEventTracker: CallEventTracker = {
+      addMessageSent: () => {
+        this.onSessionDataSent(stream.session as http2.ServerHttp2Session);
+      },
+      addMessageReceived: noop,
+      onCallEnd: noop,
+      onStreamEnd: noop,
+    };
+
+    const call = getServerInterceptingCall(
+      [...extraInterceptors, ...this.interceptors],
+      stream,
+      headers,
+      callEventTracker,
+      handler,
+      this.options
+    );
 
     if (!this._runHandlerForCall(call, handler)) {
       call.sendStatus({
@@ -1291,6 +1413,16 @@ export class Server {
     }
   }
 
+  private onSessionDataSent(session: http2.ServerHttp2Session) {
+    const activityInfo = this.sessionActivity.get(session);
+    if (activityInfo) {
+      /* Clients may send pings more often while the server is sending data,
+       * so sending data resets the ping strikes. */
+      activityInfo.lastPingTimestamp = null;
+      activityInfo.pingStrikes = 0;
+    }
+  }
+
   private _runHandlerForCall(
     call: ServerInterceptingCallInterface,
     handler: Handler<any, any>
@@ -1322,7 +1454,8 @@ export class Server {
   }
 
   private _setupHandlers(
-    http2Server: http2.Http2Server | http2.Http2SecureServer
+    http2Server: http2.Http2Server | http2.Http2SecureServer,
+    extraInterceptors: ServerInterceptor[]
   ): void {
     if (http2Server === null) {
       return;
@@ -1343,7 +1476,7 @@ export class Server {
       ? this._channelzHandler
       : this._streamHandler;
 
-    http2Server.on('stream', handler.bind(this));
+    http2Server.on('stream', handler.bind(this, extraInterceptors));
     http2Server.on('session', session => {
 
       const channelzRef = registerChannelzSocket(
@@ -1429,6 +1562,103 @@ export class Server {
           session.destroy();
         }
       }, this.keepaliveTimeMs).unref?.();
+      const activityInfo: SessionActivityInfo = {
+        activeStreams: 0,
+        idleTimer: null,
+        lastPingTimestamp: null,
+        pingStrikes: 0,
+      };
+      this.sessionActivity.set(session, activityInfo);
+      const startIdleTimer = () => {
+        if (this.maxConnectionIdleMs === UNLIMITED_CONNECTION_IDLE_MS) {
+          return;
+        }
+        activityInfo.idleTimer = setTimeout(() => {
+          sessionClosedByServer = true;
+          if (this.channelzEnabled) {
+            this.channelzTrace.addTrace(
+              'CT_INFO',
+              'Connection dropped by max connection idle from ' + clientAddress
+            );
+          }
+          try {
+            session.goaway(
+              http2.constants.NGHTTP2_NO_ERROR,
+              ~(1 << 31),
+              Buffer.from('max_idle')
+            );
+          } catch (e) {
+            // The goaway can't be sent because the session is already closed
+            session.destroy();
+            return;
+          }
+          session.close();
+        }, this.maxConnectionIdleMs);
+        activityInfo.idleTimer.unref?.();
+      };
+      startIdleTimer();
+      session.on('stream', (stream: http2.ServerHttp2Stream) => {
+        activityInfo.activeStreams += 1;
+        if (activityInfo.idleTimer) {
+          clearTimeout(activityInfo.idleTimer);
+          activityInfo.idleTimer = null;
+        }
+        stream.once('close', () => {
+          activityInfo.activeStreams -= 1;
+          if (activityInfo.activeStreams === 0 && !session.closed) {
+            startIdleTimer();
+          }
+        });
+      });
+      session.on('ping', () => {
+        if (session.closed) {
+          return;
+        }
+        const now = Date.now();
+        const minPingIntervalMs =
+          activityInfo.activeStreams > 0 || this.keepalivePermitWithoutCalls
+            ? this.minPingIntervalWithoutDataMs
+            : MIN_PING_INTERVAL_WITHOUT_CALLS_MS;
+        if (
+          activityInfo.lastPingTimestamp !== null &&
+          now - activityInfo.lastPingTimestamp < minPingIntervalMs
+        ) {
+          activityInfo.pingStrikes += 1;
+          /* A max_ping_strikes value of 0 means that any number of pings is
+           * allowed. */
+          if (
+            this.maxPingStrikes > 0 &&
+            activityInfo.pingStrikes > this.maxPingStrikes
+          ) {
+            sessionClosedByServer = true;
+            this.trace(
+              'Connection dropped for sending too many pings from ' +
+                clientAddress
+            );
+            if (this.channelzEnabled) {
+              this.channelzTrace.addTrace(
+                'CT_INFO',
+                'Connection dropped for sending too many pings from ' +
+                  clientAddress
+              );
+            }
+            try {
+              session.goaway(
+                http2.constants.NGHTTP2_ENHANCE_YOUR_CALM,
+                ~(1 << 31),
+                Buffer.from('too_many_pings')
+              );
+            } catch (e) {
+              // The goaway can't be sent because the session is already closed
+              session.destroy();
+              return;
+            }
+            session.close();
+            return;
+          }
+        }
+        activityInfo.lastPingTimestamp = now;
+      });
       session.on('close', () => {
         if (this.channelzEnabled) {
           if (!sessionClosedByServer) {
@@ -1449,13 +1679,33 @@ export class Server {
         if (keeapliveTimeTimer) {
           clearTimeout(keeapliveTimeTimer);
         }
+        if (activityInfo.idleTimer) {
+          clearTimeout(activityInfo.idleTimer);
+        }
         this.http2Servers.get(http2Server)?.sessions.delete(session);
         this.sessions.delete(session);
+        this.sessionActivity.delete(session);
       });
     });
   }
 }
 
+/**
+ * Wrap a handler so that it runs with its call as the current call context.
+ * @param handler
+ */
+function bindCallContext<RequestType, ResponseType>(
+  handler: HandleCall<RequestType, ResponseType>
+): HandleCall<RequestType, ResponseType> {
+  const untypedHandler = handler as (
+    call: ParentCall,
+    ...args: unknown[]
+  ) => void;
+  return ((call: ParentCall, ...args: unknown[]) => {
+    runWithCallContext(call, () => untypedHandler(call, ...args));
+  }) as HandleCall<RequestType, ResponseType>;
+}
+
 async function handleUnary<RequestType, ResponseType>(
   call: ServerInterceptingCallInterface,
   handler: UnaryHandler<RequestType, ResponseType>
@@ -1513,11 +1763,7 @@ async function handleUnary<RequestType, ResponseType>(
       try {
         handler.func(stream, respond);
       } catch (err) {
-        call.sendStatus({
-          code: Status.UNKNOWN,
-          details: `Server method handler threw error ${(err as Error).message}`,
-          metadata: null
-        });
+        call.sendStatus(handlerErrorToStatus(err));
       }
     },
     onCancel() {
@@ -1560,11 +1806,7 @@ function handleClientStreaming<RequestType, ResponseType>(
       try {
         handler.func(stream, respond);
       } catch (err) {
-        call.sendStatus({
-          code: Status.UNKNOWN,
-          details: `Server method handler threw error ${(err as Error).message}`,
-          metadata: null
-        });
+        call.sendStatus(handlerErrorToStatus(err));
       }
     },
     onReceiveMessage(message) {
@@ -1621,11 +1863,7 @@ function handleServerStreaming<RequestType, ResponseType>(
       try {
         handler.func(stream);
       } catch (err) {
-        call.sendStatus({
-          code: Status.UNKNOWN,
-          details: `Server method handler threw error ${(err as Error).message}`,
-          metadata: null
-        });
+        call.sendStatus(handlerErrorToStatus(err));
       }
     },
     onCancel() {
@@ -1650,11 +1888,7 @@ function handleBidiStreaming<RequestType, ResponseType>(
       try {
         handler.func(stream);
       } catch (err) {
-        call.sendStatus({
-          code: Status.UNKNOWN,
-          details: `Server method handler threw error ${(err as Error).message}`,
-          metadata: null
-        });
+        call.sendStatus(handlerErrorToStatus(err));
       }
     },
     onReceiveMessage(message) {
@@ -64,6 +64,10 @@ export interface RetryThrottling {
   tokenRatio: number;
 }
 
+export interface HealthCheckConfig {
+  serviceName: string;
+}
+
 export interface LoadBalancingConfig {
   [key: string]: object;
 }
@@ -73,6 +77,7 @@ export interface ServiceConfig {
   loadBalancingConfig: LoadBalancingConfig[];
   methodConfig: MethodConfig[];
   retryThrottling?: RetryThrottling;
+  healthCheckConfig?: HealthCheckConfig;
 }
 
 export interface ServiceConfigCanaryConfig {
@@ -354,6 +359,18 @@ export function validateRetryThrottling(obj: any): RetryThrottling {
   };
 }
 
+export function validateHealthCheckConfig(obj: any): HealthCheckConfig {
+  if (!(typeof obj === 'object' && obj !== null)) {
+    throw new Error(`Invalid healthCheckConfig: unexpected type ${typeof obj}`);
+  }
+  if (typeof obj.serviceName !== 'string') {
+    throw new Error('Invalid healthCheckConfig: serviceName must be a string');
+  }
+  return {
+    serviceName: obj.serviceName,
+  };
+}
+
 function validateLoadBalancingConfig(obj: any): LoadBalancingConfig {
   if (!(typeof obj === 'object' && obj !== null)) {
     throw new Error(`Invalid loadBalancingConfig: unexpected type ${typeof obj}`);
@@ -402,6 +419,9 @@ export function validateServiceConfig(obj: any): ServiceConfig {
   if ('retryThrottling' in obj) {
     result.retryThrottling = validateRetryThrottling(obj.retryThrottling);
   }
+  if ('healthCheckConfig' in obj) {
+    result.healthCheckConfig = validateHealthCheckConfig(obj.healthCheckConfig);
+  }
   // Validate method name uniqueness
   const seenMethodNames: MethodConfigName[] = [];
   for (const methodConfig of result.methodConfig) {
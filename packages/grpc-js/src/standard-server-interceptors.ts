@@ -0,0 +1,443 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+/* Interceptors passed to the Server constructor are applied in order, with
+ * the first one closest to the network. When one of these interceptors
+ * rejects a call, the status passes through the interceptors before it in
+ * the list, so an access log interceptor should usually be first. */
+
+import { LogVerbosity, Status } from './constants';
+import { getRelativeTimeout } from './deadline';
+import { getErrorMessage } from './error';
+import * as logging from './logging';
+import { ServerMethodDefinition } from './make-client';
+import { Metadata } from './metadata';
+import { getHandlerError, isHandlerErrorStatus } from './server-call';
+import {
+  ServerInterceptingCall,
+  ServerInterceptingCallInterface,
+  ServerInterceptor,
+} from './server-interceptors';
+
+const ACCESS_LOG_TRACER_NAME = 'server_access_log';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyMethodDefinition = ServerMethodDefinition<any, any>;
+
+/**
+ * A summary of a completed call, passed to the access log function.
+ */
+export interface AccessLogEntry {
+  /**
+   * The full method path, like /package.Service/Method
+   */
+  method: string;
+  peer: string;
+  code: Status;
+  details: string;
+  latencyMs: number;
+}
+
+function defaultAccessLog(entry: AccessLogEntry) {
+  logging.trace(
+    LogVerbosity.INFO,
+    ACCESS_LOG_TRACER_NAME,
+    JSON.stringify({ ...entry, code: Status[entry.code] })
+  );
+}
+
+/**
+ * Create an interceptor that reports one entry for each call when it ends,
+ * including calls cancelled by the client.
+ * @param log The function to call with each entry. By default, entries are
+ *     logged as JSON with the server_access_log tracer.
+ */
+export function createAccessLogInterceptor(
+  log: (entry: AccessLogEntry) => void = defaultAccessLog
+): ServerInterceptor {
+  return (methodDescriptor, call) => {
+    const startTime = process.hrtime();
+    let logged = false;
+    const logOnce = (code: Status, details: string) => {
+      if (logged) {
+        return;
+      }
+      logged = true;
+      const [seconds, nanos] = process.hrtime(startTime);
+      log({
+        method: methodDescriptor.path,
+        peer: call.getPeer(),
+        code,
+        details,
+        latencyMs: seconds * 1000 + nanos / 1_000_000,
+      });
+    };
+    return new ServerInterceptingCall(call, {
+      start: next => {
+        next({
+          onCancel: () => {
+            logOnce(Status.CANCELLED, 'Cancelled by client');
+          },
+        });
+      },
+      sendStatus: (status, next) => {
+        logOnce(status.code, status.details);
+        next(status);
+      },
+    });
+  };
+}
+
+/**
+ * Decides whether a call with the given credential is allowed. Returning
+ * false or rejecting fails the call with the status UNAUTHENTICATED.
+ */
+export interface CredentialVerifier {
+  (
+    credential: string,
+    methodDescriptor: AnyMethodDefinition,
+    call: ServerInterceptingCallInterface
+  ): boolean | Promise<boolean>;
+}
+
+export interface AuthInterceptorOptions {
+  /**
+   * Full method paths, like /grpc.health.v1.Health/Check, of methods that
+   * do not require authentication.
+   */
+  exemptMethods?: string[];
+}
+
+export interface ApiKeyAuthInterceptorOptions extends AuthInterceptorOptions {
+  /**
+   * The metadata key that contains the API key. The default is x-api-key.
+   */
+  metadataKey?: string;
+}
+
+function createMetadataAuthInterceptor(
+  getCredential: (metadata: Metadata) => string | null,
+  verifier: CredentialVerifier,
+  options: AuthInterceptorOptions
+): ServerInterceptor {
+  const exemptMethods = new Set(options.exemptMethods ?? []);
+  return (methodDescriptor, call) => {
+    if (exemptMethods.has(methodDescriptor.path)) {
+      return call;
+    }
+    return new ServerInterceptingCall(call, {
+      start: next => {
+        next({
+          onReceiveMetadata: (metadata, metadataNext) => {
+            const credential = getCredential(metadata);
+            if (credential === null) {
+              call.sendStatus({
+                code: Status.UNAUTHENTICATED,
+                details: 'Missing credentials',
+              });
+              return;
+            }
+            Promise.resolve()
+              .then(() => verifier(credential, methodDescriptor, call))
+              .then(
+                allowed => {
+                  if (allowed) {
+                    metadataNext(metadata);
+                  } else {
+                    call.sendStatus({
+                      code: Status.UNAUTHENTICATED,
+                      details: 'Invalid credentials',
+                    });
+                  }
+                },
+                error => {
+                  logging.log(
+                    LogVerbosity.ERROR,
+                    `Credential verification for ${
+                      methodDescriptor.path
+                    } failed with error ${getErrorMessage(error)}`
+                  );
+                  call.sendStatus({
+                    code: Status.UNAUTHENTICATED,
+                    details: 'Credential verification failed',
+                  });
+                }
+              );
+          },
+        });
+      },
+    });
+  };
+}
+
+const BEARER_TOKEN_REGEX = /^Bearer\s+(\S+)$/i;
+
+/**
+ * Create an interceptor that requires a bearer token in the authorization
+ * metadata, and checks it with the verifier.
+ * @param verifier
+ * @param options
+ */
+export function createBearerTokenAuthInterceptor(
+  verifier: CredentialVerifier,
+  options: AuthInterceptorOptions = {}
+): ServerInterceptor {
+  return createMetadataAuthInterceptor(
+    metadata => {
+      const value = metadata.get('authorization')[0];
+      if (typeof value !== 'string') {
+        return null;
+      }
+      return BEARER_TOKEN_REGEX.exec(value)?.[1] ?? null;
+    },
+    verifier,
+    options
+  );
+}
+
+/**
+ * Create an interceptor that requires an API key in the request metadata,
+ * and checks it with the verifier.
+ * @param verifier
+ * @param options
+ */
+export function createApiKeyAuthInterceptor(
+  verifier: CredentialVerifier,
+  options: ApiKeyAuthInterceptorOptions = {}
+): ServerInterceptor {
+  const metadataKey = options.metadataKey ?? 'x-api-key';
+  return createMetadataAuthInterceptor(
+    metadata => {
+      const value = metadata.get(metadataKey)[0];
+      return typeof value === 'string' && value.length > 0 ? value : null;
+    },
+    verifier,
+    options
+  );
+}
+
+/**
+ * Checks a request message. Returning or resolving with an error message
+ * fails the call with the status INVALID_ARGUMENT and that message.
+ * Returning nothing accepts the message.
+ */
+export interface RequestValidator {
+  (
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    request: any,
+    methodDescriptor: AnyMethodDefinition
+  ): string | null | undefined | Promise<string | null | undefined>;
+}
+
+/**
+ * Create an interceptor that checks every request message before it is
+ * passed to the handler.
+ * @param validators A validator for every method, or an object that maps full
+ *     method paths to the validators for those methods. Methods without a
+ *     validator are not checked.
+ */
+export function createRequestValidationInterceptor(
+  validators: RequestValidator | { [methodPath: string]: RequestValidator }
+): ServerInterceptor {
+  return (methodDescriptor, call) => {
+    const validator =
+      typeof validators === 'function'
+        ? validators
+        : validators[methodDescriptor.path];
+    if (!validator) {
+      return call;
+    }
+    let failed = false;
+    return new ServerInterceptingCall(call, {
+      start: next => {
+        next({
+          onReceiveMessage: (message, messageNext) => {
+            if (failed) {
+              return;
+            }
+            Promise.resolve()
+              .then(() => validator(message, methodDescriptor))
+              .then(
+                errorMessage => {
+                  if (failed) {
+                    return;
+                  }
+                  if (errorMessage) {
+                    failed = true;
+                    call.sendStatus({
+                      code: Status.INVALID_ARGUMENT,
+                      details: errorMessage,
+                    });
+                  } else {
+                    messageNext(message);
+                  }
+                },
+                error => {
+                  failed = true;
+                  call.sendStatus({
+                    code: Status.INTERNAL,
+                    details: `Request validation failed with error ${getErrorMessage(
+                      error
+                    )}`,
+                  });
+                }
+              );
+          },
+          onReceiveHalfClose: halfCloseNext => {
+            /* If the last message is being validated, the half close is held
+             * until the message is passed along, so it is not dropped here. */
+            if (!failed) {
+              halfCloseNext();
+            }
+          },
+        });
+      },
+    });
+  };
+}
+
+export interface DeadlineInterceptorOptions {
+  /**
+   * If true, calls without a deadline fail with the status INVALID_ARGUMENT.
+   */
+  requireDeadline?: boolean;
+  /**
+   * Calls with less than this much time left when they arrive fail with the
+   * status DEADLINE_EXCEEDED, instead of starting work that cannot finish in
+   * time. The default is 0, which only rejects calls that have already
+   * expired.
+   */
+  minRemainingTimeMs?: number;
+}
+
+/**
+ * Create an interceptor that checks the deadline of each call before
+ * passing it to the handler. To propagate the deadline to outgoing calls,
+ * handlers should pass their call as the parent option of those calls.
+ * @param options
+ */
+export function createDeadlineInterceptor(
+  options: DeadlineInterceptorOptions = {}
+): ServerInterceptor {
+  const minRemainingTimeMs = options.minRemainingTimeMs ?? 0;
+  return (methodDescriptor, call) => {
+    return new ServerInterceptingCall(call, {
+      start: next => {
+        next({
+          onReceiveMetadata: (metadata, metadataNext) => {
+            const remainingTime = getRelativeTimeout(call.getDeadline());
+            if (remainingTime === Infinity) {
+              if (options.requireDeadline) {
+                call.sendStatus({
+                  code: Status.INVALID_ARGUMENT,
+                  details: `A deadline is required for ${methodDescriptor.path}`,
+                });
+                return;
+              }
+            } else if (
+              remainingTime === 0 ||
+              remainingTime < minRemainingTimeMs
+            ) {
+              call.sendStatus({
+                code: Status.DEADLINE_EXCEEDED,
+                details: 'Not enough time left before the deadline',
+              });
+              return;
+            }
+            metadataNext(metadata);
+          },
+        });
+      },
+    });
+  };
+}
+
+export interface RecoveryInterceptorOptions {
+  /**
+   * Called with each error thrown by a handler or by a later interceptor.
+   */
+  onError?: (error: unknown, methodDescriptor: AnyMethodDefinition) => void;
+}
+
+/**
+ * Create an interceptor that fails a call with the status INTERNAL if its
+ * handler, or an interceptor after this one, throws an error synchronously.
+ * Without it, errors thrown by handlers result in the status UNKNOWN with
+ * the error message as the details, and errors thrown by interceptors
+ * propagate out of the server. The error is logged, but it is not included
+ * in the status sent to the client. Errors thrown asynchronously, like
+ * rejections in async handlers, cannot be caught this way.
+ * @param options
+ */
+export function createRecoveryInterceptor(
+  options: RecoveryInterceptorOptions = {}
+): ServerInterceptor {
+  return (methodDescriptor, call) => {
+    let failed = false;
+    const reportError = (error: unknown) => {
+      logging.log(
+        LogVerbosity.ERROR,
+        `Handler for ${methodDescriptor.path} threw an error: ${getErrorMessage(
+          error
+        )}`
+      );
+      options.onError?.(error, methodDescriptor);
+    };
+    const runCatchingErrors = (action: () => void) => {
+      try {
+        action();
+      } catch (error) {
+        if (failed) {
+          return;
+        }
+        failed = true;
+        reportError(error);
+        call.sendStatus({
+          code: Status.INTERNAL,
+          details: 'Internal error',
+        });
+      }
+    };
+    return new ServerInterceptingCall(call, {
+      start: next => {
+        next({
+          onReceiveMetadata: (metadata, metadataNext) => {
+            runCatchingErrors(() => metadataNext(metadata));
+          },
+          onReceiveMessage: (message, messageNext) => {
+            runCatchingErrors(() => messageNext(message));
+          },
+          onReceiveHalfClose: halfCloseNext => {
+            runCatchingErrors(() => halfCloseNext());
+          },
+        });
+      },
+      sendStatus: (status, next) => {
+        if (isHandlerErrorStatus(status)) {
+          reportError(getHandlerError(status));
+          next({
+            code: Status.INTERNAL,
+            details: 'Internal error',
+            metadata: status.metadata,
+          });
+        } else {
+          next(status);
+        }
+      },
+    });
+  };
+}
@@ -17,6 +17,11 @@
 
 import { StatusObject } from './call-interface';
 import { Status } from './constants';
+import {
+  ErrorDetail,
+  serializeStatusDetails,
+  STATUS_DETAILS_METADATA_KEY,
+} from './error-details';
 import { Metadata } from './metadata';
 
 /**
@@ -26,11 +31,13 @@ export class StatusBuilder {
   private code: Status | null;
   private details: string | null;
   private metadata: Metadata | null;
+  private errorDetails: ErrorDetail[] | null;
 
   constructor() {
     this.code = null;
     this.details = null;
     this.metadata = null;
+    this.errorDetails = null;
   }
 
   /**
@@ -57,6 +64,15 @@ export class StatusBuilder {
     return this;
   }
 
+  /**
+   * Adds error details to the builder. They are sent in the
+   * grpc-status-details-bin trailer, along with the status code and details.
+   */
+  withErrorDetails(errorDetails: ErrorDetail[]): this {
+    this.errorDetails = errorDetails;
+    return this;
+  }
+
   /**
    * Builds the status object.
    */
@@ -75,6 +91,20 @@ export class StatusBuilder {
       status.metadata = this.metadata;
     }
 
+    if (this.errorDetails !== null) {
+      /* Copy the metadata to avoid modifying an object that was passed to
+       * withMetadata. */
+      status.metadata = status.metadata?.clone() ?? new Metadata();
+      status.metadata.set(
+        STATUS_DETAILS_METADATA_KEY,
+        serializeStatusDetails(
+          this.code ?? Status.UNKNOWN,
+          this.details ?? '',
+          this.errorDetails
+        )
+      );
+    }
+
     return status;
   }
 }
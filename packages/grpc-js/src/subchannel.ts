@@ -22,7 +22,8 @@ import { ConnectivityState } from './connectivity-state';
 import { BackoffTimeout, BackoffOptions } from './backoff-timeout';
 import * as logging from './logging';
 import { LogVerbosity, Status } from './constants';
-import { GrpcUri, uriToString } from './uri-parser';
+import { GrpcUri, parseUri, uriToString } from './uri-parser';
+import { getDefaultAuthority } from './resolver';
 import {
   SubchannelAddress,
   subchannelAddressToString,
@@ -35,6 +36,7 @@ import {
   registerChannelzSubchannel,
   ChannelzCallTracker,
   unregisterChannelzRef,
+  TraceSeverity,
 } from './channelz';
 import {
   ConnectivityStateListener,
@@ -332,12 +334,16 @@ export class Subchannel {
   ref() {
     this.refTrace('refcount ' + this.refcount + ' -> ' + (this.refcount + 1));
     this.refcount += 1;
+    if (this.refcount === 1) {
+      this.credentials._ref();
+    }
   }
 
   unref() {
     this.refTrace('refcount ' + this.refcount + ' -> ' + (this.refcount - 1));
     this.refcount -= 1;
     if (this.refcount === 0) {
+      this.credentials._unref();
       if (this.channelzEnabled) {
         this.channelzTrace.addTrace('CT_INFO', 'Shutting down');
       }
@@ -462,10 +468,42 @@ export class Subchannel {
     return this.subchannelAddressString;
   }
 
+  /**
+   * Get the authority to use for calls that the subchannel makes on its own
+   * behalf, such as out-of-band load report streams. This is the channel's
+   * default authority, using the original target if the connection is
+   * proxied.
+   */
+  getDefaultAuthority(): string {
+    if (this.options['grpc.default_authority']) {
+      return this.options['grpc.default_authority'];
+    }
+    const target = this.options['grpc.http_connect_target']
+      ? parseUri(this.options['grpc.http_connect_target']) ?? this.channelTarget
+      : this.channelTarget;
+    return getDefaultAuthority(target);
+  }
+
   getChannelzRef(): SubchannelRef {
     return this.channelzRef;
   }
 
+  /**
+   * Add an event to this subchannel's channelz trace.
+   * @param severity
+   * @param description
+   */
+  addChannelzTrace(severity: TraceSeverity, description: string) {
+    if (this.channelzEnabled) {
+      this.channelzTrace.addTrace(severity, description);
+    }
+  }
+
+  /**
+   * Subchannels are shared between channels, which can have different health
+   * check configurations, so each channel's subchannel wrapper tracks the
+   * backend's health and combines it with this value.
+   */
   isHealthy(): boolean {
     return true;
   }
@@ -766,6 +766,25 @@ export class Http2SubchannelConnector implements SubchannelConnector {
     address: SubchannelAddress,
     credentials: ChannelCredentials,
     options: ChannelOptions
+  ): Promise<Http2Transport> {
+    if (this.isShutdown) {
+      return Promise.reject();
+    }
+    /* Some credentials need to wait for certificates to be loaded before they
+     * can provide connection options. */
+    return credentials._waitForReady().then(
+      () => this.connectWithCredentials(address, credentials, options),
+      error => {
+        this.trace('credentials not ready: ' + (error as Error).message);
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private connectWithCredentials(
+    address: SubchannelAddress,
+    credentials: ChannelCredentials,
+    options: ChannelOptions
   ): Promise<Http2Transport> {
     if (this.isShutdown) {
       return Promise.reject();
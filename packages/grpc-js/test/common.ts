@@ -53,32 +53,110 @@ export function loadProtoFile(file: string): GrpcObject {
 }
 
 const protoFile = path.join(__dirname, 'fixtures', 'echo_service.proto');
-const echoService = loadProtoFile(protoFile)
+export const EchoService = loadProtoFile(protoFile)
   .EchoService as ServiceClientConstructor;
 
 const ca = readFileSync(path.join(__dirname, 'fixtures', 'ca.pem'));
 const key = readFileSync(path.join(__dirname, 'fixtures', 'server1.key'));
 const cert = readFileSync(path.join(__dirname, 'fixtures', 'server1.pem'));
 
-const serviceImpl = {
-  echo: (
-    call: grpc.ServerUnaryCall<any, any>,
-    callback: grpc.sendUnaryData<any>
-  ) => {
-    callback(null, call.request);
-  },
-};
-
 export class TestServer {
   private server: grpc.Server;
   public port: number | null = null;
-  constructor(public useTls: boolean, options?: grpc.ServerOptions) {
+  /**
+   * The number of echo requests that the server has received.
+   */
+  public requestCount = 0;
+  /**
+   * The number of echoBidiStream streams that the server has received.
+   */
+  public streamCount = 0;
+  private echoListeners: ((call: grpc.ServerUnaryCall<any, any>) => void)[] =
+    [];
+  private streamListeners: (() => void)[] = [];
+  /**
+   * @param useTls Use the test server certificate
+   * @param options
+   * @param credentials Credentials to use instead of the ones selected by
+   *     useTls
+   */
+  constructor(
+    public useTls: boolean,
+    options?: grpc.ServerOptions,
+    private credentials?: grpc.ServerCredentials
+  ) {
     this.server = new grpc.Server(options);
-    this.server.addService(echoService.service, serviceImpl);
+    this.server.addService(EchoService.service, {
+      echo: (
+        call: grpc.ServerUnaryCall<any, any>,
+        callback: grpc.sendUnaryData<any>
+      ) => {
+        this.requestCount += 1;
+        for (const listener of this.echoListeners) {
+          listener(call);
+        }
+        callback(null, call.request);
+      },
+      /* Streams stay open until the client ends them, so that tests can hold
+       * calls open on the server. */
+      echoBidiStream: (call: grpc.ServerDuplexStream<any, any>) => {
+        this.streamCount += 1;
+        for (const listener of this.streamListeners) {
+          listener();
+        }
+        call.on('data', message => {
+          call.write(message);
+        });
+        call.on('end', () => {
+          call.end();
+        });
+      },
+    });
+  }
+
+  /**
+   * Serve another service in addition to the echo service. Must be called
+   * before start.
+   * @param service
+   * @param implementation
+   */
+  addService(
+    service: grpc.ServiceDefinition,
+    implementation: grpc.UntypedServiceImplementation
+  ) {
+    this.server.addService(service, implementation);
+  }
+
+  /**
+   * Serve out-of-band load reports from the recorder. Must be called before
+   * start.
+   * @param recorder
+   */
+  addMetricRecorder(recorder: grpc.ServerMetricRecorder) {
+    recorder.addToServer(this.server);
+  }
+
+  /**
+   * Call the listener with each echo request before it is answered.
+   * @param listener
+   */
+  onEcho(listener: (call: grpc.ServerUnaryCall<any, any>) => void) {
+    this.echoListeners.push(listener);
+  }
+
+  /**
+   * Call the listener when each echoBidiStream stream starts.
+   * @param listener
+   */
+  onStream(listener: () => void) {
+    this.streamListeners.push(listener);
   }
+
   start(): Promise<void> {
     let credentials: grpc.ServerCredentials;
-    if (this.useTls) {
+    if (this.credentials) {
+      credentials = this.credentials;
+    } else if (this.useTls) {
       credentials = grpc.ServerCredentials.createSsl(null, [
         { private_key: key, cert_chain: cert },
       ]);
@@ -104,14 +182,25 @@ export class TestServer {
 
 export class TestClient {
   private client: ServiceClient;
-  constructor(port: number, useTls: boolean, options?: grpc.ChannelOptions) {
-    let credentials: grpc.ChannelCredentials;
-    if (useTls) {
-      credentials = grpc.credentials.createSsl(ca);
-    } else {
-      credentials = grpc.credentials.createInsecure();
+  /**
+   * @param port
+   * @param useTls Trust the test CA, without a client certificate
+   * @param options
+   * @param credentials Credentials to use instead of the ones selected by
+   *     useTls
+   */
+  constructor(
+    port: number,
+    useTls: boolean,
+    options?: grpc.ChannelOptions,
+    credentials?: grpc.ChannelCredentials
+  ) {
+    if (!credentials) {
+      credentials = useTls
+        ? grpc.credentials.createSsl(ca)
+        : grpc.credentials.createInsecure();
     }
-    this.client = new echoService(`localhost:${port}`, credentials, options);
+    this.client = new EchoService(`localhost:${port}`, credentials, options);
   }
 
   static createFromServer(server: TestServer, options?: grpc.ChannelOptions) {
@@ -142,6 +231,43 @@ export class TestClient {
   }
 }
 
+/**
+ * Send echo requests at the same time, and wait for all of them to succeed.
+ * @param client A client for the EchoService
+ * @param count The number of requests to send
+ * @param metadata The metadata to send with each request
+ * @param options The call options to use for each request
+ * @param request The message to send with each request
+ */
+export function sendRequests(
+  client: ServiceClient,
+  count: number,
+  metadata: grpc.Metadata = new grpc.Metadata(),
+  options: grpc.CallOptions = {},
+  request: object = { value: 'test', value2: 1 }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let remaining = count;
+    for (let i = 0; i < count; i++) {
+      client.echo(
+        request,
+        metadata.clone(),
+        options,
+        (error: grpc.ServiceError | null) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          remaining -= 1;
+          if (remaining === 0) {
+            resolve();
+          }
+        }
+      );
+    }
+  });
+}
+
 /**
  * A mock subchannel that transitions between states on command, to test LB
  * policy behavior
@@ -0,0 +1,243 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as grpc from '../src';
+import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
+import { loadProtoFile } from './common';
+
+const protoFile = path.join(__dirname, 'fixtures', 'echo_service.proto');
+const EchoService = loadProtoFile(protoFile)
+  .EchoService as ServiceClientConstructor;
+
+type EchoHandler = (
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+) => void;
+
+function startServer(
+  echo: EchoHandler,
+  options: grpc.ServerOptions = {}
+): Promise<{ server: grpc.Server; port: number }> {
+  return new Promise((resolve, reject) => {
+    const server = new grpc.Server(options);
+    server.addService(EchoService.service, { echo });
+    server.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve({ server, port });
+      }
+    );
+  });
+}
+
+describe('Call context propagation', () => {
+  let backendServer: grpc.Server;
+  let backendPort: number;
+  let backendCalls: grpc.ServerUnaryCall<any, any>[] = [];
+  let holdBackendCalls = false;
+  let frontendServer: grpc.Server | null = null;
+  let frontendClient: ServiceClient | null = null;
+  let backendClient: ServiceClient | null = null;
+  before(async () => {
+    ({ server: backendServer, port: backendPort } = await startServer(
+      (call, callback) => {
+        backendCalls.push(call);
+        if (!holdBackendCalls) {
+          callback(null, call.request);
+        }
+      }
+    ));
+  });
+  after(() => {
+    backendServer.forceShutdown();
+  });
+  beforeEach(() => {
+    backendCalls = [];
+    holdBackendCalls = false;
+  });
+  afterEach(() => {
+    frontendClient?.close();
+    frontendClient = null;
+    backendClient?.close();
+    backendClient = null;
+    frontendServer?.forceShutdown();
+    frontendServer = null;
+  });
+  /**
+   * Start a frontend server that forwards each request to the backend server
+   * after a delay, with a client constructed with the given options.
+   */
+  async function startFrontend(
+    serverOptions: grpc.ServerOptions,
+    clientOptions: grpc.ClientOptions = {}
+  ) {
+    backendClient = new EchoService(
+      `localhost:${backendPort}`,
+      grpc.credentials.createInsecure(),
+      clientOptions
+    );
+    const { server, port } = await startServer(async (call, callback) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      backendClient!.echo(
+        call.request,
+        (error: grpc.ServiceError | null, response: any) => {
+          callback(error, response);
+        }
+      );
+    }, serverOptions);
+    frontendServer = server;
+    frontendClient = new EchoService(
+      `localhost:${port}`,
+      grpc.credentials.createInsecure()
+    );
+  }
+  function sendFrontendRequest(
+    metadata: grpc.Metadata,
+    options: grpc.CallOptions
+  ): Promise<grpc.ServiceError | null> {
+    return new Promise(resolve => {
+      frontendClient!.echo(
+        { value: 'test', value2: 1 },
+        metadata,
+        options,
+        (error: grpc.ServiceError | null) => {
+          resolve(error);
+        }
+      );
+    });
+  }
+  it('Should propagate the deadline and tracing metadata', async () => {
+    await startFrontend({ 'grpc-node.enable_call_context': 1 });
+    const metadata = new grpc.Metadata();
+    metadata.set('traceparent', 'test-trace');
+    metadata.set('other-key', 'other-value');
+    const deadline = Date.now() + 10_000;
+    assert.ifError(await sendFrontendRequest(metadata, { deadline }));
+    assert.strictEqual(backendCalls.length, 1);
+    const backendDeadline = backendCalls[0].getDeadline();
+    const backendDeadlineMs =
+      backendDeadline instanceof Date
+        ? backendDeadline.getTime()
+        : backendDeadline;
+    assert(Math.abs(backendDeadlineMs - deadline) < 1000);
+    assert.deepStrictEqual(backendCalls[0].metadata.get('traceparent'), [
+      'test-trace',
+    ]);
+    assert.deepStrictEqual(backendCalls[0].metadata.get('other-key'), []);
+  });
+  it('Should propagate configured metadata keys', async () => {
+    await startFrontend(
+      { 'grpc-node.enable_call_context': 1 },
+      { callContextPropagation: { metadataKeys: ['other-key'] } }
+    );
+    const metadata = new grpc.Metadata();
+    metadata.set('traceparent', 'test-trace');
+    metadata.set('other-key', 'other-value');
+    assert.ifError(await sendFrontendRequest(metadata, {}));
+    assert.deepStrictEqual(backendCalls[0].metadata.get('traceparent'), []);
+    assert.deepStrictEqual(backendCalls[0].metadata.get('other-key'), [
+      'other-value',
+    ]);
+  });
+  it('Should propagate cancellation', done => {
+    holdBackendCalls = true;
+    startFrontend({ 'grpc-node.enable_call_context': 1 }).then(() => {
+      const call = frontendClient!.echo(
+        { value: 'test', value2: 1 },
+        (error: grpc.ServiceError | null) => {
+          assert.strictEqual(error?.code, grpc.status.CANCELLED);
+        }
+      );
+      const checkBackendCall = () => {
+        if (backendCalls.length === 0) {
+          setTimeout(checkBackendCall, 10);
+          return;
+        }
+        backendCalls[0].on('cancelled', () => {
+          done();
+        });
+        call.cancel();
+      };
+      checkBackendCall();
+    }, done);
+  });
+  it('Should remove the cancellation listener when a child call ends', async () => {
+    backendClient = new EchoService(
+      `localhost:${backendPort}`,
+      grpc.credentials.createInsecure()
+    );
+    const listenerCounts: number[] = [];
+    const { server, port } = await startServer(
+      async (call, callback) => {
+        listenerCounts.push(call.listenerCount('cancelled'));
+        for (let i = 0; i < 5; i++) {
+          await new Promise<void>((resolve, reject) => {
+            backendClient!.echo(
+              call.request,
+              (error: grpc.ServiceError | null) => {
+                if (error) {
+                  reject(error);
+                } else {
+                  resolve();
+                }
+              }
+            );
+          });
+        }
+        listenerCounts.push(call.listenerCount('cancelled'));
+        callback(null, call.request);
+      },
+      { 'grpc-node.enable_call_context': 1 }
+    );
+    frontendServer = server;
+    frontendClient = new EchoService(
+      `localhost:${port}`,
+      grpc.credentials.createInsecure()
+    );
+    assert.ifError(await sendFrontendRequest(new grpc.Metadata(), {}));
+    assert.strictEqual(backendCalls.length, 5);
+    assert.strictEqual(listenerCounts[1], listenerCounts[0]);
+  });
+  it('Should not propagate if the client disables it', async () => {
+    await startFrontend(
+      { 'grpc-node.enable_call_context': 1 },
+      { callContextPropagation: false }
+    );
+    assert.ifError(
+      await sendFrontendRequest(new grpc.Metadata(), {
+        deadline: Date.now() + 10_000,
+      })
+    );
+    assert.strictEqual(backendCalls[0].getDeadline(), Infinity);
+  });
+  it('Should not propagate if the server does not enable it', async () => {
+    await startFrontend({});
+    assert.ifError(
+      await sendFrontendRequest(new grpc.Metadata(), {
+        deadline: Date.now() + 10_000,
+      })
+    );
+    assert.strictEqual(backendCalls[0].getDeadline(), Infinity);
+  });
+});
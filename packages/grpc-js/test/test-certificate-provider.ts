@@ -0,0 +1,282 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {
+  CaCertificateUpdate,
+  CaCertificateUpdateListener,
+  CertificateProvider,
+  FileWatcherCertificateProvider,
+  IdentityCertificateUpdate,
+  IdentityCertificateUpdateListener,
+} from '../src/certificate-provider';
+import { createCertificateProviderChannelCredentials } from '../src/channel-credentials';
+import { createCertificateProviderServerCredentials } from '../src/server-credentials';
+import { credentials } from '../src';
+import { TestClient, TestServer } from './common';
+
+const ca = fs.readFileSync(path.join(__dirname, 'fixtures', 'ca.pem'));
+const key = fs.readFileSync(path.join(__dirname, 'fixtures', 'server1.key'));
+const cert = fs.readFileSync(path.join(__dirname, 'fixtures', 'server1.pem'));
+
+/**
+ * A certificate provider that delivers updates when the test tells it to.
+ */
+class FakeCertificateProvider implements CertificateProvider {
+  caListeners = new Set<CaCertificateUpdateListener>();
+  identityListeners = new Set<IdentityCertificateUpdateListener>();
+  addCaCertificateListener(listener: CaCertificateUpdateListener): void {
+    this.caListeners.add(listener);
+  }
+  removeCaCertificateListener(listener: CaCertificateUpdateListener): void {
+    this.caListeners.delete(listener);
+  }
+  addIdentityCertificateListener(
+    listener: IdentityCertificateUpdateListener
+  ): void {
+    this.identityListeners.add(listener);
+  }
+  removeIdentityCertificateListener(
+    listener: IdentityCertificateUpdateListener
+  ): void {
+    this.identityListeners.delete(listener);
+  }
+  sendCaUpdate(update: CaCertificateUpdate | null) {
+    for (const listener of this.caListeners) {
+      listener(update);
+    }
+  }
+  sendIdentityUpdate(update: IdentityCertificateUpdate | null) {
+    for (const listener of this.identityListeners) {
+      listener(update);
+    }
+  }
+}
+
+describe('FileWatcherCertificateProvider', () => {
+  let tempDir: string;
+  before(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grpc-cert-provider-'));
+  });
+  after(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+  it('Should reject a certificate without a private key', () => {
+    assert.throws(() => {
+      new FileWatcherCertificateProvider({
+        certificateFile: path.join(tempDir, 'cert.pem'),
+        refreshIntervalMs: 1000,
+      });
+    });
+  });
+  it('Should reject a config with no files', () => {
+    assert.throws(() => {
+      new FileWatcherCertificateProvider({ refreshIntervalMs: 1000 });
+    });
+  });
+  it('Should read the certificate files', done => {
+    const provider = new FileWatcherCertificateProvider({
+      certificateFile: path.join(__dirname, 'fixtures', 'server1.pem'),
+      privateKeyFile: path.join(__dirname, 'fixtures', 'server1.key'),
+      refreshIntervalMs: 1000,
+    });
+    const listener: IdentityCertificateUpdateListener = update => {
+      provider.removeIdentityCertificateListener(listener);
+      assert(update);
+      assert(update.certificate.equals(cert));
+      assert(update.privateKey.equals(key));
+      done();
+    };
+    provider.addIdentityCertificateListener(listener);
+  });
+  it('Should report an error if a file is missing', done => {
+    const provider = new FileWatcherCertificateProvider({
+      caCertificateFile: path.join(tempDir, 'missing.pem'),
+      refreshIntervalMs: 1000,
+    });
+    const listener: CaCertificateUpdateListener = update => {
+      provider.removeCaCertificateListener(listener);
+      assert.strictEqual(update, null);
+      done();
+    };
+    provider.addCaCertificateListener(listener);
+  });
+  it('Should pick up changes to the files', done => {
+    const caFile = path.join(tempDir, 'ca.pem');
+    fs.writeFileSync(caFile, 'first');
+    const provider = new FileWatcherCertificateProvider({
+      caCertificateFile: caFile,
+      refreshIntervalMs: 50,
+    });
+    const listener: CaCertificateUpdateListener = update => {
+      assert(update);
+      if (update.caCertificate.toString() === 'first') {
+        fs.writeFileSync(caFile, 'second');
+      } else {
+        assert.strictEqual(update.caCertificate.toString(), 'second');
+        provider.removeCaCertificateListener(listener);
+        done();
+      }
+    };
+    provider.addCaCertificateListener(listener);
+  });
+  it('Should give new listeners the latest certificate', done => {
+    const provider = new FileWatcherCertificateProvider({
+      caCertificateFile: path.join(__dirname, 'fixtures', 'ca.pem'),
+      refreshIntervalMs: 1000,
+    });
+    const firstListener: CaCertificateUpdateListener = () => {
+      const secondListener: CaCertificateUpdateListener = update => {
+        provider.removeCaCertificateListener(firstListener);
+        provider.removeCaCertificateListener(secondListener);
+        assert(update?.caCertificate.equals(ca));
+        done();
+      };
+      provider.addCaCertificateListener(secondListener);
+    };
+    provider.addCaCertificateListener(firstListener);
+  });
+});
+
+describe('Certificate provider credentials', () => {
+  it('Should wait for certificates before connecting', async () => {
+    const caProvider = new FakeCertificateProvider();
+    const identityProvider = new FakeCertificateProvider();
+    const credentials = createCertificateProviderChannelCredentials(
+      caProvider,
+      identityProvider
+    );
+    credentials._ref();
+    let ready = false;
+    const readyPromise = credentials._waitForReady().then(() => {
+      ready = true;
+    });
+    caProvider.sendCaUpdate({ caCertificate: ca });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(ready, false);
+    identityProvider.sendIdentityUpdate({ certificate: cert, privateKey: key });
+    await readyPromise;
+    assert(credentials._getConnectionOptions()?.secureContext);
+    credentials._unref();
+    assert.strictEqual(caProvider.caListeners.size, 0);
+    assert.strictEqual(identityProvider.identityListeners.size, 0);
+  });
+  it('Should fail if a provider has no certificate', async () => {
+    const caProvider = new FakeCertificateProvider();
+    const credentials = createCertificateProviderChannelCredentials(
+      caProvider,
+      null
+    );
+    credentials._ref();
+    caProvider.sendCaUpdate(null);
+    await credentials._waitForReady().then(
+      () => assert.fail('Expected an error'),
+      error => assert(error instanceof Error)
+    );
+    credentials._unref();
+  });
+  it('Should keep using a certificate after a provider error', async () => {
+    const caProvider = new FakeCertificateProvider();
+    const credentials = createCertificateProviderChannelCredentials(
+      caProvider,
+      null
+    );
+    credentials._ref();
+    caProvider.sendCaUpdate({ caCertificate: ca });
+    caProvider.sendCaUpdate(null);
+    await credentials._waitForReady();
+    credentials._unref();
+  });
+  it('Should send server certificate updates to watchers', () => {
+    const caProvider = new FakeCertificateProvider();
+    const identityProvider = new FakeCertificateProvider();
+    const credentials = createCertificateProviderServerCredentials(
+      caProvider,
+      identityProvider,
+      true
+    );
+    assert.strictEqual(credentials._getSettings(), null);
+    const updates: unknown[] = [];
+    const watcher = (options: unknown) => updates.push(options);
+    credentials._addWatcher(watcher);
+    identityProvider.sendIdentityUpdate({ certificate: cert, privateKey: key });
+    assert.strictEqual(updates.length, 0);
+    caProvider.sendCaUpdate({ caCertificate: ca });
+    assert.strictEqual(updates.length, 1);
+    const settings = credentials._getSettings();
+    assert.strictEqual(settings?.requestCert, true);
+    assert.strictEqual(settings?.rejectUnauthorized, true);
+    credentials._removeWatcher(watcher);
+    assert.strictEqual(caProvider.caListeners.size, 0);
+    assert.strictEqual(identityProvider.identityListeners.size, 0);
+  });
+  describe('Server client certificate checks', () => {
+    let server: TestServer;
+    let client: TestClient | null = null;
+    const clientOptions = {
+      'grpc.ssl_target_name_override': 'foo.test.google.fr',
+      'grpc.default_authority': 'foo.test.google.fr',
+    };
+    beforeEach(async () => {
+      const caProvider = new FakeCertificateProvider();
+      const identityProvider = new FakeCertificateProvider();
+      server = new TestServer(
+        true,
+        undefined,
+        createCertificateProviderServerCredentials(
+          caProvider,
+          identityProvider,
+          true
+        )
+      );
+      await server.start();
+      caProvider.sendCaUpdate({ caCertificate: ca });
+      identityProvider.sendIdentityUpdate({
+        certificate: cert,
+        privateKey: key,
+      });
+    });
+    afterEach(() => {
+      client?.close();
+      client = null;
+      server.shutdown();
+    });
+    it('Should reject a client without a certificate', done => {
+      client = new TestClient(server.port!, true, clientOptions);
+      client.sendRequest(error => {
+        assert(error);
+        done();
+      });
+    });
+    it('Should accept a client with a trusted certificate', done => {
+      client = new TestClient(
+        server.port!,
+        true,
+        clientOptions,
+        credentials.createSsl(ca, key, cert)
+      );
+      client.sendRequest(error => {
+        assert.ifError(error);
+        done();
+      });
+    });
+  });
+});
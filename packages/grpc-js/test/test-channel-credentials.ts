@@ -17,6 +17,7 @@
 
 import * as assert from 'assert';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { promisify } from 'util';
 
@@ -25,7 +26,13 @@ import { ChannelCredentials } from '../src/channel-credentials';
 import * as grpc from '../src';
 import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
 
-import { assert2, loadProtoFile, mockFunction } from './common';
+import {
+  assert2,
+  loadProtoFile,
+  mockFunction,
+  TestClient,
+  TestServer,
+} from './common';
 import { sendUnaryData, ServerUnaryCall, ServiceError } from '../src';
 
 const protoFile = path.join(__dirname, 'fixtures', 'echo_service.proto');
@@ -121,6 +128,90 @@ describe('ChannelCredentials Implementation', () => {
     });
   });
 
+  describe('createFromFileWatcher', () => {
+    it('should wait for the files to be read', async () => {
+      const creds = ChannelCredentials.createFromFileWatcher({
+        caCertificateFile: path.join(__dirname, 'fixtures', 'ca.pem'),
+        certificateFile: path.join(__dirname, 'fixtures', 'server1.pem'),
+        privateKeyFile: path.join(__dirname, 'fixtures', 'server1.key'),
+        refreshIntervalMs: 1000,
+      });
+      creds._ref();
+      await creds._waitForReady();
+      assert.ok(!!creds._getConnectionOptions()?.secureContext);
+      creds._unref();
+    });
+
+    it('should fail if a file cannot be read', async () => {
+      const creds = ChannelCredentials.createFromFileWatcher({
+        caCertificateFile: path.join(__dirname, 'fixtures', 'missing.pem'),
+        refreshIntervalMs: 1000,
+      });
+      creds._ref();
+      await creds._waitForReady().then(
+        () => assert.fail('Expected an error'),
+        error => assert.ok(error instanceof Error)
+      );
+      creds._unref();
+    });
+
+    describe('file rotation', () => {
+      let tempDir: string;
+      let server: TestServer;
+      let client: TestClient | null = null;
+      before(async () => {
+        server = new TestServer(true);
+        await server.start();
+      });
+      beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grpc-channel-creds-'));
+      });
+      afterEach(() => {
+        client?.close();
+        client = null;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+      after(() => {
+        server.shutdown();
+      });
+      it('should use the rotated CA certificate for new connections', async () => {
+        const { ca, cert } = await pFixtures;
+        const caFile = path.join(tempDir, 'ca.pem');
+        // The server certificate is not a CA, so it cannot verify itself
+        fs.writeFileSync(caFile, cert);
+        client = new TestClient(
+          server.port!,
+          true,
+          { 'grpc.ssl_target_name_override': 'foo.test.google.fr' },
+          ChannelCredentials.createFromFileWatcher({
+            caCertificateFile: caFile,
+            refreshIntervalMs: 100,
+          })
+        );
+        await new Promise<void>((resolve, reject) => {
+          client!.sendRequest(error => {
+            if (error) {
+              assert.strictEqual(error.code, grpc.status.UNAVAILABLE);
+              resolve();
+            } else {
+              reject(new Error('Request unexpectedly succeeded'));
+            }
+          });
+        });
+        fs.writeFileSync(caFile, ca);
+        await new Promise(resolve => setTimeout(resolve, 300));
+        await new Promise<void>((resolve, reject) => {
+          client!.waitForReady(Date.now() + 5000, error =>
+            error ? reject(error) : resolve()
+          );
+        });
+        await new Promise<void>((resolve, reject) => {
+          client!.sendRequest(error => (error ? reject(error) : resolve()));
+        });
+      });
+    });
+  });
+
   describe('compose', () => {
     it('should return a ChannelCredentials object', () => {
       const channelCreds = ChannelCredentials.createSsl();
@@ -0,0 +1,241 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as grpc from '../src';
+import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
+import { loadProtoFile } from './common';
+
+const TestServiceClient = loadProtoFile(
+  `${__dirname}/fixtures/test_service.proto`
+).TestService as ServiceClientConstructor;
+
+const testServiceImpl: grpc.UntypedServiceImplementation = {
+  unary(
+    call: grpc.ServerUnaryCall<any, any>,
+    callback: grpc.sendUnaryData<any>
+  ) {
+    callback(null, { count: 1 });
+  },
+};
+
+interface HttpResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Channelz HTTP handler', () => {
+  let httpServer: http.Server;
+  let httpPort: number;
+  let testServer: grpc.Server;
+  let testClient: ServiceClient;
+  let nextCalls = 0;
+
+  before(done => {
+    const handler = grpc.createChannelzHttpHandler();
+    httpServer = http.createServer((request, response) => {
+      handler(request, response, () => {
+        nextCalls += 1;
+        response.writeHead(418);
+        response.end();
+      });
+    });
+    httpServer.listen(0, 'localhost', () => {
+      httpPort = (httpServer.address() as AddressInfo).port;
+      testServer = new grpc.Server();
+      testServer.addService(TestServiceClient.service, testServiceImpl);
+      testServer.bindAsync(
+        'localhost:0',
+        grpc.ServerCredentials.createInsecure(),
+        (error, port) => {
+          if (error) {
+            done(error);
+            return;
+          }
+          testClient = new TestServiceClient(
+            `localhost:${port}`,
+            grpc.credentials.createInsecure()
+          );
+          testClient.unary({}, (error: grpc.ServiceError | null) => {
+            done(error);
+          });
+        }
+      );
+    });
+  });
+
+  after(() => {
+    testClient.close();
+    testServer.forceShutdown();
+    httpServer.close();
+  });
+
+  function httpGet(path: string, method = 'GET'): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+      const request = http.request(
+        { host: 'localhost', port: httpPort, path, method },
+        response => {
+          let body = '';
+          response.setEncoding('utf8');
+          response.on('data', chunk => {
+            body += chunk;
+          });
+          response.on('end', () => {
+            resolve({
+              status: response.statusCode!,
+              headers: response.headers,
+              body,
+            });
+          });
+        }
+      );
+      request.on('error', reject);
+      request.end();
+    });
+  }
+
+  async function getJson(path: string): Promise<any> {
+    const response = await httpGet(path);
+    assert.strictEqual(response.status, 200, response.body);
+    assert.match(response.headers['content-type']!, /^application\/json/);
+    return JSON.parse(response.body);
+  }
+
+  it('Should list the top channels', async () => {
+    const channelId = testClient.getChannel().getChannelzRef().id;
+    const result = await getJson(
+      `/channelz/channels?start_id=${channelId}&max_results=1`
+    );
+    assert.strictEqual(result.channel.length, 1);
+    const channel = result.channel[0];
+    assert.strictEqual(channel.ref.channel_id, channelId);
+    assert.strictEqual(channel.data.calls_succeeded, 1);
+    assert.strictEqual(channel.data.state.state, 'READY');
+    assert.strictEqual(typeof channel.data.trace.creation_timestamp, 'string');
+    assert(channel.data.trace.events.length > 0);
+  });
+
+  it('Should get a channel, its subchannel and its socket', async () => {
+    const channelId = testClient.getChannel().getChannelzRef().id;
+    const channelResult = await getJson(`/channelz/channels/${channelId}`);
+    assert.strictEqual(channelResult.channel.ref.channel_id, channelId);
+    for (const event of channelResult.channel.data.trace.events) {
+      assert(!Number.isNaN(Date.parse(event.timestamp)));
+    }
+    assert.strictEqual(channelResult.channel.subchannel_ref.length, 1);
+    const subchannelId = channelResult.channel.subchannel_ref[0].subchannel_id;
+    const subchannelResult = await getJson(
+      `/channelz/subchannels/${subchannelId}`
+    );
+    assert.strictEqual(subchannelResult.subchannel.socket_ref.length, 1);
+    const socketId = subchannelResult.subchannel.socket_ref[0].socket_id;
+    const socketResult = await getJson(`/channelz/sockets/${socketId}`);
+    assert.strictEqual(socketResult.socket.ref.socket_id, socketId);
+    assert.strictEqual(
+      socketResult.socket.remote.tcpip_address.ip_address,
+      '127.0.0.1'
+    );
+    assert.strictEqual(socketResult.socket.security, null);
+    assert.strictEqual(socketResult.socket.data.messages_sent, 1);
+  });
+
+  it('Should get a server and its sockets', async () => {
+    const serverId = testServer.getChannelzRef().id;
+    const serversResult = await getJson(
+      `/channelz/servers?start_id=${serverId}`
+    );
+    assert.strictEqual(serversResult.server[0].ref.server_id, serverId);
+    const serverResult = await getJson(`/channelz/servers/${serverId}`);
+    assert.strictEqual(serverResult.server.data.calls_succeeded, 1);
+    assert.strictEqual(serverResult.server.listen_socket.length, 1);
+    const socketsResult = await getJson(
+      `/channelz/servers/${serverId}/sockets`
+    );
+    assert.strictEqual(socketsResult.socket_ref.length, 1);
+    assert.strictEqual(socketsResult.end, true);
+  });
+
+  it('Should respond with errors for unknown and invalid ids', async () => {
+    const notFound = await httpGet('/channelz/channels/1000000');
+    assert.strictEqual(notFound.status, 404);
+    assert.strictEqual(
+      JSON.parse(notFound.body).error,
+      'No channel data found for id 1000000'
+    );
+    const invalid = await httpGet('/channelz/sockets/abc');
+    assert.strictEqual(invalid.status, 400);
+    const invalidPage = await httpGet('/channelz/servers?max_results=-1');
+    assert.strictEqual(invalidPage.status, 400);
+    const unknownPath = await httpGet('/channelz/calls/1');
+    assert.strictEqual(unknownPath.status, 404);
+    const post = await httpGet('/channelz/channels', 'POST');
+    assert.strictEqual(post.status, 405);
+  });
+
+  it('Should serve the browser view', async () => {
+    const redirect = await httpGet('/channelz');
+    assert.strictEqual(redirect.status, 301);
+    assert.strictEqual(redirect.headers.location, '/channelz/');
+    const page = await httpGet('/channelz/');
+    assert.strictEqual(page.status, 200);
+    assert.match(page.headers['content-type']!, /^text\/html/);
+    assert.match(page.body, /<title>channelz<\/title>/);
+  });
+
+  it('Should pass other requests to the next handler', async () => {
+    nextCalls = 0;
+    const response = await httpGet('/other');
+    assert.strictEqual(response.status, 418);
+    const prefixOnly = await httpGet('/channelzz');
+    assert.strictEqual(prefixOnly.status, 418);
+    assert.strictEqual(nextCalls, 2);
+  });
+
+  it('Should serve under a custom path prefix', done => {
+    const handler = grpc.createChannelzHttpHandler({
+      pathPrefix: '/debug/channelz/',
+    });
+    const server = http.createServer(handler);
+    server.listen(0, 'localhost', () => {
+      const port = (server.address() as AddressInfo).port;
+      const serverId = testServer.getChannelzRef().id;
+      http.get(
+        {
+          host: 'localhost',
+          port,
+          path: `/debug/channelz/servers/${serverId}`,
+        },
+        response => {
+          assert.strictEqual(response.statusCode, 200);
+          response.resume();
+          http.get(
+            { host: 'localhost', port, path: '/channelz/servers' },
+            response2 => {
+              assert.strictEqual(response2.statusCode, 404);
+              response2.resume();
+              server.close();
+              done();
+            }
+          );
+        }
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as grpc from '../src';
+import {
+  deserializeStatusDetails,
+  serializeStatusDetails,
+  STATUS_DETAILS_METADATA_KEY,
+} from '../src/error-details';
+import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
+import { loadProtoFile } from './common';
+
+const protoFile = path.join(__dirname, 'fixtures', 'echo_service.proto');
+const EchoService = loadProtoFile(protoFile)
+  .EchoService as ServiceClientConstructor;
+
+describe('Error details', () => {
+  describe('Serialization', () => {
+    it('Should round trip standard error details', () => {
+      const serialized = serializeStatusDetails(
+        grpc.status.RESOURCE_EXHAUSTED,
+        'Quota exceeded',
+        [
+          {
+            '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+            violations: [{ subject: 'project:test', description: 'Too many' }],
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+            retry_delay: { seconds: 5, nanos: 0 },
+          },
+        ]
+      );
+      assert.deepStrictEqual(deserializeStatusDetails(serialized), {
+        code: grpc.status.RESOURCE_EXHAUSTED,
+        message: 'Quota exceeded',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+            violations: [{ subject: 'project:test', description: 'Too many' }],
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.RetryInfo',
+            retry_delay: { seconds: '5', nanos: 0 },
+          },
+        ],
+      });
+    });
+    it('Should reject details with an unknown type', () => {
+      assert.throws(() =>
+        serializeStatusDetails(grpc.status.INTERNAL, '', [
+          {
+            '@type': 'type.googleapis.com/test.Unknown',
+          } as any,
+        ])
+      );
+    });
+    it('Should leave details with an unknown type encoded', () => {
+      /* A google.rpc.Status message with code 13 and one Any detail with type
+       * URL "test/Unknown" and the value [0x08, 0x01] */
+      const typeUrl = Buffer.from('test/Unknown');
+      const any = Buffer.concat([
+        Buffer.from([0x0a, typeUrl.length]),
+        typeUrl,
+        Buffer.from([0x12, 2, 0x08, 0x01]),
+      ]);
+      const serialized = Buffer.concat([
+        Buffer.from([0x08, 13, 0x1a, any.length]),
+        any,
+      ]);
+      assert.deepStrictEqual(deserializeStatusDetails(serialized).details, [
+        { type_url: 'test/Unknown', value: Buffer.from([0x08, 0x01]) },
+      ]);
+    });
+  });
+  describe('Client errors', () => {
+    let server: grpc.Server;
+    let client: ServiceClient;
+    let nextError: Partial<grpc.StatusObject>;
+    before(done => {
+      server = new grpc.Server();
+      server.addService(EchoService.service, {
+        echo: (
+          call: grpc.ServerUnaryCall<unknown, unknown>,
+          callback: grpc.sendUnaryData<unknown>
+        ) => {
+          callback(nextError);
+        },
+      });
+      server.bindAsync(
+        'localhost:0',
+        grpc.ServerCredentials.createInsecure(),
+        (error, port) => {
+          assert.ifError(error);
+          client = new EchoService(
+            `localhost:${port}`,
+            grpc.credentials.createInsecure()
+          );
+          done();
+        }
+      );
+    });
+    after(() => {
+      client.close();
+      server.forceShutdown();
+    });
+    it('Should decode error details from the trailers', done => {
+      nextError = new grpc.StatusBuilder()
+        .withCode(grpc.status.INVALID_ARGUMENT)
+        .withDetails('Invalid request')
+        .withErrorDetails([
+          {
+            '@type': 'type.googleapis.com/google.rpc.BadRequest',
+            field_violations: [{ field: 'value', description: 'Too short' }],
+          },
+        ])
+        .build();
+      client.echo(
+        { value: 'test', value2: 1 },
+        (error: grpc.ServiceError | null) => {
+          assert(error);
+          assert.strictEqual(error.code, grpc.status.INVALID_ARGUMENT);
+          assert.deepStrictEqual(error.statusDetails, [
+            {
+              '@type': 'type.googleapis.com/google.rpc.BadRequest',
+              field_violations: [{ field: 'value', description: 'Too short' }],
+            },
+          ]);
+          done();
+        }
+      );
+    });
+    it('Should ignore a malformed status details trailer', done => {
+      const metadata = new grpc.Metadata();
+      metadata.set(STATUS_DETAILS_METADATA_KEY, Buffer.from([0xff]));
+      nextError = { code: grpc.status.INTERNAL, details: 'Failed', metadata };
+      client.echo(
+        { value: 'test', value2: 1 },
+        (error: grpc.ServiceError | null) => {
+          assert(error);
+          assert.strictEqual(error.code, grpc.status.INTERNAL);
+          assert.strictEqual(error.statusDetails, undefined);
+          done();
+        }
+      );
+    });
+    it('Should not set statusDetails without the trailer', done => {
+      nextError = { code: grpc.status.UNAVAILABLE, details: 'Failed' };
+      client.echo(
+        { value: 'test', value2: 1 },
+        (error: grpc.ServiceError | null) => {
+          assert(error);
+          assert.strictEqual(error.statusDetails, undefined);
+          done();
+        }
+      );
+    });
+  });
+});
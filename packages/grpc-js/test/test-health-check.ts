@@ -0,0 +1,221 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as grpc from '../src';
+import { HealthCheckRequest__Output } from '../src/generated/grpc/health/v1/HealthCheckRequest';
+import {
+  _grpc_health_v1_HealthCheckResponse_ServingStatus__Output,
+  HealthCheckResponse,
+} from '../src/generated/grpc/health/v1/HealthCheckResponse';
+import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
+import { validateServiceConfig } from '../src/service-config';
+import { EchoService, loadProtoFile, sendRequests, TestServer } from './common';
+
+const HealthService = (
+  loadProtoFile(
+    path.join(
+      __dirname,
+      '..',
+      '..',
+      'proto',
+      'grpc',
+      'health',
+      'v1',
+      'health.proto'
+    )
+  ) as any
+).grpc.health.v1.Health as ServiceClientConstructor;
+
+type ServingStatus = _grpc_health_v1_HealthCheckResponse_ServingStatus__Output;
+
+const SERVING: ServingStatus = 'SERVING';
+const NOT_SERVING: ServingStatus = 'NOT_SERVING';
+
+/* Requests wait for a healthy backend instead of failing while the health
+ * check streams start. */
+const waitForReadyMetadata = new grpc.Metadata({ waitForReady: true });
+
+/**
+ * A grpc.health.v1.Health service that reports the same status for every
+ * service name.
+ */
+class FakeHealthService {
+  private watchCalls: grpc.ServerWritableStream<
+    HealthCheckRequest__Output,
+    HealthCheckResponse
+  >[] = [];
+  requestedServiceNames: string[] = [];
+  constructor(private status: ServingStatus) {}
+
+  addToServer(server: TestServer) {
+    server.addService(HealthService.service, {
+      Watch: (
+        call: grpc.ServerWritableStream<
+          HealthCheckRequest__Output,
+          HealthCheckResponse
+        >
+      ) => {
+        this.requestedServiceNames.push(call.request.service);
+        this.watchCalls.push(call);
+        call.on('cancelled', () => {
+          this.watchCalls = this.watchCalls.filter(other => other !== call);
+        });
+        call.write({ status: this.status });
+      },
+    });
+  }
+
+  setStatus(status: ServingStatus) {
+    this.status = status;
+    for (const call of this.watchCalls) {
+      call.write({ status });
+    }
+  }
+}
+
+/**
+ * Start a server for each status, with a health service that reports that
+ * status, or without a health service if the status is null.
+ */
+async function startServers(
+  statuses: (ServingStatus | null)[]
+): Promise<{ servers: TestServer[]; healthServices: FakeHealthService[] }> {
+  const servers: TestServer[] = [];
+  const healthServices: FakeHealthService[] = [];
+  for (const status of statuses) {
+    const server = new TestServer(false);
+    if (status !== null) {
+      const healthService = new FakeHealthService(status);
+      healthService.addToServer(server);
+      healthServices.push(healthService);
+    }
+    servers.push(server);
+  }
+  await Promise.all(servers.map(server => server.start()));
+  return { servers, healthServices };
+}
+
+function createClient(
+  servers: TestServer[],
+  serviceConfig: object
+): ServiceClient {
+  return new EchoService(
+    'ipv4:' + servers.map(server => `127.0.0.1:${server.port}`).join(','),
+    grpc.credentials.createInsecure(),
+    { 'grpc.service_config': JSON.stringify(serviceConfig) }
+  );
+}
+
+describe('Health check client', () => {
+  describe('Service config', () => {
+    it('Should accept a healthCheckConfig', () => {
+      const serviceConfig = validateServiceConfig({
+        healthCheckConfig: { serviceName: 'test' },
+      });
+      assert.deepStrictEqual(serviceConfig.healthCheckConfig, {
+        serviceName: 'test',
+      });
+    });
+    it('Should reject a healthCheckConfig without a service name', () => {
+      assert.throws(
+        () => validateServiceConfig({ healthCheckConfig: {} }),
+        /serviceName must be a string/
+      );
+    });
+  });
+  describe('Load balancing', () => {
+    let servers: TestServer[] = [];
+    let client: ServiceClient | null = null;
+    afterEach(() => {
+      client?.close();
+      client = null;
+      for (const server of servers) {
+        server.shutdown();
+      }
+      servers = [];
+    });
+    it('Should only send round_robin requests to serving backends', async () => {
+      let healthServices: FakeHealthService[];
+      ({ servers, healthServices } = await startServers([
+        SERVING,
+        NOT_SERVING,
+      ]));
+      client = createClient(servers, {
+        loadBalancingConfig: [{ round_robin: {} }],
+        healthCheckConfig: { serviceName: 'test' },
+      });
+      await sendRequests(client, 10, waitForReadyMetadata);
+      assert.strictEqual(servers[0].requestCount, 10);
+      assert.strictEqual(servers[1].requestCount, 0);
+      assert.deepStrictEqual(healthServices[0].requestedServiceNames, ['test']);
+    });
+    it('Should route away from a backend that stops serving', async () => {
+      let healthServices: FakeHealthService[];
+      ({ servers, healthServices } = await startServers([SERVING, SERVING]));
+      client = createClient(servers, {
+        loadBalancingConfig: [{ round_robin: {} }],
+        healthCheckConfig: { serviceName: '' },
+      });
+      await sendRequests(client, 10, waitForReadyMetadata);
+      healthServices[0].setStatus(NOT_SERVING);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const previousCount = servers[0].requestCount;
+      await sendRequests(client, 10, waitForReadyMetadata);
+      assert.strictEqual(servers[0].requestCount, previousCount);
+    });
+    it('Should not apply health checking to a top-level pick_first', async () => {
+      /* As specified in A17, pick_first only uses the health state when it is
+       * the child of a policy like round_robin. */
+      ({ servers } = await startServers([NOT_SERVING, SERVING]));
+      client = createClient(servers, {
+        loadBalancingConfig: [{ pick_first: {} }],
+        healthCheckConfig: { serviceName: 'test' },
+      });
+      await sendRequests(client, 5, waitForReadyMetadata);
+      assert.strictEqual(servers[0].requestCount, 5);
+      assert.strictEqual(servers[1].requestCount, 0);
+    });
+    it('Should route round_robin requests back to a backend that starts serving', async () => {
+      let healthServices: FakeHealthService[];
+      ({ servers, healthServices } = await startServers([
+        SERVING,
+        NOT_SERVING,
+      ]));
+      client = createClient(servers, {
+        loadBalancingConfig: [{ round_robin: {} }],
+        healthCheckConfig: { serviceName: 'test' },
+      });
+      await sendRequests(client, 10, waitForReadyMetadata);
+      assert.strictEqual(servers[1].requestCount, 0);
+      healthServices[1].setStatus(SERVING);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await sendRequests(client, 10, waitForReadyMetadata);
+      assert.strictEqual(servers[1].requestCount, 5);
+    });
+    it('Should treat backends without a health service as healthy', async () => {
+      ({ servers } = await startServers([null]));
+      client = createClient(servers, {
+        loadBalancingConfig: [{ round_robin: {} }],
+        healthCheckConfig: { serviceName: 'test' },
+      });
+      await sendRequests(client, 5, waitForReadyMetadata);
+      assert.strictEqual(servers[0].requestCount, 5);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as grpc from '../src';
+import { parseLoadBalancingConfig } from '../src/load-balancer';
+import { ServiceClient } from '../src/make-client';
+import { EchoService, sendRequests, TestServer } from './common';
+
+describe('Least request', () => {
+  describe('Config parsing', () => {
+    it('Should default to two choices', () => {
+      const config = parseLoadBalancingConfig({ least_request: {} });
+      assert.deepStrictEqual(config.toJsonObject(), {
+        least_request: { choiceCount: 2 },
+      });
+    });
+    it('Should cap the choice count at 10', () => {
+      const config = parseLoadBalancingConfig({
+        least_request: { choiceCount: 20 },
+      });
+      assert.deepStrictEqual(config.toJsonObject(), {
+        least_request: { choiceCount: 10 },
+      });
+    });
+    it('Should reject a choice count below 2', () => {
+      assert.throws(() =>
+        parseLoadBalancingConfig({ least_request: { choiceCount: 1 } })
+      );
+    });
+    it('Should reject a non-integer choice count', () => {
+      assert.throws(() =>
+        parseLoadBalancingConfig({ least_request: { choiceCount: 2.5 } })
+      );
+    });
+  });
+  describe('Load balancing', () => {
+    let servers: TestServer[] = [];
+    let client: ServiceClient | null = null;
+    afterEach(() => {
+      client?.close();
+      client = null;
+      for (const server of servers) {
+        server.shutdown();
+      }
+      servers = [];
+    });
+    it('Should avoid backends with outstanding streams', async () => {
+      servers = [new TestServer(false), new TestServer(false)];
+      await Promise.all(servers.map(server => server.start()));
+      client = new EchoService(
+        'ipv4:' + servers.map(server => `127.0.0.1:${server.port}`).join(','),
+        grpc.credentials.createInsecure(),
+        {
+          'grpc.service_config': JSON.stringify({
+            loadBalancingConfig: [{ least_request: { choiceCount: 10 } }],
+          }),
+        }
+      );
+      /* Make sure that both backends are connected before starting the
+       * stream. */
+      for (let i = 0; i < 10; i++) {
+        await sendRequests(client, 1);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const streamStarted = new Promise<void>(resolve => {
+        for (const server of servers) {
+          server.onStream(resolve);
+        }
+      });
+      const stream = client.echoBidiStream();
+      stream.on('data', () => {});
+      stream.on('error', () => {});
+      await streamStarted;
+      const streamServer = servers.find(server => server.streamCount > 0)!;
+      streamServer.requestCount = 0;
+      for (let i = 0; i < 10; i++) {
+        await sendRequests(client, 1);
+      }
+      stream.end();
+      /* Each request has a 1 in 1024 chance of only choosing the backend with
+       * the open stream. */
+      assert(
+        streamServer.requestCount <= 1,
+        `Got ${streamServer.requestCount} requests`
+      );
+    });
+  });
+});
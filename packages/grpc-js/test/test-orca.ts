@@ -0,0 +1,292 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as grpc from '../src';
+import { ChannelOptions } from '../src/channel-options';
+import { ConnectivityState } from '../src/connectivity-state';
+import { OrcaLoadReport__Output } from '../src/generated/xds/data/orca/v3/OrcaLoadReport';
+import {
+  ChannelControlHelper,
+  createChildChannelControlHelper,
+  LoadBalancer,
+  parseLoadBalancingConfig,
+  registerLoadBalancerType,
+  TypedLoadBalancingConfig,
+} from '../src/load-balancer';
+import { ChildLoadBalancerHandler } from '../src/load-balancer-child-handler';
+import { ServiceClient } from '../src/make-client';
+import {
+  createMetricsReader,
+  LOAD_REPORT_METADATA_KEY,
+  OrcaOobMetricsSubchannelWrapper,
+  PerRequestMetricRecorder,
+} from '../src/orca';
+import { Picker, PickResultType } from '../src/picker';
+import { Endpoint } from '../src/subchannel-address';
+import { EchoService, sendRequests } from './common';
+
+const TEST_LB_POLICY_NAME = 'test_orca';
+
+let perCallReports: OrcaLoadReport__Output[] = [];
+let oobReports: OrcaLoadReport__Output[] = [];
+
+class OrcaTestLoadBalancingConfig implements TypedLoadBalancingConfig {
+  getLoadBalancerName(): string {
+    return TEST_LB_POLICY_NAME;
+  }
+  toJsonObject(): object {
+    return { [TEST_LB_POLICY_NAME]: {} };
+  }
+  static createFromJson(obj: unknown) {
+    return new OrcaTestLoadBalancingConfig();
+  }
+}
+
+/**
+ * Delegates to pick_first, and records every per-call and out-of-band load
+ * report it receives.
+ */
+class OrcaTestLoadBalancer implements LoadBalancer {
+  private child: ChildLoadBalancerHandler;
+  constructor(
+    channelControlHelper: ChannelControlHelper,
+    options: ChannelOptions
+  ) {
+    this.child = new ChildLoadBalancerHandler(
+      createChildChannelControlHelper(channelControlHelper, {
+        createSubchannel: (subchannelAddress, subchannelArgs) =>
+          new OrcaOobMetricsSubchannelWrapper(
+            channelControlHelper.createSubchannel(
+              subchannelAddress,
+              subchannelArgs
+            ),
+            loadReport => oobReports.push(loadReport),
+            100
+          ),
+        updateState: (connectivityState: ConnectivityState, picker: Picker) => {
+          channelControlHelper.updateState(connectivityState, {
+            pick: pickArgs => {
+              const pickResult = picker.pick(pickArgs);
+              if (pickResult.pickResultType === PickResultType.COMPLETE) {
+                return {
+                  ...pickResult,
+                  onCallEnded: createMetricsReader(
+                    loadReport => perCallReports.push(loadReport),
+                    pickResult.onCallEnded
+                  ),
+                };
+              }
+              return pickResult;
+            },
+          });
+        },
+      }),
+      options
+    );
+  }
+  updateAddressList(
+    endpointList: Endpoint[],
+    lbConfig: TypedLoadBalancingConfig,
+    attributes: { [key: string]: unknown }
+  ): void {
+    this.child.updateAddressList(
+      endpointList,
+      parseLoadBalancingConfig({ pick_first: {} }),
+      attributes
+    );
+  }
+  exitIdle(): void {
+    this.child.exitIdle();
+  }
+  resetBackoff(): void {
+    this.child.resetBackoff();
+  }
+  destroy(): void {
+    this.child.destroy();
+  }
+  getTypeName(): string {
+    return TEST_LB_POLICY_NAME;
+  }
+}
+
+registerLoadBalancerType(
+  TEST_LB_POLICY_NAME,
+  OrcaTestLoadBalancer,
+  OrcaTestLoadBalancingConfig
+);
+
+function startServer(server: grpc.Server): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(port);
+        }
+      }
+    );
+  });
+}
+
+describe('ORCA', () => {
+  describe('PerRequestMetricRecorder', () => {
+    it('Should not produce a report if no metrics were recorded', () => {
+      assert.strictEqual(new PerRequestMetricRecorder().serialize(), null);
+    });
+    it('Should ignore invalid values', () => {
+      const recorder = new PerRequestMetricRecorder();
+      recorder.recordMemoryUtilizationMetric(2);
+      recorder.recordUtilizationMetric('test', -1);
+      recorder.recordQpsMetric(-5);
+      assert.strictEqual(recorder.serialize(), null);
+    });
+  });
+  describe('Per-call reports', () => {
+    let server: grpc.Server;
+    let client: ServiceClient;
+    before(async () => {
+      server = new grpc.Server({
+        interceptors: [
+          (methodDescriptor, call) => {
+            call.getMetricsRecorder().recordNamedMetric('interceptor', 1);
+            return call;
+          },
+        ],
+      });
+      server.addService(EchoService.service, {
+        echo: (
+          call: grpc.ServerUnaryCall<unknown, unknown>,
+          callback: grpc.sendUnaryData<unknown>
+        ) => {
+          const recorder = call.getMetricsRecorder();
+          recorder.recordCpuUtilizationMetric(0.5);
+          recorder.recordRequestCostMetric('cost', 3);
+          recorder.recordUtilizationMetric('util', 0.25);
+          callback(null, call.request);
+        },
+      });
+      const port = await startServer(server);
+      client = new EchoService(
+        `localhost:${port}`,
+        grpc.credentials.createInsecure(),
+        {
+          'grpc.service_config': JSON.stringify({
+            loadBalancingConfig: [{ [TEST_LB_POLICY_NAME]: {} }],
+          }),
+        }
+      );
+    });
+    after(() => {
+      client.close();
+      server.forceShutdown();
+    });
+    beforeEach(() => {
+      perCallReports = [];
+    });
+    it('Should send recorded metrics in the trailers', done => {
+      const call = client.echo(
+        { value: 'test', value2: 1 },
+        (error: grpc.ServiceError | null) => {
+          assert.ifError(error);
+        }
+      );
+      call.on('status', (status: grpc.StatusObject) => {
+        assert.strictEqual(
+          status.metadata.get(LOAD_REPORT_METADATA_KEY).length,
+          1
+        );
+        done();
+      });
+    });
+    it('Should pass reports to load balancing policies', async () => {
+      await sendRequests(client, 1);
+      assert.strictEqual(perCallReports.length, 1);
+      const report = perCallReports[0];
+      assert.strictEqual(report.cpu_utilization, 0.5);
+      assert.deepStrictEqual(report.request_cost, { cost: 3 });
+      assert.deepStrictEqual(report.utilization, { util: 0.25 });
+      assert.deepStrictEqual(report.named_metrics, { interceptor: 1 });
+    });
+  });
+  describe('Out-of-band reports', () => {
+    let server: grpc.Server;
+    let client: ServiceClient;
+    let metricRecorder: grpc.ServerMetricRecorder;
+    beforeEach(() => {
+      oobReports = [];
+      server = new grpc.Server();
+      server.addService(EchoService.service, {
+        echo: (
+          call: grpc.ServerUnaryCall<unknown, unknown>,
+          callback: grpc.sendUnaryData<unknown>
+        ) => {
+          callback(null, call.request);
+        },
+      });
+      metricRecorder = new grpc.ServerMetricRecorder(100);
+    });
+    afterEach(() => {
+      client.close();
+      server.forceShutdown();
+    });
+    it('Should receive periodic reports', async () => {
+      metricRecorder.addToServer(server);
+      metricRecorder.setCpuUtilizationMetric(0.25);
+      metricRecorder.setUtilizationMetric('util', 0.5);
+      metricRecorder.setQpsMetric(10);
+      const port = await startServer(server);
+      client = new EchoService(
+        `localhost:${port}`,
+        grpc.credentials.createInsecure(),
+        {
+          'grpc.service_config': JSON.stringify({
+            loadBalancingConfig: [{ [TEST_LB_POLICY_NAME]: {} }],
+          }),
+        }
+      );
+      await sendRequests(client, 1);
+      await new Promise(resolve => setTimeout(resolve, 250));
+      metricRecorder.deleteQpsMetric();
+      await new Promise(resolve => setTimeout(resolve, 150));
+      assert(oobReports.length >= 2, `Got ${oobReports.length} reports`);
+      assert.strictEqual(oobReports[0].cpu_utilization, 0.25);
+      assert.deepStrictEqual(oobReports[0].utilization, { util: 0.5 });
+      assert.strictEqual(oobReports[0].rps_fractional, 10);
+      assert.strictEqual(oobReports[oobReports.length - 1].rps_fractional, 0);
+    });
+    it('Should tolerate servers without the OpenRcaService', async () => {
+      const port = await startServer(server);
+      client = new EchoService(
+        `localhost:${port}`,
+        grpc.credentials.createInsecure(),
+        {
+          'grpc.service_config': JSON.stringify({
+            loadBalancingConfig: [{ [TEST_LB_POLICY_NAME]: {} }],
+          }),
+        }
+      );
+      await sendRequests(client, 1);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await sendRequests(client, 1);
+      assert.strictEqual(oobReports.length, 0);
+    });
+  });
+});
@@ -27,6 +27,7 @@ import {
   PickFirstLoadBalancingConfig,
   shuffled,
 } from '../src/load-balancer-pick-first';
+import { ChannelCredentials } from '../src/channel-credentials';
 import { Metadata } from '../src/metadata';
 import { Picker } from '../src/picker';
 import { Endpoint, subchannelAddressToString } from '../src/subchannel-address';
@@ -109,6 +110,7 @@ describe('pick_first load balancing policy', () => {
     removeChannelzChild: () => {},
     requestReresolution: () => {},
     updateState: () => {},
+    getChannelCredentials: () => ChannelCredentials.createInsecure(),
   };
   beforeEach(() => {
     subchannels = [];
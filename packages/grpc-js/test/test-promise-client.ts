@@ -0,0 +1,260 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// Allow `any` data type for testing runtime type checking.
+// tslint:disable no-any
+import * as assert from 'assert';
+import * as path from 'path';
+
+import * as grpc from '../src';
+import { ServiceClient, makeClientConstructor } from '../src/make-client';
+import { loadProtoFile } from './common';
+
+const mathProtoFile = path.join(__dirname, 'fixtures', 'math.proto');
+const mathServiceAttrs = (loadProtoFile(mathProtoFile).math as any).Math
+  .service;
+const PromiseMathClient = makeClientConstructor(mathServiceAttrs, 'Math', {
+  promiseApi: true,
+});
+
+function expectRejection(promise: Promise<unknown>): Promise<any> {
+  return promise.then(
+    () => assert.fail('Expected rejection'),
+    error => error
+  );
+}
+
+async function* generateNums(nums: number[]) {
+  for (const num of nums) {
+    yield { num };
+  }
+}
+
+describe('Promise API client', () => {
+  let server: grpc.Server;
+  let client: ServiceClient;
+  let lastMetadata: grpc.Metadata | null = null;
+
+  before(done => {
+    server = new grpc.Server();
+    server.addService(mathServiceAttrs, {
+      div(
+        call: grpc.ServerUnaryCall<any, any>,
+        callback: grpc.sendUnaryData<any>
+      ) {
+        lastMetadata = call.metadata;
+        const divisor = Number(call.request.divisor);
+        if (divisor === 0) {
+          callback({
+            code: grpc.status.INVALID_ARGUMENT,
+            details: 'Cannot divide by zero',
+          });
+          return;
+        }
+        const dividend = Number(call.request.dividend);
+        callback(null, {
+          quotient: Math.floor(dividend / divisor),
+          remainder: dividend % divisor,
+        });
+      },
+      sum(
+        call: grpc.ServerReadableStream<any, any>,
+        callback: grpc.sendUnaryData<any>
+      ) {
+        let sum = 0;
+        call.on('data', value => {
+          sum += Number(value.num);
+        });
+        call.on('end', () => {
+          callback(null, { num: sum });
+        });
+      },
+      fib(call: grpc.ServerWritableStream<any, any>) {
+        const limit = Number(call.request.limit);
+        if (limit < 0) {
+          call.emit('error', {
+            code: grpc.status.INVALID_ARGUMENT,
+            details: 'Negative limit',
+          });
+          return;
+        }
+        if (limit === 0) {
+          // Continue until the call is cancelled
+          call.write({ num: 1 });
+          return;
+        }
+        let previous = 0;
+        let current = 1;
+        for (let i = 0; i < limit; i++) {
+          call.write({ num: current });
+          [previous, current] = [current, previous + current];
+        }
+        call.end();
+      },
+      divMany(call: grpc.ServerDuplexStream<any, any>) {
+        call.on('data', value => {
+          const dividend = Number(value.dividend);
+          const divisor = Number(value.divisor);
+          call.write({
+            quotient: Math.floor(dividend / divisor),
+            remainder: dividend % divisor,
+          });
+        });
+        call.on('end', () => {
+          call.end();
+        });
+      },
+    });
+    server.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        assert.ifError(error);
+        client = new PromiseMathClient(
+          `localhost:${port}`,
+          grpc.credentials.createInsecure()
+        );
+        done();
+      }
+    );
+  });
+
+  after(() => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  describe('Unary', () => {
+    it('should resolve with the response', async () => {
+      const response = await client.div({ dividend: 7, divisor: 4 });
+      assert.strictEqual(response.quotient, '1');
+      assert.strictEqual(response.remainder, '3');
+    });
+
+    it('should reject with a ServiceError', async () => {
+      const error = await expectRejection(
+        client.div({ dividend: 7, divisor: 0 })
+      );
+      assert.strictEqual(error.code, grpc.status.INVALID_ARGUMENT);
+      assert.strictEqual(error.details, 'Cannot divide by zero');
+    });
+
+    it('should send metadata', async () => {
+      const metadata = new grpc.Metadata();
+      metadata.set('key', 'value');
+      await client.div({ dividend: 7, divisor: 4 }, metadata);
+      assert.deepStrictEqual(lastMetadata!.get('key'), ['value']);
+    });
+
+    it('should apply call options', async () => {
+      const error = await expectRejection(
+        client.div({ dividend: 7, divisor: 4 }, { deadline: Date.now() - 1 })
+      );
+      assert.strictEqual(error.code, grpc.status.DEADLINE_EXCEEDED);
+    });
+
+    it('should run interceptors', async () => {
+      let intercepted = false;
+      const interceptor: grpc.Interceptor = (options, nextCall) => {
+        intercepted = true;
+        return new grpc.InterceptingCall(nextCall(options));
+      };
+      await client.div(
+        { dividend: 7, divisor: 4 },
+        { interceptors: [interceptor] }
+      );
+      assert(intercepted);
+    });
+
+    it('should expose the call object', () => {
+      const result = client.div({ dividend: 7, divisor: 4 });
+      assert.strictEqual(typeof result.call.cancel, 'function');
+      return result;
+    });
+  });
+
+  describe('Client streaming', () => {
+    it('should accept an array of requests', async () => {
+      const response = await client.sum([{ num: 1 }, { num: 2 }, { num: 3 }]);
+      assert.strictEqual(response.num, '6');
+    });
+
+    it('should accept an async iterable of requests', async () => {
+      const response = await client.sum(generateNums([4, 5, 6]));
+      assert.strictEqual(response.num, '15');
+    });
+
+    it('should reject with the error thrown by the request iterable', async () => {
+      async function* failingRequests() {
+        yield { num: 1 };
+        throw new Error('Request source failed');
+      }
+      const error = await expectRejection(client.sum(failingRequests()));
+      assert.strictEqual(error.message, 'Request source failed');
+    });
+  });
+
+  describe('Server streaming', () => {
+    it('should yield each response', async () => {
+      const results: string[] = [];
+      for await (const value of client.fib({ limit: 7 })) {
+        results.push(value.num);
+      }
+      assert.deepStrictEqual(results, ['1', '1', '2', '3', '5', '8', '13']);
+    });
+
+    it('should throw a ServiceError from iteration', async () => {
+      const error = await expectRejection(
+        (async () => {
+          for await (const value of client.fib({ limit: -1 })) {
+            assert.fail(`Unexpected response ${value}`);
+          }
+        })()
+      );
+      assert.strictEqual(error.code, grpc.status.INVALID_ARGUMENT);
+      assert.strictEqual(error.details, 'Negative limit');
+    });
+
+    it('should cancel the call when iteration stops early', async () => {
+      const responses = client.fib({ limit: 0 });
+      const statusPromise = new Promise<grpc.StatusObject>(resolve => {
+        responses.call.on('status', resolve);
+      });
+      for await (const value of responses) {
+        assert.strictEqual(value.num, '1');
+        break;
+      }
+      const status = await statusPromise;
+      assert.strictEqual(status.code, grpc.status.CANCELLED);
+    });
+  });
+
+  describe('Bidi streaming', () => {
+    it('should yield a response for each request', async () => {
+      const requests = [
+        { dividend: 7, divisor: 4 },
+        { dividend: 9, divisor: 3 },
+        { dividend: 5, divisor: 2 },
+      ];
+      const results: string[] = [];
+      for await (const value of client.divMany(requests)) {
+        results.push(`${value.quotient} ${value.remainder}`);
+      }
+      assert.deepStrictEqual(results, ['1 3', '3 0', '2 1']);
+    });
+  });
+});
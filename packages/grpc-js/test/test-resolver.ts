@@ -18,8 +18,16 @@
 // Allow `any` data type for testing runtime type checking.
 // tslint:disable no-any
 import * as assert from 'assert';
+import * as dgram from 'dgram';
+import * as dns from 'dns';
 import * as resolverManager from '../src/resolver';
 import * as resolver_dns from '../src/resolver-dns';
+import {
+  BALANCER_ADDRESSES_ATTRIBUTE_KEY,
+  SrvEndpoint,
+} from '../src/resolver-dns';
+import { registerDnsBackend } from '../src/resolver-dns-backend';
+import { ChannelOptions } from '../src/channel-options';
 import * as resolver_uds from '../src/resolver-uds';
 import * as resolver_ip from '../src/resolver-ip';
 import { ServiceConfig } from '../src/service-config';
@@ -46,6 +54,141 @@ function hasMatchingAddress(
   return false;
 }
 
+interface FakeSrvRecord {
+  priority: number;
+  weight: number;
+  port: number;
+  target: string;
+}
+
+interface FakeDnsRecords {
+  a?: string[];
+  srv?: FakeSrvRecord[];
+  ttl?: number;
+  /**
+   * Delay the answers to A queries by this many milliseconds
+   */
+  aDelayMs?: number;
+  /**
+   * Answer AAAA queries with SERVFAIL
+   */
+  aaaaServerFailure?: boolean;
+}
+
+function encodeDnsName(name: string): Buffer {
+  return Buffer.concat([
+    ...name
+      .split('.')
+      .map(label =>
+        Buffer.concat([Buffer.from([label.length]), Buffer.from(label)])
+      ),
+    Buffer.from([0]),
+  ]);
+}
+
+function encodeRecordData(queryType: number, records: FakeDnsRecords) {
+  if (queryType === 1) {
+    return (records.a ?? []).map(address =>
+      Buffer.from(address.split('.').map(octet => +octet))
+    );
+  } else if (queryType === 33) {
+    return (records.srv ?? []).map(record => {
+      const data = Buffer.alloc(6);
+      data.writeUInt16BE(record.priority, 0);
+      data.writeUInt16BE(record.weight, 2);
+      data.writeUInt16BE(record.port, 4);
+      return Buffer.concat([data, encodeDnsName(record.target)]);
+    });
+  } else {
+    return [];
+  }
+}
+
+/**
+ * A DNS server that answers A and SRV queries from a fixed set of records.
+ * Other record types exist but are empty, and unknown names get NXDOMAIN.
+ */
+class FakeDnsServer {
+  private socket = dgram.createSocket('udp4');
+  /**
+   * The timers for responses that have not been sent yet. They are cleared on
+   * shutdown, because sending on a closed socket throws.
+   */
+  private pendingResponseTimers = new Set<NodeJS.Timeout>();
+  queryCount = 0;
+  constructor(private records: Map<string, FakeDnsRecords>) {
+    this.socket.on('message', (message, remote) => {
+      this.queryCount += 1;
+      const { response, delayMs } = this.handleQuery(message);
+      const timer = setTimeout(() => {
+        this.pendingResponseTimers.delete(timer);
+        this.socket.send(response, remote.port, remote.address);
+      }, delayMs);
+      this.pendingResponseTimers.add(timer);
+    });
+  }
+
+  private handleQuery(query: Buffer): { response: Buffer; delayMs: number } {
+    const labels: string[] = [];
+    let offset = 12;
+    while (query[offset] !== 0) {
+      const length = query[offset];
+      labels.push(query.toString('latin1', offset + 1, offset + 1 + length));
+      offset += length + 1;
+    }
+    const questionEnd = offset + 5;
+    const queryType = query.readUInt16BE(offset + 1);
+    const records = this.records.get(labels.join('.'));
+    const serverFailure = queryType === 28 && !!records?.aaaaServerFailure;
+    const recordData =
+      records && !serverFailure ? encodeRecordData(queryType, records) : [];
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(query.readUInt16BE(0), 0);
+    /* Response with recursion desired and available, and NXDOMAIN if unknown
+     * or SERVFAIL if requested */
+    header.writeUInt16BE(
+      records ? (serverFailure ? 0x8182 : 0x8180) : 0x8183,
+      2
+    );
+    header.writeUInt16BE(1, 4);
+    header.writeUInt16BE(recordData.length, 6);
+    const answers = recordData.map(data => {
+      const answer = Buffer.alloc(12);
+      // Pointer to the name in the question
+      answer.writeUInt16BE(0xc00c, 0);
+      answer.writeUInt16BE(queryType, 2);
+      answer.writeUInt16BE(1, 4);
+      answer.writeUInt32BE(records?.ttl ?? 60, 6);
+      answer.writeUInt16BE(data.length, 10);
+      return Buffer.concat([answer, data]);
+    });
+    return {
+      response: Buffer.concat([
+        header,
+        query.subarray(12, questionEnd),
+        ...answers,
+      ]),
+      delayMs: queryType === 1 ? records?.aDelayMs ?? 0 : 0,
+    };
+  }
+
+  start(): Promise<number> {
+    return new Promise(resolve => {
+      this.socket.bind(0, '127.0.0.1', () => {
+        resolve(this.socket.address().port);
+      });
+    });
+  }
+
+  shutdown() {
+    for (const timer of this.pendingResponseTimers) {
+      clearTimeout(timer);
+    }
+    this.pendingResponseTimers.clear();
+    this.socket.close();
+  }
+}
+
 describe('Name Resolver', () => {
   before(() => {
     resolver_dns.setup();
@@ -469,6 +612,314 @@ describe('Name Resolver', () => {
       }, 10_000);
     }).timeout(15_000);
   });
+  describe('DNS SRV records', () => {
+    let dnsServer: FakeDnsServer;
+    let originalServers: string[];
+    before(async () => {
+      dnsServer = new FakeDnsServer(
+        new Map([
+          [
+            '_grpc._tcp.srv.test',
+            {
+              srv: [
+                { priority: 1, weight: 10, port: 1234, target: 'localhost' },
+                { priority: 2, weight: 20, port: 1235, target: 'host.invalid' },
+              ],
+            },
+          ],
+          [
+            '_grpc_lb._tcp.localhost',
+            {
+              srv: [
+                { priority: 0, weight: 5, port: 4321, target: 'localhost' },
+              ],
+            },
+          ],
+        ])
+      );
+      const port = await dnsServer.start();
+      originalServers = dns.getServers();
+      dns.setServers([`127.0.0.1:${port}`]);
+    });
+    after(() => {
+      dns.setServers(originalServers);
+      dnsServer.shutdown();
+    });
+    it('Should resolve a service name with SRV records', done => {
+      const target = resolverManager.mapUriDefaultScheme(
+        parseUri('_grpc._tcp.srv.test')!
+      )!;
+      const listener: resolverManager.ResolverListener = {
+        onSuccessfulResolution: (endpointList: Endpoint[]) => {
+          listener.onSuccessfulResolution = () => {};
+          // The record with the target that does not resolve is omitted
+          assert.strictEqual(endpointList.length, 1);
+          const endpoint = endpointList[0] as SrvEndpoint;
+          assert.strictEqual(endpoint.srvTarget, 'localhost');
+          assert.strictEqual(endpoint.srvPriority, 1);
+          assert.strictEqual(endpoint.srvWeight, 10);
+          assert(
+            hasMatchingAddress(endpointList, { host: '127.0.0.1', port: 1234 })
+          );
+          done();
+        },
+        onError: (error: StatusObject) => {
+          done(new Error(`Failed with status ${error.details}`));
+        },
+      };
+      const resolver = resolverManager.createResolver(target, listener, {
+        'grpc.dns_enable_srv_queries': 1,
+      });
+      resolver.updateResolution();
+    });
+    it('Should pass along balancer addresses from SRV records', done => {
+      const target = resolverManager.mapUriDefaultScheme(
+        parseUri('localhost:50051')!
+      )!;
+      const listener: resolverManager.ResolverListener = {
+        onSuccessfulResolution: (
+          endpointList: Endpoint[],
+          serviceConfig: ServiceConfig | null,
+          serviceConfigError: StatusObject | null,
+          configSelector: unknown,
+          attributes: { [key: string]: unknown }
+        ) => {
+          const balancers = attributes[BALANCER_ADDRESSES_ATTRIBUTE_KEY] as
+            | SrvEndpoint[]
+            | undefined;
+          if (!balancers) {
+            // The address lookup can finish before the SRV lookup
+            return;
+          }
+          listener.onSuccessfulResolution = () => {};
+          assert(
+            hasMatchingAddress(endpointList, { host: '127.0.0.1', port: 50051 })
+          );
+          assert.strictEqual(balancers.length, 1);
+          assert.strictEqual(balancers[0].srvWeight, 5);
+          assert(
+            hasMatchingAddress(balancers, { host: '127.0.0.1', port: 4321 })
+          );
+          done();
+        },
+        onError: (error: StatusObject) => {
+          done(new Error(`Failed with status ${error.details}`));
+        },
+      };
+      const resolver = resolverManager.createResolver(target, listener, {
+        'grpc.dns_enable_srv_queries': 1,
+      });
+      resolver.updateResolution();
+    });
+    it('Should not use SRV records unless they are enabled', done => {
+      const target = resolverManager.mapUriDefaultScheme(
+        parseUri('_grpc._tcp.srv.test')!
+      )!;
+      const listener: resolverManager.ResolverListener = {
+        onSuccessfulResolution: () => {
+          done(new Error('Resolution succeeded unexpectedly'));
+        },
+        onError: () => {
+          done();
+        },
+      };
+      const resolver = resolverManager.createResolver(target, listener, {});
+      resolver.updateResolution();
+    });
+  });
+  describe('DNS backends', () => {
+    let dnsServer: FakeDnsServer;
+    let dnsServerAddress: string;
+    before(async () => {
+      dnsServer = new FakeDnsServer(
+        new Map([
+          ['fake.test', { a: ['10.0.0.1', '10.0.0.2'], ttl: 60 }],
+          ['no-ttl.test', { a: ['10.0.0.3'], ttl: 0 }],
+          [
+            'aaaa-failure.test',
+            { a: ['10.0.0.4'], aDelayMs: 500, aaaaServerFailure: true },
+          ],
+          [
+            '_grpc._tcp.fake.test',
+            {
+              srv: [
+                { priority: 0, weight: 1, port: 1234, target: 'fake.test' },
+              ],
+            },
+          ],
+        ])
+      );
+      dnsServerAddress = `127.0.0.1:${await dnsServer.start()}`;
+    });
+    after(() => {
+      dnsServer.shutdown();
+    });
+    /**
+     * Resolve the target twice, and call the callback with the endpoint lists
+     * and the number of queries the DNS server got for each resolution.
+     */
+    function resolveTwice(
+      target: string,
+      options: ChannelOptions,
+      callback: (
+        error: Error | null,
+        results?: { endpointList: Endpoint[]; queryCount: number }[]
+      ) => void
+    ) {
+      const results: { endpointList: Endpoint[]; queryCount: number }[] = [];
+      const resolver = resolverManager.createResolver(
+        resolverManager.mapUriDefaultScheme(parseUri(target)!)!,
+        {
+          onSuccessfulResolution: (endpointList: Endpoint[]) => {
+            results.push({ endpointList, queryCount: dnsServer.queryCount });
+            dnsServer.queryCount = 0;
+            if (results.length === 1) {
+              process.nextTick(() => resolver.updateResolution());
+            } else if (results.length === 2) {
+              resolver.destroy();
+              callback(null, results);
+            }
+          },
+          onError: (error: StatusObject) => {
+            resolver.destroy();
+            callback(new Error(`Failed with status ${error.details}`));
+          },
+        },
+        {
+          'grpc.dns_min_time_between_resolutions_ms': 0,
+          'grpc.service_config_disable_resolution': 1,
+          ...options,
+        }
+      );
+      dnsServer.queryCount = 0;
+      resolver.updateResolution();
+    }
+    it('Should query the DNS server in the target authority', done => {
+      resolveTwice(
+        `dns://${dnsServerAddress}/fake.test:50051`,
+        {},
+        (error, results) => {
+          assert.ifError(error);
+          const endpointList = results![0].endpointList;
+          assert.strictEqual(endpointList.length, 2);
+          assert(
+            hasMatchingAddress(endpointList, { host: '10.0.0.1', port: 50051 })
+          );
+          assert(
+            hasMatchingAddress(endpointList, { host: '10.0.0.2', port: 50051 })
+          );
+          done();
+        }
+      );
+    });
+    it('Should cache addresses for their TTL', done => {
+      resolveTwice(
+        `dns://${dnsServerAddress}/fake.test`,
+        {},
+        (error, results) => {
+          assert.ifError(error);
+          // One A and one AAAA query
+          assert.strictEqual(results![0].queryCount, 2);
+          /* Only the AAAA query is repeated, because it got no records to
+           * cache */
+          assert.strictEqual(results![1].queryCount, 1);
+          assert.deepStrictEqual(
+            results![1].endpointList,
+            results![0].endpointList
+          );
+          done();
+        }
+      );
+    });
+    it('Should not cache addresses with a TTL of 0', done => {
+      resolveTwice(
+        `dns://${dnsServerAddress}/no-ttl.test`,
+        {},
+        (error, results) => {
+          assert.ifError(error);
+          assert.strictEqual(results![0].queryCount, 2);
+          assert.strictEqual(results![1].queryCount, 2);
+          done();
+        }
+      );
+    });
+    it('Should use the A records if the AAAA query fails first', done => {
+      /* The test runner swallows unhandled rejections, so they need to be
+       * detected explicitly. */
+      const unhandledRejections: unknown[] = [];
+      const onUnhandledRejection = (reason: unknown) => {
+        unhandledRejections.push(reason);
+      };
+      process.on('unhandledRejection', onUnhandledRejection);
+      resolveTwice(
+        `dns://${dnsServerAddress}/aaaa-failure.test:50051`,
+        {},
+        (error, results) => {
+          process.removeListener('unhandledRejection', onUnhandledRejection);
+          assert.ifError(error);
+          assert.deepStrictEqual(unhandledRejections, []);
+          const endpointList = results![0].endpointList;
+          assert.strictEqual(endpointList.length, 1);
+          assert(
+            hasMatchingAddress(endpointList, { host: '10.0.0.4', port: 50051 })
+          );
+          done();
+        }
+      );
+    });
+    it('Should resolve SRV records with the DNS server in the target authority', done => {
+      resolveTwice(
+        `dns://${dnsServerAddress}/_grpc._tcp.fake.test`,
+        { 'grpc.dns_enable_srv_queries': 1 },
+        (error, results) => {
+          assert.ifError(error);
+          const endpointList = results![0].endpointList;
+          assert.strictEqual(endpointList.length, 1);
+          assert(
+            hasMatchingAddress(endpointList, { host: '10.0.0.1', port: 1234 })
+          );
+          done();
+        }
+      );
+    });
+    it('Should use a registered backend selected by the channel option', done => {
+      const lookups: string[] = [];
+      registerDnsBackend('test', () => ({
+        lookup: hostname => {
+          lookups.push(hostname);
+          return Promise.resolve(['10.1.1.1']);
+        },
+        resolveTxt: () => Promise.reject(new Error('No TXT records')),
+        resolveSrv: () => Promise.reject(new Error('No SRV records')),
+      }));
+      resolveTwice(
+        'custom.test:443',
+        { 'grpc-node.dns_backend': 'test' },
+        (error, results) => {
+          assert.ifError(error);
+          assert.deepStrictEqual(lookups, ['custom.test', 'custom.test']);
+          assert(
+            hasMatchingAddress(results![0].endpointList, {
+              host: '10.1.1.1',
+              port: 443,
+            })
+          );
+          done();
+        }
+      );
+    });
+    it('Should fail to resolve with an unknown backend', done => {
+      resolveTwice(
+        'custom.test',
+        { 'grpc-node.dns_backend': 'unknown' },
+        error => {
+          assert(error);
+          assert.match(error.message, /Unknown DNS backend unknown/);
+          done();
+        }
+      );
+    });
+  });
   describe('UDS Names', () => {
     it('Should handle a relative Unix Domain Socket name', done => {
       const target = resolverManager.mapUriDefaultScheme(
@@ -16,13 +16,11 @@
  */
 
 import * as assert from 'assert';
-import * as path from 'path';
 import * as grpc from '../src';
-import { loadProtoFile } from './common';
-
-const protoFile = path.join(__dirname, 'fixtures', 'echo_service.proto');
-const EchoService = loadProtoFile(protoFile)
-  .EchoService as grpc.ServiceClientConstructor;
+import { getChannelzHandlers } from '../src/channelz';
+import { RetryBudget } from '../src/retry-budget';
+import { RetryThrottler } from '../src/retrying-call';
+import { EchoService, sendRequests } from './common';
 
 const serviceImpl = {
   echo: (
@@ -42,14 +40,59 @@ const serviceImpl = {
       const code = statusCode[0]
         ? Number.parseInt(statusCode[0] as string)
         : grpc.status.UNKNOWN;
+      const trailers = new grpc.Metadata();
+      const pushback = call.metadata.get('respond-with-pushback');
+      if (pushback.length > 0) {
+        trailers.set('grpc-retry-pushback-ms', pushback[0]);
+      }
       callback({
         code: code,
         details: `Failed on retry ${previousAttempts[0] ?? 0}`,
+        metadata: trailers,
       });
     }
   },
 };
 
+interface RecordedAttempt {
+  info: grpc.experimental.CallAttemptInfo;
+  sentMessageSizes: number[];
+  receivedMessageSizes: number[];
+  commitReason: grpc.experimental.CallCommitReason | null;
+  status: grpc.StatusObject | null;
+}
+
+function createRecordingCallTracer() {
+  const attempts: RecordedAttempt[] = [];
+  const retryDelays: grpc.experimental.RetryDelayInfo[] = [];
+  const tracer: grpc.experimental.CallTracer = {
+    startAttempt: info => {
+      const attempt: RecordedAttempt = {
+        info,
+        sentMessageSizes: [],
+        receivedMessageSizes: [],
+        commitReason: null,
+        status: null,
+      };
+      attempts.push(attempt);
+      return {
+        onSendMessage: size => attempt.sentMessageSizes.push(size),
+        onReceiveMessage: size => attempt.receivedMessageSizes.push(size),
+        onCommit: reason => {
+          attempt.commitReason = reason;
+        },
+        onEnd: status => {
+          attempt.status = status;
+        },
+      };
+    },
+    onRetryDelay: info => {
+      retryDelays.push(info);
+    },
+  };
+  return { tracer, attempts, retryDelays };
+}
+
 describe('Retries', () => {
   let server: grpc.Server;
   let port: number;
@@ -113,6 +156,27 @@ describe('Retries', () => {
         }
       );
     });
+
+    it('Should report the only attempt to the call tracer', done => {
+      const { tracer, attempts } = createRecordingCallTracer();
+      client.echo(
+        { value: 'test value', value2: 3 },
+        new grpc.Metadata(),
+        { call_tracer: tracer },
+        (error: grpc.ServiceError, response: any) => {
+          assert.ifError(error);
+          assert.strictEqual(attempts.length, 1);
+          assert.strictEqual(attempts[0].info.method, '/EchoService/Echo');
+          assert.strictEqual(attempts[0].info.target, `dns:localhost:${port}`);
+          assert.strictEqual(attempts[0].info.previousRpcAttempts, 0);
+          assert.strictEqual(attempts[0].sentMessageSizes.length, 1);
+          assert(attempts[0].sentMessageSizes[0] > 0);
+          assert.strictEqual(attempts[0].receivedMessageSizes.length, 1);
+          assert.strictEqual(attempts[0].status?.code, grpc.status.OK);
+          done();
+        }
+      );
+    });
   });
 
   describe('Client with retries enabled but not configured', () => {
@@ -243,6 +307,133 @@ describe('Retries', () => {
       );
     });
 
+    it('Should report each attempt to the call tracer', done => {
+      const { tracer, attempts, retryDelays } = createRecordingCallTracer();
+      const metadata = new grpc.Metadata();
+      metadata.set('succeed-on-retry-attempt', '2');
+      metadata.set('respond-with-status', `${grpc.status.RESOURCE_EXHAUSTED}`);
+      client.echo(
+        { value: 'test value', value2: 3 },
+        metadata,
+        { call_tracer: tracer },
+        (error: grpc.ServiceError, response: any) => {
+          assert.ifError(error);
+          assert.deepStrictEqual(
+            attempts.map(attempt => attempt.info.previousRpcAttempts),
+            [0, 1, 2]
+          );
+          assert.deepStrictEqual(
+            attempts.map(attempt => attempt.status?.code),
+            [
+              grpc.status.RESOURCE_EXHAUSTED,
+              grpc.status.RESOURCE_EXHAUSTED,
+              grpc.status.OK,
+            ]
+          );
+          assert.deepStrictEqual(
+            attempts.map(attempt => attempt.commitReason),
+            [null, null, 'RESPONSE']
+          );
+          for (const attempt of attempts) {
+            assert.strictEqual(attempt.info.transparentRetry, false);
+            assert.strictEqual(attempt.sentMessageSizes.length, 1);
+          }
+          assert.strictEqual(retryDelays.length, 2);
+          for (const retryDelay of retryDelays) {
+            assert.strictEqual(retryDelay.fromPushback, false);
+            assert(retryDelay.delayMs <= 120);
+          }
+          done();
+        }
+      );
+    });
+
+    it('Should report the server pushback delay to the call tracer', done => {
+      const { tracer, attempts, retryDelays } = createRecordingCallTracer();
+      const metadata = new grpc.Metadata();
+      metadata.set('succeed-on-retry-attempt', '1');
+      metadata.set('respond-with-status', `${grpc.status.RESOURCE_EXHAUSTED}`);
+      metadata.set('respond-with-pushback', '20');
+      client.echo(
+        { value: 'test value', value2: 3 },
+        metadata,
+        { call_tracer: tracer },
+        (error: grpc.ServiceError, response: any) => {
+          assert.ifError(error);
+          assert.strictEqual(attempts.length, 2);
+          assert.deepStrictEqual(retryDelays, [
+            { delayMs: 20, fromPushback: true },
+          ]);
+          done();
+        }
+      );
+    });
+
+    it('Should not report a commit for a failed attempt', done => {
+      const { tracer, attempts, retryDelays } = createRecordingCallTracer();
+      const metadata = new grpc.Metadata();
+      metadata.set('succeed-on-retry-attempt', '2');
+      metadata.set('respond-with-status', `${grpc.status.NOT_FOUND}`);
+      client.echo(
+        { value: 'test value', value2: 3 },
+        metadata,
+        { call_tracer: tracer },
+        (error: grpc.ServiceError, response: any) => {
+          assert.strictEqual(error.code, grpc.status.NOT_FOUND);
+          assert.strictEqual(attempts.length, 1);
+          assert.strictEqual(attempts[0].commitReason, null);
+          assert.deepStrictEqual(retryDelays, []);
+          done();
+        }
+      );
+    });
+
+    it('Should report a commit caused by the retry buffer limit', done => {
+      const serviceConfig = {
+        loadBalancingConfig: [],
+        methodConfig: [
+          {
+            name: [
+              {
+                service: 'EchoService',
+              },
+            ],
+            retryPolicy: {
+              maxAttempts: 3,
+              initialBackoff: '0.1s',
+              maxBackoff: '10s',
+              backoffMultiplier: 1.2,
+              retryableStatusCodes: [14, 'RESOURCE_EXHAUSTED'],
+            },
+          },
+        ],
+      };
+      const client2 = new EchoService(
+        `localhost:${port}`,
+        grpc.credentials.createInsecure(),
+        {
+          'grpc.service_config': JSON.stringify(serviceConfig),
+          'grpc.per_rpc_retry_buffer_size': 10,
+        }
+      );
+      const { tracer, attempts } = createRecordingCallTracer();
+      const metadata = new grpc.Metadata();
+      metadata.set('succeed-on-retry-attempt', '1');
+      metadata.set('respond-with-status', `${grpc.status.RESOURCE_EXHAUSTED}`);
+      client2.echo(
+        { value: 'test value'.repeat(10), value2: 3 },
+        metadata,
+        { call_tracer: tracer },
+        (error: grpc.ServiceError, response: any) => {
+          client2.close();
+          assert.strictEqual(error.code, grpc.status.RESOURCE_EXHAUSTED);
+          assert.strictEqual(attempts.length, 1);
+          assert.strictEqual(attempts[0].commitReason, 'BUFFER_LIMIT');
+          done();
+        }
+      );
+    });
+
     it('Should not be able to make more than 5 attempts', done => {
       const serviceConfig = {
         loadBalancingConfig: [],
@@ -404,5 +595,285 @@ describe('Retries', () => {
         }
       );
     });
+
+    it('Should count hedged attempts against the retry budget', async () => {
+      const target = `localhost:${port}`;
+      grpc.experimental.setRetryBudget(target, {
+        maxRetryRatio: 0.5,
+        minRetriesPerSecond: 0,
+      });
+      const metadata = new grpc.Metadata();
+      metadata.set('succeed-on-retry-attempt', '1');
+      metadata.set('respond-with-status', `${grpc.status.RESOURCE_EXHAUSTED}`);
+      try {
+        const error = await sendRequests(client, 1, metadata).then(
+          () => null,
+          (error: grpc.ServiceError) => error
+        );
+        assert.strictEqual(error?.details, 'Failed on retry 0');
+        assert.deepStrictEqual(grpc.experimental.getRetryBudgetState(target), {
+          calls: 1,
+          retries: 0,
+          availableRetries: 0,
+        });
+      } finally {
+        grpc.experimental.setRetryBudget(target, null);
+      }
+    });
+  });
+
+  describe('Client with retry throttling and a retry budget', () => {
+    let client: InstanceType<grpc.ServiceClientConstructor>;
+    before(() => {
+      const serviceConfig = {
+        loadBalancingConfig: [],
+        methodConfig: [
+          {
+            name: [
+              {
+                service: 'EchoService',
+              },
+            ],
+            retryPolicy: {
+              maxAttempts: 3,
+              initialBackoff: '0.01s',
+              maxBackoff: '0.1s',
+              backoffMultiplier: 1.2,
+              retryableStatusCodes: [14, 'RESOURCE_EXHAUSTED'],
+            },
+          },
+        ],
+        retryThrottling: {
+          maxTokens: 4,
+          tokenRatio: 1,
+        },
+      };
+      client = new EchoService(
+        `localhost:${port}`,
+        grpc.credentials.createInsecure(),
+        { 'grpc.service_config': JSON.stringify(serviceConfig) }
+      );
+    });
+
+    after(() => {
+      client.close();
+    });
+
+    afterEach(() => {
+      grpc.experimental.setRetryBudget(`localhost:${port}`, null);
+    });
+
+    function sendRequest(
+      succeedOnRetryAttempt: number | null
+    ): Promise<grpc.ServiceError | null> {
+      const metadata = new grpc.Metadata();
+      if (succeedOnRetryAttempt !== null) {
+        metadata.set('succeed-on-retry-attempt', `${succeedOnRetryAttempt}`);
+        metadata.set(
+          'respond-with-status',
+          `${grpc.status.RESOURCE_EXHAUSTED}`
+        );
+      }
+      return sendRequests(client, 1, metadata).then(
+        () => null,
+        (error: grpc.ServiceError) => error
+      );
+    }
+
+    function getChannelTraceDescriptions(): Promise<string[]> {
+      return new Promise((resolve, reject) => {
+        getChannelzHandlers().GetChannel(
+          {
+            request: {
+              channel_id: `${client.getChannel().getChannelzRef().id}`,
+            },
+          } as any,
+          (error, response) => {
+            if (error) {
+              reject(error);
+              return;
+            }
+            resolve(
+              response!.channel!.data!.trace!.events!.map(
+                event => event.description!
+              )
+            );
+          }
+        );
+      });
+    }
+
+    it('Should stop retrying when throttled, and recover after successes', async () => {
+      const target = `localhost:${port}`;
+      assert.ifError(await sendRequest(null));
+      assert.deepStrictEqual(
+        grpc.experimental.getRetryThrottlingState(target),
+        {
+          tokens: 4,
+          maxTokens: 4,
+          tokenRatio: 1,
+          throttled: false,
+        }
+      );
+      /* The first attempt leaves 3 tokens, so the call is retried, and the
+       * second attempt leaves 2 tokens, which throttles the next retry. */
+      const error = await sendRequest(2);
+      assert.strictEqual(error?.details, 'Failed on retry 1');
+      assert.strictEqual(
+        grpc.experimental.getRetryThrottlingState(target)?.throttled,
+        true
+      );
+      assert(
+        (await getChannelTraceDescriptions()).includes(
+          'Retries throttled: 2 of 4 tokens available'
+        )
+      );
+      assert.ifError(await sendRequest(null));
+      assert.ifError(await sendRequest(null));
+      assert.deepStrictEqual(
+        grpc.experimental.getRetryThrottlingState(target),
+        {
+          tokens: 4,
+          maxTokens: 4,
+          tokenRatio: 1,
+          throttled: false,
+        }
+      );
+      assert.ifError(await sendRequest(1));
+      assert(
+        (await getChannelTraceDescriptions()).includes('Retries allowed again')
+      );
+    });
+
+    it('Should stop retrying when the retry budget is exhausted, and recover after more calls', async () => {
+      const target = `localhost:${port}`;
+      grpc.experimental.setRetryBudget(target, {
+        maxRetryRatio: 0.5,
+        minRetriesPerSecond: 0,
+      });
+      const error = await sendRequest(1);
+      assert.strictEqual(error?.details, 'Failed on retry 0');
+      assert.deepStrictEqual(grpc.experimental.getRetryBudgetState(target), {
+        calls: 1,
+        retries: 0,
+        availableRetries: 0,
+      });
+      assert(
+        (await getChannelTraceDescriptions()).includes(
+          'Retries rejected by the retry budget: 0 retries for 1 calls'
+        )
+      );
+      assert.ifError(await sendRequest(null));
+      assert.ifError(await sendRequest(1));
+      assert.deepStrictEqual(grpc.experimental.getRetryBudgetState(target), {
+        calls: 3,
+        retries: 1,
+        availableRetries: 0,
+      });
+    });
+  });
+});
+
+describe('RetryThrottler', () => {
+  it('Should throttle retries when half of the tokens are used', () => {
+    const throttler = new RetryThrottler(10, 0.5);
+    for (let i = 0; i < 4; i++) {
+      throttler.addCallFailed();
+      assert(throttler.canRetryCall());
+    }
+    throttler.addCallFailed();
+    assert(!throttler.canRetryCall());
+    assert.strictEqual(throttler.getState().tokens, 5);
+  });
+  it('Should not go below zero tokens', () => {
+    const throttler = new RetryThrottler(2, 1);
+    for (let i = 0; i < 5; i++) {
+      throttler.addCallFailed();
+    }
+    assert.strictEqual(throttler.getState().tokens, 0);
+    throttler.addCallSucceeded();
+    assert.strictEqual(throttler.getState().tokens, 1);
+  });
+  it('Should recover after successful calls, up to the maximum', () => {
+    const throttler = new RetryThrottler(10, 0.5);
+    for (let i = 0; i < 6; i++) {
+      throttler.addCallFailed();
+    }
+    assert(!throttler.canRetryCall());
+    throttler.addCallSucceeded();
+    throttler.addCallSucceeded();
+    assert(!throttler.canRetryCall());
+    throttler.addCallSucceeded();
+    assert(throttler.canRetryCall());
+    for (let i = 0; i < 20; i++) {
+      throttler.addCallSucceeded();
+    }
+    assert.strictEqual(throttler.getState().tokens, 10);
+  });
+  it('Should rescale the tokens of a previous throttler', () => {
+    const previous = new RetryThrottler(10, 1);
+    previous.addCallFailed();
+    previous.addCallFailed();
+    const throttler = new RetryThrottler(20, 1, previous);
+    assert.strictEqual(throttler.getState().tokens, 16);
+  });
+});
+
+describe('RetryBudget', () => {
+  it('Should allow retries up to the ratio of calls', () => {
+    const budget = new RetryBudget({
+      maxRetryRatio: 0.2,
+      minRetriesPerSecond: 0,
+    });
+    assert(!budget.tryRetry());
+    for (let i = 0; i < 10; i++) {
+      budget.recordCall();
+    }
+    assert(budget.tryRetry());
+    assert(budget.tryRetry());
+    assert(!budget.tryRetry());
+    assert.deepStrictEqual(budget.getState(), {
+      calls: 10,
+      retries: 2,
+      availableRetries: 0,
+    });
+  });
+  it('Should allow the minimum retries without calls', () => {
+    const budget = new RetryBudget({
+      maxRetryRatio: 0,
+      minRetriesPerSecond: 1,
+      windowMs: 2000,
+    });
+    assert(budget.tryRetry());
+    assert(budget.tryRetry());
+    assert(!budget.tryRetry());
+  });
+  it('Should allow retries again after the window passes', done => {
+    const budget = new RetryBudget({
+      maxRetryRatio: 1,
+      minRetriesPerSecond: 0,
+      windowMs: 100,
+    });
+    budget.recordCall();
+    assert(budget.tryRetry());
+    assert(!budget.tryRetry());
+    setTimeout(() => {
+      assert.deepStrictEqual(budget.getState(), {
+        calls: 0,
+        retries: 0,
+        availableRetries: 0,
+      });
+      budget.recordCall();
+      assert(budget.tryRetry());
+      done();
+    }, 150);
+  });
+  it('Should reject an invalid config', () => {
+    assert.throws(() => {
+      new RetryBudget({ maxRetryRatio: -1 });
+    }, /maxRetryRatio/);
+    assert.throws(() => {
+      new RetryBudget({ maxRetryRatio: 0.1, windowMs: NaN });
+    }, /windowMs/);
   });
 });
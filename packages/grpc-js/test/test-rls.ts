@@ -0,0 +1,432 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import * as grpc from '../src';
+import { ChannelOptions } from '../src/channel-options';
+import { ConnectivityState } from '../src/connectivity-state';
+import {
+  ChannelControlHelper,
+  LoadBalancer,
+  parseLoadBalancingConfig,
+  registerLoadBalancerType,
+  TypedLoadBalancingConfig,
+} from '../src/load-balancer';
+import { ChildLoadBalancerHandler } from '../src/load-balancer-child-handler';
+import { AdaptiveThrottler } from '../src/load-balancer-rls';
+import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
+import { Endpoint } from '../src/subchannel-address';
+import { EchoService, loadProtoFile, sendRequests, TestServer } from './common';
+
+const RouteLookupService = (
+  loadProtoFile(
+    path.join(
+      __dirname,
+      '..',
+      '..',
+      'proto',
+      'grpc',
+      'lookup',
+      'v1',
+      'rls.proto'
+    )
+  ) as any
+).grpc.lookup.v1.RouteLookupService as ServiceClientConstructor;
+
+const TEST_CHILD_POLICY_NAME = 'test_rls_target';
+
+class TargetLoadBalancingConfig implements TypedLoadBalancingConfig {
+  constructor(private target: string) {}
+  getLoadBalancerName(): string {
+    return TEST_CHILD_POLICY_NAME;
+  }
+  toJsonObject(): object {
+    return { [TEST_CHILD_POLICY_NAME]: { target: this.target } };
+  }
+  getTarget() {
+    return this.target;
+  }
+  static createFromJson(obj: any) {
+    return new TargetLoadBalancingConfig(obj.target);
+  }
+}
+
+/**
+ * Connects to the address in the "target" field of its config with
+ * pick_first, ignoring the resolved addresses.
+ */
+class TargetLoadBalancer implements LoadBalancer {
+  private child: ChildLoadBalancerHandler;
+  constructor(
+    channelControlHelper: ChannelControlHelper,
+    options: ChannelOptions
+  ) {
+    this.child = new ChildLoadBalancerHandler(channelControlHelper, options);
+  }
+  updateAddressList(
+    endpointList: Endpoint[],
+    lbConfig: TypedLoadBalancingConfig,
+    attributes: { [key: string]: unknown }
+  ): void {
+    const [host, port] = (lbConfig as TargetLoadBalancingConfig)
+      .getTarget()
+      .split(':');
+    this.child.updateAddressList(
+      [{ addresses: [{ host, port: Number(port) }] }],
+      parseLoadBalancingConfig({ pick_first: {} }),
+      attributes
+    );
+  }
+  exitIdle(): void {
+    this.child.exitIdle();
+  }
+  resetBackoff(): void {
+    this.child.resetBackoff();
+  }
+  destroy(): void {
+    this.child.destroy();
+  }
+  getTypeName(): string {
+    return TEST_CHILD_POLICY_NAME;
+  }
+}
+
+registerLoadBalancerType(
+  TEST_CHILD_POLICY_NAME,
+  TargetLoadBalancer,
+  TargetLoadBalancingConfig
+);
+
+interface Backend {
+  server: TestServer;
+  target: string;
+  receivedMetadata: grpc.Metadata[];
+}
+
+async function startBackend(): Promise<Backend> {
+  const server = new TestServer(false);
+  const backend: Backend = { server, target: '', receivedMetadata: [] };
+  server.onEcho(call => {
+    backend.receivedMetadata.push(call.metadata);
+  });
+  await server.start();
+  backend.target = `127.0.0.1:${server.port}`;
+  return backend;
+}
+
+type RouteLookupHandler = (
+  request: any,
+  callback: grpc.sendUnaryData<any>
+) => void;
+
+describe('RLS load balancing policy', () => {
+  let rlsServer: TestServer;
+  let rlsPort: number;
+  let rlsRequests: any[] = [];
+  let rlsHandler: RouteLookupHandler;
+  let backend1: Backend;
+  let backend2: Backend;
+  let client: ServiceClient | null = null;
+
+  before(async () => {
+    rlsServer = new TestServer(false);
+    rlsServer.addService(RouteLookupService.service, {
+      RouteLookup: (
+        call: grpc.ServerUnaryCall<any, any>,
+        callback: grpc.sendUnaryData<any>
+      ) => {
+        rlsRequests.push(call.request);
+        rlsHandler(call.request, callback);
+      },
+    });
+    await rlsServer.start();
+    rlsPort = rlsServer.port!;
+    backend1 = await startBackend();
+    backend2 = await startBackend();
+  });
+
+  after(() => {
+    rlsServer.shutdown();
+    backend1.server.shutdown();
+    backend2.server.shutdown();
+  });
+
+  beforeEach(() => {
+    rlsRequests = [];
+    backend1.receivedMetadata = [];
+    backend2.receivedMetadata = [];
+  });
+
+  afterEach(() => {
+    client?.close();
+    client = null;
+  });
+
+  function createClient(routeLookupConfig: object) {
+    const serviceConfig = {
+      loadBalancingConfig: [
+        {
+          rls_experimental: {
+            routeLookupConfig: {
+              grpcKeybuilders: [
+                {
+                  names: [{ service: 'EchoService' }],
+                  headers: [{ key: 'user', names: ['x-user', 'user-id'] }],
+                  extraKeys: { method: 'method' },
+                  constantKeys: { env: 'test' },
+                },
+              ],
+              lookupService: `127.0.0.1:${rlsPort}`,
+              lookupServiceTimeout: '1s',
+              maxAge: '60s',
+              cacheSizeBytes: 1000,
+              ...routeLookupConfig,
+            },
+            childPolicy: [{ [TEST_CHILD_POLICY_NAME]: {} }],
+            childPolicyConfigTargetFieldName: 'target',
+          },
+        },
+      ],
+    };
+    client = new EchoService(
+      `127.0.0.1:${rlsPort}`,
+      grpc.credentials.createInsecure(),
+      { 'grpc.service_config': JSON.stringify(serviceConfig) }
+    );
+    return client;
+  }
+
+  it('Should route calls to the target returned by the RLS server', async () => {
+    rlsHandler = (request, callback) => {
+      callback(null, {
+        targets: [
+          request.key_map.user === 'alice' ? backend1.target : backend2.target,
+        ],
+        header_data: 'data-' + request.key_map.user,
+      });
+    };
+    const client = createClient({});
+    const aliceMetadata = new grpc.Metadata();
+    aliceMetadata.add('x-user', 'alice');
+    await sendRequests(client, 1, aliceMetadata);
+    const bobMetadata = new grpc.Metadata();
+    bobMetadata.add('user-id', 'bob');
+    await sendRequests(client, 1, bobMetadata);
+    assert.strictEqual(backend1.receivedMetadata.length, 1);
+    assert.strictEqual(backend2.receivedMetadata.length, 1);
+    assert.deepStrictEqual(
+      backend1.receivedMetadata[0].get('x-google-rls-data'),
+      ['data-alice']
+    );
+    assert.deepStrictEqual(
+      backend2.receivedMetadata[0].get('x-google-rls-data'),
+      ['data-bob']
+    );
+    assert.strictEqual(rlsRequests.length, 2);
+    assert.deepStrictEqual(rlsRequests[0].key_map, {
+      user: 'alice',
+      method: 'Echo',
+      env: 'test',
+    });
+    assert.strictEqual(rlsRequests[0].reason, 'REASON_MISS');
+    assert.strictEqual(rlsRequests[0].target_type, 'grpc');
+  });
+
+  it('Should use cached responses for calls with the same keys', async () => {
+    rlsHandler = (request, callback) => {
+      callback(null, { targets: [backend1.target] });
+    };
+    const client = createClient({});
+    const metadata = new grpc.Metadata();
+    metadata.add('x-user', 'alice');
+    await sendRequests(client, 1, metadata);
+    await sendRequests(client, 1, metadata);
+    await sendRequests(client, 1, metadata);
+    assert.strictEqual(rlsRequests.length, 1);
+    assert.strictEqual(backend1.receivedMetadata.length, 3);
+    assert.deepStrictEqual(
+      backend1.receivedMetadata[0].get('x-google-rls-data'),
+      []
+    );
+  });
+
+  it('Should refresh stale entries in the background', async () => {
+    let resolveStaleRequest: (request: any) => void;
+    const staleRequestPromise = new Promise<any>(resolve => {
+      resolveStaleRequest = resolve;
+    });
+    rlsHandler = (request, callback) => {
+      if (request.reason === 'REASON_STALE') {
+        resolveStaleRequest(request);
+      }
+      callback(null, {
+        targets: [backend1.target],
+        header_data: `data${rlsRequests.length}`,
+      });
+    };
+    const client = createClient({ staleAge: '0s' });
+    await sendRequests(client, 1);
+    // Calls use the stale entry while it is refreshed
+    await sendRequests(client, 1);
+    const staleRequest = await staleRequestPromise;
+    assert.strictEqual(staleRequest.stale_header_data, 'data1');
+    assert.strictEqual(backend1.receivedMetadata.length, 2);
+  });
+
+  it('Should use the default target when the RLS request fails', async () => {
+    rlsHandler = (request, callback) => {
+      callback({ code: grpc.status.INTERNAL, details: 'Lookup failed' });
+    };
+    const client = createClient({ defaultTarget: backend2.target });
+    await sendRequests(client, 1);
+    assert.strictEqual(rlsRequests.length, 1);
+    assert.strictEqual(backend2.receivedMetadata.length, 1);
+  });
+
+  it('Should fail calls when the RLS request fails and there is no default target', async () => {
+    rlsHandler = (request, callback) => {
+      callback({ code: grpc.status.INTERNAL, details: 'Lookup failed' });
+    };
+    const client = createClient({});
+    try {
+      await sendRequests(client, 1);
+      assert.fail('Expected the call to fail');
+    } catch (error) {
+      assert.strictEqual(
+        (error as grpc.ServiceError).code,
+        grpc.status.UNAVAILABLE
+      );
+    }
+  });
+
+  it('Should report the channel state of the child policies', async () => {
+    rlsHandler = (request, callback) => {
+      callback(null, { targets: [backend1.target] });
+    };
+    const client = createClient({});
+    assert.strictEqual(
+      client.getChannel().getConnectivityState(true),
+      ConnectivityState.IDLE
+    );
+    await sendRequests(client, 1);
+    assert.strictEqual(
+      client.getChannel().getConnectivityState(false),
+      ConnectivityState.READY
+    );
+  });
+});
+
+describe('RLS config parsing', () => {
+  const validConfig = {
+    routeLookupConfig: {
+      grpcKeybuilders: [{ names: [{ service: 'EchoService' }] }],
+      lookupService: 'localhost:1234',
+      cacheSizeBytes: 1000,
+    },
+    childPolicy: [{ [TEST_CHILD_POLICY_NAME]: {} }],
+    childPolicyConfigTargetFieldName: 'target',
+  };
+  function parseConfig(routeLookupConfig: object, overrides: object = {}) {
+    return parseLoadBalancingConfig({
+      rls_experimental: {
+        ...validConfig,
+        routeLookupConfig: {
+          ...validConfig.routeLookupConfig,
+          ...routeLookupConfig,
+        },
+        ...overrides,
+      },
+    });
+  }
+  it('Should accept a valid config', () => {
+    const config = parseConfig({ maxAge: '600s', staleAge: '10s' });
+    assert.strictEqual(config.getLoadBalancerName(), 'rls_experimental');
+  });
+  it('Should reject a config with no key builders', () => {
+    assert.throws(() => parseConfig({ grpcKeybuilders: [] }));
+  });
+  it('Should reject key builder names without a service', () => {
+    assert.throws(() => parseConfig({ grpcKeybuilders: [{ names: [{}] }] }));
+  });
+  it('Should reject duplicate key builder names', () => {
+    assert.throws(() =>
+      parseConfig({
+        grpcKeybuilders: [
+          { names: [{ service: 'EchoService' }] },
+          { names: [{ service: 'EchoService' }] },
+        ],
+      })
+    );
+  });
+  it('Should reject duplicate keys', () => {
+    assert.throws(() =>
+      parseConfig({
+        grpcKeybuilders: [
+          {
+            names: [{ service: 'EchoService' }],
+            headers: [{ key: 'user', names: ['x-user'] }],
+            constantKeys: { user: 'value' },
+          },
+        ],
+      })
+    );
+  });
+  it('Should reject headers with requiredMatch', () => {
+    assert.throws(() =>
+      parseConfig({
+        grpcKeybuilders: [
+          {
+            names: [{ service: 'EchoService' }],
+            headers: [{ key: 'user', names: ['x-user'], requiredMatch: true }],
+          },
+        ],
+      })
+    );
+  });
+  it('Should reject a missing lookupService', () => {
+    assert.throws(() => parseConfig({ lookupService: undefined }));
+  });
+  it('Should reject staleAge without maxAge', () => {
+    assert.throws(() => parseConfig({ staleAge: '10s' }));
+  });
+  it('Should reject a non-positive cacheSizeBytes', () => {
+    assert.throws(() => parseConfig({ cacheSizeBytes: 0 }));
+  });
+  it('Should reject a config without a valid child policy', () => {
+    assert.throws(() =>
+      parseConfig({}, { childPolicy: [{ unknown_policy: {} }] })
+    );
+  });
+});
+
+describe('RLS adaptive throttler', () => {
+  it('Should not throttle requests while they succeed', () => {
+    const throttler = new AdaptiveThrottler();
+    for (let i = 0; i < 10; i++) {
+      throttler.registerResponse(true);
+    }
+    for (let i = 0; i < 100; i++) {
+      assert.strictEqual(throttler.shouldThrottle(), false);
+    }
+  });
+  it('Should throttle requests while they fail', () => {
+    const throttler = new AdaptiveThrottler(30_000, 2, 0);
+    throttler.registerResponse(false);
+    assert.strictEqual(throttler.shouldThrottle(), true);
+  });
+});
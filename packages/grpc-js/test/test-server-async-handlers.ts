@@ -0,0 +1,218 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+// Allow `any` data type for testing runtime type checking.
+// tslint:disable no-any
+import * as assert from 'assert';
+import * as path from 'path';
+
+import * as grpc from '../src';
+import { ServiceClient, ServiceClientConstructor } from '../src/make-client';
+import { loadProtoFile } from './common';
+
+const mathProtoFile = path.join(__dirname, 'fixtures', 'math.proto');
+const MathClient = (loadProtoFile(mathProtoFile).math as any)
+  .Math as ServiceClientConstructor;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Server with async handlers', () => {
+  let server: grpc.Server;
+  let client: ServiceClient;
+
+  before(done => {
+    server = new grpc.Server();
+    server.addAsyncService(MathClient.service, {
+      async div(call: grpc.ServerUnaryCall<any, any>) {
+        await sleep(1);
+        const divisor = Number(call.request.divisor);
+        if (divisor === 0) {
+          const trailers = new grpc.Metadata();
+          trailers.set('reason', 'zero');
+          throw {
+            code: grpc.status.INVALID_ARGUMENT,
+            details: 'Cannot divide by zero',
+            metadata: trailers,
+          };
+        }
+        if (divisor < 0) {
+          throw new Error('Negative divisor');
+        }
+        const dividend = Number(call.request.dividend);
+        return {
+          quotient: Math.floor(dividend / divisor),
+          remainder: dividend % divisor,
+        };
+      },
+      async sum(call: grpc.ServerReadableStream<any, any>) {
+        let sum = 0;
+        for await (const value of call) {
+          sum += Number(value.num);
+        }
+        return { num: sum };
+      },
+      async *fib(call: grpc.ServerWritableStream<any, any>) {
+        const limit = Number(call.request.limit);
+        if (limit < 0) {
+          throw {
+            code: grpc.status.INVALID_ARGUMENT,
+            details: 'Negative limit',
+          };
+        }
+        let previous = 0;
+        let current = 1;
+        for (let i = 0; i < limit; i++) {
+          yield { num: current };
+          [previous, current] = [current, previous + current];
+        }
+      },
+      async *divMany(call: grpc.ServerDuplexStream<any, any>) {
+        for await (const value of call) {
+          const dividend = Number(value.dividend);
+          const divisor = Number(value.divisor);
+          yield {
+            quotient: Math.floor(dividend / divisor),
+            remainder: dividend % divisor,
+          };
+        }
+      },
+    });
+    server.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        assert.ifError(error);
+        client = new MathClient(
+          `localhost:${port}`,
+          grpc.credentials.createInsecure()
+        );
+        done();
+      }
+    );
+  });
+
+  after(() => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  it('should send the value returned by a unary handler', done => {
+    client.div({ dividend: 7, divisor: 4 }, (error: any, response: any) => {
+      assert.ifError(error);
+      assert.strictEqual(response.quotient, '1');
+      assert.strictEqual(response.remainder, '3');
+      done();
+    });
+  });
+
+  it('should use the code, details, and metadata of a thrown error', done => {
+    client.div({ dividend: 7, divisor: 0 }, (error: any) => {
+      assert(error);
+      assert.strictEqual(error.code, grpc.status.INVALID_ARGUMENT);
+      assert.strictEqual(error.details, 'Cannot divide by zero');
+      assert.deepStrictEqual(error.metadata.get('reason'), ['zero']);
+      done();
+    });
+  });
+
+  it('should map other thrown errors to UNKNOWN', done => {
+    client.div({ dividend: 7, divisor: -1 }, (error: any) => {
+      assert(error);
+      assert.strictEqual(error.code, grpc.status.UNKNOWN);
+      assert.strictEqual(error.details, 'Negative divisor');
+      done();
+    });
+  });
+
+  it('should read requests as an async iterable in a client streaming handler', done => {
+    const call = client.sum((error: any, response: any) => {
+      assert.ifError(error);
+      assert.strictEqual(response.num, '6');
+      done();
+    });
+    call.write({ num: 1 });
+    call.write({ num: 2 });
+    call.write({ num: 3 });
+    call.end();
+  });
+
+  it('should send the values yielded by a server streaming handler', done => {
+    const call = client.fib({ limit: 5 });
+    const results: string[] = [];
+    call.on('data', (value: any) => {
+      results.push(value.num);
+    });
+    call.on('status', (status: grpc.StatusObject) => {
+      assert.strictEqual(status.code, grpc.status.OK);
+      assert.deepStrictEqual(results, ['1', '1', '2', '3', '5']);
+      done();
+    });
+  });
+
+  it('should end a server streaming call with the error thrown by the handler', done => {
+    const call = client.fib({ limit: -1 });
+    call.on('data', () => {
+      assert.fail('Unexpected response');
+    });
+    call.on('error', (error: any) => {
+      assert.strictEqual(error.code, grpc.status.INVALID_ARGUMENT);
+      assert.strictEqual(error.details, 'Negative limit');
+      done();
+    });
+  });
+
+  it('should respond to each request in a bidi streaming handler', done => {
+    const call = client.divMany();
+    const results: string[] = [];
+    call.on('data', (value: any) => {
+      results.push(`${value.quotient} ${value.remainder}`);
+    });
+    call.on('status', (status: grpc.StatusObject) => {
+      assert.strictEqual(status.code, grpc.status.OK);
+      assert.deepStrictEqual(results, ['1 3', '3 0']);
+      done();
+    });
+    call.write({ dividend: 7, divisor: 4 });
+    call.write({ dividend: 9, divisor: 3 });
+    call.end();
+  });
+
+  it('should respond UNIMPLEMENTED for missing handlers', done => {
+    const partialServer = new grpc.Server();
+    partialServer.addAsyncService(MathClient.service, {});
+    partialServer.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        assert.ifError(error);
+        const partialClient = new MathClient(
+          `localhost:${port}`,
+          grpc.credentials.createInsecure()
+        );
+        partialClient.div({ dividend: 7, divisor: 4 }, (error: any) => {
+          assert(error);
+          assert.strictEqual(error.code, grpc.status.UNIMPLEMENTED);
+          partialClient.close();
+          partialServer.forceShutdown();
+          done();
+        });
+      }
+    );
+  });
+});
@@ -18,9 +18,13 @@
 // Allow `any` data type for testing runtime type checking.
 // tslint:disable no-any
 import * as assert from 'assert';
+import * as fs from 'fs';
 import { readFileSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
-import { ServerCredentials } from '../src';
+import { ServerCredentials, status } from '../src';
+import { SecureContextOptions } from 'tls';
+import { TestClient, TestServer } from './common';
 
 const ca = readFileSync(join(__dirname, 'fixtures', 'ca.pem'));
 const key = readFileSync(join(__dirname, 'fixtures', 'server1.key'));
@@ -120,4 +124,141 @@ describe('Server Credentials', () => {
       }, /TypeError: keyCertPair\[0\].cert_chain must be a Buffer/);
     });
   });
+
+  describe('createFromFileWatcher', () => {
+    const certificateFile = join(__dirname, 'fixtures', 'server1.pem');
+    const privateKeyFile = join(__dirname, 'fixtures', 'server1.key');
+    const caCertificateFile = join(__dirname, 'fixtures', 'ca.pem');
+
+    it('fails if the certificate or private key file is missing', () => {
+      assert.throws(() => {
+        ServerCredentials.createFromFileWatcher({
+          caCertificateFile,
+          refreshIntervalMs: 1000,
+        });
+      });
+    });
+
+    it('fails to check client certificates without a CA file', () => {
+      assert.throws(() => {
+        ServerCredentials.createFromFileWatcher(
+          { certificateFile, privateKeyFile, refreshIntervalMs: 1000 },
+          true
+        );
+      }, /checkClientCertificate requires caCertificateFile/);
+    });
+
+    it('sets client certificate options at construction', () => {
+      const creds = ServerCredentials.createFromFileWatcher(
+        {
+          certificateFile,
+          privateKeyFile,
+          caCertificateFile,
+          refreshIntervalMs: 1000,
+        },
+        true
+      );
+      assert.strictEqual(creds._isSecure(), true);
+      assert.strictEqual(creds._getSettings(), null);
+      assert.deepStrictEqual(creds._getConstructorOptions(), {
+        requestCert: true,
+        rejectUnauthorized: true,
+      });
+    });
+
+    it('sends the file contents to watchers', done => {
+      const creds = ServerCredentials.createFromFileWatcher({
+        certificateFile,
+        privateKeyFile,
+        caCertificateFile,
+        refreshIntervalMs: 1000,
+      });
+      const watcher = (options: SecureContextOptions | null) => {
+        creds._removeWatcher(watcher);
+        assert(options);
+        assert.deepStrictEqual(options.ca, ca);
+        assert.deepStrictEqual(options.cert, cert);
+        assert.deepStrictEqual(options.key, key);
+        done();
+      };
+      creds._addWatcher(watcher);
+    });
+
+    describe('file rotation', () => {
+      let tempDir: string;
+      let server: TestServer | null = null;
+      let client: TestClient | null = null;
+      beforeEach(() => {
+        tempDir = fs.mkdtempSync(join(tmpdir(), 'grpc-server-creds-'));
+      });
+      afterEach(() => {
+        client?.close();
+        client = null;
+        server?.shutdown();
+        server = null;
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('sends rotated file contents to watchers', done => {
+        const rotatedCaCertificateFile = join(tempDir, 'ca.pem');
+        fs.writeFileSync(rotatedCaCertificateFile, ca);
+        const creds = ServerCredentials.createFromFileWatcher({
+          certificateFile,
+          privateKeyFile,
+          caCertificateFile: rotatedCaCertificateFile,
+          refreshIntervalMs: 50,
+        });
+        const watcher = (options: SecureContextOptions | null) => {
+          assert(options);
+          if ((options.ca as Buffer).equals(ca)) {
+            fs.writeFileSync(rotatedCaCertificateFile, cert);
+          } else {
+            creds._removeWatcher(watcher);
+            assert.deepStrictEqual(options.ca, cert);
+            done();
+          }
+        };
+        creds._addWatcher(watcher);
+      });
+
+      it('accepts connections after the files are written', async () => {
+        const rotatedCertificateFile = join(tempDir, 'server1.pem');
+        const rotatedPrivateKeyFile = join(tempDir, 'server1.key');
+        server = new TestServer(
+          true,
+          undefined,
+          ServerCredentials.createFromFileWatcher({
+            certificateFile: rotatedCertificateFile,
+            privateKeyFile: rotatedPrivateKeyFile,
+            refreshIntervalMs: 100,
+          })
+        );
+        await server.start();
+        client = new TestClient(server.port!, true, {
+          'grpc.ssl_target_name_override': 'foo.test.google.fr',
+        });
+        await new Promise<void>((resolve, reject) => {
+          client!.sendRequest(error => {
+            if (error) {
+              assert.strictEqual(error.code, status.UNAVAILABLE);
+              resolve();
+            } else {
+              reject(new Error('Request unexpectedly succeeded'));
+            }
+          });
+        });
+        fs.writeFileSync(rotatedCertificateFile, cert);
+        fs.writeFileSync(rotatedPrivateKeyFile, key);
+        await new Promise(resolve => setTimeout(resolve, 300));
+        await new Promise<void>((resolve, reject) => {
+          client!.waitForReady(Date.now() + 5000, error =>
+            error ? reject(error) : resolve()
+          );
+        });
+        await new Promise<void>((resolve, reject) => {
+          client!.sendRequest(error => (error ? reject(error) : resolve()));
+        });
+      });
+    });
+  });
 });
@@ -293,4 +293,101 @@ describe('Server interceptors', () => {
       });
     });
   });
+  describe('Interceptors from credentials', () => {
+    let server: grpc.Server;
+    let client: TestClient;
+    before(done => {
+      server = new grpc.Server();
+      server.addService(echoService.service, {
+        echo: (
+          call: grpc.ServerUnaryCall<any, any>,
+          callback: grpc.sendUnaryData<any>
+        ) => {
+          assert.strictEqual(
+            call.metadata.get('injected-header')?.[0],
+            'present'
+          );
+          callback(null, call.request);
+        },
+      });
+      const credentials =
+        grpc.experimental.createServerCredentialsWithInterceptors(
+          grpc.ServerCredentials.createInsecure(),
+          [testAuthInterceptor, testHeaderInjectionInterceptor]
+        );
+      server.bindAsync('localhost:0', credentials, (error, port) => {
+        assert.ifError(error);
+        client = new TestClient(port, false);
+        done();
+      });
+    });
+    after(done => {
+      client.close();
+      server.tryShutdown(done);
+    });
+    it('Should apply the interceptors to calls on the bound port', done => {
+      const requestMetadata = new grpc.Metadata();
+      requestMetadata.set(AUTH_HEADER_KEY, 'not allowed');
+      client.sendRequestWithMetadata(requestMetadata, error => {
+        assert.strictEqual(error?.code, grpc.status.UNAUTHENTICATED);
+        done();
+      });
+    });
+    it('Should run the handler for accepted calls', done => {
+      const requestMetadata = new grpc.Metadata();
+      requestMetadata.set(AUTH_HEADER_KEY, AUTH_HEADER_ALLOWED_VALUE);
+      client.sendRequestWithMetadata(requestMetadata, done);
+    });
+  });
+  describe('Connection information', () => {
+    let server: grpc.Server;
+    let client: TestClient;
+    let serverPort: number;
+    let connectionInfo: grpc.ConnectionInfo | null = null;
+    let authContext: grpc.AuthContext | null = null;
+    const connectionInfoInterceptor: grpc.ServerInterceptor = (
+      methodDescriptor,
+      call
+    ) => {
+      connectionInfo = call.getConnectionInfo();
+      authContext = call.getAuthContext();
+      return new grpc.ServerInterceptingCall(call);
+    };
+    before(done => {
+      server = new grpc.Server({ interceptors: [connectionInfoInterceptor] });
+      server.addService(echoService.service, {
+        echo: (
+          call: grpc.ServerUnaryCall<any, any>,
+          callback: grpc.sendUnaryData<any>
+        ) => {
+          callback(null, call.request);
+        },
+      });
+      server.bindAsync(
+        '127.0.0.1:0',
+        grpc.ServerCredentials.createInsecure(),
+        (error, port) => {
+          assert.ifError(error);
+          serverPort = port;
+          client = new TestClient(port, false);
+          done();
+        }
+      );
+    });
+    after(done => {
+      client.close();
+      server.tryShutdown(done);
+    });
+    it('Should expose the addresses of the connection', done => {
+      client.sendRequest(error => {
+        assert.ifError(error);
+        assert.strictEqual(connectionInfo?.localAddress, '127.0.0.1');
+        assert.strictEqual(connectionInfo?.localPort, serverPort);
+        assert.strictEqual(typeof connectionInfo?.remoteAddress, 'string');
+        assert.strictEqual(typeof connectionInfo?.remotePort, 'number');
+        assert.deepStrictEqual(authContext, {});
+        done();
+      });
+    });
+  });
 });
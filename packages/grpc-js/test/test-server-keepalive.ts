@@ -0,0 +1,190 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as http2 from 'http2';
+import * as path from 'path';
+import * as grpc from '../src';
+import { ServiceClientConstructor } from '../src/make-client';
+import { loadProtoFile } from './common';
+
+const protoFile = path.join(__dirname, 'fixtures', 'echo_service.proto');
+const EchoService = loadProtoFile(protoFile)
+  .EchoService as ServiceClientConstructor;
+
+function startServer(options: grpc.ChannelOptions): Promise<{
+  server: grpc.Server;
+  port: number;
+}> {
+  return new Promise((resolve, reject) => {
+    const server = new grpc.Server(options);
+    server.bindAsync(
+      'localhost:0',
+      grpc.ServerCredentials.createInsecure(),
+      (error, port) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve({ server, port });
+      }
+    );
+  });
+}
+
+function waitForGoaway(
+  session: http2.ClientHttp2Session
+): Promise<{ errorCode: number; opaqueData: Buffer }> {
+  return new Promise(resolve => {
+    session.on('goaway', (errorCode, lastStreamID, opaqueData) => {
+      resolve({ errorCode, opaqueData: opaqueData ?? Buffer.alloc(0) });
+    });
+  });
+}
+
+describe('Server keepalive enforcement', () => {
+  let server: grpc.Server | null = null;
+  let session: http2.ClientHttp2Session | null = null;
+  afterEach(() => {
+    session?.destroy();
+    session = null;
+    server?.forceShutdown();
+    server = null;
+  });
+  function connect(port: number): Promise<http2.ClientHttp2Session> {
+    return new Promise(resolve => {
+      const newSession = http2.connect(`http://localhost:${port}`, () => {
+        resolve(newSession);
+      });
+      newSession.on('error', () => {});
+    });
+  }
+  it('Should send a too_many_pings GOAWAY after too many ping strikes', async () => {
+    const started = await startServer({
+      'grpc.keepalive_permit_without_calls': 1,
+      'grpc.http2.max_ping_strikes': 2,
+    });
+    server = started.server;
+    session = await connect(started.port);
+    const goaway = waitForGoaway(session);
+    for (let i = 0; i < 4; i++) {
+      session.ping(() => {});
+    }
+    const { errorCode, opaqueData } = await goaway;
+    assert.strictEqual(errorCode, http2.constants.NGHTTP2_ENHANCE_YOUR_CALM);
+    assert.strictEqual(opaqueData.toString(), 'too_many_pings');
+  });
+  it('Should allow pings at the minimum ping interval', async () => {
+    const started = await startServer({
+      'grpc.keepalive_permit_without_calls': 1,
+      'grpc.http2.min_ping_interval_without_data_ms': 50,
+      'grpc.http2.max_ping_strikes': 1,
+    });
+    server = started.server;
+    session = await connect(started.port);
+    let receivedGoaway = false;
+    session.on('goaway', () => {
+      receivedGoaway = true;
+    });
+    for (let i = 0; i < 4; i++) {
+      await new Promise<void>((resolve, reject) => {
+        session!.ping(error => (error ? reject(error) : resolve()));
+      });
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    assert(!receivedGoaway);
+  });
+  it('Should allow any number of pings if max_ping_strikes is 0', async () => {
+    const started = await startServer({
+      'grpc.keepalive_permit_without_calls': 1,
+      'grpc.http2.max_ping_strikes': 0,
+    });
+    server = started.server;
+    session = await connect(started.port);
+    let receivedGoaway = false;
+    session.on('goaway', () => {
+      receivedGoaway = true;
+    });
+    for (let i = 0; i < 10; i++) {
+      await new Promise<void>((resolve, reject) => {
+        session!.ping(error => (error ? reject(error) : resolve()));
+      });
+    }
+    assert(!receivedGoaway);
+  });
+});
+
+describe('Server max connection idle', () => {
+  let server: grpc.Server | null = null;
+  let session: http2.ClientHttp2Session | null = null;
+  afterEach(() => {
+    session?.destroy();
+    session = null;
+    server?.forceShutdown();
+    server = null;
+  });
+  it('Should gracefully close idle connections', async () => {
+    const started = await startServer({ 'grpc.max_connection_idle_ms': 100 });
+    server = started.server;
+    session = http2.connect(`http://localhost:${started.port}`);
+    session.on('error', () => {});
+    const { errorCode, opaqueData } = await waitForGoaway(session);
+    assert.strictEqual(errorCode, http2.constants.NGHTTP2_NO_ERROR);
+    assert.strictEqual(opaqueData.toString(), 'max_idle');
+  });
+  it('Should not close connections with active streams', async () => {
+    const started = await startServer({ 'grpc.max_connection_idle_ms': 100 });
+    server = started.server;
+    server.addService(EchoService.service, {
+      echoBidiStream: (call: grpc.ServerDuplexStream<unknown, unknown>) => {
+        call.on('data', message => {
+          call.write(message);
+        });
+        call.on('end', () => {
+          call.end();
+        });
+      },
+    });
+    const client = new EchoService(
+      `localhost:${started.port}`,
+      grpc.credentials.createInsecure()
+    );
+    try {
+      const stream = client.echoBidiStream();
+      const responses: unknown[] = [];
+      stream.on('data', (response: unknown) => {
+        responses.push(response);
+      });
+      stream.write({ value: 'first', value2: 1 });
+      await new Promise(resolve => setTimeout(resolve, 300));
+      stream.write({ value: 'second', value2: 2 });
+      await new Promise<void>((resolve, reject) => {
+        stream.on('status', (status: grpc.StatusObject) => {
+          if (status.code === grpc.status.OK) {
+            resolve();
+          } else {
+            reject(new Error(status.details));
+          }
+        });
+        stream.end();
+      });
+      assert.strictEqual(responses.length, 2);
+    } finally {
+      client.close();
+    }
+  });
+});
@@ -0,0 +1,254 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as grpc from '../src';
+import { ServiceClient } from '../src/make-client';
+import { EchoService, sendRequests } from './common';
+
+const ECHO_PATH = '/EchoService/Echo';
+
+type EchoHandler = (
+  call: grpc.ServerUnaryCall<any, any>,
+  callback: grpc.sendUnaryData<any>
+) => void;
+
+const defaultEchoHandler: EchoHandler = (call, callback) => {
+  callback(null, call.request);
+};
+
+describe('Standard server interceptors', () => {
+  let server: grpc.Server | null = null;
+  let client: ServiceClient | null = null;
+  afterEach(() => {
+    client?.close();
+    client = null;
+    server?.forceShutdown();
+    server = null;
+  });
+  function startServer(
+    interceptors: grpc.ServerInterceptor[],
+    echo: EchoHandler = defaultEchoHandler
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      server = new grpc.Server({ interceptors });
+      server.addService(EchoService.service, { echo });
+      server.bindAsync(
+        'localhost:0',
+        grpc.ServerCredentials.createInsecure(),
+        (error, port) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          client = new EchoService(
+            `localhost:${port}`,
+            grpc.credentials.createInsecure()
+          );
+          resolve();
+        }
+      );
+    });
+  }
+  function sendRequest(
+    request?: object,
+    metadata?: grpc.Metadata,
+    options?: grpc.CallOptions
+  ): Promise<grpc.ServiceError | null> {
+    return sendRequests(client!, 1, metadata, options, request).then(
+      () => null,
+      (error: grpc.ServiceError) => error
+    );
+  }
+  describe('Access log', () => {
+    it('Should log successful and failed calls', async () => {
+      const entries: grpc.AccessLogEntry[] = [];
+      await startServer(
+        [grpc.createAccessLogInterceptor(entry => entries.push(entry))],
+        (call, callback) => {
+          if (call.request.value === 'fail') {
+            callback({ code: grpc.status.NOT_FOUND, details: 'Not found' });
+          } else {
+            callback(null, call.request);
+          }
+        }
+      );
+      assert.ifError(await sendRequest());
+      await sendRequest({ value: 'fail' });
+      assert.strictEqual(entries.length, 2);
+      assert.strictEqual(entries[0].method, ECHO_PATH);
+      assert.strictEqual(entries[0].code, grpc.status.OK);
+      assert.strictEqual(typeof entries[0].peer, 'string');
+      assert(entries[0].latencyMs >= 0);
+      assert.strictEqual(entries[1].code, grpc.status.NOT_FOUND);
+      assert.strictEqual(entries[1].details, 'Not found');
+    });
+    it('Should log calls rejected by later interceptors', async () => {
+      const entries: grpc.AccessLogEntry[] = [];
+      await startServer([
+        grpc.createAccessLogInterceptor(entry => entries.push(entry)),
+        grpc.createApiKeyAuthInterceptor(() => true),
+      ]);
+      const error = await sendRequest();
+      assert.strictEqual(error?.code, grpc.status.UNAUTHENTICATED);
+      assert.strictEqual(entries.length, 1);
+      assert.strictEqual(entries[0].code, grpc.status.UNAUTHENTICATED);
+    });
+  });
+  describe('Bearer token auth', () => {
+    function metadataWithToken(token: string) {
+      const metadata = new grpc.Metadata();
+      metadata.set('authorization', `Bearer ${token}`);
+      return metadata;
+    }
+    it('Should accept valid tokens and reject invalid ones', async () => {
+      await startServer([
+        grpc.createBearerTokenAuthInterceptor(token => token === 'valid'),
+      ]);
+      assert.ifError(await sendRequest(undefined, metadataWithToken('valid')));
+      const invalidError = await sendRequest(
+        undefined,
+        metadataWithToken('invalid')
+      );
+      assert.strictEqual(invalidError?.code, grpc.status.UNAUTHENTICATED);
+      const missingError = await sendRequest();
+      assert.strictEqual(missingError?.code, grpc.status.UNAUTHENTICATED);
+    });
+    it('Should support asynchronous verifiers', async () => {
+      const verifiedMethods: string[] = [];
+      await startServer([
+        grpc.createBearerTokenAuthInterceptor((token, methodDescriptor) => {
+          verifiedMethods.push(methodDescriptor.path);
+          return new Promise(resolve =>
+            setTimeout(() => resolve(token === 'valid'), 10)
+          );
+        }),
+      ]);
+      assert.ifError(await sendRequest(undefined, metadataWithToken('valid')));
+      assert.deepStrictEqual(verifiedMethods, [ECHO_PATH]);
+    });
+    it('Should reject calls if the verifier fails', async () => {
+      await startServer([
+        grpc.createBearerTokenAuthInterceptor(() =>
+          Promise.reject(new Error('Verifier failed'))
+        ),
+      ]);
+      const error = await sendRequest(undefined, metadataWithToken('valid'));
+      assert.strictEqual(error?.code, grpc.status.UNAUTHENTICATED);
+    });
+    it('Should skip exempt methods', async () => {
+      await startServer([
+        grpc.createBearerTokenAuthInterceptor(() => false, {
+          exemptMethods: [ECHO_PATH],
+        }),
+      ]);
+      assert.ifError(await sendRequest());
+    });
+  });
+  describe('API key auth', () => {
+    it('Should read the API key from the configured metadata key', async () => {
+      await startServer([
+        grpc.createApiKeyAuthInterceptor(key => key === 'secret', {
+          metadataKey: 'custom-key',
+        }),
+      ]);
+      const metadata = new grpc.Metadata();
+      metadata.set('custom-key', 'secret');
+      assert.ifError(await sendRequest(undefined, metadata));
+      const defaultKeyMetadata = new grpc.Metadata();
+      defaultKeyMetadata.set('x-api-key', 'secret');
+      const error = await sendRequest(undefined, defaultKeyMetadata);
+      assert.strictEqual(error?.code, grpc.status.UNAUTHENTICATED);
+    });
+  });
+  describe('Request validation', () => {
+    it('Should reject invalid requests', async () => {
+      let handlerCalls = 0;
+      await startServer(
+        [
+          grpc.createRequestValidationInterceptor({
+            [ECHO_PATH]: request =>
+              request.value2 < 0 ? 'value2 must not be negative' : null,
+          }),
+        ],
+        (call, callback) => {
+          handlerCalls += 1;
+          callback(null, call.request);
+        }
+      );
+      assert.ifError(await sendRequest({ value: 'test', value2: 1 }));
+      const error = await sendRequest({ value: 'test', value2: -1 });
+      assert.strictEqual(error?.code, grpc.status.INVALID_ARGUMENT);
+      assert.strictEqual(error?.details, 'value2 must not be negative');
+      assert.strictEqual(handlerCalls, 1);
+    });
+    it('Should support asynchronous validators', async () => {
+      await startServer([
+        grpc.createRequestValidationInterceptor(request =>
+          Promise.resolve(request.value ? null : 'value is required')
+        ),
+      ]);
+      assert.ifError(await sendRequest({ value: 'test' }));
+      const error = await sendRequest({ value: '' });
+      assert.strictEqual(error?.code, grpc.status.INVALID_ARGUMENT);
+    });
+  });
+  describe('Deadline', () => {
+    it('Should reject calls without a deadline if required', async () => {
+      await startServer([
+        grpc.createDeadlineInterceptor({ requireDeadline: true }),
+      ]);
+      const error = await sendRequest();
+      assert.strictEqual(error?.code, grpc.status.INVALID_ARGUMENT);
+      assert.ifError(
+        await sendRequest(undefined, undefined, {
+          deadline: Date.now() + 10_000,
+        })
+      );
+    });
+    it('Should reject calls without enough time left', async () => {
+      await startServer([
+        grpc.createDeadlineInterceptor({ minRemainingTimeMs: 60_000 }),
+      ]);
+      const error = await sendRequest(undefined, undefined, {
+        deadline: Date.now() + 10_000,
+      });
+      assert.strictEqual(error?.code, grpc.status.DEADLINE_EXCEEDED);
+      assert.ifError(await sendRequest());
+    });
+  });
+  describe('Recovery', () => {
+    it('Should map handler errors to INTERNAL', async () => {
+      const errors: unknown[] = [];
+      await startServer(
+        [
+          grpc.createRecoveryInterceptor({
+            onError: error => errors.push(error),
+          }),
+        ],
+        () => {
+          throw new Error('Handler failed');
+        }
+      );
+      const error = await sendRequest();
+      assert.strictEqual(error?.code, grpc.status.INTERNAL);
+      assert.strictEqual(error?.details, 'Internal error');
+      assert.strictEqual(errors.length, 1);
+      assert.strictEqual((errors[0] as Error).message, 'Handler failed');
+    });
+  });
+});
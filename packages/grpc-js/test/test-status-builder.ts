@@ -18,6 +18,7 @@
 import * as assert from 'assert';
 
 import * as grpc from '../src';
+import { deserializeStatusDetails } from '../src/error-details';
 import { StatusBuilder } from '../src/status-builder';
 
 describe('StatusBuilder', () => {
@@ -48,4 +49,36 @@ describe('StatusBuilder', () => {
       metadata,
     });
   });
+
+  it('adds error details to the metadata', () => {
+    const metadata = new grpc.Metadata();
+    metadata.set('key', 'value');
+    const status = new StatusBuilder()
+      .withCode(grpc.status.INVALID_ARGUMENT)
+      .withDetails('foobar')
+      .withMetadata(metadata)
+      .withErrorDetails([
+        {
+          '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+          reason: 'TEST',
+        },
+      ])
+      .build();
+    assert.notStrictEqual(status.metadata, metadata);
+    assert.deepStrictEqual(status.metadata!.get('key'), ['value']);
+    assert.deepStrictEqual(metadata.get('grpc-status-details-bin'), []);
+    const statusDetails = deserializeStatusDetails(
+      status.metadata!.get('grpc-status-details-bin')[0] as Buffer
+    );
+    assert.strictEqual(statusDetails.code, grpc.status.INVALID_ARGUMENT);
+    assert.strictEqual(statusDetails.message, 'foobar');
+    assert.deepStrictEqual(statusDetails.details, [
+      {
+        '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+        reason: 'TEST',
+        domain: '',
+        metadata: {},
+      },
+    ]);
+  });
 });
@@ -0,0 +1,169 @@
+/*
+ * Copyright 2024 gRPC authors.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ *
+ */
+
+import * as assert from 'assert';
+import * as grpc from '../src';
+import { parseLoadBalancingConfig } from '../src/load-balancer';
+import { ServiceClient } from '../src/make-client';
+import { EchoService, sendRequests, TestServer } from './common';
+
+/**
+ * Start a server that reports fixed load metrics, both with each response
+ * and out-of-band.
+ */
+async function startLoadReportingServer(
+  cpuUtilization: number
+): Promise<TestServer> {
+  const server = new TestServer(false);
+  const metricRecorder = new grpc.ServerMetricRecorder(100);
+  metricRecorder.setCpuUtilizationMetric(cpuUtilization);
+  metricRecorder.setQpsMetric(10);
+  server.addMetricRecorder(metricRecorder);
+  server.onEcho(call => {
+    const recorder = call.getMetricsRecorder();
+    recorder.recordCpuUtilizationMetric(cpuUtilization);
+    recorder.recordQpsMetric(10);
+  });
+  await server.start();
+  return server;
+}
+
+describe('Weighted round robin', () => {
+  describe('Config parsing', () => {
+    it('Should fill in defaults', () => {
+      const config = parseLoadBalancingConfig({ weighted_round_robin: {} });
+      assert.deepStrictEqual(config.toJsonObject(), {
+        weighted_round_robin: {
+          enable_oob_load_report: false,
+          oob_reporting_period: { seconds: 10, nanos: 0 },
+          blackout_period: { seconds: 10, nanos: 0 },
+          weight_expiration_period: { seconds: 180, nanos: 0 },
+          weight_update_period: { seconds: 1, nanos: 0 },
+          error_utilization_penalty: 1,
+        },
+      });
+    });
+    it('Should enforce the minimum weight update period', () => {
+      const config = parseLoadBalancingConfig({
+        weighted_round_robin: {
+          weight_update_period: { seconds: 0, nanos: 10_000_000 },
+        },
+      });
+      assert.deepStrictEqual(
+        (config.toJsonObject() as any).weighted_round_robin
+          .weight_update_period,
+        { seconds: 0, nanos: 100_000_000 }
+      );
+    });
+    it('Should reject a negative error utilization penalty', () => {
+      assert.throws(() =>
+        parseLoadBalancingConfig({
+          weighted_round_robin: { error_utilization_penalty: -1 },
+        })
+      );
+    });
+    it('Should reject a malformed duration', () => {
+      assert.throws(() =>
+        parseLoadBalancingConfig({
+          weighted_round_robin: { blackout_period: '10s' },
+        })
+      );
+    });
+  });
+  describe('Load balancing', () => {
+    let servers: TestServer[] = [];
+    let client: ServiceClient | null = null;
+    afterEach(() => {
+      client?.close();
+      client = null;
+      for (const server of servers) {
+        server.shutdown();
+      }
+      servers = [];
+    });
+    function createClient(config: object) {
+      return new EchoService(
+        'ipv4:' + servers.map(server => `127.0.0.1:${server.port}`).join(','),
+        grpc.credentials.createInsecure(),
+        {
+          'grpc.service_config': JSON.stringify({
+            loadBalancingConfig: [{ weighted_round_robin: config }],
+          }),
+        }
+      );
+    }
+    it('Should send more requests to less loaded backends', async () => {
+      servers = await Promise.all([
+        startLoadReportingServer(0.1),
+        startLoadReportingServer(0.9),
+      ]);
+      client = createClient({
+        blackout_period: { seconds: 0, nanos: 0 },
+        weight_update_period: { seconds: 0, nanos: 100_000_000 },
+      });
+      /* Requests sent before both backends are connected can all go to one
+       * of them, so send a second batch to get load reports from both. */
+      await sendRequests(client, 10);
+      await sendRequests(client, 10);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      servers[0].requestCount = 0;
+      servers[1].requestCount = 0;
+      await sendRequests(client, 100);
+      assert(
+        servers[0].requestCount > 80,
+        `Got ${servers[0].requestCount} requests`
+      );
+    });
+    it('Should use round robin until the blackout period ends', async () => {
+      servers = await Promise.all([
+        startLoadReportingServer(0.1),
+        startLoadReportingServer(0.9),
+      ]);
+      client = createClient({
+        weight_update_period: { seconds: 0, nanos: 100_000_000 },
+      });
+      await sendRequests(client, 10);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      servers[0].requestCount = 0;
+      servers[1].requestCount = 0;
+      await sendRequests(client, 100);
+      assert.strictEqual(servers[0].requestCount, 50);
+      assert.strictEqual(servers[1].requestCount, 50);
+    });
+    it('Should use out-of-band load reports', async () => {
+      servers = await Promise.all([
+        startLoadReportingServer(0.1),
+        startLoadReportingServer(0.9),
+      ]);
+      client = createClient({
+        enable_oob_load_report: true,
+        oob_reporting_period: { seconds: 0, nanos: 100_000_000 },
+        blackout_period: { seconds: 0, nanos: 0 },
+        weight_update_period: { seconds: 0, nanos: 100_000_000 },
+      });
+      await sendRequests(client, 2);
+      await new Promise(resolve => setTimeout(resolve, 300));
+      servers[0].requestCount = 0;
+      servers[1].requestCount = 0;
+      await sendRequests(client, 100);
+      assert(
+        servers[0].requestCount > 80,
+        `Got ${servers[0].requestCount} requests`
+      );
+    });
+  });
+});